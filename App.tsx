@@ -11,9 +11,9 @@ import { registerForPushNotificationsAsync } from './src/utils/notifications';
 import * as Notifications from 'expo-notifications';
 import { useRef, useEffect } from 'react';
 import OfflineBanner from './src/components/OfflineBanner';
+import { startPresence } from './src/services/presenceService';
 import { db } from './src/config/firebase';
 import { Snackbar } from 'react-native-paper';
-import firebase from 'firebase/compat/app';
 import { useColorScheme } from 'react-native';
 import { NotificationService, sendPushNotification } from './src/services/notificationService';
 import { RunnerAvailabilityProvider } from './src/contexts/RunnerAvailabilityContext';
@@ -171,36 +171,8 @@ const AppContent = () => {
   }, []);
   
   useEffect(() => {
-    const updateLastSeen = async () => {
-      if (user) {
-        try {
-          await db.collection('users').doc(user.uid).update({
-            lastSeen: firebase.firestore.FieldValue.serverTimestamp(),
-            isOnline: true,
-          });
-        } catch (err: any) {
-          // Silent error handling for production
-        }
-      }
-    };
-    
-    updateLastSeen();
-    
-    // Set up periodic online status updates
-    const onlineInterval = setInterval(updateLastSeen, 30000); // Every 30 seconds
-    
-    return () => {
-      clearInterval(onlineInterval);
-      // Set user as offline when component unmounts
-      if (user) {
-        db.collection('users').doc(user.uid).update({
-          isOnline: false,
-          lastSeen: firebase.firestore.FieldValue.serverTimestamp(),
-        }).catch(() => {
-          // Silent error handling for production
-        });
-      }
-    };
+    if (!user) return;
+    return startPresence(user.uid);
   }, [user]);
   
   return (
@@ -0,0 +1,7 @@
+// Unit tests run anywhere; tests that need Firestore only run inside the
+// emulator (npm run test:emulator) and are skipped otherwise
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/test'],
+};
@@ -0,0 +1,24 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+export function requireAuth(context: functions.https.CallableContext): string {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+  return context.auth.uid;
+}
+
+// Admins either carry an `admin` custom claim or have a document in `admins`,
+// which firestore.rules keep clients from writing
+export async function requireAdmin(context: functions.https.CallableContext): Promise<string> {
+  const uid = requireAuth(context);
+  if (context.auth?.token.admin === true) {
+    return uid;
+  }
+
+  const adminDoc = await admin.firestore().collection('admins').doc(uid).get();
+  if (!adminDoc.exists) {
+    throw new functions.https.HttpsError('permission-denied', 'Admin access required');
+  }
+  return uid;
+}
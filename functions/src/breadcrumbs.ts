@@ -0,0 +1,81 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+const db = () => admin.firestore();
+
+// Runner route chunks written by the app under `{orders|errands}/{jobId}/breadcrumbs`
+export const BREADCRUMBS_COLLECTION = 'breadcrumbs';
+
+// How long a trip's route is kept; the app stamps each chunk's `expiresAt` with this
+export const BREADCRUMB_RETENTION_DAYS = 90;
+
+// Routes of jobs still in dispute are kept this much longer, and checked again then
+export const DISPUTED_BREADCRUMB_HOLD_DAYS = 30;
+
+const PURGE_BATCH_SIZE = 400;
+
+// Pages are purged until none are left or this much of the run has gone,
+// leaving the rest of the 60 second timeout to finish the page in hand
+const PURGE_TIME_BUDGET_MS = 45 * 1000;
+
+const daysFromNow = (days: number) => admin.firestore.Timestamp.fromMillis(Date.now() + days * 24 * 60 * 60 * 1000);
+
+/**
+ * Purge one page of expired route chunks, holding on to those of jobs with
+ * an open dispute. Returns how many chunks were deleted and held.
+ */
+async function purgeExpiredPage(): Promise<{ deleted: number; held: number }> {
+  const expired = await db().collectionGroup(BREADCRUMBS_COLLECTION)
+    .where('expiresAt', '<=', admin.firestore.Timestamp.now())
+    .limit(PURGE_BATCH_SIZE)
+    .get();
+  if (expired.empty) return { deleted: 0, held: 0 };
+
+  const jobRefs = new Map<string, admin.firestore.DocumentReference>();
+  expired.docs.forEach((doc) => {
+    const jobRef = doc.ref.parent.parent;
+    if (jobRef) jobRefs.set(jobRef.path, jobRef);
+  });
+  const jobs = await db().getAll(...jobRefs.values());
+  const disputed = new Set(jobs.filter((job) => job.data()?.disputeStatus === 'open').map((job) => job.ref.path));
+
+  const batch = db().batch();
+  let deleted = 0;
+  expired.docs.forEach((doc) => {
+    if (disputed.has(doc.ref.parent.parent?.path || '')) {
+      batch.update(doc.ref, { expiresAt: daysFromNow(DISPUTED_BREADCRUMB_HOLD_DAYS) });
+    } else {
+      batch.delete(doc.ref);
+      deleted++;
+    }
+  });
+  await batch.commit();
+
+  return { deleted, held: expired.size - deleted };
+}
+
+// Delete expired route chunks, holding on to those of jobs with an open dispute.
+// Held chunks get a later `expiresAt`, so every page moves the query on.
+export const purgeExpiredBreadcrumbs = functions.pubsub
+  .schedule('every 24 hours')
+  .onRun(async () => {
+    const deadline = Date.now() + PURGE_TIME_BUDGET_MS;
+    let deleted = 0;
+    let held = 0;
+    let finished = false;
+
+    while (!finished && Date.now() < deadline) {
+      const page = await purgeExpiredPage();
+      deleted += page.deleted;
+      held += page.held;
+      finished = page.deleted + page.held < PURGE_BATCH_SIZE;
+    }
+
+    if (deleted + held > 0) {
+      console.log(`Purged ${deleted} breadcrumb chunks, held ${held} for open disputes`);
+    }
+    if (!finished) {
+      console.warn('Breadcrumb purge ran out of time, the rest is left for the next run');
+    }
+    return null;
+  });
@@ -0,0 +1,515 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { requireAuth } from './access';
+import { sendInternalPushNotification } from './notifications';
+import { LatLng, distanceKm, isValidLatLng } from './geohash';
+import { getDocumentLocation, queryWithinRadius } from './locationIndex';
+
+const db = () => admin.firestore();
+
+export const DISPATCH_OFFERS_COLLECTION = 'dispatchOffers';
+
+// How long a runner has to accept before the job moves to the next candidate
+export const DISPATCH_OFFER_TIMEOUT_SECONDS = 90;
+// Candidates offered before giving up and telling the buyer
+export const MAX_DISPATCH_ATTEMPTS = 5;
+// Runners further than this from the pickup are not considered
+export const MAX_DISPATCH_RADIUS_KM = 15;
+
+// Relative weight of each factor in a runner's score (sums to 1)
+export const DISPATCH_WEIGHTS = {
+  distance: 0.4,
+  rating: 0.2,
+  fairness: 0.2,
+  vehicle: 0.1,
+  availability: 0.1,
+};
+
+// After this long without a job a runner gets the full fairness score
+const FAIRNESS_WINDOW_HOURS = 12;
+
+// cancelled: the buyer cancelled the errand while it was being offered
+export type DispatchStatus = 'offering' | 'assigned' | 'failed' | 'cancelled';
+
+export type DispatchOfferStatus = 'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+
+type VehicleClass = 'car' | 'motorbike' | 'bicycle' | 'foot';
+
+export interface DispatchCandidate {
+  runnerId: string;
+  score: number;
+  distanceKm: number;
+}
+
+// Errand categories that need room to carry things
+const BULKY_CATEGORIES = ['grocery', 'package', 'laundry'];
+
+const toMillis = (value: any): number | null => {
+  if (!value) return null;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+};
+
+// Runner profiles store the vehicle as free text
+const vehicleClass = (vehicleType: unknown): VehicleClass => {
+  const value = String(vehicleType || '').toLowerCase();
+  if (/car|van|truck|bus/.test(value)) return 'car';
+  if (/bicycle|cycle/.test(value)) return 'bicycle';
+  if (/foot|walk/.test(value)) return 'foot';
+  return 'motorbike';
+};
+
+// How well a vehicle suits the trip: bulky or long errands need more than a bicycle
+const vehicleScore = (vehicle: VehicleClass, tripKm: number, category: string) => {
+  const bulky = BULKY_CATEGORIES.some((name) => category.toLowerCase().includes(name));
+  switch (vehicle) {
+    case 'car':
+      return bulky ? 1 : 0.8;
+    case 'motorbike':
+      return bulky ? 0.8 : 1;
+    case 'bicycle':
+      return tripKm > 8 || bulky ? 0.3 : 0.7;
+    default:
+      return tripKm > 3 || bulky ? 0.1 : 0.5;
+  }
+};
+
+export const errandPickup = (errand: admin.firestore.DocumentData): LatLng | null => {
+  const latitude = Number(errand.pickupCoordinates?.latitude ?? errand.pickupLatitude);
+  const longitude = Number(errand.pickupCoordinates?.longitude ?? errand.pickupLongitude);
+  return latitude && longitude ? { latitude, longitude } : null;
+};
+
+const errandDropoff = (errand: admin.firestore.DocumentData): LatLng | null => {
+  const latitude = Number(errand.dropoffCoordinates?.latitude ?? errand.dropoffLatitude);
+  const longitude = Number(errand.dropoffCoordinates?.longitude ?? errand.dropoffLongitude);
+  return latitude && longitude ? { latitude, longitude } : null;
+};
+
+// Length of the whole errand route, through every stop when the errand has them
+export const errandTripKm = (errand: admin.firestore.DocumentData, pickup: LatLng): number => {
+  const stops: LatLng[] = Array.isArray(errand.stops)
+    ? errand.stops.map((stop: any) => stop.coordinates).filter((point: any) => isValidLatLng(point))
+    : [];
+  const dropoff = errandDropoff(errand);
+  const route = stops.length >= 2 ? stops : dropoff ? [pickup, dropoff] : [];
+  return route.slice(1).reduce((total, point, i) => total + distanceKm(route[i], point), 0);
+};
+
+/**
+ * Score one runner for an errand between 0 and 1, or null when they cannot
+ * take it (offline, busy, too far or without a known location).
+ */
+export function scoreRunner(
+  runner: admin.firestore.DocumentData,
+  pickup: LatLng,
+  tripKm: number,
+  category: string,
+  now: number = Date.now()
+): { score: number; distanceKm: number } | null {
+  const availability = runner.availabilityStatus || runner.status || 'available';
+  if (!['available', 'online'].includes(availability) || runner.isActive === false) return null;
+  if (['busy', 'offline'].includes(runner.status) || runner.currentErrand || runner.currentDeliveryId) return null;
+
+  const location = getDocumentLocation(runner);
+  if (!location) return null;
+  const away = distanceKm(location, pickup);
+  if (away > MAX_DISPATCH_RADIUS_KM) return null;
+
+  const lastAssigned = toMillis(runner.lastAssignedAt);
+  const idleHours = lastAssigned ? (now - lastAssigned) / (60 * 60 * 1000) : FAIRNESS_WINDOW_HOURS;
+  const rating = Number(runner.averageRating ?? runner.rating) || 0;
+
+  const score =
+    DISPATCH_WEIGHTS.distance * (1 - away / MAX_DISPATCH_RADIUS_KM) +
+    // Unrated runners sit in the middle rather than at the bottom
+    DISPATCH_WEIGHTS.rating * (rating > 0 ? rating / 5 : 0.6) +
+    DISPATCH_WEIGHTS.fairness * Math.min(1, Math.max(0, idleHours) / FAIRNESS_WINDOW_HOURS) +
+    DISPATCH_WEIGHTS.vehicle * vehicleScore(vehicleClass(runner.vehicleType), tripKm, category) +
+    DISPATCH_WEIGHTS.availability * (runner.isOnline === false ? 0.5 : 1);
+
+  return { score: Math.round(score * 1000) / 1000, distanceKm: Math.round(away * 100) / 100 };
+}
+
+// Best runners for an errand, highest score first, skipping anyone already offered it
+export async function rankCandidates(errand: admin.firestore.DocumentData, excludeRunnerIds: string[] = []): Promise<DispatchCandidate[]> {
+  const pickup = errandPickup(errand);
+  if (!pickup) return [];
+
+  const tripKm = errandTripKm(errand, pickup);
+  const nearby = await queryWithinRadius(
+    db().collection('users').where('role', '==', 'runner'),
+    pickup,
+    MAX_DISPATCH_RADIUS_KM
+  );
+
+  return nearby
+    .filter((runner) => !excludeRunnerIds.includes(runner.id))
+    .map((runner) => {
+      const result = scoreRunner(runner.data, pickup, tripKm, errand.category || '');
+      return result ? { runnerId: runner.id, ...result } : null;
+    })
+    .filter((candidate): candidate is DispatchCandidate => candidate !== null)
+    // Equal scores go to the closer runner, then by ID so the order is stable
+    .sort((a, b) => b.score - a.score || a.distanceKm - b.distanceKm || a.runnerId.localeCompare(b.runnerId));
+}
+
+// Only errands still waiting for a runner may be offered or accepted
+const DISPATCHABLE_STATUSES = ['pending', 'available'];
+
+const isDispatchable = (errand: admin.firestore.DocumentData | undefined): errand is admin.firestore.DocumentData =>
+  !!errand && !errand.runnerId && DISPATCHABLE_STATUSES.includes(errand.status);
+
+// Errands without a runner go through dispatch; hand-picked ones do not
+export const needsDispatch = (errand: admin.firestore.DocumentData | undefined) =>
+  isDispatchable(errand) && !errand.dispatch;
+
+/**
+ * Offer the errand to the next best runner, or give up once every attempt is
+ * used or nobody is left. Safe to call again for the same attempt: the errand
+ * only moves on when its current offer matches `previousOfferId`.
+ */
+export async function offerNextRunner(errandId: string, previousOfferId: string | null = null) {
+  const errandRef = db().collection('errands').doc(errandId);
+  const errandDoc = await errandRef.get();
+  const errand = errandDoc.data();
+  if (!isDispatchable(errand)) return;
+
+  const dispatch = errand.dispatch || { attempt: 0, triedRunnerIds: [], currentOfferId: null };
+  if (dispatch.status && dispatch.status !== 'offering') return;
+  if ((dispatch.currentOfferId || null) !== previousOfferId) return;
+
+  const candidates = dispatch.attempt < MAX_DISPATCH_ATTEMPTS
+    ? await rankCandidates(errand, dispatch.triedRunnerIds || [])
+    : [];
+  const next = candidates[0];
+  const offerRef = db().collection(DISPATCH_OFFERS_COLLECTION).doc();
+  const expiresAt = admin.firestore.Timestamp.fromMillis(Date.now() + DISPATCH_OFFER_TIMEOUT_SECONDS * 1000);
+
+  const outcome = await db().runTransaction(async (transaction) => {
+    const current = (await transaction.get(errandRef)).data();
+    if (!isDispatchable(current)) return null;
+    if ((current.dispatch?.currentOfferId || null) !== previousOfferId) return null;
+
+    if (!next) {
+      transaction.update(errandRef, {
+        'dispatch.status': 'failed',
+        'dispatch.currentOfferId': null,
+        'dispatch.offeredRunnerId': null,
+        'dispatch.expiresAt': null,
+        'dispatch.failedAt': admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return 'failed' as const;
+    }
+
+    const attempt = (current.dispatch?.attempt || 0) + 1;
+    transaction.create(offerRef, {
+      errandId,
+      runnerId: next.runnerId,
+      status: 'pending',
+      attempt,
+      score: next.score,
+      distanceKm: next.distanceKm,
+      expiresAt,
+      title: errand.title || 'Errand',
+      fee: Number(errand.fees?.payeeAmount ?? errand.fee) || 0,
+      pickupLocation: errand.pickupLocation || null,
+      dropoffLocation: errand.dropoffLocation || null,
+      stopCount: Array.isArray(errand.stops) ? errand.stops.length : 2,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.set(errandRef, {
+      dispatch: {
+        status: 'offering',
+        attempt,
+        currentOfferId: offerRef.id,
+        offeredRunnerId: next.runnerId,
+        triedRunnerIds: admin.firestore.FieldValue.arrayUnion(next.runnerId),
+        expiresAt,
+        startedAt: current.dispatch?.startedAt || admin.firestore.FieldValue.serverTimestamp(),
+      },
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+    return 'offered' as const;
+  });
+
+  if (outcome === 'offered') {
+    await sendInternalPushNotification({
+      userId: next.runnerId,
+      title: 'New Errand Offer',
+      body: `${errand.title || 'An errand'} is ${next.distanceKm} km away. Accept within ${DISPATCH_OFFER_TIMEOUT_SECONDS} seconds.`,
+      type: 'errand',
+      data: { type: 'dispatch_offer', offerId: offerRef.id, errandId },
+    }).catch((error) => console.error(`Error notifying runner ${next.runnerId} of offer:`, error));
+  } else if (outcome === 'failed') {
+    const buyerId = errand.buyerId || errand.userId;
+    if (buyerId) {
+      await sendInternalPushNotification({
+        userId: buyerId,
+        title: 'No Runner Available',
+        body: `We couldn't find a runner for ${errand.title || 'your errand'} right now. You can try again or pick a runner yourself.`,
+        type: 'errand',
+        data: { type: 'dispatch_failed', errandId },
+      }).catch((error) => console.error(`Error notifying buyer ${buyerId} of failed dispatch:`, error));
+    }
+  }
+}
+
+// Withdraw the offers still open for an errand the buyer cancelled (or deleted)
+async function withdrawOffers(errandId: string, errandRef: admin.firestore.DocumentReference, errandExists: boolean) {
+  const open = await db().collection(DISPATCH_OFFERS_COLLECTION)
+    .where('errandId', '==', errandId)
+    .where('status', '==', 'pending')
+    .get();
+
+  const batch = db().batch();
+  open.docs.forEach((doc) => batch.update(doc.ref, {
+    status: 'cancelled',
+    respondedAt: admin.firestore.FieldValue.serverTimestamp(),
+  }));
+  if (errandExists) {
+    batch.update(errandRef, {
+      'dispatch.status': 'cancelled',
+      'dispatch.currentOfferId': null,
+      'dispatch.offeredRunnerId': null,
+      'dispatch.expiresAt': null,
+    });
+  }
+  await batch.commit();
+}
+
+// Start dispatch when an errand is created (or reset) without a runner, and
+// stop it when the errand is cancelled part way through
+export const dispatchErrand = functions.firestore
+  .document('errands/{errandId}')
+  .onWrite(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+
+    if (before?.dispatch?.status === 'offering' && (!after || after.status === 'cancelled')) {
+      await withdrawOffers(context.params.errandId, change.after.ref, !!after);
+      return null;
+    }
+
+    if (!needsDispatch(after)) return null;
+
+    await offerNextRunner(context.params.errandId, null);
+    return null;
+  });
+
+interface DispatchResponseData {
+  offerId: string;
+  accept: boolean;
+}
+
+// Runner accepts or declines the offer in front of them
+export const respondToDispatchOffer = functions.https.onCall(async (data: DispatchResponseData, context: functions.https.CallableContext) => {
+  const uid = requireAuth(context);
+  if (!data?.offerId || typeof data.accept !== 'boolean') {
+    throw new functions.https.HttpsError('invalid-argument', 'Offer ID and a response are required');
+  }
+
+  const offerRef = db().collection(DISPATCH_OFFERS_COLLECTION).doc(data.offerId);
+
+  const { offer, status } = await db().runTransaction(async (transaction) => {
+    const offerDoc = await transaction.get(offerRef);
+    if (!offerDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Offer not found');
+    }
+
+    const current = offerDoc.data()!;
+    if (current.runnerId !== uid) {
+      throw new functions.https.HttpsError('permission-denied', 'This offer was made to another runner');
+    }
+    if (current.status !== 'pending') {
+      throw new functions.https.HttpsError('failed-precondition', `This offer has already been ${current.status}`);
+    }
+
+    const expired = current.expiresAt.toMillis() <= Date.now();
+    const errandRef = db().collection('errands').doc(current.errandId);
+    const [errandDoc, runnerDoc] = await Promise.all([
+      transaction.get(errandRef),
+      transaction.get(db().collection('users').doc(uid)),
+    ]);
+    const errand = errandDoc.data();
+    const stillOffered = isDispatchable(errand) && errand.dispatch?.currentOfferId === offerRef.id;
+
+    if (!data.accept || expired || !stillOffered) {
+      const closed: DispatchOfferStatus = expired ? 'expired' : data.accept ? 'cancelled' : 'declined';
+      transaction.update(offerRef, {
+        status: closed,
+        respondedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return { offer: current, status: closed };
+    }
+
+    const runner = runnerDoc.data() || {};
+    transaction.update(offerRef, {
+      status: 'accepted',
+      respondedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.update(errandRef, {
+      runnerId: uid,
+      runnerName: runner.name || runner.displayName || 'Runner',
+      runnerImage: runner.image || runner.avatar || null,
+      status: 'accepted',
+      acceptedAt: admin.firestore.FieldValue.serverTimestamp(),
+      'dispatch.status': 'assigned',
+      'dispatch.expiresAt': null,
+      'dispatch.assignedAt': admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.update(db().collection('users').doc(uid), {
+      currentErrand: current.errandId,
+      status: 'busy',
+      lastAssignedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { offer: current, status: 'accepted' as DispatchOfferStatus };
+  });
+
+  if (status !== 'accepted') {
+    // A declined or lapsed offer moves on; a cancelled one was already superseded
+    if (status !== 'cancelled') await offerNextRunner(offer.errandId, data.offerId);
+    if (data.accept) {
+      throw new functions.https.HttpsError('deadline-exceeded', 'This offer is no longer available');
+    }
+    return { success: true, status };
+  }
+
+  const buyerId = (await db().collection('errands').doc(offer.errandId).get()).data()?.buyerId;
+  if (buyerId) {
+    await sendInternalPushNotification({
+      userId: buyerId,
+      title: 'Runner Found',
+      body: 'A runner has accepted your errand and is on the way.',
+      type: 'errand',
+      data: { type: 'dispatch_assigned', errandId: offer.errandId },
+    }).catch((error) => console.error(`Error notifying buyer ${buyerId} of assignment:`, error));
+  }
+  return { success: true, status: 'accepted', errandId: offer.errandId };
+});
+
+/**
+ * Runner takes an errand straight from the list: one still open to anyone,
+ * or one the buyer picked them for. The runner is assigned in a transaction,
+ * so two runners cannot take the same errand, and any dispatch offer still
+ * out for it is withdrawn.
+ */
+export const acceptErrand = functions.https.onCall(async (data: { errandId: string }, context: functions.https.CallableContext) => {
+  const uid = requireAuth(context);
+  if (!data?.errandId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Errand ID is required');
+  }
+
+  const errandRef = db().collection('errands').doc(data.errandId);
+  const runnerRef = db().collection('users').doc(uid);
+
+  await db().runTransaction(async (transaction) => {
+    const [errandDoc, runnerDoc] = await Promise.all([transaction.get(errandRef), transaction.get(runnerRef)]);
+    const errand = errandDoc.data();
+    const runner = runnerDoc.data();
+    if (!errand) {
+      throw new functions.https.HttpsError('not-found', 'Errand not found');
+    }
+    if (runner?.role !== 'runner') {
+      throw new functions.https.HttpsError('permission-denied', 'Only runners can accept errands');
+    }
+    if (errand.runnerId && errand.runnerId !== uid) {
+      throw new functions.https.HttpsError('permission-denied', 'This errand was requested from another runner');
+    }
+    if (!DISPATCHABLE_STATUSES.includes(errand.status)) {
+      throw new functions.https.HttpsError('failed-precondition', 'This errand is no longer available');
+    }
+
+    const offerRef = errand.dispatch?.currentOfferId
+      ? db().collection(DISPATCH_OFFERS_COLLECTION).doc(errand.dispatch.currentOfferId)
+      : null;
+    if (offerRef && (await transaction.get(offerRef)).data()?.status === 'pending') {
+      transaction.update(offerRef, {
+        status: 'cancelled',
+        respondedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    transaction.update(errandRef, {
+      runnerId: uid,
+      runnerName: runner.name || runner.displayName || 'Runner',
+      runnerImage: runner.image || runner.avatar || null,
+      status: 'accepted',
+      acceptedAt: admin.firestore.FieldValue.serverTimestamp(),
+      ...(errand.dispatch && {
+        'dispatch.status': 'assigned',
+        'dispatch.currentOfferId': null,
+        'dispatch.offeredRunnerId': null,
+        'dispatch.expiresAt': null,
+        'dispatch.assignedAt': admin.firestore.FieldValue.serverTimestamp(),
+      }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.update(runnerRef, {
+      currentErrand: data.errandId,
+      status: 'busy',
+      lastAssignedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+
+  return { success: true, errandId: data.errandId };
+});
+
+// Buyer restarts dispatch after it gave up
+export const retryDispatch = functions.https.onCall(async (data: { errandId: string }, context: functions.https.CallableContext) => {
+  const uid = requireAuth(context);
+  if (!data?.errandId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Errand ID is required');
+  }
+
+  const errandRef = db().collection('errands').doc(data.errandId);
+  await db().runTransaction(async (transaction) => {
+    const errandDoc = await transaction.get(errandRef);
+    const errand = errandDoc.data();
+    if (!errand) {
+      throw new functions.https.HttpsError('not-found', 'Errand not found');
+    }
+    if ((errand.buyerId || errand.userId) !== uid) {
+      throw new functions.https.HttpsError('permission-denied', 'Only the buyer can retry dispatch');
+    }
+    if (errand.runnerId || errand.dispatch?.status !== 'failed') {
+      throw new functions.https.HttpsError('failed-precondition', 'This errand is not waiting for a runner');
+    }
+
+    // Clearing `dispatch` lets the dispatch trigger start again from scratch
+    transaction.update(errandRef, {
+      dispatch: admin.firestore.FieldValue.delete(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+
+  return { success: true };
+});
+
+// Offers nobody answered in time cascade to the next candidate
+export const expireDispatchOffers = functions.pubsub
+  .schedule('every 1 minutes')
+  .onRun(async () => {
+    const expired = await db().collection(DISPATCH_OFFERS_COLLECTION)
+      .where('status', '==', 'pending')
+      .where('expiresAt', '<=', admin.firestore.Timestamp.now())
+      .limit(100)
+      .get();
+
+    for (const doc of expired.docs) {
+      try {
+        const moved = await db().runTransaction(async (transaction) => {
+          const offer = await transaction.get(doc.ref);
+          if (offer.data()?.status !== 'pending') return false;
+          transaction.update(doc.ref, { status: 'expired', respondedAt: admin.firestore.FieldValue.serverTimestamp() });
+          return true;
+        });
+        if (moved) await offerNextRunner(doc.data().errandId, doc.id);
+      } catch (error) {
+        console.error(`Error expiring dispatch offer ${doc.id}:`, error);
+      }
+    }
+    return null;
+  });
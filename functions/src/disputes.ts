@@ -0,0 +1,387 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { requireAdmin, requireAuth } from './access';
+import { ADJUSTMENTS_ACCOUNT, postLedgerEntries, userAccount } from './ledger';
+import { sendInternalPushNotification } from './notifications';
+import { startRefund } from './refunds';
+
+const db = () => admin.firestore();
+
+export const DISPUTES_COLLECTION = 'disputes';
+
+export type DisputeStatus = 'opened' | 'under_review' | 'resolved_buyer' | 'resolved_seller' | 'resolved_runner';
+
+export type DisputeReason =
+  | 'not_delivered'
+  | 'wrong_item'
+  | 'damaged'
+  | 'missing_items'
+  | 'not_as_described'
+  | 'other';
+
+export type DisputeRole = 'buyer' | 'seller' | 'runner';
+
+export type DisputeJobType = 'order' | 'errand';
+
+export const DISPUTE_REASONS: DisputeReason[] = [
+  'not_delivered',
+  'wrong_item',
+  'damaged',
+  'missing_items',
+  'not_as_described',
+  'other',
+];
+
+// A dispute is reviewed once and resolved in favour of one party
+export const DISPUTE_TRANSITIONS: Record<DisputeStatus, DisputeStatus[]> = {
+  opened: ['under_review', 'resolved_buyer', 'resolved_seller', 'resolved_runner'],
+  under_review: ['resolved_buyer', 'resolved_seller', 'resolved_runner'],
+  resolved_buyer: [],
+  resolved_seller: [],
+  resolved_runner: [],
+};
+
+const MAX_EVIDENCE_PER_SUBMISSION = 6;
+const MAX_STATEMENT_LENGTH = 2000;
+
+const jobCollection = (jobType: DisputeJobType) => (jobType === 'order' ? 'orders' : 'errands');
+
+// Who took part in a job; errands created from the request modal store the buyer as userId
+const getParticipants = (job: any): Record<DisputeRole, string | null> => ({
+  buyer: job.buyerId || job.userId || null,
+  seller: job.sellerId || null,
+  runner: job.runnerId || null,
+});
+
+const roleOf = (participants: Record<DisputeRole, string | null>, uid: string): DisputeRole | null =>
+  (Object.keys(participants) as DisputeRole[]).find((role) => participants[role] === uid) || null;
+
+const validateEvidence = (urls: unknown): string[] => {
+  if (urls === undefined || urls === null) return [];
+  if (!Array.isArray(urls) || urls.length > MAX_EVIDENCE_PER_SUBMISSION || urls.some((url) => typeof url !== 'string' || !/^https:\/\//.test(url))) {
+    throw new functions.https.HttpsError('invalid-argument', `Up to ${MAX_EVIDENCE_PER_SUBMISSION} uploaded photo URLs are allowed`);
+  }
+  return urls;
+};
+
+const validateText = (text: unknown, field: string): string => {
+  const value = typeof text === 'string' ? text.trim() : '';
+  if (!value || value.length > MAX_STATEMENT_LENGTH) {
+    throw new functions.https.HttpsError('invalid-argument', `${field} must be between 1 and ${MAX_STATEMENT_LENGTH} characters`);
+  }
+  return value;
+};
+
+async function notifyParticipants(
+  participants: Record<DisputeRole, string | null>,
+  skipUserId: string | null,
+  title: string,
+  body: string,
+  data: Record<string, any>
+) {
+  const userIds = Array.from(new Set(Object.values(participants).filter((id): id is string => !!id && id !== skipUserId)));
+  await Promise.all(userIds.map((userId) =>
+    sendInternalPushNotification({ userId, title, body, type: 'order', data: { ...data, type: 'dispute' } })
+      .catch((error) => console.error(`Error notifying ${userId} about dispute:`, error))
+  ));
+}
+
+interface OpenDisputeData {
+  jobType: DisputeJobType;
+  jobId: string;
+  reasonCode: DisputeReason;
+  description: string;
+  evidenceUrls?: string[];
+}
+
+// A participant opens a dispute; settlement of the job is frozen until it is resolved
+export const openDispute = functions.https.onCall(async (data: OpenDisputeData, context: functions.https.CallableContext) => {
+  const uid = requireAuth(context);
+  const { jobType, jobId, reasonCode } = data || ({} as OpenDisputeData);
+
+  if (!['order', 'errand'].includes(jobType) || !jobId) {
+    throw new functions.https.HttpsError('invalid-argument', 'A valid order or errand is required');
+  }
+  if (!DISPUTE_REASONS.includes(reasonCode)) {
+    throw new functions.https.HttpsError('invalid-argument', 'A valid reason code is required');
+  }
+  const description = validateText(data.description, 'Description');
+  const evidenceUrls = validateEvidence(data.evidenceUrls);
+
+  const jobRef = db().collection(jobCollection(jobType)).doc(jobId);
+  const disputeRef = db().collection(DISPUTES_COLLECTION).doc();
+  const now = admin.firestore.Timestamp.now();
+
+  const participants = await db().runTransaction(async (transaction) => {
+    const jobDoc = await transaction.get(jobRef);
+    if (!jobDoc.exists) {
+      throw new functions.https.HttpsError('not-found', `${jobType === 'order' ? 'Order' : 'Errand'} not found`);
+    }
+
+    const job = jobDoc.data()!;
+    const jobParticipants = getParticipants(job);
+    const role = roleOf(jobParticipants, uid);
+    if (!role) {
+      throw new functions.https.HttpsError('permission-denied', 'Only people on this job can open a dispute');
+    }
+    if (job.disputeStatus === 'open') {
+      throw new functions.https.HttpsError('already-exists', 'There is already an open dispute for this job');
+    }
+    if (['pending_payment', 'cancelled'].includes(job.status)) {
+      throw new functions.https.HttpsError('failed-precondition', 'This job cannot be disputed');
+    }
+
+    transaction.create(disputeRef, {
+      jobType,
+      jobId,
+      orderId: jobType === 'order' ? jobId : null,
+      errandId: jobType === 'errand' ? jobId : null,
+      participants: jobParticipants,
+      participantIds: Object.values(jobParticipants).filter(Boolean),
+      openedBy: uid,
+      openedByRole: role,
+      reasonCode,
+      description,
+      status: 'opened',
+      statements: [{ userId: uid, role, text: description, evidenceUrls, createdAt: now }],
+      evidence: evidenceUrls.map((url) => ({ url, uploadedBy: uid, role, uploadedAt: now })),
+      timeline: [{ status: 'opened', by: uid, note: null, at: now }],
+      resolution: null,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    transaction.update(jobRef, {
+      disputeId: disputeRef.id,
+      disputeStatus: 'open',
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return jobParticipants;
+  });
+
+  await notifyParticipants(
+    participants,
+    uid,
+    'Dispute Opened',
+    `A dispute was opened on ${jobType === 'order' ? 'an order' : 'an errand'} you were part of. Add your side of the story.`,
+    { disputeId: disputeRef.id, jobType, jobId }
+  );
+
+  return { success: true, disputeId: disputeRef.id };
+});
+
+interface DisputeStatementData {
+  disputeId: string;
+  text: string;
+  evidenceUrls?: string[];
+}
+
+// Buyer, seller or runner adds a statement and photos while the dispute is unresolved
+export const addDisputeStatement = functions.https.onCall(async (data: DisputeStatementData, context: functions.https.CallableContext) => {
+  const uid = requireAuth(context);
+  if (!data?.disputeId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Dispute ID is required');
+  }
+  const text = validateText(data.text, 'Statement');
+  const evidenceUrls = validateEvidence(data.evidenceUrls);
+  const disputeRef = db().collection(DISPUTES_COLLECTION).doc(data.disputeId);
+  const now = admin.firestore.Timestamp.now();
+
+  await db().runTransaction(async (transaction) => {
+    const disputeDoc = await transaction.get(disputeRef);
+    if (!disputeDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Dispute not found');
+    }
+
+    const dispute = disputeDoc.data()!;
+    const role = roleOf(dispute.participants, uid);
+    if (!role) {
+      throw new functions.https.HttpsError('permission-denied', 'Only people on this job can add statements');
+    }
+    if (DISPUTE_TRANSITIONS[dispute.status as DisputeStatus].length === 0) {
+      throw new functions.https.HttpsError('failed-precondition', 'This dispute has been resolved');
+    }
+
+    transaction.update(disputeRef, {
+      statements: admin.firestore.FieldValue.arrayUnion({ userId: uid, role, text, evidenceUrls, createdAt: now }),
+      ...(evidenceUrls.length > 0 && {
+        evidence: admin.firestore.FieldValue.arrayUnion(
+          ...evidenceUrls.map((url) => ({ url, uploadedBy: uid, role, uploadedAt: now }))
+        ),
+      }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+
+  return { success: true };
+});
+
+// Admin picks a dispute up for review
+export const reviewDispute = functions.https.onCall(async (data: { disputeId: string; note?: string }, context: functions.https.CallableContext) => {
+  const adminId = await requireAdmin(context);
+  if (!data?.disputeId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Dispute ID is required');
+  }
+
+  const disputeRef = db().collection(DISPUTES_COLLECTION).doc(data.disputeId);
+  const participants = await db().runTransaction(async (transaction) => {
+    const disputeDoc = await transaction.get(disputeRef);
+    if (!disputeDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Dispute not found');
+    }
+
+    const dispute = disputeDoc.data()!;
+    if (!DISPUTE_TRANSITIONS[dispute.status as DisputeStatus].includes('under_review')) {
+      throw new functions.https.HttpsError('failed-precondition', `Dispute is already '${dispute.status}'`);
+    }
+
+    transaction.update(disputeRef, {
+      status: 'under_review',
+      reviewerId: adminId,
+      timeline: admin.firestore.FieldValue.arrayUnion({
+        status: 'under_review',
+        by: adminId,
+        note: data.note || null,
+        at: admin.firestore.Timestamp.now(),
+      }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return dispute.participants;
+  });
+
+  await notifyParticipants(participants, null, 'Dispute Under Review', 'Our team is now reviewing your dispute.', {
+    disputeId: data.disputeId,
+  });
+  return { success: true, status: 'under_review' };
+});
+
+interface ResolveDisputeData {
+  disputeId: string;
+  outcome: DisputeRole;
+  note: string;
+  refundAmount?: number; // naira refunded to the buyer (orders only)
+  clawbacks?: Array<{ userId: string; amount: number }>;
+}
+
+/**
+ * Admin resolves a dispute in favour of one party. A refund goes back to the
+ * buyer through Paystack and takes the seller's and runner's earnings back in
+ * proportion to the amount refunded; clawbacks debit a seller's or runner's
+ * wallet directly, for disputes resolved without a refund. The refund is
+ * reserved before the dispute is resolved, since resolving lifts the
+ * settlement freeze on the job.
+ */
+export const resolveDispute = functions.https.onCall(async (data: ResolveDisputeData, context: functions.https.CallableContext) => {
+  const adminId = await requireAdmin(context);
+  const { disputeId, outcome } = data || ({} as ResolveDisputeData);
+
+  if (!disputeId || !['buyer', 'seller', 'runner'].includes(outcome)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Dispute ID and outcome are required');
+  }
+  const note = validateText(data.note, 'Resolution note');
+  const refundAmount = data.refundAmount !== undefined ? Number(data.refundAmount) : 0;
+  const clawbacks = (data.clawbacks || []).map((clawback) => ({ userId: clawback.userId, amount: Number(clawback.amount) }));
+  if (!(refundAmount >= 0) || clawbacks.some((clawback) => !clawback.userId || !(clawback.amount > 0))) {
+    throw new functions.https.HttpsError('invalid-argument', 'Refund and clawback amounts must be positive');
+  }
+  if (refundAmount > 0 && clawbacks.length > 0) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      'A refund already takes back the seller\'s and runner\'s share, so it cannot be combined with clawbacks'
+    );
+  }
+
+  const disputeRef = db().collection(DISPUTES_COLLECTION).doc(disputeId);
+  const nextStatus = `resolved_${outcome}` as DisputeStatus;
+
+  const checkResolvable = (disputeDoc: admin.firestore.DocumentSnapshot) => {
+    if (!disputeDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Dispute not found');
+    }
+
+    const current = disputeDoc.data()!;
+    if (!DISPUTE_TRANSITIONS[current.status as DisputeStatus].includes(nextStatus)) {
+      throw new functions.https.HttpsError('failed-precondition', `Dispute cannot move from '${current.status}' to '${nextStatus}'`);
+    }
+    if (refundAmount > 0 && current.jobType !== 'order') {
+      throw new functions.https.HttpsError('failed-precondition', 'Only order disputes can be refunded automatically');
+    }
+    const earners = [current.participants.seller, current.participants.runner];
+    if (clawbacks.some((clawback) => !earners.includes(clawback.userId))) {
+      throw new functions.https.HttpsError('invalid-argument', 'Clawbacks can only be taken from the seller or runner on the job');
+    }
+    return current;
+  };
+
+  // The refund is reserved first; if it cannot be, the dispute stays open and the job frozen
+  const pending = checkResolvable(await disputeRef.get());
+  let refund: Awaited<ReturnType<typeof startRefund>> | null = null;
+  if (refundAmount > 0) {
+    refund = await startRefund({
+      orderId: pending.jobId,
+      amount: refundAmount,
+      reason: `Dispute resolved: ${note}`,
+      requestedBy: adminId,
+      source: 'dispute',
+      refundId: `dispute_${disputeId}`,
+    });
+  }
+
+  const dispute = await db().runTransaction(async (transaction) => {
+    const current = checkResolvable(await transaction.get(disputeRef));
+
+    transaction.update(disputeRef, {
+      status: nextStatus,
+      resolution: {
+        outcome,
+        note,
+        refundAmount,
+        refundId: refund?.refundId || null,
+        clawbacks,
+        resolvedBy: adminId,
+        resolvedAt: admin.firestore.Timestamp.now(),
+      },
+      timeline: admin.firestore.FieldValue.arrayUnion({
+        status: nextStatus,
+        by: adminId,
+        note,
+        at: admin.firestore.Timestamp.now(),
+      }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    transaction.update(db().collection(jobCollection(current.jobType)).doc(current.jobId), {
+      disputeStatus: 'resolved',
+      disputeOutcome: outcome,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return current;
+  });
+
+  for (const clawback of clawbacks) {
+    await postLedgerEntries({
+      id: `dispute_clawback_${disputeId}_${clawback.userId}`,
+      type: 'adjustment',
+      sourceType: 'dispute',
+      sourceId: disputeId,
+      description: `Dispute clawback - ${note}`,
+      lines: [
+        { account: userAccount(clawback.userId), direction: 'debit', amount: clawback.amount },
+        { account: ADJUSTMENTS_ACCOUNT, direction: 'credit', amount: clawback.amount },
+      ],
+      metadata: { disputeId, jobType: dispute.jobType, jobId: dispute.jobId, adminId },
+    });
+  }
+
+  await notifyParticipants(
+    dispute.participants,
+    null,
+    'Dispute Resolved',
+    `The dispute has been resolved in favour of the ${outcome}. ${note}`,
+    { disputeId, outcome }
+  );
+
+  return { success: true, status: nextStatus, refund };
+});
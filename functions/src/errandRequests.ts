@@ -0,0 +1,191 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { requireAuth } from './access';
+import { errandPickup, errandTripKm } from './dispatch';
+import { FeeBreakdown, FeeRules, calculateErrandFees } from './feeRules';
+import { isValidLatLng } from './geohash';
+import { fetchPaystackTransaction, fromKobo, toKobo } from './paystack';
+import { getFeeRules } from './pricing';
+import { refundIfUnmatched } from './refunds';
+import { chargePaymentId } from './webhooks';
+
+const db = () => admin.firestore();
+
+// Longest route an errand can be priced for, as the app checks before quoting
+export const MAX_ERRAND_DISTANCE_KM = 50;
+
+// Errand fields a buyer fills in. Fees, payment and runner fields never come
+// from the app: they are set here, from the fee rules and the verified charge.
+const REQUEST_FIELDS = [
+  'title',
+  'description',
+  'category',
+  'urgency',
+  'budget',
+  'stops',
+  'currentStopId',
+  'pickupLocation',
+  'dropoffLocation',
+  'pickupCoordinates',
+  'dropoffCoordinates',
+  'store',
+  'customer',
+  'items',
+  'estimatedTime',
+];
+
+export const toErrandRequest = (data: Record<string, any>) =>
+  REQUEST_FIELDS.reduce((request, field) => (
+    data[field] === undefined ? request : { ...request, [field]: data[field] }
+  ), {} as Record<string, any>);
+
+export interface PricedErrand {
+  distance: number; // km along the route, to 2 decimal places
+  fee: number;
+  fees: FeeBreakdown;
+}
+
+/**
+ * Price an errand's route with the fee rules, the same way the app quotes it:
+ * from the first pickup through every stop to the dropoff.
+ */
+export function priceErrand(errand: Record<string, any>, rules: FeeRules): PricedErrand {
+  if (!errand.title || !(errand.stops?.length || (errand.pickupLocation && errand.dropoffLocation))) {
+    throw new functions.https.HttpsError('invalid-argument', 'An errand title and route are required');
+  }
+  if (Array.isArray(errand.stops) && !errand.stops.every((stop: any) => isValidLatLng(stop?.coordinates))) {
+    throw new functions.https.HttpsError('invalid-argument', 'Every stop needs a location');
+  }
+
+  const pickup = errandPickup(errand) || errand.stops?.[0]?.coordinates;
+  const distance = isValidLatLng(pickup) ? Math.round(errandTripKm(errand, pickup) * 100) / 100 : 0;
+  if (distance <= 0) {
+    throw new functions.https.HttpsError('invalid-argument', 'The pickup and dropoff need locations');
+  }
+  if (distance > MAX_ERRAND_DISTANCE_KM) {
+    throw new functions.https.HttpsError('invalid-argument', `Errands can be at most ${MAX_ERRAND_DISTANCE_KM}km`);
+  }
+
+  const fees = calculateErrandFees(rules, { distanceKm: distance, errandType: errand.category });
+  return { distance, fee: fees.subtotal, fees };
+}
+
+interface ErrandQuoteData {
+  errand: Record<string, any>;
+}
+
+// Price an errand without creating it, so the app charges exactly what createErrand will accept
+export const quoteErrand = functions.https.onCall(async (data: ErrandQuoteData, context: functions.https.CallableContext) => {
+  requireAuth(context);
+  return priceErrand(toErrandRequest(data?.errand || {}), await getFeeRules());
+});
+
+interface CreateErrandData extends ErrandQuoteData {
+  runnerId?: string | null; // a runner the buyer picked, instead of dispatch
+  reference?: string | null; // the Paystack charge, when paid up front
+}
+
+/**
+ * Create an errand for the signed in buyer, priced on the server. With a
+ * Paystack reference the charge is verified against that price first and the
+ * errand is created paid; without one it waits for payment.
+ */
+export const createErrand = functions.https.onCall(async (data: CreateErrandData, context: functions.https.CallableContext) => {
+  const uid = requireAuth(context);
+  const request = toErrandRequest(data?.errand || {});
+  const priced = priceErrand(request, await getFeeRules());
+
+  let runner: admin.firestore.DocumentData | null = null;
+  if (data.runnerId) {
+    runner = (await db().collection('users').doc(data.runnerId).get()).data() || null;
+    if (runner?.role !== 'runner') {
+      throw new functions.https.HttpsError('not-found', 'Runner not found');
+    }
+  }
+
+  const reference = data.reference || null;
+  const charge = reference ? await fetchPaystackTransaction(reference) : null;
+  if (charge && charge.status !== 'success') {
+    throw new functions.https.HttpsError('failed-precondition', `Transaction failed: ${charge.gateway_response || 'Unknown error'}`);
+  }
+  if (charge?.currency && charge.currency !== 'NGN') {
+    throw new functions.https.HttpsError('failed-precondition', `Unsupported currency ${charge.currency}`);
+  }
+
+  const buyer = (await db().collection('users').doc(uid).get()).data() || {};
+  const buyerName = buyer.name || buyer.displayName || context.auth?.token.name || null;
+  const buyerEmail = buyer.email || context.auth?.token.email || null;
+  const errandRef = db().collection('errands').doc();
+
+  await db().runTransaction(async (transaction) => {
+    const paymentRef = reference ? db().collection('payments').doc(chargePaymentId(reference)) : null;
+
+    if (reference && paymentRef) {
+      // A reference can only ever pay for one checkout or errand
+      const existing = await transaction.get(db().collection('payments').where('reference', '==', reference));
+      if (existing.docs.some((doc) => doc.data().orderIds?.length || doc.data().errandId)) {
+        throw new functions.https.HttpsError('already-exists', 'This payment has already been used');
+      }
+      if (toKobo(priced.fees.total) !== charge.amount) {
+        throw new functions.https.HttpsError(
+          'failed-precondition',
+          `Paid amount ₦${fromKobo(charge.amount)} does not match errand total ₦${priced.fees.total}`
+        );
+      }
+
+      transaction.set(paymentRef, {
+        id: paymentRef.id,
+        reference,
+        status: 'success',
+        ...(!existing.docs.some((doc) => doc.id === paymentRef.id) && {
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        }),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        description: `Payment for errand: ${request.title}`,
+        amount: priced.fees.total,
+        fees: priced.fees,
+        currency: 'NGN',
+        userId: uid,
+        userName: buyerName,
+        userEmail: buyerEmail,
+        paymentMethod: 'paystack',
+        paystackData: charge,
+        errandId: errandRef.id,
+      }, { merge: true });
+    }
+
+    transaction.set(errandRef, {
+      ...request,
+      ...priced,
+      userId: uid,
+      buyerId: uid,
+      userName: buyerName,
+      buyerName,
+      userEmail: buyerEmail,
+      buyerEmail,
+      // Hand-picked errands wait for that runner to accept; the rest go to dispatch
+      status: runner ? 'available' : 'pending',
+      runnerId: runner ? data.runnerId : null,
+      runnerName: runner ? runner.name || runner.displayName || 'Runner' : null,
+      runnerImage: runner ? runner.image || runner.avatar || null : null,
+      acceptedAt: null,
+      completedAt: null,
+      paymentStatus: reference ? 'paid' : 'pending',
+      paymentReference: reference,
+      paymentId: paymentRef?.id || null,
+      paymentMethod: reference ? 'paystack' : null,
+      paymentAmount: reference ? priced.fees.total : null,
+      paidAt: reference ? admin.firestore.FieldValue.serverTimestamp() : null,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }).catch((error) => (reference ? refundIfUnmatched(error, {
+    paymentId: chargePaymentId(reference),
+    reference,
+    amount: fromKobo(charge.amount),
+    userId: uid,
+    paystackData: charge,
+  }) : Promise.reject(error)));
+
+  return { errandId: errandRef.id, ...priced };
+});
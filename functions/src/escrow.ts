@@ -0,0 +1,225 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { requireAuth } from './access';
+import { FeeBreakdown } from './feeRules';
+import { CLEARING_ACCOUNT, ESCROW_ACCOUNT, getErrandFee, isPlatformCollected, nonZeroLines, postLedgerEntries } from './ledger';
+import { canTransitionOrder } from './orderLifecycle';
+import { getVerifiedStatusChange, orderStatusUpdate } from './orderStatus';
+import { sendInternalPushNotification } from './notifications';
+
+const db = () => admin.firestore();
+
+// How long a buyer has to confirm or dispute before the funds are released
+export const ESCROW_AUTO_CONFIRM_HOURS = 48;
+
+const AUTO_CONFIRM_PAGE_SIZE = 200;
+
+export type EscrowStatus = 'held' | 'released' | 'refunded';
+
+export type EscrowJobType = 'order' | 'errand';
+
+// Stored on the order or errand as `escrow`
+export interface EscrowState {
+  status: EscrowStatus;
+  amount: number; // naira moved from clearing into escrow
+  heldAt: admin.firestore.Timestamp;
+  autoConfirmAt?: admin.firestore.Timestamp | null;
+  releasedAt?: admin.firestore.Timestamp | null;
+}
+
+const jobCollection = (jobType: EscrowJobType) => (jobType === 'order' ? 'orders' : 'errands');
+
+// What settlement will later pay out of escrow: everything except the
+// processing fee, which stays in clearing to cover Paystack
+const heldAmountFor = (jobType: EscrowJobType, job: admin.firestore.DocumentData): number => {
+  const fees = job.fees as FeeBreakdown | undefined;
+  if (jobType === 'errand') {
+    return (fees?.subtotal ?? getErrandFee(job)) + (fees?.serviceFee ?? 0);
+  }
+  const subtotal = fees?.subtotal ?? (Number(job.subtotal ?? job.totalAmount) || 0);
+  return subtotal + (fees?.deliveryFee ?? (Number(job.deliveryFee) || 0)) + (fees?.serviceFee ?? 0);
+};
+
+// The buyer has the goods (or the errand is done) and the confirmation clock starts
+const awaitsConfirmation = (jobType: EscrowJobType, job: admin.firestore.DocumentData) =>
+  jobType === 'errand'
+    ? job.status === 'completed' && !job.deliveryConfirmedAt
+    : job.status === 'delivered' || (job.status === 'ready' && job.deliveryOption === 'pickup');
+
+// The clock is stopped while a dispute is open and restarts in full once it is resolved
+const confirmClockRuns = (jobType: EscrowJobType, job: admin.firestore.DocumentData) =>
+  job.disputeStatus !== 'open' && awaitsConfirmation(jobType, job);
+
+const autoConfirmTime = () =>
+  admin.firestore.Timestamp.fromMillis(Date.now() + ESCROW_AUTO_CONFIRM_HOURS * 60 * 60 * 1000);
+
+/**
+ * Move a newly paid job's funds from clearing into escrow, start the
+ * auto-confirm window once the job reaches the buyer, and clear it when a
+ * dispute opens or the job stops waiting for confirmation.
+ */
+async function trackEscrow(
+  jobType: EscrowJobType,
+  jobId: string,
+  before: admin.firestore.DocumentData | undefined,
+  after: admin.firestore.DocumentData | undefined
+) {
+  if (!after || after.status === 'cancelled') return;
+  // Order statuses written around the lifecycle are rolled back by sendOrderNotification
+  if (jobType === 'order' && before && before.status !== after.status && !getVerifiedStatusChange(before, after)) return;
+  const jobRef = db().collection(jobCollection(jobType)).doc(jobId);
+
+  const newlyCollected = isPlatformCollected(after) && (!before || !isPlatformCollected(before));
+  if (newlyCollected && !after.escrow) {
+    const amount = Math.round(heldAmountFor(jobType, after) * 100) / 100;
+    const lines = nonZeroLines([
+      { account: CLEARING_ACCOUNT, direction: 'debit', amount },
+      { account: ESCROW_ACCOUNT, direction: 'credit', amount },
+    ]);
+    if (lines.length < 2) return;
+
+    await postLedgerEntries({
+      id: `${jobType}_escrow_hold_${jobId}`,
+      type: 'escrow_hold',
+      sourceType: jobType,
+      sourceId: jobId,
+      description: `Held until delivery is confirmed - ${jobType} ${jobId.slice(-6).toUpperCase()}`,
+      lines,
+    });
+
+    await jobRef.update({
+      escrow: {
+        status: 'held',
+        amount,
+        heldAt: admin.firestore.Timestamp.now(),
+        autoConfirmAt: confirmClockRuns(jobType, after) ? autoConfirmTime() : null,
+        releasedAt: null,
+      },
+    });
+    return;
+  }
+
+  if (after.escrow?.status !== 'held') return;
+
+  if (after.escrow.autoConfirmAt && !confirmClockRuns(jobType, after)) {
+    await jobRef.update({ 'escrow.autoConfirmAt': null });
+    return;
+  }
+
+  if (!after.escrow.autoConfirmAt && confirmClockRuns(jobType, after) && !(before && confirmClockRuns(jobType, before))) {
+    await jobRef.update({ 'escrow.autoConfirmAt': autoConfirmTime() });
+
+    const buyerId = after.buyerId || after.userId;
+    if (buyerId) {
+      await sendInternalPushNotification({
+        userId: buyerId,
+        title: 'Confirm Delivery',
+        body: `Please confirm you received your ${jobType}. Payment is released automatically in ${ESCROW_AUTO_CONFIRM_HOURS} hours unless you report a problem.`,
+        type: jobType === 'order' ? 'order' : 'errand',
+        data: { type: 'confirm_delivery', jobType, jobId },
+      }).catch((error) => console.error(`Error asking ${buyerId} to confirm delivery:`, error));
+    }
+  }
+}
+
+export const holdOrderFunds = functions.firestore
+  .document('orders/{orderId}')
+  .onWrite(async (change, context) => {
+    await trackEscrow('order', context.params.orderId, change.before.data(), change.after.data());
+    return null;
+  });
+
+export const holdErrandFunds = functions.firestore
+  .document('errands/{errandId}')
+  .onWrite(async (change, context) => {
+    await trackEscrow('errand', context.params.errandId, change.before.data(), change.after.data());
+    return null;
+  });
+
+/**
+ * Confirm a job inside a transaction. Orders move to `completed`; errands are
+ * already `completed` by the runner and are marked as confirmed. Either change
+ * lets the settlement trigger release escrow.
+ */
+async function confirmJob(jobType: EscrowJobType, jobId: string, confirmedBy: string, actor: 'buyer' | 'system') {
+  const jobRef = db().collection(jobCollection(jobType)).doc(jobId);
+
+  return db().runTransaction(async (transaction) => {
+    const jobDoc = await transaction.get(jobRef);
+    if (!jobDoc.exists) {
+      throw new functions.https.HttpsError('not-found', `${jobType === 'order' ? 'Order' : 'Errand'} not found`);
+    }
+
+    const job = jobDoc.data()!;
+    if (actor === 'buyer' && (job.buyerId || job.userId) !== confirmedBy) {
+      throw new functions.https.HttpsError('permission-denied', 'Only the buyer can confirm delivery');
+    }
+    if (job.disputeStatus === 'open') {
+      throw new functions.https.HttpsError('failed-precondition', 'Delivery cannot be confirmed while a dispute is open');
+    }
+    if (!awaitsConfirmation(jobType, job)) {
+      throw new functions.https.HttpsError('failed-precondition', `This ${jobType} is not waiting for confirmation`);
+    }
+    if (jobType === 'order' && !canTransitionOrder(job.status, 'completed', actor)) {
+      throw new functions.https.HttpsError('failed-precondition', `Order cannot move from '${job.status}' to 'completed'`);
+    }
+
+    transaction.update(jobRef, {
+      ...(jobType === 'order' && orderStatusUpdate(job.status, 'completed', actor, actor === 'buyer' ? confirmedBy : null)),
+      deliveryConfirmedAt: admin.firestore.FieldValue.serverTimestamp(),
+      deliveryConfirmedBy: actor === 'buyer' ? confirmedBy : 'auto',
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return job;
+  });
+}
+
+// Buyer confirms they received the order or the errand was done
+export const confirmDelivery = functions.https.onCall(async (data: { jobType: EscrowJobType; jobId: string }, context: functions.https.CallableContext) => {
+  const uid = requireAuth(context);
+  if (!['order', 'errand'].includes(data?.jobType) || !data.jobId) {
+    throw new functions.https.HttpsError('invalid-argument', 'A valid order or errand is required');
+  }
+
+  await confirmJob(data.jobType, data.jobId, uid, 'buyer');
+  return { success: true };
+});
+
+// Release escrow for jobs the buyer neither confirmed nor disputed in time
+export const autoConfirmDeliveries = functions.pubsub
+  .schedule('every 60 minutes')
+  .onRun(async () => {
+    const now = admin.firestore.Timestamp.now();
+
+    for (const jobType of ['order', 'errand'] as EscrowJobType[]) {
+      // Page with a cursor so jobs that are skipped or fail cannot hold back the rest
+      let cursor: admin.firestore.QueryDocumentSnapshot | null = null;
+      let finished = false;
+
+      while (!finished) {
+        let query = db().collection(jobCollection(jobType))
+          .where('escrow.status', '==', 'held')
+          .where('escrow.autoConfirmAt', '<=', now)
+          .orderBy('escrow.autoConfirmAt')
+          .limit(AUTO_CONFIRM_PAGE_SIZE);
+        if (cursor) query = query.startAfter(cursor);
+        const due = await query.get();
+
+        for (const doc of due.docs) {
+          const job = doc.data();
+          if (!confirmClockRuns(jobType, job)) continue;
+
+          try {
+            await confirmJob(jobType, doc.id, 'system', 'system');
+            console.log(`Auto-confirmed ${jobType} ${doc.id}`);
+          } catch (error) {
+            console.error(`Error auto-confirming ${jobType} ${doc.id}:`, error);
+          }
+        }
+
+        cursor = due.docs[due.docs.length - 1] || null;
+        finished = due.size < AUTO_CONFIRM_PAGE_SIZE;
+      }
+    }
+    return null;
+  });
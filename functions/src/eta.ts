@@ -0,0 +1,69 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { sendInternalPushNotification } from './notifications';
+
+const db = () => admin.firestore();
+
+// How far the live ETA may slip past the first estimate before the buyer is told
+export const ETA_LATE_THRESHOLD_MINUTES = 10;
+
+// Live ETAs are kept apart from their jobs, so the runner's frequent updates
+// do not fire the order and errand triggers. Matches src/services/etaService.ts
+export const ETAS_COLLECTION = 'etas';
+
+type EtaJobType = 'order' | 'errand';
+
+// Written to `etas/{jobType}_{jobId}` by the runner's app
+interface JobEta {
+  jobType: EtaJobType;
+  jobId: string;
+  minutes: number;
+  arrivalAt: admin.firestore.Timestamp;
+  promisedArrivalAt: admin.firestore.Timestamp;
+}
+
+const DONE_STATUSES = ['delivered', 'completed', 'cancelled'];
+
+const slipMinutes = (eta: JobEta) =>
+  Math.round((eta.arrivalAt.toMillis() - eta.promisedArrivalAt.toMillis()) / 60000);
+
+/**
+ * Tell the buyer when their runner is running late. An alert goes out each
+ * time the ETA slips a further threshold past the first estimate, and the
+ * slip alerted on is kept with the ETA as `lateAlert`.
+ */
+async function checkRunningLate(change: functions.Change<functions.firestore.DocumentSnapshot>) {
+  const before = change.before.data();
+  const eta = change.after.data() as (JobEta & admin.firestore.DocumentData) | undefined;
+  if (!eta?.arrivalAt || !eta.promisedArrivalAt || !eta.jobId) return;
+  if (before?.arrivalAt && eta.arrivalAt.isEqual(before.arrivalAt)) return;
+
+  const slip = slipMinutes(eta);
+  const alerted = eta.lateAlert?.slipMinutes || 0;
+  if (slip < alerted + ETA_LATE_THRESHOLD_MINUTES) return;
+
+  // The job is only read once an alert is due
+  const job = (await db().collection(eta.jobType === 'order' ? 'orders' : 'errands').doc(eta.jobId).get()).data();
+  if (!job || DONE_STATUSES.includes(job.status)) return;
+
+  await change.after.ref.update({
+    lateAlert: { slipMinutes: slip, sentAt: admin.firestore.FieldValue.serverTimestamp() },
+  });
+
+  const buyerId = job.buyerId || job.userId;
+  if (!buyerId) return;
+  await sendInternalPushNotification({
+    userId: buyerId,
+    title: 'Running Late',
+    body: `Your runner is running about ${slip} minutes behind. They should now arrive in about ${eta.minutes} minutes.`,
+    type: eta.jobType,
+    data: { type: 'eta_delay', jobType: eta.jobType, jobId: eta.jobId, slipMinutes: String(slip) },
+  }).catch((error) => console.error(`Error sending running late alert to ${buyerId}:`, error));
+}
+
+export const notifyRunningLate = functions.firestore
+  .document(`${ETAS_COLLECTION}/{etaId}`)
+  .onWrite(async (change) => {
+    await checkRunningLate(change);
+    return null;
+  });
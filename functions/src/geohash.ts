@@ -0,0 +1,152 @@
+// Geohash encoding and query bounds for nearby searches in Firestore
+// Mirror of src/utils/geohash.ts in the app - keep the two in sync.
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// A [start, end] pair of geohash prefixes to use with orderBy/startAt/endAt
+export type GeohashRange = [string, string];
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE = 111.32;
+
+// Precision stored on documents: about 5 m cells, precise enough for any radius
+export const GEOHASH_PRECISION = 9;
+
+export const isValidLatLng = (point: Partial<LatLng> | null | undefined): point is LatLng =>
+  !!point &&
+  typeof point.latitude === 'number' && typeof point.longitude === 'number' &&
+  point.latitude >= -90 && point.latitude <= 90 &&
+  point.longitude >= -180 && point.longitude <= 180 &&
+  !(point.latitude === 0 && point.longitude === 0);
+
+export const encodeGeohash = (latitude: number, longitude: number, precision: number = GEOHASH_PRECISION): string => {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (longitude >= mid) {
+        value = value * 2 + 1;
+        lngMin = mid;
+      } else {
+        value *= 2;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (latitude >= mid) {
+        value = value * 2 + 1;
+        latMin = mid;
+      } else {
+        value *= 2;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+};
+
+export const distanceKm = (from: LatLng, to: LatLng): number => {
+  const toRad = (value: number) => (value * Math.PI) / 180;
+  const dLat = toRad(to.latitude - from.latitude);
+  const dLng = toRad(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(from.latitude)) * Math.cos(toRad(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Size of one geohash cell in degrees at a given precision
+const cellSize = (precision: number) => {
+  const bits = precision * 5;
+  return {
+    latDegrees: 180 / 2 ** Math.floor(bits / 2),
+    lngDegrees: 360 / 2 ** Math.ceil(bits / 2),
+  };
+};
+
+const wrapLongitude = (longitude: number) => ((((longitude + 180) % 360) + 360) % 360) - 180;
+const clampLatitude = (latitude: number) => Math.max(-90, Math.min(90, latitude));
+
+/**
+ * Geohash ranges that together cover a circle. Uses the finest precision whose
+ * cells are still at least as large as the radius, so the centre cell and its
+ * eight neighbours contain the whole circle. Results must still be filtered by
+ * distance, since the cells reach beyond the circle.
+ */
+export const geohashQueryBounds = (center: LatLng, radiusKm: number): GeohashRange[] => {
+  const lngKmPerDegree = Math.max(0.01, KM_PER_DEGREE * Math.cos((center.latitude * Math.PI) / 180));
+
+  let precision = 1;
+  for (let candidate = GEOHASH_PRECISION; candidate >= 1; candidate--) {
+    const { latDegrees, lngDegrees } = cellSize(candidate);
+    if (latDegrees * KM_PER_DEGREE >= radiusKm && lngDegrees * lngKmPerDegree >= radiusKm) {
+      precision = candidate;
+      break;
+    }
+  }
+
+  const { latDegrees, lngDegrees } = cellSize(precision);
+  const hashes = new Set<string>();
+  for (const latStep of [-1, 0, 1]) {
+    for (const lngStep of [-1, 0, 1]) {
+      hashes.add(encodeGeohash(
+        clampLatitude(center.latitude + latStep * latDegrees),
+        wrapLongitude(center.longitude + lngStep * lngDegrees),
+        precision
+      ));
+    }
+  }
+
+  return Array.from(hashes).sort().map((hash) => [hash, `${hash}~`] as GeohashRange);
+};
+
+export const boundingBoxCenter = (box: BoundingBox): LatLng => ({
+  latitude: (box.north + box.south) / 2,
+  longitude: box.west <= box.east
+    ? (box.west + box.east) / 2
+    : wrapLongitude((box.west + box.east + 360) / 2),
+});
+
+// Radius of the smallest circle around the box's centre that contains the box
+export const boundingBoxRadiusKm = (box: BoundingBox): number => {
+  const center = boundingBoxCenter(box);
+  return Math.max(
+    distanceKm(center, { latitude: box.north, longitude: box.east }),
+    distanceKm(center, { latitude: box.south, longitude: box.west }),
+    distanceKm(center, { latitude: box.north, longitude: box.west }),
+    distanceKm(center, { latitude: box.south, longitude: box.east })
+  );
+};
+
+export const isInBoundingBox = (point: LatLng, box: BoundingBox): boolean => {
+  if (point.latitude > box.north || point.latitude < box.south) return false;
+  return box.west <= box.east
+    ? point.longitude >= box.west && point.longitude <= box.east
+    : point.longitude >= box.west || point.longitude <= box.east;
+};
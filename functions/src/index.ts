@@ -1,43 +1,191 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import { paystackWebhook } from './webhooks';
+import { chargePaymentId, paystackWebhook } from './webhooks';
+import { reviewPayoutRequest } from './payouts';
+import {
+  applyLedgerEntry,
+  postLedgerAdjustment,
+  rebuildWalletBalance,
+  settleCompletedErrand,
+  settleCompletedOrder,
+} from './ledger';
+import { canTransitionOrder } from './orderLifecycle';
+import { getVerifiedStatusChange, rolledBackStatusChange, orderStatusUpdate, updateOrderStatus } from './orderStatus';
+import { fetchPaystackTransaction, fromKobo, toKobo } from './paystack';
+import { CheckoutItemInput, CheckoutQuote, StockReservation, priceCheckout, validateCheckoutItems } from './pricing';
+import { NotificationPreferences, SendNotificationData, sendInternalPushNotification } from './notifications';
+import { refundCancelledOrder, refundIfUnmatched, refundOrder, startRefund } from './refunds';
+import { addDisputeStatement, openDispute, resolveDispute, reviewDispute } from './disputes';
+import { autoConfirmDeliveries, confirmDelivery, holdErrandFunds, holdOrderFunds } from './escrow';
+import { acceptErrand, dispatchErrand, expireDispatchOffers, needsDispatch, respondToDispatchOffer, retryDispatch } from './dispatch';
+import { backfillLocationIndex, indexStoreLocation, indexUserLocation } from './locationIndex';
+import { createErrand, quoteErrand } from './errandRequests';
+import { createErrandSchedule, manageErrandSchedule, runErrandSchedules, skipErrandOccurrence } from './schedules';
+import { errandHandoff, getHandoffCode, orderHandoff, submitProofOfDelivery } from './proofOfDelivery';
+import { purgeExpiredBreadcrumbs } from './breadcrumbs';
+import { notifyRunningLate } from './eta';
+import { syncRunnerUpdates } from './offlineSync';
+import { expirePresence } from './presence';
+import { syncOrderJobChat } from './jobChat';
+import { requireAdmin } from './access';
 
 admin.initializeApp();
 
 // Export the PayStack webhook
 export { paystackWebhook };
 
+// Export the runner/seller payout flow
+export { reviewPayoutRequest };
+
+// Export the wallet ledger: settlement triggers, balance derivation and admin tools
+export { settleCompletedOrder, settleCompletedErrand, applyLedgerEntry, postLedgerAdjustment, rebuildWalletBalance };
+
+// Export refunds: admin-initiated and automatic on cancellation of paid orders
+export { refundOrder, refundCancelledOrder };
+
+// Export the dispute workflow: open, statements, admin review and resolution
+export { openDispute, addDisputeStatement, reviewDispute, resolveDispute };
+
+// Export escrow: hold on payment, buyer confirmation and auto-confirm release
+export { holdOrderFunds, holdErrandFunds, confirmDelivery, autoConfirmDeliveries };
+
+// Export runner dispatch: scored offers with timeouts and re-offers, and runners taking errands directly
+export { dispatchErrand, respondToDispatchOffer, retryDispatch, expireDispatchOffers, acceptErrand };
+
+// Export the geohash index kept on runner, seller and store locations, and its backfill
+export { indexUserLocation, indexStoreLocation, backfillLocationIndex };
+
+// Export errand requests, priced on the server and checked against the charge when paid up front
+export { quoteErrand, createErrand };
+
+// Export scheduled and recurring errands: booking ahead, pause/skip/cancel and release to dispatch
+export { createErrandSchedule, manageErrandSchedule, skipErrandOccurrence, runErrandSchedules };
+
+// Export proof of delivery: handoff codes, photo and signature proof, and the completion checks
+export { getHandoffCode, submitProofOfDelivery, orderHandoff, errandHandoff };
+
+// Export the retention policy for runner route breadcrumbs
+export { purgeExpiredBreadcrumbs };
+
+// Export running late alerts driven by the live ETA
+export { notifyRunningLate };
+
+// Export the replay of runner updates queued while offline
+export { syncRunnerUpdates };
+
+// Export disconnect detection for app presence
+export { expirePresence };
+
+// Export the per-order group chat between buyer, seller and runner
+export { syncOrderJobChat };
+
+// Export order status changes, made on the server on behalf of each party
+export { updateOrderStatus };
+
 interface PaystackVerificationData {
   reference: string;
 }
 
-interface PaymentData {
-  paymentData: any;
-  orderData: any;
+interface CheckoutQuoteData {
+  items: CheckoutItemInput[];
+  deliveryOption?: 'pickup' | 'delivery';
+}
+
+// Only what the buyer picked - prices always come from Firestore
+interface PaymentData extends CheckoutQuoteData {
+  reference: string;
 }
 
 interface PaymentStatusData {
   paymentId: string;
-  status: 'approved' | 'rejected';
+  status: 'approved' | 'rejected' | 'refunded';
+  reason?: string;
 }
 
-// Simple notification interfaces
-interface SendNotificationData {
-  userId: string;
-  title: string;
-  body: string;
-  type?: 'order' | 'message' | 'payment' | 'errand' | 'general';
-  data?: any;
+interface CheckoutOrderOptions {
+  checkoutId: string;
+  buyerId: string;
+  buyer: admin.firestore.DocumentData;
+  deliveryOption: 'pickup' | 'delivery';
+  paymentMethod: 'paystack' | 'cash';
+  paymentId: string | null;
+  paymentReference: string | null;
+  description: string;
 }
 
-interface NotificationPreferences {
-  orders: boolean;
-  messages: boolean;
-  payments: boolean;
-  errands: boolean;
-  general: boolean;
+/**
+ * Create one order per seller in the quote and take the stock it was priced
+ * against. Orders start unpaid: Paystack ones until an admin approves the
+ * payment, cash ones until the buyer pays on delivery.
+ */
+function setCheckoutOrders(
+  tx: admin.firestore.Transaction,
+  quote: CheckoutQuote,
+  reservations: StockReservation,
+  options: CheckoutOrderOptions
+): string[] {
+  const db = admin.firestore();
+  const { buyer, deliveryOption } = options;
+  const orderRefs = quote.orders.map(() => db.collection('orders').doc());
+
+  quote.orders.forEach((order, index) => {
+    const firstItem = order.items[0];
+    tx.set(orderRefs[index], {
+      id: orderRefs[index].id,
+      checkoutId: options.checkoutId,
+      // Single-product fields kept for screens that read them
+      productId: firstItem.productId,
+      productName: order.items.length > 1
+        ? `${firstItem.productName} + ${order.items.length - 1} more`
+        : firstItem.productName,
+      price: firstItem.price,
+      quantity: order.items.reduce((count: number, item) => count + item.quantity, 0),
+      items: order.items,
+      sellerId: order.sellerId,
+      sellerName: order.sellerName,
+      subtotal: order.subtotal,
+      deliveryFee: order.deliveryFee,
+      totalAmount: order.totalAmount,
+      fees: order.fees,
+      buyerId: options.buyerId,
+      buyerName: buyer.name || buyer.displayName || null,
+      buyerEmail: buyer.email || null,
+      deliveryOption,
+      status: 'confirmed',
+      statusHistory: [
+        {
+          status: 'confirmed',
+          timestamp: new Date().toISOString(),
+          description: options.description,
+        },
+      ],
+      paid: false, // Set once an admin approves the payment
+      paymentId: options.paymentId,
+      paymentReference: options.paymentReference,
+      paymentMethod: options.paymentMethod,
+      paymentStatus: 'pending', // Track payment status in order
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+
+  Object.entries(reservations).forEach(([productId, quantity]) => {
+    tx.update(db.collection('products').doc(productId), {
+      stockLevel: admin.firestore.FieldValue.increment(-quantity),
+    });
+  });
+
+  return orderRefs.map((ref) => ref.id);
 }
 
+// Summary of each order created, as the checkout screen shows them
+const createdOrders = (quote: CheckoutQuote, orderIds: string[]) => quote.orders.map((order, index) => ({
+  orderId: orderIds[index],
+  sellerId: order.sellerId,
+  sellerName: order.sellerName,
+  productName: order.items[0].productName,
+  totalAmount: order.totalAmount,
+}));
+
 // Paystack verification function
 export const verifyPaystackTransaction = functions.https.onCall(async (data: PaystackVerificationData, context: functions.https.CallableContext) => {
   // Check if user is authenticated
@@ -52,40 +200,20 @@ export const verifyPaystackTransaction = functions.https.onCall(async (data: Pay
   }
 
   try {
-    // Get Paystack secret key from environment variables
-    const paystackSecretKey = functions.config().paystack?.secret_key;
-    
-    if (!paystackSecretKey) {
-      throw new functions.https.HttpsError('internal', 'Paystack configuration not found');
-    }
-
-    // Call Paystack verify API
-    const response = await fetch(`https://api.paystack.co/transaction/verify/${reference}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${paystackSecretKey}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    const result = await response.json();
-
-    if (!response.ok) {
-      throw new functions.https.HttpsError('internal', `Paystack API error: ${result.message || 'Unknown error'}`);
-    }
+    const transaction = await fetchPaystackTransaction(reference);
 
     // Check if transaction was successful
-    if (result.data.status === 'success') {
+    if (transaction.status === 'success') {
       return {
         success: true,
-        data: result.data,
+        data: transaction,
         message: 'Transaction verified successfully'
       };
     } else {
       return {
         success: false,
-        data: result.data,
-        message: `Transaction failed: ${result.data.gateway_response || 'Unknown error'}`
+        data: transaction,
+        message: `Transaction failed: ${transaction.gateway_response || 'Unknown error'}`
       };
     }
 
@@ -95,92 +223,212 @@ export const verifyPaystackTransaction = functions.https.onCall(async (data: Pay
   }
 });
 
-// Function to process successful payments
+// Price a checkout without placing it, so the app charges exactly what the server will accept
+export const quoteCheckout = functions.https.onCall(async (data: CheckoutQuoteData, context: functions.https.CallableContext) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const items = validateCheckoutItems(data?.items);
+  const { quote } = await priceCheckout(items, data.deliveryOption === 'pickup' ? 'pickup' : 'delivery');
+  return quote;
+});
+
+// Function to process successful payments: re-prices the checkout from
+// Firestore, checks it against the verified Paystack amount and only then
+// creates one order per seller, all sharing the same payment. A charge the
+// checkout can no longer honour is refunded rather than left unmatched
 export const processSuccessfulPayment = functions.https.onCall(async (data: PaymentData, context: functions.https.CallableContext) => {
   // Check if user is authenticated
   if (!context.auth) {
     throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
   }
 
-  const { paymentData, orderData } = data;
+  const { reference } = data || {};
+  const deliveryOption = data?.deliveryOption === 'pickup' ? 'pickup' : 'delivery';
 
-  if (!paymentData || !orderData) {
-    throw new functions.https.HttpsError('invalid-argument', 'Payment and order data are required');
+  if (!reference) {
+    throw new functions.https.HttpsError('invalid-argument', 'Transaction reference is required');
   }
+  const items = validateCheckoutItems(data.items);
+  const buyerId = context.auth.uid;
 
   try {
+    const transaction = await fetchPaystackTransaction(reference);
+    if (transaction.status !== 'success') {
+      throw new functions.https.HttpsError('failed-precondition', `Transaction failed: ${transaction.gateway_response || 'Unknown error'}`);
+    }
+    if (transaction.currency && transaction.currency !== 'NGN') {
+      throw new functions.https.HttpsError('failed-precondition', `Unsupported currency ${transaction.currency}`);
+    }
+
     const db = admin.firestore();
-    const batch = db.batch();
+    const buyerDoc = await db.collection('users').doc(buyerId).get();
+    const buyer = buyerDoc.data() || {};
+
+    const result = await db.runTransaction(async (tx) => {
+      // A reference can only ever pay for one checkout or errand (the webhook may
+      // already have logged the charge on the same payment, which is fine)
+      const paymentRef = db.collection('payments').doc(chargePaymentId(reference));
+      const existing = await tx.get(db.collection('payments').where('reference', '==', reference));
+      if (existing.docs.some((doc) => doc.data().orderIds?.length || doc.data().errandId)) {
+        throw new functions.https.HttpsError('already-exists', 'This payment has already been used');
+      }
 
-    // Create payment record with status 'pending' for admin review
-    const paymentRef = db.collection('payments').doc();
-    batch.set(paymentRef, {
-      ...paymentData,
-      id: paymentRef.id,
-      status: 'pending', // Admin will approve/reject this
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
-      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-      // Add fields that admin dashboard expects
-      description: `Payment for order: ${orderData.productName}`,
-      // Ensure all required fields are present
-      amount: paymentData.amount,
-      currency: paymentData.currency || 'NGN',
-      userId: paymentData.userId,
-      userName: paymentData.userName,
-      userEmail: paymentData.userEmail,
-      paymentMethod: paymentData.paymentMethod || 'paystack',
-      orderId: null, // Will be updated after order is created
-    });
+      const { quote, reservations } = await priceCheckout(items, deliveryOption, (ref) => tx.get(ref));
 
-    // Create order record (but mark as unpaid until admin approves payment)
-    const orderRef = db.collection('orders').doc();
-    batch.set(orderRef, {
-      ...orderData,
-      id: orderRef.id,
-      paid: false, // Will be set to true when admin approves payment
-      paymentId: paymentRef.id,
-      paymentStatus: 'pending', // Track payment status in order
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
-    });
+      if (toKobo(quote.total) !== transaction.amount) {
+        throw new functions.https.HttpsError(
+          'failed-precondition',
+          `Paid amount ₦${fromKobo(transaction.amount)} does not match order total ₦${quote.total}`
+        );
+      }
 
-    // Update payment with orderId
-    batch.update(paymentRef, { orderId: orderRef.id });
+      const orderIds = setCheckoutOrders(tx, quote, reservations, {
+        checkoutId: reference,
+        buyerId,
+        buyer,
+        deliveryOption,
+        paymentMethod: 'paystack',
+        paymentId: paymentRef.id,
+        paymentReference: reference,
+        description: `Order received and payment confirmed. Being prepared for ${deliveryOption}.`,
+      });
 
-    // Commit the batch
-    await batch.commit();
+      // Create payment record with status 'pending' for admin review
+      tx.set(paymentRef, {
+        id: paymentRef.id,
+        reference,
+        status: 'pending', // Admin will approve/reject this
+        ...(!existing.docs.some((doc) => doc.id === paymentRef.id) && {
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        }),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        description: quote.orders.length > 1
+          ? `Payment for ${quote.orders.length} orders`
+          : `Payment for order: ${quote.orders[0].items[0].productName}`,
+        amount: quote.total,
+        fees: quote.breakdown,
+        currency: 'NGN',
+        userId: buyerId,
+        userName: buyer.name || buyer.displayName || context.auth?.token.name || null,
+        userEmail: buyer.email || context.auth?.token.email || null,
+        paymentMethod: 'paystack',
+        paystackData: transaction,
+        orderId: orderIds[0],
+        orderIds,
+      }, { merge: true });
+
+      return {
+        paymentId: paymentRef.id,
+        orders: createdOrders(quote, orderIds),
+        orderIds,
+      };
+    }).catch((error) => refundIfUnmatched(error, {
+      // Prices or stock changed while the buyer was paying
+      paymentId: chargePaymentId(reference),
+      reference,
+      amount: fromKobo(transaction.amount),
+      userId: buyerId,
+      paystackData: transaction,
+    }));
 
     return {
       success: true,
-      paymentId: paymentRef.id,
-      orderId: orderRef.id,
+      paymentId: result.paymentId,
+      orderId: result.orderIds[0],
+      orderIds: result.orderIds,
+      orders: result.orders,
       message: 'Payment submitted for review. Order will be processed after payment approval.'
     };
 
   } catch (error) {
     console.error('Payment processing error:', error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
     throw new functions.https.HttpsError('internal', 'Failed to process payment');
   }
 });
 
-// Function for admin to approve/reject payments
-export const updatePaymentStatus = functions.https.onCall(async (data: PaymentStatusData, context: functions.https.CallableContext) => {
-  // Check if user is authenticated and is admin
+// Place a pay-on-delivery checkout, priced from Firestore like a paid one
+export const placeCashOrder = functions.https.onCall(async (data: CheckoutQuoteData, context: functions.https.CallableContext) => {
   if (!context.auth) {
     throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
   }
 
-  
-  // const userDoc = await admin.firestore().collection('admins').doc(context.auth.uid).get();
-  // if (!userDoc.exists) {
-  //   throw new functions.https.HttpsError('permission-denied', 'Admin access required');
-  // }
+  const items = validateCheckoutItems(data?.items);
+  const deliveryOption = data.deliveryOption === 'pickup' ? 'pickup' : 'delivery';
+  const buyerId = context.auth.uid;
+
+  const db = admin.firestore();
+  const buyer = (await db.collection('users').doc(buyerId).get()).data() || {};
+
+  const result = await db.runTransaction(async (tx) => {
+    const { quote, reservations } = await priceCheckout(items, deliveryOption, (ref) => tx.get(ref));
+    const orderIds = setCheckoutOrders(tx, quote, reservations, {
+      checkoutId: db.collection('orders').doc().id,
+      buyerId,
+      buyer,
+      deliveryOption,
+      paymentMethod: 'cash',
+      paymentId: null,
+      paymentReference: null,
+      description: `Order received and is being prepared for ${deliveryOption}.`,
+    });
+    return { orders: createdOrders(quote, orderIds), orderIds };
+  });
+
+  return {
+    success: true,
+    orderId: result.orderIds[0],
+    orderIds: result.orderIds,
+    orders: result.orders,
+  };
+});
+
+// Function for admin to approve/reject payments
+export const updatePaymentStatus = functions.https.onCall(async (data: PaymentStatusData, context: functions.https.CallableContext) => {
+  // Approving a payment releases its orders into escrow and settlement, so
+  // every decision is an admin's
+  const adminId = await requireAdmin(context);
 
   const { paymentId, status } = data;
 
-  if (!paymentId || !['approved', 'rejected'].includes(status)) {
+  if (!paymentId || !['approved', 'rejected', 'refunded'].includes(status)) {
     throw new functions.https.HttpsError('invalid-argument', 'Valid payment ID and status are required');
   }
 
+  // Refunding a payment refunds whatever is left on each of its orders; the
+  // payment's refund status then follows the refund webhooks
+  if (status === 'refunded') {
+    const paymentDoc = await admin.firestore().collection('payments').doc(paymentId).get();
+    if (!paymentDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Payment not found');
+    }
+
+    const paymentData = paymentDoc.data();
+    const orderIds: string[] = paymentData?.orderIds || (paymentData?.orderId ? [paymentData.orderId] : []);
+    const refunds = [];
+    for (const orderId of orderIds) {
+      const order = (await admin.firestore().collection('orders').doc(orderId).get()).data();
+      const refundable = (Number(order?.totalAmount) || 0) - (order?.refundedAmount || 0) - (order?.refundPendingAmount || 0);
+      if (refundable <= 0) continue;
+      refunds.push(await startRefund({
+        orderId,
+        reason: data.reason || 'Payment refunded',
+        requestedBy: adminId,
+        source: 'admin',
+      }));
+    }
+
+    return {
+      success: true,
+      refunds,
+      message: refunds.length ? `Started ${refunds.length} refund(s)` : 'Nothing left to refund',
+    };
+  }
+
   try {
     const db = admin.firestore();
     const batch = db.batch();
@@ -199,17 +447,26 @@ export const updatePaymentStatus = functions.https.onCall(async (data: PaymentSt
     }
 
     const paymentData = paymentDoc.data();
-    const orderId = paymentData?.orderId;
+    const orderIds: string[] = paymentData?.orderIds || (paymentData?.orderId ? [paymentData.orderId] : []);
 
-    if (orderId) {
+    for (const orderId of orderIds) {
       const orderRef = db.collection('orders').doc(orderId);
+      const orderDoc = await orderRef.get();
+      const nextStatus = status === 'approved' ? 'preparing' : 'cancelled';
+
+      if (!canTransitionOrder(orderDoc.data()?.status, nextStatus, 'system')) {
+        throw new functions.https.HttpsError(
+          'failed-precondition',
+          `Order cannot move from '${orderDoc.data()?.status}' to '${nextStatus}'`
+        );
+      }
       
       if (status === 'approved') {
         // Mark order as paid and update status
         batch.update(orderRef, {
           paid: true,
           paymentStatus: 'approved',
-          status: 'preparing', // Start processing the order
+          ...orderStatusUpdate(orderDoc.data()?.status, 'preparing', 'system', adminId), // Start processing the order
           updatedAt: admin.firestore.FieldValue.serverTimestamp(),
         });
       } else if (status === 'rejected') {
@@ -217,7 +474,7 @@ export const updatePaymentStatus = functions.https.onCall(async (data: PaymentSt
         batch.update(orderRef, {
           paid: false,
           paymentStatus: 'rejected',
-          status: 'cancelled',
+          ...orderStatusUpdate(orderDoc.data()?.status, 'cancelled', 'system', adminId),
           updatedAt: admin.firestore.FieldValue.serverTimestamp(),
         });
       }
@@ -233,98 +490,13 @@ export const updatePaymentStatus = functions.https.onCall(async (data: PaymentSt
 
   } catch (error) {
     console.error('Payment status update error:', error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
     throw new functions.https.HttpsError('internal', 'Failed to update payment status');
   }
 }); 
 
-// Internal function to send push notification (for use within Cloud Functions)
-async function sendInternalPushNotification(data: SendNotificationData): Promise<{ success: boolean; message: string }> {
-  const { userId, title, body, type = 'general', data: notificationData = {} } = data;
-
-  if (!userId || !title || !body) {
-    throw new Error('User ID, title, and body are required');
-  }
-
-  try {
-    const db = admin.firestore();
-    
-    // Get user's push token and preferences
-    const userDoc = await db.collection('users').doc(userId).get();
-    if (!userDoc.exists) {
-      throw new Error('User not found');
-    }
-
-    const userData = userDoc.data();
-    const pushToken = userData?.expoPushToken;
-    const preferences = userData?.notificationPreferences || {
-      orders: true,
-      messages: true,
-      payments: true,
-      errands: true,
-      general: true,
-    };
-
-    // Check if user has enabled notifications for this type
-    if (!preferences[type as keyof NotificationPreferences]) {
-      return { success: true, message: 'Notification skipped (disabled by user)' };
-    }
-
-    if (!pushToken) {
-      return { success: true, message: 'No push token available' };
-    }
-
-    // Send push notification via Expo
-    const response = await fetch('https://exp.host/--/api/v2/push/send', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        to: pushToken,
-        title,
-        body,
-        data: { ...notificationData, type },
-        sound: 'default',
-        priority: 'high',
-        channelId: type === 'order' ? 'orders' : 
-                   type === 'message' ? 'messages' : 
-                   type === 'payment' ? 'payments' : 
-                   type === 'errand' ? 'errands' : 'default',
-      }),
-    });
-
-    const result = await response.json();
-    
-    if (result.errors) {
-      console.error('Push notification errors:', result.errors);
-      // Handle invalid tokens
-      if (result.errors.some((error: any) => error.code === 'DeviceNotRegistered')) {
-        await db.collection('users').doc(userId).update({
-          expoPushToken: null,
-          tokenUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        });
-      }
-      throw new Error('Failed to send push notification');
-    }
-
-    // Save notification to Firestore
-    await db.collection('users').doc(userId).collection('notifications').add({
-      title,
-      message: body,
-      type,
-      status: 'unread',
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
-      data: notificationData,
-    });
-
-    return { success: true, message: 'Notification sent successfully' };
-
-  } catch (error) {
-    console.error('Error sending push notification:', error);
-    throw new Error('Failed to send notification');
-  }
-}
-
 // HTTP callable function to send push notification (for client-side calls)
 export const sendPushNotification = functions.https.onCall(async (data: SendNotificationData, context: functions.https.CallableContext) => {
   // Check if user is authenticated
@@ -377,6 +549,33 @@ export const sendOrderNotification = functions.firestore
       return null;
     }
 
+    // Skip the write-back produced by our own rollback below
+    const rejected = after.rejectedStatusTransition;
+    if (rejected && rejected.from === after.status && rejected.to === before.status) {
+      return null;
+    }
+
+    // Roll back any status written by a client directly (e.g. an outdated app)
+    // rather than through updateOrderStatus or another function. Delivery is
+    // only recorded by submitProofOfDelivery, which stores the proof.
+    const statusChange = getVerifiedStatusChange(before, after);
+    const missingProof = after.status === 'delivered' && !after.proofOfDelivery;
+    if (!statusChange || !canTransitionOrder(before.status, after.status, statusChange.actor) || missingProof) {
+      console.warn(`Rejected order ${orderId} transition ${before.status} -> ${after.status} by ${statusChange?.actor || 'unverified writer'}`);
+      await change.after.ref.update({
+        status: before.status,
+        statusChange: rolledBackStatusChange(after.status, before.status),
+        rejectedStatusTransition: {
+          from: before.status,
+          to: after.status,
+          actor: statusChange?.actor || null,
+          reason: !statusChange ? 'unverified_writer' : missingProof ? 'proof_of_delivery_required' : 'invalid_transition',
+          rejectedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+      });
+      return null;
+    }
+
     try {
       const userId = after.userId || after.buyerId;
 
@@ -425,13 +624,39 @@ export const sendOrderNotification = functions.firestore
     }
   });
 
-// Function to send notification when new message is received
+// Matches getMessagePreview in src/services/chatService.ts
+const getMessagePreview = (message: any): string => {
+  const caption = (message?.content || '').trim();
+  switch (message?.type) {
+    case 'image':
+      return caption ? `📷 ${caption}` : '📷 Photo';
+    case 'voice': {
+      const seconds = Math.round((message.voice?.durationMs || 0) / 1000);
+      return message.voice
+        ? `🎤 Voice note (${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')})`
+        : '🎤 Voice note';
+    }
+    case 'location':
+      return `📍 ${message.location?.address || 'Shared location'}`;
+    case 'job_card':
+      return `📦 ${message.jobCard?.title || 'Shared job'}`;
+    case 'file':
+      return caption ? `📎 ${caption}` : '📎 File';
+    default:
+      return message?.content || '';
+  }
+};
+
+// The only push sent for chat messages; clients just write the message
 export const sendMessageNotification = functions.firestore
   .document('chats/{chatId}/messages/{messageId}')
   .onCreate(async (snap, context) => {
     const messageData = snap.data();
     const chatId = context.params.chatId;
 
+    // Order status updates in job chats already get their own pushes
+    if (messageData?.type === 'system') return null;
+
     try {
       const db = admin.firestore();
       
@@ -451,7 +676,7 @@ export const sendMessageNotification = functions.firestore
           await sendInternalPushNotification({
             userId: participantId,
             title: `Message from ${messageData?.senderName || 'Someone'}`,
-            body: messageData?.text || 'New message received',
+            body: getMessagePreview(messageData) || 'New message received',
             type: 'message',
             data: { chatId, messageId: snap.id },
           });
@@ -466,13 +691,18 @@ export const sendMessageNotification = functions.firestore
     }
   });
 
-// Function to send notification when new errand is created
+// Tell online runners about a new errand that dispatch is not offering around
 export const sendErrandNotification = functions.firestore
   .document('errands/{errandId}')
   .onCreate(async (snap, context) => {
     const errandData = snap.data();
     const errandId = context.params.errandId;
 
+    // Dispatch offers these to one runner at a time; telling everyone would undercut it
+    if (needsDispatch(errandData)) {
+      return null;
+    }
+
     try {
       const db = admin.firestore();
       
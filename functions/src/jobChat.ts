@@ -0,0 +1,147 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { ORDER_STATUS_LABELS, isTerminalOrderStatus, normalizeOrderStatus } from './orderLifecycle';
+import { getVerifiedStatusChange } from './orderStatus';
+
+const db = () => admin.firestore();
+
+// Every order gets a group chat between buyer, seller and runner once a runner
+// is assigned. Status changes are posted into it as system messages, and it is
+// archived read-only when the order is completed or cancelled.
+
+// Matches jobChatId in src/services/chatService.ts
+export const jobChatId = (jobType: 'order' | 'errand', jobId: string) => `job_${jobType}_${jobId}`;
+
+const SYSTEM_SENDER = 'system';
+
+const orderParticipants = (order: admin.firestore.DocumentData): string[] =>
+  Array.from(new Set([order.buyerId || order.userId, order.sellerId, order.runnerId].filter(Boolean)));
+
+const orderTitle = (orderId: string, order: admin.firestore.DocumentData) =>
+  `Order #${order.orderNumber || orderId.slice(-6).toUpperCase()}`;
+
+// Orders only carry the runner's id, so the name comes from their profile
+const runnerName = async (order: admin.firestore.DocumentData, fallback: string): Promise<string> => {
+  if (order.runnerName) return order.runnerName;
+  const runner = (await db().collection('users').doc(order.runnerId).get()).data();
+  return runner?.name || runner?.displayName || fallback;
+};
+
+/**
+ * Add a system message to a job chat, counting it as unread for everyone.
+ * `chatUpdate` is applied in the same batch.
+ */
+function postSystemMessage(
+  batch: admin.firestore.WriteBatch,
+  chatRef: admin.firestore.DocumentReference,
+  participants: string[],
+  content: string,
+  chatUpdate: Record<string, any> = {}
+) {
+  const timestamp = admin.firestore.FieldValue.serverTimestamp();
+  const messageRef = chatRef.collection('messages').doc();
+  const message = {
+    senderId: SYSTEM_SENDER,
+    senderName: 'Update',
+    receiverId: null,
+    content,
+    type: 'system',
+    timestamp,
+    read: false,
+    deliveredAt: null,
+    readAt: null,
+    // Crossed off by each participant's app, as for messages they send each other
+    undeliveredTo: participants,
+    unreadBy: participants,
+  };
+  batch.set(messageRef, message);
+  batch.update(chatRef, {
+    ...chatUpdate,
+    lastMessage: { ...message, id: messageRef.id },
+    lastMessageTime: timestamp,
+    ...Object.fromEntries(participants.map((id) => [`unreadCounts.${id}`, admin.firestore.FieldValue.increment(1)])),
+  });
+}
+
+async function syncOrderChat(
+  orderId: string,
+  before: admin.firestore.DocumentData | undefined,
+  after: admin.firestore.DocumentData | undefined
+) {
+  if (!after) return;
+  const chatRef = db().collection('chats').doc(jobChatId('order', orderId));
+  const chatDoc = await chatRef.get();
+  const chat = chatDoc.data();
+
+  if (!chatDoc.exists) {
+    // Orders closed before a runner came along never get a chat
+    const status = normalizeOrderStatus(after.status);
+    if (!after.runnerId || (status && isTerminalOrderStatus(status))) return;
+
+    const participants = orderParticipants(after);
+    const batch = db().batch();
+    batch.set(chatRef, {
+      kind: 'job',
+      jobType: 'order',
+      jobId: orderId,
+      title: orderTitle(orderId, after),
+      participants,
+      unreadCounts: Object.fromEntries(participants.map((id) => [id, 0])),
+      archived: false,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      lastMessageTime: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    postSystemMessage(batch, chatRef, participants,
+      `${await runnerName(after, 'A runner')} has been assigned. Buyer, store and runner can talk here about this order.`);
+    await batch.commit();
+    return;
+  }
+
+  if (!chat || chat.archived) return;
+
+  const batch = db().batch();
+  let participants: string[] = chat.participants || [];
+  let changed = false;
+
+  // A dropped job keeps its old runner in the chat until someone else picks it up
+  if (after.runnerId && !participants.includes(after.runnerId)) {
+    const removed = participants.filter((id) => !orderParticipants(after).includes(id));
+    participants = orderParticipants(after);
+    const update: Record<string, any> = { participants, [`unreadCounts.${after.runnerId}`]: 0 };
+    removed.forEach((id) => {
+      update[`unreadCounts.${id}`] = admin.firestore.FieldValue.delete();
+    });
+    batch.update(chatRef, update);
+    postSystemMessage(batch, chatRef, participants, `${await runnerName(after, 'A new runner')} is now handling this order.`);
+    changed = true;
+  }
+
+  // Only changes made through the lifecycle; others are rolled back
+  const status = getVerifiedStatusChange(before, after) ? normalizeOrderStatus(after.status) : null;
+  if (status && status !== normalizeOrderStatus(before?.status)) {
+    const closing = isTerminalOrderStatus(status);
+    postSystemMessage(
+      batch,
+      chatRef,
+      participants,
+      closing
+        ? `Order ${ORDER_STATUS_LABELS[status].toLowerCase()}. This chat is now read-only.`
+        : `Order status: ${ORDER_STATUS_LABELS[status]}`,
+      closing ? { archived: true, archivedAt: admin.firestore.FieldValue.serverTimestamp() } : {}
+    );
+    changed = true;
+  }
+
+  if (changed) await batch.commit();
+}
+
+export const syncOrderJobChat = functions.firestore
+  .document('orders/{orderId}')
+  .onWrite(async (change, context) => {
+    try {
+      await syncOrderChat(context.params.orderId, change.before.data(), change.after.data());
+    } catch (error) {
+      console.error(`Error updating job chat for order ${context.params.orderId}:`, error);
+    }
+    return null;
+  });
@@ -0,0 +1,498 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { requireAdmin } from './access';
+import { FeeBreakdown, calculateErrandCommission, calculateOrderCommission } from './feeRules';
+import { getFeeRules } from './pricing';
+import { getVerifiedStatusChange } from './orderStatus';
+
+const db = () => admin.firestore();
+
+// Append-only: entries are only ever created, corrections are new postings
+export const LEDGER_COLLECTION = 'ledgerEntries';
+// Balances derived from the ledger, one document per user
+export const WALLETS_COLLECTION = 'wallets';
+
+export type LedgerEntryType =
+  | 'order_settlement'
+  | 'errand_fee'
+  | 'platform_commission'
+  | 'payout'
+  | 'refund'
+  | 'escrow_hold'
+  | 'cash_collection'
+  | 'adjustment';
+
+export type LedgerDirection = 'credit' | 'debit';
+
+// Money the platform collected from buyers and has not yet settled
+export const CLEARING_ACCOUNT = 'platform:clearing';
+// Paid money held for a job until the buyer confirms delivery
+export const ESCROW_ACCOUNT = 'platform:escrow';
+// Commission and fees the platform keeps
+export const REVENUE_ACCOUNT = 'platform:revenue';
+// Money that has left the platform to a user's bank account
+export const PAYOUTS_ACCOUNT = 'platform:payouts';
+// Money returned to buyers through Paystack refunds
+export const REFUNDS_ACCOUNT = 'platform:refunds';
+// Fares buyers paid runners directly, in cash, outside the platform
+export const CASH_COLLECTED_ACCOUNT = 'platform:cash_collected';
+// Counter-account for manual corrections
+export const ADJUSTMENTS_ACCOUNT = 'platform:adjustments';
+
+export const userAccount = (userId: string) => `user:${userId}`;
+
+const userIdFromAccount = (account: string): string | null =>
+  account.startsWith('user:') ? account.slice('user:'.length) : null;
+
+export interface LedgerLine {
+  account: string;
+  direction: LedgerDirection;
+  amount: number; // naira, always positive
+}
+
+export interface LedgerPosting {
+  // Identifies the posting; a second posting with the same ID is rejected
+  id: string;
+  type: LedgerEntryType;
+  sourceType: 'order' | 'errand' | 'payout' | 'refund' | 'dispute' | 'manual';
+  sourceId: string;
+  description: string;
+  lines: LedgerLine[];
+  metadata?: Record<string, any>;
+}
+
+const toKoboUnits = (amount: number) => Math.round(amount * 100);
+
+const entryId = (postingId: string, index: number) => `${postingId}_${index}`;
+
+// Credits must equal debits, and a line can never move a negative amount
+export function assertBalanced(posting: LedgerPosting): void {
+  if (posting.lines.length < 2) {
+    throw new Error(`Ledger posting ${posting.id} needs at least two lines`);
+  }
+
+  let balance = 0;
+  for (const line of posting.lines) {
+    if (!(line.amount > 0)) {
+      throw new Error(`Ledger posting ${posting.id} has a non-positive line for ${line.account}`);
+    }
+    balance += line.direction === 'credit' ? toKoboUnits(line.amount) : -toKoboUnits(line.amount);
+  }
+
+  if (balance !== 0) {
+    throw new Error(`Ledger posting ${posting.id} does not balance`);
+  }
+}
+
+// Drop zero lines (e.g. an order with no delivery fee) before posting
+export const nonZeroLines = (lines: LedgerLine[]) => lines.filter((line) => toKoboUnits(line.amount) > 0);
+
+/**
+ * Write a posting's entries inside an existing transaction. `create` makes a
+ * repeated posting fail the transaction instead of overwriting history.
+ */
+export function writeLedgerPosting(transaction: admin.firestore.Transaction, posting: LedgerPosting): void {
+  assertBalanced(posting);
+
+  posting.lines.forEach((line, index) => {
+    const ref = db().collection(LEDGER_COLLECTION).doc(entryId(posting.id, index));
+    transaction.create(ref, {
+      postingId: posting.id,
+      type: posting.type,
+      sourceType: posting.sourceType,
+      sourceId: posting.sourceId,
+      description: posting.description,
+      account: line.account,
+      userId: userIdFromAccount(line.account),
+      direction: line.direction,
+      amount: line.amount,
+      metadata: posting.metadata || null,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+// Post once, atomically; returns false when the first posting already exists
+export async function postLedgerEntries(...postings: LedgerPosting[]): Promise<boolean> {
+  const firstRef = db().collection(LEDGER_COLLECTION).doc(entryId(postings[0].id, 0));
+
+  return db().runTransaction(async (transaction) => {
+    const existing = await transaction.get(firstRef);
+    if (existing.exists) return false;
+    postings.forEach((posting) => writeLedgerPosting(transaction, posting));
+    return true;
+  });
+}
+
+// Payment statuses that mean the money reached the platform: paid in the app,
+// approved by an admin or confirmed by the charge webhook
+const CONFIRMED_PAYMENT_STATUSES = ['paid', 'approved', 'completed'];
+
+// Orders only settle into wallets when the platform actually holds the money;
+// a Paystack checkout still awaiting review does not count yet
+export const isPlatformCollected = (payment: { paymentStatus?: string; paid?: boolean }) =>
+  payment.paid === true || CONFIRMED_PAYMENT_STATUSES.includes(payment.paymentStatus || '');
+
+export const getErrandFee = (errand: any): number =>
+  Number(errand.fee || errand.amount || errand.paymentAmount || errand.deliveryFee) || 0;
+
+/**
+ * Whether a job's funds can leave escrow: the buyer confirmed delivery (or the
+ * auto-confirm window passed) and no dispute is open. Orders are only completed
+ * by that confirmation; errands are completed by the runner, so a held errand
+ * waits for it as well. Jobs paid before escrow was introduced settle on
+ * completion as before.
+ */
+const isReleasable = (job: admin.firestore.DocumentData) => {
+  if (job.status !== 'completed' || job.disputeStatus === 'open') return false;
+  return job.escrow?.status !== 'held' || !!job.deliveryConfirmedAt;
+};
+
+const isReadyToSettle = (before: admin.firestore.DocumentData, after: admin.firestore.DocumentData) =>
+  isReleasable(after) && !isReleasable(before);
+
+// Held jobs settle out of escrow, older ones straight from clearing
+const settlementSource = (job: admin.firestore.DocumentData) =>
+  job.escrow?.status === 'held' ? ESCROW_ACCOUNT : CLEARING_ACCOUNT;
+
+// Close the escrow once the settlement posting exists
+const markEscrowReleased = async (ref: admin.firestore.DocumentReference, job: admin.firestore.DocumentData) => {
+  if (job.escrow?.status !== 'held') return;
+  await ref.update({
+    'escrow.status': 'released',
+    'escrow.releasedAt': admin.firestore.FieldValue.serverTimestamp(),
+  });
+};
+
+/**
+ * Release the seller's (and runner's, for delivered orders) funds from escrow
+ * once an order completes, then take the platform commission. Uses the fee breakdown saved
+ * at checkout; older orders without one are charged commission on current rules.
+ */
+export const settleCompletedOrder = functions.firestore
+  .document('orders/{orderId}')
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+
+    if (!isReadyToSettle(before, after)) return null;
+    // Order statuses written around the lifecycle are rolled back by sendOrderNotification
+    if (before.status !== after.status && !getVerifiedStatusChange(before, after)) return null;
+    if (!after.sellerId || !isPlatformCollected(after)) return null;
+
+    const orderId = context.params.orderId;
+    const fees = after.fees as FeeBreakdown | undefined;
+    const subtotal = fees?.subtotal ?? (Number(after.subtotal ?? after.totalAmount) || 0);
+    const deliveryFee = fees?.deliveryFee ?? (Number(after.deliveryFee) || 0);
+    const serviceFee = fees?.serviceFee ?? 0;
+
+    let commission = fees?.commission;
+    if (commission === undefined) {
+      const [rules, sellerDoc] = await Promise.all([
+        getFeeRules(),
+        db().collection('users').doc(after.sellerId).get(),
+      ]);
+      commission = calculateOrderCommission(rules, {
+        sellerTier: sellerDoc.data()?.sellerTier || null,
+        deliveryFee,
+        items: Array.isArray(after.items) ? after.items : [{ categoryId: null, lineTotal: subtotal }],
+      }).commission;
+    }
+
+    // Refunds already paid out came from clearing, so only the rest settles
+    const total = Number(after.totalAmount) || 0;
+    const kept = total > 0 ? Math.max(0, 1 - (after.refundedAmount || 0) / total) : 1;
+    const share = (amount: number) => Math.round(amount * kept * 100) / 100;
+
+    // Without a runner the seller made the delivery and keeps the fee
+    const runnerFee = share(after.runnerId ? deliveryFee : 0);
+    const sellerAmount = share(subtotal + (after.runnerId ? 0 : deliveryFee));
+    const settledServiceFee = share(serviceFee);
+    const settledCommission = share(commission);
+    const metadata = { category: 'order', sellerId: after.sellerId, runnerId: after.runnerId || null };
+    const label = `Order ${orderId.slice(-6).toUpperCase()} - ${after.productName || 'order'}`;
+
+    const lines = nonZeroLines([
+      { account: settlementSource(after), direction: 'debit', amount: sellerAmount + runnerFee + settledServiceFee },
+      { account: userAccount(after.sellerId), direction: 'credit', amount: sellerAmount },
+      ...(after.runnerId
+        ? [{ account: userAccount(after.runnerId), direction: 'credit' as LedgerDirection, amount: runnerFee }]
+        : []),
+      { account: REVENUE_ACCOUNT, direction: 'credit', amount: settledServiceFee },
+    ]);
+    if (lines.length < 2) return null;
+
+    const postings: LedgerPosting[] = [{
+      id: `order_settlement_${orderId}`,
+      type: 'order_settlement',
+      sourceType: 'order',
+      sourceId: orderId,
+      description: label,
+      lines,
+      metadata,
+    }];
+
+    if (settledCommission > 0) {
+      postings.push({
+        id: `order_commission_${orderId}`,
+        type: 'platform_commission',
+        sourceType: 'order',
+        sourceId: orderId,
+        description: `Commission - ${label}`,
+        lines: [
+          { account: userAccount(after.sellerId), direction: 'debit', amount: settledCommission },
+          { account: REVENUE_ACCOUNT, direction: 'credit', amount: settledCommission },
+        ],
+        metadata,
+      });
+    }
+
+    await postLedgerEntries(...postings);
+    await markEscrowReleased(change.after.ref, after);
+    return null;
+  });
+
+/**
+ * The postings that settle a completed errand. Paid errands release the fare
+ * from escrow (or clearing). Errands paid in cash went straight to the runner,
+ * so the fare is recorded as earned and as already collected, which leaves
+ * the commission on their wallet as a debit to be recovered from later
+ * earnings.
+ */
+export function buildErrandSettlement(
+  errandId: string,
+  errand: admin.firestore.DocumentData,
+  commission: number
+): LedgerPosting[] {
+  const fees = errand.fees as FeeBreakdown | undefined;
+  const fare = fees?.subtotal ?? getErrandFee(errand);
+  if (!errand.runnerId || toKoboUnits(fare) <= 0) return [];
+
+  const collected = isPlatformCollected(errand);
+  // A cash buyer only paid the runner's fare
+  const serviceFee = collected ? fees?.serviceFee ?? 0 : 0;
+  const runner = userAccount(errand.runnerId);
+  const metadata = { category: errand.category || 'errand', runnerId: errand.runnerId, collection: collected ? 'platform' : 'cash' };
+  const label = errand.title || errand.store?.name || 'Errand';
+
+  const postings: LedgerPosting[] = [{
+    id: `errand_fee_${errandId}`,
+    type: 'errand_fee',
+    sourceType: 'errand',
+    sourceId: errandId,
+    description: label,
+    lines: nonZeroLines([
+      { account: collected ? settlementSource(errand) : CASH_COLLECTED_ACCOUNT, direction: 'debit', amount: fare + serviceFee },
+      { account: runner, direction: 'credit', amount: fare },
+      { account: REVENUE_ACCOUNT, direction: 'credit', amount: serviceFee },
+    ]),
+    metadata,
+  }];
+
+  if (!collected) {
+    postings.push({
+      id: `errand_cash_${errandId}`,
+      type: 'cash_collection',
+      sourceType: 'errand',
+      sourceId: errandId,
+      description: `Collected in cash - ${label}`,
+      lines: [
+        { account: runner, direction: 'debit', amount: fare },
+        { account: CASH_COLLECTED_ACCOUNT, direction: 'credit', amount: fare },
+      ],
+      metadata,
+    });
+  }
+
+  if (toKoboUnits(commission) > 0) {
+    postings.push({
+      id: `errand_commission_${errandId}`,
+      type: 'platform_commission',
+      sourceType: 'errand',
+      sourceId: errandId,
+      description: `Commission - ${label}`,
+      lines: [
+        { account: runner, direction: 'debit', amount: commission },
+        { account: REVENUE_ACCOUNT, direction: 'credit', amount: commission },
+      ],
+      metadata,
+    });
+  }
+
+  return postings;
+}
+
+// Credit the runner's fare once an errand is confirmed, less commission
+export const settleCompletedErrand = functions.firestore
+  .document('errands/{errandId}')
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+
+    if (!isReadyToSettle(before, after) || !after.runnerId) return null;
+
+    // Errand quotes are made on the device, so commission is always worked
+    // out again here from the configured rules
+    const fare = (after.fees as FeeBreakdown | undefined)?.subtotal ?? getErrandFee(after);
+    const commission = calculateErrandCommission(await getFeeRules(), fare, after.category);
+    const postings = buildErrandSettlement(context.params.errandId, after, commission);
+    if (postings.length === 0) return null;
+
+    await postLedgerEntries(...postings);
+    await markEscrowReleased(change.after.ref, after);
+    return null;
+  });
+
+/**
+ * Fold each new entry into the user's wallet. A marker per entry makes the
+ * trigger safe to run twice; `rebuildWallet` recomputes from scratch.
+ */
+export const applyLedgerEntry = functions.firestore
+  .document(`${LEDGER_COLLECTION}/{entryId}`)
+  .onCreate(async (snapshot, context) => {
+    const entry = snapshot.data();
+    if (!entry.userId) return null;
+
+    const walletRef = db().collection(WALLETS_COLLECTION).doc(entry.userId);
+    const markerRef = walletRef.collection('appliedEntries').doc(context.params.entryId);
+    const signed = entry.direction === 'credit' ? entry.amount : -entry.amount;
+
+    await db().runTransaction(async (transaction) => {
+      const marker = await transaction.get(markerRef);
+      if (marker.exists) return;
+
+      transaction.set(markerRef, { appliedAt: admin.firestore.FieldValue.serverTimestamp() });
+      transaction.set(walletRef, {
+        userId: entry.userId,
+        balance: admin.firestore.FieldValue.increment(signed),
+        ...totalsFor(entry.type, signed, admin.firestore.FieldValue.increment),
+        entryCount: admin.firestore.FieldValue.increment(1),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, { merge: true });
+
+      // Profile fields read by older screens, kept in step with the wallet
+      transaction.set(db().collection('users').doc(entry.userId), {
+        availableBalance: admin.firestore.FieldValue.increment(signed),
+        ...totalsFor(entry.type, signed, admin.firestore.FieldValue.increment),
+      }, { merge: true });
+    });
+    return null;
+  });
+
+// Which running total an entry contributes to
+function totalsFor<T>(type: LedgerEntryType, signed: number, wrap: (value: number) => T): Record<string, T> {
+  switch (type) {
+    case 'order_settlement':
+    case 'errand_fee':
+      return { totalEarnings: wrap(signed) };
+    case 'payout':
+      return { totalPayouts: wrap(-signed) };
+    case 'refund':
+    case 'platform_commission':
+      return { totalDeductions: wrap(-signed) };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Recompute a wallet from every entry on the user's account. Runs as one
+ * transaction that also reads the wallet and its markers, so an entry
+ * applied part way through makes it start over, and marks the entries it
+ * counted (where applyLedgerEntry has not yet) together with the balance.
+ */
+export async function rebuildWallet(userId: string) {
+  const walletRef = db().collection(WALLETS_COLLECTION).doc(userId);
+  const markers = walletRef.collection('appliedEntries');
+
+  return db().runTransaction(async (transaction) => {
+    const [entries, applied] = await Promise.all([
+      transaction.get(db().collection(LEDGER_COLLECTION).where('userId', '==', userId)),
+      transaction.get(markers),
+      transaction.get(walletRef),
+    ]);
+    const wallet: Record<string, number> = {
+      balance: 0,
+      totalEarnings: 0,
+      totalPayouts: 0,
+      totalDeductions: 0,
+      entryCount: entries.size,
+    };
+
+    entries.docs.forEach((doc) => {
+      const entry = doc.data();
+      const signed = entry.direction === 'credit' ? entry.amount : -entry.amount;
+      wallet.balance += signed;
+      Object.entries(totalsFor(entry.type, signed, (value) => value)).forEach(([key, value]) => {
+        wallet[key] += value;
+      });
+    });
+
+    transaction.set(walletRef, { userId, ...wallet, rebuiltAt: admin.firestore.FieldValue.serverTimestamp() });
+    transaction.set(db().collection('users').doc(userId), {
+      availableBalance: wallet.balance,
+      totalEarnings: wallet.totalEarnings,
+      totalPayouts: wallet.totalPayouts,
+      totalDeductions: wallet.totalDeductions,
+    }, { merge: true });
+
+    // Entries counted here must not be added again when their trigger runs
+    const marked = new Set(applied.docs.map((doc) => doc.id));
+    entries.docs
+      .filter((doc) => !marked.has(doc.id))
+      .forEach((doc) => transaction.set(markers.doc(doc.id), { appliedAt: admin.firestore.FieldValue.serverTimestamp() }));
+
+    return { userId, ...wallet };
+  });
+}
+
+interface LedgerAdjustmentData {
+  userId: string;
+  amount: number; // positive credits the user, negative debits them
+  reason: string;
+}
+
+// Admin correction, posted against the adjustments account
+export const postLedgerAdjustment = functions.https.onCall(async (data: LedgerAdjustmentData, context: functions.https.CallableContext) => {
+  const adminId = await requireAdmin(context);
+  const amount = Number(data?.amount);
+
+  if (!data?.userId || !amount || !Number.isFinite(amount) || !data.reason) {
+    throw new functions.https.HttpsError('invalid-argument', 'User, non-zero amount and reason are required');
+  }
+
+  const credit = amount > 0;
+  const adjustmentRef = db().collection('ledgerAdjustments').doc();
+
+  await adjustmentRef.set({
+    userId: data.userId,
+    amount,
+    reason: data.reason,
+    adminId,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await postLedgerEntries({
+    id: `adjustment_${adjustmentRef.id}`,
+    type: 'adjustment',
+    sourceType: 'manual',
+    sourceId: adjustmentRef.id,
+    description: data.reason,
+    lines: [
+      { account: ADJUSTMENTS_ACCOUNT, direction: credit ? 'debit' : 'credit', amount: Math.abs(amount) },
+      { account: userAccount(data.userId), direction: credit ? 'credit' : 'debit', amount: Math.abs(amount) },
+    ],
+    metadata: { adminId },
+  });
+
+  return { success: true, adjustmentId: adjustmentRef.id };
+});
+
+// Admin reconciliation: rebuild a wallet from its ledger entries
+export const rebuildWalletBalance = functions.https.onCall(async (data: { userId: string }, context: functions.https.CallableContext) => {
+  await requireAdmin(context);
+  if (!data?.userId) {
+    throw new functions.https.HttpsError('invalid-argument', 'User ID is required');
+  }
+  return rebuildWallet(data.userId);
+});
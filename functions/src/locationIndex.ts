@@ -0,0 +1,139 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { requireAdmin } from './access';
+import { LatLng, distanceKm, encodeGeohash, geohashQueryBounds, isValidLatLng } from './geohash';
+
+// Top-level field holding a document's geohash, written next to its coordinates
+export const GEOHASH_FIELD = 'geohash';
+
+// Collections whose documents carry a location and are searched by geohash
+const INDEXED_COLLECTIONS = ['users', 'stores'];
+
+const BACKFILL_PAGE_SIZE = 400;
+
+// Pages are indexed until this much of the call has gone; the admin calls
+// again with the returned cursor to carry on
+const BACKFILL_TIME_BUDGET_MS = 45 * 1000;
+
+export interface GeoResult {
+  id: string;
+  data: admin.firestore.DocumentData;
+  location: LatLng;
+  distanceKm: number;
+}
+
+export const getDocumentLocation = (data: admin.firestore.DocumentData): LatLng | null => {
+  const location = {
+    latitude: Number(data.currentLocation?.latitude ?? data.latitude),
+    longitude: Number(data.currentLocation?.longitude ?? data.longitude),
+  };
+  return isValidLatLng(location) ? location : null;
+};
+
+// Documents from `baseQuery` within `radiusKm` of `center`, closest first
+export async function queryWithinRadius(baseQuery: admin.firestore.Query, center: LatLng, radiusKm: number): Promise<GeoResult[]> {
+  const snapshots = await Promise.all(
+    geohashQueryBounds(center, radiusKm).map(([start, end]) =>
+      baseQuery.orderBy(GEOHASH_FIELD).startAt(start).endAt(end).get()
+    )
+  );
+
+  const results = new Map<string, GeoResult>();
+  snapshots.forEach((snapshot) => snapshot.docs.forEach((doc) => {
+    const data = doc.data();
+    const location = getDocumentLocation(data);
+    if (!location || results.has(doc.id)) return;
+
+    const distance = distanceKm(center, location);
+    if (distance <= radiusKm) {
+      results.set(doc.id, { id: doc.id, data, location, distanceKm: distance });
+    }
+  }));
+
+  return Array.from(results.values()).sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+// The `geohash` a document should carry, or null when it has no location
+const expectedGeohash = (data: admin.firestore.DocumentData): string | null => {
+  const location = getDocumentLocation(data);
+  return location ? encodeGeohash(location.latitude, location.longitude) : null;
+};
+
+/**
+ * Keep `geohash` in step with a document's coordinates. The app writes it with
+ * every location update; this catches profile edits and sign-ups. Documents
+ * written before the index existed are only picked up when they next change,
+ * or by backfillLocationIndex.
+ */
+async function indexLocation(change: functions.Change<functions.firestore.DocumentSnapshot>) {
+  const data = change.after.data();
+  if (!data) return;
+
+  const geohash = expectedGeohash(data);
+  if ((data[GEOHASH_FIELD] || null) === geohash) return;
+
+  await change.after.ref.update({
+    [GEOHASH_FIELD]: geohash ?? admin.firestore.FieldValue.delete(),
+  });
+}
+
+export const indexUserLocation = functions.firestore
+  .document('users/{userId}')
+  .onWrite(async (change) => {
+    await indexLocation(change);
+    return null;
+  });
+
+export const indexStoreLocation = functions.firestore
+  .document('stores/{storeId}')
+  .onWrite(async (change) => {
+    await indexLocation(change);
+    return null;
+  });
+
+interface BackfillLocationIndexData {
+  collection: string;
+  startAfter?: string; // document ID returned as `cursor` by the previous call
+}
+
+/**
+ * Admin backfill of `geohash` on documents written before the index existed,
+ * which nearby queries cannot find until they have one. Pages through the
+ * collection by document ID; a `cursor` in the result means time ran out and
+ * the call should be repeated with it.
+ */
+export const backfillLocationIndex = functions.https.onCall(async (data: BackfillLocationIndexData, context: functions.https.CallableContext) => {
+  await requireAdmin(context);
+  if (!INDEXED_COLLECTIONS.includes(data?.collection)) {
+    throw new functions.https.HttpsError('invalid-argument', `Collection must be one of ${INDEXED_COLLECTIONS.join(', ')}`);
+  }
+
+  const deadline = Date.now() + BACKFILL_TIME_BUDGET_MS;
+  let cursor: string | null = data.startAfter || null;
+  let indexed = 0;
+  let finished = false;
+
+  while (!finished && Date.now() < deadline) {
+    let query = admin.firestore().collection(data.collection)
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(BACKFILL_PAGE_SIZE);
+    if (cursor) query = query.startAfter(cursor);
+    const page = await query.get();
+
+    const batch = admin.firestore().batch();
+    let changed = 0;
+    page.docs.forEach((doc) => {
+      const geohash = expectedGeohash(doc.data());
+      if ((doc.data()[GEOHASH_FIELD] || null) === geohash) return;
+      batch.update(doc.ref, { [GEOHASH_FIELD]: geohash ?? admin.firestore.FieldValue.delete() });
+      changed++;
+    });
+    if (changed > 0) await batch.commit();
+
+    indexed += changed;
+    cursor = page.docs[page.docs.length - 1]?.id ?? cursor;
+    finished = page.size < BACKFILL_PAGE_SIZE;
+  }
+
+  return { success: true, indexed, cursor: finished ? null : cursor };
+});
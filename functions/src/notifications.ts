@@ -0,0 +1,115 @@
+import * as admin from 'firebase-admin';
+
+// Simple notification interfaces
+export interface SendNotificationData {
+  userId: string;
+  title: string;
+  body: string;
+  type?: 'order' | 'message' | 'payment' | 'errand' | 'general';
+  data?: any;
+}
+
+export interface NotificationPreferences {
+  orders: boolean;
+  messages: boolean;
+  payments: boolean;
+  errands: boolean;
+  general: boolean;
+}
+
+// Notification types are singular, preference keys plural
+const PREFERENCE_KEYS: Record<NonNullable<SendNotificationData['type']>, keyof NotificationPreferences> = {
+  order: 'orders',
+  message: 'messages',
+  payment: 'payments',
+  errand: 'errands',
+  general: 'general',
+};
+
+// Internal function to send push notification (for use within Cloud Functions)
+export async function sendInternalPushNotification(data: SendNotificationData): Promise<{ success: boolean; message: string }> {
+  const { userId, title, body, type = 'general', data: notificationData = {} } = data;
+
+  if (!userId || !title || !body) {
+    throw new Error('User ID, title, and body are required');
+  }
+
+  try {
+    const db = admin.firestore();
+    
+    // Get user's push token and preferences
+    const userDoc = await db.collection('users').doc(userId).get();
+    if (!userDoc.exists) {
+      throw new Error('User not found');
+    }
+
+    const userData = userDoc.data();
+    const pushToken = userData?.expoPushToken;
+    const preferences = userData?.notificationPreferences || {
+      orders: true,
+      messages: true,
+      payments: true,
+      errands: true,
+      general: true,
+    };
+
+    // Check if user has enabled notifications for this type
+    if (!preferences[PREFERENCE_KEYS[type]]) {
+      return { success: true, message: 'Notification skipped (disabled by user)' };
+    }
+
+    if (!pushToken) {
+      return { success: true, message: 'No push token available' };
+    }
+
+    // Send push notification via Expo
+    const response = await fetch('https://exp.host/--/api/v2/push/send', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        to: pushToken,
+        title,
+        body,
+        data: { ...notificationData, type },
+        sound: 'default',
+        priority: 'high',
+        channelId: type === 'order' ? 'orders' : 
+                   type === 'message' ? 'messages' : 
+                   type === 'payment' ? 'payments' : 
+                   type === 'errand' ? 'errands' : 'default',
+      }),
+    });
+
+    const result = await response.json();
+    
+    if (result.errors) {
+      console.error('Push notification errors:', result.errors);
+      // Handle invalid tokens
+      if (result.errors.some((error: any) => error.code === 'DeviceNotRegistered')) {
+        await db.collection('users').doc(userId).update({
+          expoPushToken: null,
+          tokenUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+      throw new Error('Failed to send push notification');
+    }
+
+    // Save notification to Firestore
+    await db.collection('users').doc(userId).collection('notifications').add({
+      title,
+      message: body,
+      type,
+      status: 'unread',
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      data: notificationData,
+    });
+
+    return { success: true, message: 'Notification sent successfully' };
+
+  } catch (error) {
+    console.error('Error sending push notification:', error);
+    throw new Error('Failed to send notification');
+  }
+}
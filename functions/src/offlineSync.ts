@@ -0,0 +1,178 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { requireAuth } from './access';
+import { OrderStatus, canTransitionOrder } from './orderLifecycle';
+import { orderStatusUpdate } from './orderStatus';
+import { encodeGeohash, isValidLatLng } from './geohash';
+import { GEOHASH_FIELD } from './locationIndex';
+
+const db = () => admin.firestore();
+
+// Most queued updates accepted in one call; the app sends larger backlogs in turns
+export const MAX_SYNC_UPDATES = 200;
+
+// Samples stamped further ahead than this are treated as a broken device clock
+const MAX_CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+// Errand statuses a runner moves through, in order; completion needs proof of delivery
+const ERRAND_PROGRESS = ['accepted', 'in_progress', 'on_the_way'];
+
+interface QueuedLocation {
+  kind: 'location';
+  id: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+  recordedAt: number; // ms
+}
+
+interface QueuedStatusChange {
+  kind: 'status';
+  id: string;
+  jobType: 'order' | 'errand';
+  jobId: string;
+  status: string;
+  recordedAt: number; // ms
+}
+
+type QueuedUpdate = QueuedLocation | QueuedStatusChange;
+
+// What happened to one queued update; `applied` is false when a newer state already won
+interface SyncResult {
+  id: string;
+  applied: boolean;
+  reason?: string;
+}
+
+const isRecordedAt = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= Date.now() + MAX_CLOCK_SKEW_MS;
+
+const validateUpdate = (update: any): QueuedUpdate | null => {
+  if (!update || typeof update.id !== 'string' || !isRecordedAt(update.recordedAt)) return null;
+  if (update.kind === 'location') {
+    return isValidLatLng(update) ? update as QueuedLocation : null;
+  }
+  if (update.kind === 'status') {
+    return ['order', 'errand'].includes(update.jobType) && typeof update.jobId === 'string' && typeof update.status === 'string'
+      ? update
+      : null;
+  }
+  return null;
+};
+
+const recordedMillis = (value: any): number => (value?.toMillis ? value.toMillis() : 0);
+
+/**
+ * Move the runner's `currentLocation` to the newest of the samples, unless a
+ * newer fix has already been written. Older samples are accepted and dropped.
+ */
+async function applyLocations(uid: string, samples: QueuedLocation[]): Promise<SyncResult[]> {
+  const latest = samples.reduce((newest, sample) => (sample.recordedAt > newest.recordedAt ? sample : newest));
+  const ref = db().collection('users').doc(uid);
+
+  const applied = await db().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists) {
+      throw new functions.https.HttpsError('not-found', 'User not found');
+    }
+    const current = snapshot.data()?.currentLocation;
+    if (recordedMillis(current?.recordedAt ?? current?.timestamp) >= latest.recordedAt) return false;
+
+    const recordedAt = admin.firestore.Timestamp.fromMillis(latest.recordedAt);
+    transaction.update(ref, {
+      currentLocation: {
+        latitude: latest.latitude,
+        longitude: latest.longitude,
+        timestamp: recordedAt,
+        recordedAt,
+      },
+      [GEOHASH_FIELD]: encodeGeohash(latest.latitude, latest.longitude),
+      lastSeen: recordedAt,
+    });
+    return true;
+  });
+
+  return samples.map((sample) => ({
+    id: sample.id,
+    applied: applied && sample === latest,
+    ...(applied && sample === latest ? {} : { reason: 'superseded' }),
+  }));
+}
+
+// Replay a status change made offline, skipping it if the job has moved on since
+async function applyStatusChange(uid: string, change: QueuedStatusChange): Promise<SyncResult> {
+  const ref = db().collection(change.jobType === 'order' ? 'orders' : 'errands').doc(change.jobId);
+
+  return db().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const job = snapshot.data();
+    if (!job) return { id: change.id, applied: false, reason: 'not_found' };
+    if (job.runnerId !== uid) return { id: change.id, applied: false, reason: 'not_assigned' };
+    if (job.status === change.status) return { id: change.id, applied: false, reason: 'unchanged' };
+
+    if (change.jobType === 'order') {
+      // Delivery needs proof, which goes through submitProofOfDelivery
+      if (change.status === 'delivered' || !canTransitionOrder(job.status, change.status, 'runner')) {
+        return { id: change.id, applied: false, reason: 'invalid_transition' };
+      }
+      transaction.update(ref, {
+        ...orderStatusUpdate(job.status, change.status as OrderStatus, 'runner', uid),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return { id: change.id, applied: true };
+    }
+
+    const from = ERRAND_PROGRESS.indexOf(job.status);
+    const to = ERRAND_PROGRESS.indexOf(change.status);
+    if (from === -1 || to <= from) {
+      return { id: change.id, applied: false, reason: 'invalid_transition' };
+    }
+    transaction.update(ref, {
+      status: change.status,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.update(db().collection('users').doc(uid), {
+      currentErrand: change.jobId,
+      status: 'busy',
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { id: change.id, applied: true };
+  });
+}
+
+/**
+ * Take the updates a runner queued while offline, in the order they were
+ * made. Consecutive location samples are applied together; each status
+ * change is checked against the job as it stands now.
+ */
+export const syncRunnerUpdates = functions.https.onCall(async (data, context) => {
+  const uid = requireAuth(context);
+
+  const raw = Array.isArray(data?.updates) ? data.updates : [];
+  if (raw.length === 0 || raw.length > MAX_SYNC_UPDATES) {
+    throw new functions.https.HttpsError('invalid-argument', `Send between 1 and ${MAX_SYNC_UPDATES} updates`);
+  }
+
+  const results: SyncResult[] = [];
+  let samples: QueuedLocation[] = [];
+  const flushSamples = async () => {
+    if (samples.length === 0) return;
+    results.push(...await applyLocations(uid, samples));
+    samples = [];
+  };
+
+  for (const item of raw) {
+    const update = validateUpdate(item);
+    if (!update) {
+      results.push({ id: String(item?.id ?? ''), applied: false, reason: 'invalid' });
+    } else if (update.kind === 'location') {
+      samples.push(update);
+    } else {
+      await flushSamples();
+      results.push(await applyStatusChange(uid, update));
+    }
+  }
+  await flushSamples();
+
+  return { results };
+});
@@ -0,0 +1,115 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { requireAuth } from './access';
+import { OrderActor, OrderStatus, canTransitionOrder, isOrderStatus } from './orderLifecycle';
+
+const db = () => admin.firestore();
+
+// Every status change made by Cloud Functions is stamped with `statusChange`.
+// Clients change status through updateOrderStatus, which works out who they
+// are from their auth token, so triggers only act on stamped changes and
+// sendOrderNotification rolls anything else back.
+export interface OrderStatusChange {
+  from: string | null;
+  to: OrderStatus;
+  actor: OrderActor;
+  by: string | null; // uid, null for scheduled jobs and webhooks
+  at: admin.firestore.FieldValue | admin.firestore.Timestamp;
+  rolledBack?: boolean;
+}
+
+// Fields to write for a status change made on the server
+export const orderStatusUpdate = (from: unknown, to: OrderStatus, actor: OrderActor, by: string | null = null) => ({
+  status: to,
+  lastStatusActor: actor,
+  statusChange: {
+    from: typeof from === 'string' ? from : null,
+    to,
+    actor,
+    by,
+    at: admin.firestore.FieldValue.serverTimestamp(),
+  } as OrderStatusChange,
+});
+
+// The stamp restoring `from` after a rejected write, which no trigger acts on
+export const rolledBackStatusChange = (from: unknown, to: string): OrderStatusChange => ({
+  ...orderStatusUpdate(from, to as OrderStatus, 'system').statusChange,
+  rolledBack: true,
+});
+
+/**
+ * The status change from `before` to `after` if server code made it, or null
+ * when the status did not change or was written by a client directly.
+ */
+export const getVerifiedStatusChange = (
+  before: admin.firestore.DocumentData | undefined,
+  after: admin.firestore.DocumentData | undefined
+): OrderStatusChange | null => {
+  if (!after || before?.status === after.status) return null;
+  const change = after.statusChange as OrderStatusChange | undefined;
+  if (!change || change.rolledBack) return null;
+  return change.to === after.status && change.from === (before?.status ?? null) ? change : null;
+};
+
+// The parts the signed in user plays on an order
+const actorsFor = (order: admin.firestore.DocumentData, uid: string): OrderActor[] => [
+  ...(order.runnerId === uid ? ['runner' as OrderActor] : []),
+  ...(order.sellerId === uid ? ['seller' as OrderActor] : []),
+  ...((order.buyerId || order.userId) === uid ? ['buyer' as OrderActor] : []),
+];
+
+interface UpdateOrderStatusData {
+  orderId: string;
+  status: OrderStatus;
+  trackingStep?: string;
+}
+
+// Buyers, sellers and runners move orders along the lifecycle through here
+export const updateOrderStatus = functions.https.onCall(async (data: UpdateOrderStatusData, context: functions.https.CallableContext) => {
+  const uid = requireAuth(context);
+  if (!data?.orderId || !isOrderStatus(data.status)) {
+    throw new functions.https.HttpsError('invalid-argument', 'An order and a valid status are required');
+  }
+  // Delivery is only recorded by submitProofOfDelivery, which stores the proof
+  if (data.status === 'delivered') {
+    throw new functions.https.HttpsError('failed-precondition', 'Orders are delivered with proof of delivery');
+  }
+  // Completion releases escrow, so it only happens through confirmDelivery or the auto-confirm
+  if (data.status === 'completed') {
+    throw new functions.https.HttpsError('failed-precondition', 'Orders are completed by confirming delivery');
+  }
+  if (data.trackingStep !== undefined && !/^[a-z_]+$/.test(data.trackingStep)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid tracking step');
+  }
+
+  const orderRef = db().collection('orders').doc(data.orderId);
+  const actor = await db().runTransaction(async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    const order = orderDoc.data();
+    if (!order) {
+      throw new functions.https.HttpsError('not-found', 'Order not found');
+    }
+
+    const actors = actorsFor(order, uid);
+    if (actors.length === 0) {
+      throw new functions.https.HttpsError('permission-denied', 'You are not part of this order');
+    }
+    const allowed = actors.find((candidate) => canTransitionOrder(order.status, data.status, candidate));
+    if (!allowed) {
+      throw new functions.https.HttpsError(
+        'failed-precondition',
+        `Order cannot move from '${order.status}' to '${data.status}'`
+      );
+    }
+
+    transaction.update(orderRef, {
+      ...orderStatusUpdate(order.status, data.status, allowed, uid),
+      ...(data.trackingStep && { [`tracking.${data.trackingStep}`]: true }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedBy: uid,
+    });
+    return allowed;
+  });
+
+  return { success: true, status: data.status, actor };
+});
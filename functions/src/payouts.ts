@@ -0,0 +1,311 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { requireAdmin } from './access';
+import { createTransferRecipient, fetchPaystackTransfer, initiateTransfer, isPaystackRejection } from './paystack';
+import { PAYOUTS_ACCOUNT, WALLETS_COLLECTION, userAccount, writeLedgerPosting } from './ledger';
+
+const db = () => admin.firestore();
+
+export type PayoutStatus = 'pending' | 'rejected' | 'processing' | 'paid' | 'failed' | 'reversed';
+
+// Allowed moves for a payout request. 'failed' may be retried by an admin,
+// and still becomes 'paid' if a success for an earlier attempt arrives late.
+export const PAYOUT_TRANSITIONS: Record<PayoutStatus, PayoutStatus[]> = {
+  pending: ['processing', 'rejected'],
+  rejected: [],
+  processing: ['paid', 'failed', 'reversed'],
+  paid: ['reversed'],
+  failed: ['processing', 'paid'],
+  reversed: [],
+};
+
+// One reference per attempt: Paystack will not take a reference it has seen
+// before, even for a transfer it later failed, so a retry needs a new one.
+// `transferReferences` keeps them all so events for any attempt match.
+export const payoutTransferReference = (payoutId: string, attempt: number) => `payout_${payoutId}_${attempt}`;
+
+// Paystack's transfer statuses that settle a payout, as the matching webhook event
+const TRANSFER_STATUS_EVENT: Record<string, string> = {
+  success: 'transfer.success',
+  failed: 'transfer.failed',
+  reversed: 'transfer.reversed',
+};
+
+export const canTransitionPayout = (from: unknown, to: PayoutStatus): boolean =>
+  typeof from === 'string' && (PAYOUT_TRANSITIONS[from as PayoutStatus] || []).includes(to);
+
+interface ReviewPayoutData {
+  payoutId: string;
+  decision: 'approve' | 'reject';
+  reason?: string;
+}
+
+// Reuse the user's recipient code while their bank account is unchanged
+async function getRecipientCode(userId: string, bankDetails: any): Promise<string> {
+  const userRef = db().collection('users').doc(userId);
+  const userDoc = await userRef.get();
+  const saved = userDoc.data()?.paystackRecipient;
+
+  if (saved?.recipientCode && saved.accountNumber === bankDetails.accountNumber && saved.bankCode === bankDetails.bankCode) {
+    return saved.recipientCode;
+  }
+
+  const recipientCode = await createTransferRecipient({
+    accountName: bankDetails.accountName,
+    accountNumber: bankDetails.accountNumber,
+    bankCode: bankDetails.bankCode,
+  });
+
+  await userRef.set({
+    paystackRecipient: {
+      recipientCode,
+      accountNumber: bankDetails.accountNumber,
+      bankCode: bankDetails.bankCode,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+  }, { merge: true });
+
+  return recipientCode;
+}
+
+// Admin approves (starting a Paystack transfer) or rejects a payout request
+export const reviewPayoutRequest = functions.https.onCall(async (data: ReviewPayoutData, context: functions.https.CallableContext) => {
+  const adminId = await requireAdmin(context);
+  const { payoutId, decision, reason } = data || {};
+
+  if (!payoutId || !['approve', 'reject'].includes(decision)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Valid payout ID and decision are required');
+  }
+
+  const payoutRef = db().collection('payoutRequests').doc(payoutId);
+  const nextStatus: PayoutStatus = decision === 'approve' ? 'processing' : 'rejected';
+
+  // Claim the request first so two admins cannot start two transfers. The
+  // transfer reference is stored with the claim, before Paystack is called,
+  // so a webhook that beats the response can still find the payout.
+  const payout = await db().runTransaction(async (transaction): Promise<admin.firestore.DocumentData> => {
+    const payoutDoc = await transaction.get(payoutRef);
+    if (!payoutDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Payout request not found');
+    }
+
+    const payoutData = payoutDoc.data()!;
+    if (!canTransitionPayout(payoutData.status, nextStatus)) {
+      throw new functions.https.HttpsError(
+        'failed-precondition',
+        `Payout cannot move from '${payoutData.status}' to '${nextStatus}'`
+      );
+    }
+
+    let transfer: { transferReference: string; transferAttempts: number } | null = null;
+    if (nextStatus === 'processing') {
+      // The wallet is only debited once a transfer succeeds, so payouts
+      // already approved and in flight are taken off what is available
+      const [walletDoc, inFlight] = await Promise.all([
+        transaction.get(db().collection(WALLETS_COLLECTION).doc(payoutData.userId)),
+        transaction.get(db().collection('payoutRequests')
+          .where('userId', '==', payoutData.userId)
+          .where('status', '==', 'processing')),
+      ]);
+      const committed = inFlight.docs.reduce((sum, doc) => sum + (Number(doc.data().amount) || 0), 0);
+      const available = (walletDoc.data()?.balance || 0) - committed;
+      if (available < payoutData.amount) {
+        throw new functions.https.HttpsError(
+          'failed-precondition',
+          `Available balance of ₦${Math.max(0, available).toLocaleString()} does not cover this payout`
+        );
+      }
+
+      const attempt = (payoutData.transferAttempts || 0) + 1;
+      transfer = {
+        transferReference: payoutTransferReference(payoutId, attempt),
+        transferAttempts: attempt,
+      };
+    }
+
+    transaction.update(payoutRef, {
+      status: nextStatus,
+      reviewedBy: adminId,
+      reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+      ...(reason && { reviewNotes: reason }),
+      ...transfer,
+      // Every reference ever used, so events for any attempt find the payout
+      ...(transfer && { transferReferences: admin.firestore.FieldValue.arrayUnion(transfer.transferReference) }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { ...payoutData, ...transfer };
+  });
+
+  if (decision === 'reject') {
+    return { success: true, status: 'rejected', message: 'Payout request rejected' };
+  }
+
+  const reference: string = payout.transferReference;
+
+  const markFailed = async (error: unknown) => {
+    await payoutRef.update({
+      status: 'failed',
+      failureReason: error instanceof Error ? error.message : 'Unknown error',
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    throw new functions.https.HttpsError('internal', 'Failed to start transfer');
+  };
+
+  let recipientCode: string;
+  try {
+    if (!payout.bankDetails?.accountNumber || !payout.bankDetails?.bankCode) {
+      throw new Error('Payout request has no bank details');
+    }
+    recipientCode = await getRecipientCode(payout.userId, payout.bankDetails);
+  } catch (error) {
+    // Nothing has been sent yet
+    console.error('Error preparing payout transfer:', error);
+    return markFailed(error);
+  }
+
+  try {
+    const transfer = await initiateTransfer({
+      amount: payout.amount,
+      recipientCode,
+      reference,
+      reason: `Airrands payout ${payoutId}`,
+    });
+
+    await payoutRef.update({
+      transferCode: transfer.transfer_code || null,
+      recipientCode,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return { success: true, status: 'processing', message: 'Transfer started' };
+  } catch (transferError) {
+    console.error('Error starting payout transfer:', transferError);
+
+    // The transfer may have gone through anyway, so ask Paystack before
+    // deciding. Until it says, the payout stays 'processing' and keeps its
+    // amount held.
+    try {
+      const existing = await fetchPaystackTransfer(reference);
+      const event = TRANSFER_STATUS_EVENT[existing?.status];
+      if (event) {
+        await applyTransferEvent(event, { ...existing, reference });
+        return { success: true, status: TRANSFER_EVENT_STATUS[event], message: `Transfer ${existing.status}` };
+      }
+    } catch (lookupError) {
+      // Turned down, and Paystack has no transfer under this reference
+      if (isPaystackRejection(transferError) || isPaystackRejection(lookupError)) {
+        return markFailed(transferError);
+      }
+      console.error(`Error checking payout transfer ${reference}:`, lookupError);
+    }
+  }
+
+  await payoutRef.update({
+    recipientCode,
+    transferUnconfirmed: true,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return { success: true, status: 'processing', message: 'Transfer sent; waiting for Paystack to confirm it' };
+});
+
+const TRANSFER_EVENT_STATUS: Record<string, PayoutStatus> = {
+  'transfer.success': 'paid',
+  'transfer.failed': 'failed',
+  'transfer.reversed': 'reversed',
+};
+
+/**
+ * Apply a transfer webhook to the payout request it belongs to. The user's
+ * wallet is only debited in the ledger once the transfer has succeeded, and
+ * is credited back if a paid transfer is later reversed.
+ */
+export async function applyTransferEvent(eventType: string, data: any): Promise<void> {
+  const nextStatus = TRANSFER_EVENT_STATUS[eventType];
+  if (!nextStatus || !data?.reference) return;
+
+  let snapshot = await db().collection('payoutRequests')
+    .where('transferReferences', 'array-contains', data.reference)
+    .limit(1)
+    .get();
+  // Payouts claimed before references were collected only have the latest one
+  if (snapshot.empty) {
+    snapshot = await db().collection('payoutRequests')
+      .where('transferReference', '==', data.reference)
+      .limit(1)
+      .get();
+  }
+
+  if (snapshot.empty) {
+    console.log(`No payout request for transfer ${data.reference}`);
+    return;
+  }
+
+  const payoutRef = snapshot.docs[0].ref;
+
+  await db().runTransaction(async (transaction) => {
+    const payoutDoc = await transaction.get(payoutRef);
+    const payout = payoutDoc.data()!;
+
+    if (payout.status === nextStatus) return;
+    // A past attempt failing says nothing about the one now in flight
+    if (nextStatus === 'failed' && payout.transferReference && payout.transferReference !== data.reference) {
+      console.warn(`Ignoring ${eventType} for earlier transfer ${data.reference} of payout ${payoutRef.id}`);
+      return;
+    }
+    if (!canTransitionPayout(payout.status, nextStatus)) {
+      console.warn(`Ignoring ${eventType} for payout ${payoutRef.id} in status '${payout.status}'`);
+      return;
+    }
+
+    transaction.update(payoutRef, {
+      status: nextStatus,
+      transferUnconfirmed: false,
+      ...(nextStatus === 'paid' && { paidAt: admin.firestore.FieldValue.serverTimestamp() }),
+      ...(nextStatus !== 'paid' && { failureReason: data.reason || data.gateway_response || eventType }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    const userRef = db().collection('users').doc(payout.userId);
+    if (nextStatus === 'paid') {
+      writeLedgerPosting(transaction, {
+        id: `payout_${payoutRef.id}`,
+        type: 'payout',
+        sourceType: 'payout',
+        sourceId: payoutRef.id,
+        description: `Payout to ${payout.bankDetails?.bankName || 'bank account'}`,
+        lines: [
+          { account: userAccount(payout.userId), direction: 'debit', amount: payout.amount },
+          { account: PAYOUTS_ACCOUNT, direction: 'credit', amount: payout.amount },
+        ],
+        metadata: { transferReference: data.reference },
+      });
+    } else if (nextStatus === 'reversed' && payout.status === 'paid') {
+      writeLedgerPosting(transaction, {
+        id: `payout_reversal_${payoutRef.id}`,
+        type: 'payout',
+        sourceType: 'payout',
+        sourceId: payoutRef.id,
+        description: 'Payout reversed by the bank',
+        lines: [
+          { account: PAYOUTS_ACCOUNT, direction: 'debit', amount: payout.amount },
+          { account: userAccount(payout.userId), direction: 'credit', amount: payout.amount },
+        ],
+        metadata: { transferReference: data.reference },
+      });
+    }
+
+    const notification = {
+      paid: { title: 'Payout Sent', message: `Your payout of ₦${payout.amount.toLocaleString()} has been sent to your bank account.` },
+      failed: { title: 'Payout Failed', message: `Your payout of ₦${payout.amount.toLocaleString()} could not be completed. Our team will retry it.` },
+      reversed: { title: 'Payout Reversed', message: `Your payout of ₦${payout.amount.toLocaleString()} was reversed by the bank.` },
+    }[nextStatus as 'paid' | 'failed' | 'reversed'];
+
+    transaction.set(userRef.collection('notifications').doc(`payout_${payoutRef.id}_${nextStatus}`), {
+      ...notification,
+      type: 'payout_update',
+      data: { payoutId: payoutRef.id, status: nextStatus },
+      isRead: false,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
@@ -0,0 +1,116 @@
+import * as functions from 'firebase-functions';
+
+const PAYSTACK_API_URL = 'https://api.paystack.co';
+
+export const getPaystackSecretKey = (): string | undefined =>
+  functions.config().paystack?.secret_key || process.env.PAYSTACK_SECRET_KEY;
+
+// Paystack amounts are in kobo; everything we store is in naira
+export const toKobo = (naira: number) => Math.round(naira * 100);
+export const fromKobo = (kobo: number) => kobo / 100;
+
+/**
+ * Whether a failed Paystack call was definitely turned down, so nothing was
+ * created on Paystack's side. Network errors, timeouts and 5xx responses are
+ * not: the request may still have gone through.
+ */
+export const isPaystackRejection = (error: unknown): boolean =>
+  error instanceof functions.https.HttpsError && (error.details as { rejected?: boolean } | undefined)?.rejected === true;
+
+// Call the Paystack API and return the `data` of a successful response
+export async function paystackRequest(path: string, init: { method?: string; body?: any } = {}): Promise<any> {
+  const paystackSecretKey = getPaystackSecretKey();
+
+  if (!paystackSecretKey) {
+    throw new functions.https.HttpsError('internal', 'Paystack configuration not found', { rejected: true });
+  }
+
+  const response = await fetch(`${PAYSTACK_API_URL}${path}`, {
+    method: init.method || 'GET',
+    headers: {
+      'Authorization': `Bearer ${paystackSecretKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || result.status === false) {
+    throw new functions.https.HttpsError('internal', `Paystack API error: ${result.message || 'Unknown error'}`, {
+      rejected: response.status < 500,
+      httpStatus: response.status,
+    });
+  }
+
+  return result.data;
+}
+
+// Call the Paystack verify API and return the transaction data
+export const fetchPaystackTransaction = (reference: string): Promise<any> =>
+  paystackRequest(`/transaction/verify/${encodeURIComponent(reference)}`);
+
+export interface TransferRecipientInput {
+  accountName: string;
+  accountNumber: string;
+  bankCode: string;
+}
+
+// Register a Nigerian bank account as a transfer recipient and return its recipient code
+export async function createTransferRecipient(input: TransferRecipientInput): Promise<string> {
+  const data = await paystackRequest('/transferrecipient', {
+    method: 'POST',
+    body: {
+      type: 'nuban',
+      name: input.accountName,
+      account_number: input.accountNumber,
+      bank_code: input.bankCode,
+      currency: 'NGN',
+    },
+  });
+  return data.recipient_code;
+}
+
+export interface TransferInput {
+  amount: number; // naira
+  recipientCode: string;
+  reference: string;
+  reason: string;
+}
+
+export const initiateTransfer = (input: TransferInput): Promise<any> =>
+  paystackRequest('/transfer', {
+    method: 'POST',
+    body: {
+      source: 'balance',
+      amount: toKobo(input.amount),
+      recipient: input.recipientCode,
+      reference: input.reference,
+      reason: input.reason,
+      currency: 'NGN',
+    },
+  });
+
+// Look up a transfer by our reference; its `status` is success, failed, reversed or still in flight
+export const fetchPaystackTransfer = (reference: string): Promise<any> =>
+  paystackRequest(`/transfer/verify/${encodeURIComponent(reference)}`);
+
+export interface RefundInput {
+  transactionReference: string;
+  amount: number; // naira; the whole transaction when omitted by Paystack
+  merchantNote?: string;
+  customerNote?: string;
+}
+
+// Start a full or partial refund of a transaction; Paystack confirms it by webhook
+export const createRefund = (input: RefundInput): Promise<any> =>
+  paystackRequest('/refund', {
+    method: 'POST',
+    body: {
+      transaction: input.transactionReference,
+      amount: toKobo(input.amount),
+      currency: 'NGN',
+      merchant_note: input.merchantNote,
+      customer_note: input.customerNote,
+    },
+  });
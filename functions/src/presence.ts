@@ -0,0 +1,40 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+const db = () => admin.firestore();
+
+// The app records a heartbeat in `presence/{userId}` about once a minute while
+// it is in the foreground. A user whose heartbeats stop for this long is
+// treated as disconnected.
+export const PRESENCE_TIMEOUT_MS = 2 * 60 * 1000;
+
+const EXPIRE_BATCH_SIZE = 400;
+
+// Firestore caps a write batch at 500 operations, and each user takes two
+const BATCH_LIMIT = 500;
+const USERS_PER_BATCH = BATCH_LIMIT / 2;
+
+// Mark users whose heartbeats stopped as offline, writing the last one back as `lastSeen`
+export const expirePresence = functions.pubsub
+  .schedule('every 1 minutes')
+  .onRun(async () => {
+    const stale = await db().collection('presence')
+      .where('online', '==', true)
+      .where('lastHeartbeatAt', '<', admin.firestore.Timestamp.fromMillis(Date.now() - PRESENCE_TIMEOUT_MS))
+      .limit(EXPIRE_BATCH_SIZE)
+      .get();
+    if (stale.empty) return null;
+
+    for (let i = 0; i < stale.docs.length; i += USERS_PER_BATCH) {
+      const batch = db().batch();
+      stale.docs.slice(i, i + USERS_PER_BATCH).forEach((doc) => {
+        const lastSeen = doc.data().lastHeartbeatAt;
+        batch.update(doc.ref, { online: false, lastSeen });
+        batch.set(db().collection('users').doc(doc.id), { lastSeen }, { merge: true });
+      });
+      await batch.commit();
+    }
+
+    console.log(`Marked ${stale.size} users offline after missed heartbeats`);
+    return null;
+  });
@@ -0,0 +1,190 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { FEE_RULES_DOC, FeeBreakdown, FeeRules, calculateCheckoutFees, mergeFeeRules } from './feeRules';
+
+export const MAX_ITEM_QUANTITY = 10;
+
+export interface CheckoutItemInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+export interface PricedLineItem {
+  productId: string;
+  productName: string;
+  variantId: string | null;
+  variantName: string | null;
+  categoryId: string | null;
+  price: number;
+  quantity: number;
+  lineTotal: number;
+}
+
+export interface PricedSellerOrder {
+  sellerId: string;
+  sellerName: string;
+  items: PricedLineItem[];
+  subtotal: number;
+  deliveryFee: number;
+  totalAmount: number; // this order's share of the buyer's charge
+  fees: FeeBreakdown;
+}
+
+export interface CheckoutQuote {
+  orders: PricedSellerOrder[];
+  subtotal: number;
+  fees: {
+    delivery: number;
+    service: number;
+    processing: number;
+  };
+  breakdown: FeeBreakdown;
+  total: number;
+}
+
+// Stock that a checkout needs to take, keyed by product ID
+export type StockReservation = Record<string, number>;
+
+const roundNaira = (amount: number) => Math.round(amount * 100) / 100;
+
+type DocGetter = (ref: admin.firestore.DocumentReference) => Promise<admin.firestore.DocumentSnapshot>;
+
+// Current fee rules from Firestore, with defaults for anything not configured
+export async function getFeeRules(get: DocGetter = (ref) => ref.get()): Promise<FeeRules> {
+  const doc = await get(admin.firestore().doc(FEE_RULES_DOC));
+  return mergeFeeRules(doc.exists ? (doc.data() as Partial<FeeRules>) : null);
+}
+
+export const validateCheckoutItems = (items: unknown): CheckoutItemInput[] => {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new functions.https.HttpsError('invalid-argument', 'At least one item is required');
+  }
+
+  return items.map((item: any) => {
+    const quantity = Number(item?.quantity);
+    if (!item?.productId || typeof item.productId !== 'string') {
+      throw new functions.https.HttpsError('invalid-argument', 'Every item needs a product ID');
+    }
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_ITEM_QUANTITY) {
+      throw new functions.https.HttpsError('invalid-argument', `Quantity must be between 1 and ${MAX_ITEM_QUANTITY}`);
+    }
+    return {
+      productId: item.productId,
+      variantId: typeof item.variantId === 'string' && item.variantId ? item.variantId : null,
+      quantity,
+    };
+  });
+};
+
+/**
+ * Price a checkout from current Firestore data. Client-sent prices are never
+ * used. Pass a transaction's `get` to read products and sellers consistently
+ * with the writes that follow.
+ */
+export async function priceCheckout(
+  items: CheckoutItemInput[],
+  deliveryOption: 'pickup' | 'delivery',
+  get: DocGetter = (ref) => ref.get()
+): Promise<{ quote: CheckoutQuote; reservations: StockReservation }> {
+  const db = admin.firestore();
+  const productIds = Array.from(new Set(items.map((item) => item.productId)));
+  const productDocs = await Promise.all(productIds.map((id) => get(db.collection('products').doc(id))));
+  const products = new Map(productDocs.map((doc) => [doc.id, doc]));
+
+  const reservations: StockReservation = {};
+  const groups = new Map<string, PricedLineItem[]>();
+
+  for (const item of items) {
+    const productDoc = products.get(item.productId);
+    const product = productDoc?.data();
+
+    if (!productDoc?.exists || !product) {
+      throw new functions.https.HttpsError('not-found', `Product ${item.productId} no longer exists`);
+    }
+    if (product.status !== 'active' || product.available === false) {
+      throw new functions.https.HttpsError('failed-precondition', `${product.name || 'A product'} is not available`);
+    }
+
+    let price = Number(product.price) || 0;
+    let variantName: string | null = null;
+    if (item.variantId) {
+      const variant = (product.variants || []).find((v: any) => v.id === item.variantId);
+      if (!variant) {
+        throw new functions.https.HttpsError('not-found', `The selected option for ${product.name} no longer exists`);
+      }
+      // A variant with its own price replaces the base product price
+      price = Number(variant.price) > 0 ? Number(variant.price) : price;
+      variantName = variant.name || null;
+    }
+
+    reservations[item.productId] = (reservations[item.productId] || 0) + item.quantity;
+    if (typeof product.stockLevel === 'number' && product.stockLevel < reservations[item.productId]) {
+      throw new functions.https.HttpsError('failed-precondition', `Only ${product.stockLevel} of ${product.name} left in stock`);
+    }
+
+    const lineItems = groups.get(product.sellerId) || [];
+    lineItems.push({
+      productId: item.productId,
+      productName: product.name || product.productName || 'Unknown Product',
+      variantId: item.variantId || null,
+      variantName,
+      categoryId: product.categoryId || null,
+      price,
+      quantity: item.quantity,
+      lineTotal: roundNaira(price * item.quantity),
+    });
+    groups.set(product.sellerId, lineItems);
+  }
+
+  const sellerOrders: Array<Omit<PricedSellerOrder, 'totalAmount' | 'fees'> & { sellerTier: string | null }> = [];
+  for (const [sellerId, lineItems] of groups) {
+    const sellerDoc = await get(db.collection('users').doc(sellerId));
+    const seller = sellerDoc.data() || {};
+    const subtotal = roundNaira(lineItems.reduce((sum, line) => sum + line.lineTotal, 0));
+
+    if (seller.minimumOrder && subtotal < seller.minimumOrder) {
+      throw new functions.https.HttpsError(
+        'failed-precondition',
+        `${seller.businessName || seller.name || 'This store'} has a minimum order of ₦${seller.minimumOrder}`
+      );
+    }
+
+    sellerOrders.push({
+      sellerId,
+      sellerName: seller.businessName || seller.name || 'Unknown Store',
+      sellerTier: seller.sellerTier || null,
+      items: lineItems,
+      subtotal,
+      deliveryFee: deliveryOption === 'delivery' ? Number(seller.deliveryFee) || 0 : 0,
+    });
+  }
+
+  const rules = await getFeeRules(get);
+  const fees = calculateCheckoutFees(rules, sellerOrders.map((order) => ({
+    sellerTier: order.sellerTier,
+    deliveryFee: order.deliveryFee,
+    items: order.items,
+  })));
+
+  const orders: PricedSellerOrder[] = sellerOrders.map(({ sellerTier, ...order }, index) => ({
+    ...order,
+    totalAmount: fees.orders[index].total,
+    fees: fees.orders[index],
+  }));
+
+  return {
+    quote: {
+      orders,
+      subtotal: fees.checkout.subtotal,
+      fees: {
+        delivery: fees.checkout.deliveryFee,
+        service: fees.checkout.serviceFee,
+        processing: fees.checkout.processingFee,
+      },
+      breakdown: fees.checkout,
+      total: fees.checkout.total,
+    },
+    reservations,
+  };
+}
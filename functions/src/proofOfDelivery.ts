@@ -0,0 +1,329 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { randomInt } from 'crypto';
+import { requireAuth } from './access';
+import { canTransitionOrder } from './orderLifecycle';
+import { getVerifiedStatusChange, orderStatusUpdate, rolledBackStatusChange } from './orderStatus';
+import { sendInternalPushNotification } from './notifications';
+
+const db = () => admin.firestore();
+
+// Codes live apart from the job, in a collection firestore.rules keep every
+// client out of, so the runner cannot read them off the order or errand
+export const HANDOFF_CODES_COLLECTION = 'handoffCodes';
+
+export const HANDOFF_CODE_LENGTH = 4;
+
+// Wrong guesses allowed before the runner has to fall back to a no-contact drop
+export const MAX_HANDOFF_ATTEMPTS = 5;
+
+export type HandoffJobType = 'order' | 'errand';
+
+export type ProofMethod = 'code' | 'no_contact';
+
+// A drawn signature as an SVG path, with the size of the pad it was drawn on
+export interface SignatureData {
+  path: string;
+  width: number;
+  height: number;
+}
+
+// Stored on the order or errand as `proofOfDelivery`
+export interface ProofOfDelivery {
+  method: ProofMethod;
+  photoUrl: string | null;
+  signature: SignatureData | null;
+  recipientName: string | null;
+  submittedBy: string;
+  submittedAt: admin.firestore.Timestamp;
+}
+
+interface SubmitProofData {
+  jobType: HandoffJobType;
+  jobId: string;
+  code?: string;
+  noContact?: boolean;
+  photoUrl?: string;
+  signature?: SignatureData | null;
+  recipientName?: string;
+}
+
+const MAX_SIGNATURE_PATH_LENGTH = 20000;
+
+// Runner statuses from which the job may be handed over
+const ERRAND_HANDOFF_STATUSES = ['in_progress', 'on_the_way'];
+const ORDER_HANDOFF_STATUSES = ['picked_up', 'out_for_delivery'];
+
+const jobCollection = (jobType: HandoffJobType) => (jobType === 'order' ? 'orders' : 'errands');
+
+const codeId = (jobType: HandoffJobType, jobId: string) => `${jobType}_${jobId}`;
+
+const generateCode = () => String(randomInt(0, 10 ** HANDOFF_CODE_LENGTH)).padStart(HANDOFF_CODE_LENGTH, '0');
+
+const isHandoffStatus = (jobType: HandoffJobType, status: string) =>
+  (jobType === 'order' ? ORDER_HANDOFF_STATUSES : ERRAND_HANDOFF_STATUSES).includes(status);
+
+const validateSignature = (signature: SignatureData | null | undefined): SignatureData | null => {
+  if (!signature) return null;
+  const { path, width, height } = signature;
+  if (typeof path !== 'string' || !path.startsWith('M') || path.length > MAX_SIGNATURE_PATH_LENGTH ||
+      !(Number(width) > 0) || !(Number(height) > 0)) {
+    throw new functions.https.HttpsError('invalid-argument', 'The signature could not be read');
+  }
+  return { path, width: Number(width), height: Number(height) };
+};
+
+/**
+ * Issue the handoff code for a job if it does not have one yet, and return it.
+ * Safe to call repeatedly; the first code issued is kept.
+ */
+async function ensureHandoffCode(jobType: HandoffJobType, jobId: string, job: admin.firestore.DocumentData) {
+  const codeRef = db().collection(HANDOFF_CODES_COLLECTION).doc(codeId(jobType, jobId));
+
+  return db().runTransaction(async (transaction) => {
+    const existing = await transaction.get(codeRef);
+    if (existing.exists) {
+      return { code: existing.data()?.code as string, created: false };
+    }
+
+    const code = generateCode();
+    transaction.set(codeRef, {
+      code,
+      jobType,
+      jobId,
+      buyerId: job.buyerId || job.userId || null,
+      attempts: 0,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { code, created: true };
+  });
+}
+
+// Buyer reads the code to give the runner at the door
+export const getHandoffCode = functions.https.onCall(async (data: { jobType: HandoffJobType; jobId: string }, context: functions.https.CallableContext) => {
+  const uid = requireAuth(context);
+  if (!['order', 'errand'].includes(data?.jobType) || !data.jobId) {
+    throw new functions.https.HttpsError('invalid-argument', 'A valid order or errand is required');
+  }
+
+  const jobDoc = await db().collection(jobCollection(data.jobType)).doc(data.jobId).get();
+  if (!jobDoc.exists) {
+    throw new functions.https.HttpsError('not-found', `${data.jobType === 'order' ? 'Order' : 'Errand'} not found`);
+  }
+  const job = jobDoc.data()!;
+  if ((job.buyerId || job.userId) !== uid) {
+    throw new functions.https.HttpsError('permission-denied', 'Only the buyer can view the handoff code');
+  }
+
+  const { code } = await ensureHandoffCode(data.jobType, data.jobId, job);
+  return { code };
+});
+
+/**
+ * Runner hands the job over. Completion needs either the buyer's code or, for
+ * a no-contact drop, a photo of where the goods were left. Orders move to
+ * `delivered` and errands to `completed`, with the proof stored alongside.
+ */
+export const submitProofOfDelivery = functions.https.onCall(async (data: SubmitProofData, context: functions.https.CallableContext) => {
+  const uid = requireAuth(context);
+  if (!['order', 'errand'].includes(data?.jobType) || !data.jobId) {
+    throw new functions.https.HttpsError('invalid-argument', 'A valid order or errand is required');
+  }
+
+  const { jobType, jobId } = data;
+  const noContact = data.noContact === true;
+  const photoUrl = typeof data.photoUrl === 'string' && data.photoUrl.startsWith('https://') ? data.photoUrl : null;
+  const signature = validateSignature(data.signature);
+  const recipientName = typeof data.recipientName === 'string' ? data.recipientName.trim().slice(0, 100) || null : null;
+  const code = typeof data.code === 'string' ? data.code.trim() : '';
+
+  if (noContact && !photoUrl) {
+    throw new functions.https.HttpsError('invalid-argument', 'A no-contact drop needs a photo of where the items were left');
+  }
+  if (!noContact && !new RegExp(`^\\d{${HANDOFF_CODE_LENGTH}}$`).test(code)) {
+    throw new functions.https.HttpsError('invalid-argument', `Enter the ${HANDOFF_CODE_LENGTH}-digit code from the buyer`);
+  }
+
+  const jobRef = db().collection(jobCollection(jobType)).doc(jobId);
+  const codeRef = db().collection(HANDOFF_CODES_COLLECTION).doc(codeId(jobType, jobId));
+
+  // A wrong code returns instead of throwing, so the counted attempt is still committed
+  const outcome = await db().runTransaction(async (transaction) => {
+    const [jobDoc, codeDoc] = await Promise.all([transaction.get(jobRef), transaction.get(codeRef)]);
+    if (!jobDoc.exists) {
+      throw new functions.https.HttpsError('not-found', `${jobType === 'order' ? 'Order' : 'Errand'} not found`);
+    }
+
+    const job = jobDoc.data()!;
+    if (job.runnerId !== uid) {
+      throw new functions.https.HttpsError('permission-denied', 'Only the assigned runner can complete this delivery');
+    }
+    if (job.proofOfDelivery) {
+      throw new functions.https.HttpsError('failed-precondition', 'Delivery has already been recorded');
+    }
+    if (!isHandoffStatus(jobType, job.status)) {
+      throw new functions.https.HttpsError('failed-precondition', `This ${jobType} is not out for delivery`);
+    }
+    if (jobType === 'order' && !canTransitionOrder(job.status, 'delivered', 'runner')) {
+      throw new functions.https.HttpsError('failed-precondition', `Order cannot move from '${job.status}' to 'delivered'`);
+    }
+
+    if (!noContact) {
+      const stored = codeDoc.data();
+      if (!stored) {
+        throw new functions.https.HttpsError('failed-precondition', 'The buyer has not been sent a handoff code yet');
+      }
+      if ((stored.attempts || 0) >= MAX_HANDOFF_ATTEMPTS) {
+        throw new functions.https.HttpsError('failed-precondition', 'Too many wrong codes. Use a no-contact drop with a photo instead');
+      }
+      if (stored.code !== code) {
+        transaction.update(codeRef, {
+          attempts: admin.firestore.FieldValue.increment(1),
+          lastAttemptAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return { matched: false, attemptsLeft: MAX_HANDOFF_ATTEMPTS - (stored.attempts || 0) - 1, job };
+      }
+    }
+
+    // Errands finish at their dropoff; every earlier stop has to be done first
+    let stops = job.stops;
+    if (jobType === 'errand' && Array.isArray(stops) && stops.length > 0) {
+      const outstanding = stops.filter((stop: any) => stop.status !== 'completed');
+      const finalStop = stops[stops.length - 1];
+      if (outstanding.some((stop: any) => stop.id !== finalStop.id)) {
+        throw new functions.https.HttpsError('failed-precondition', 'Complete every pickup before the dropoff');
+      }
+      const now = admin.firestore.Timestamp.now();
+      stops = stops.map((stop: any) => (
+        stop.id === finalStop.id && stop.status !== 'completed'
+          ? { ...stop, status: 'completed', arrivedAt: stop.arrivedAt || now, completedAt: now }
+          : stop
+      ));
+    }
+
+    const proof: ProofOfDelivery = {
+      method: noContact ? 'no_contact' : 'code',
+      photoUrl,
+      signature,
+      recipientName,
+      submittedBy: uid,
+      submittedAt: admin.firestore.Timestamp.now(),
+    };
+
+    transaction.update(jobRef, {
+      ...(jobType === 'order'
+        ? { ...orderStatusUpdate(job.status, 'delivered', 'runner', uid), 'tracking.delivered': true }
+        : {
+          // The stamp is what errandHandoff checks; clients cannot write it
+          ...orderStatusUpdate(job.status, 'completed', 'runner', uid),
+          completedAt: admin.firestore.FieldValue.serverTimestamp(),
+          ...(stops && { stops, currentStopId: null }),
+        }),
+      proofOfDelivery: proof,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    if (codeDoc.exists) {
+      transaction.update(codeRef, { usedAt: admin.firestore.FieldValue.serverTimestamp() });
+    }
+    return { matched: true, attemptsLeft: null, job };
+  });
+
+  if (!outcome.matched) {
+    const attemptsLeft = outcome.attemptsLeft ?? 0;
+    throw new functions.https.HttpsError(
+      'permission-denied',
+      attemptsLeft > 0
+        ? `That code is not right. ${attemptsLeft} ${attemptsLeft === 1 ? 'try' : 'tries'} left`
+        : 'That code is not right. Use a no-contact drop with a photo instead'
+    );
+  }
+
+  if (jobType === 'errand') {
+    await db().collection('users').doc(uid).update({
+      currentErrand: null,
+      status: 'available',
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }).catch((error) => console.error(`Error freeing runner ${uid}:`, error));
+  }
+
+  const buyerId = outcome.job.buyerId || outcome.job.userId;
+  if (buyerId && noContact) {
+    await sendInternalPushNotification({
+      userId: buyerId,
+      title: 'Left at Your Door',
+      body: `Your ${jobType} was dropped off without contact. Open the app to see the photo.`,
+      type: jobType,
+      data: { type: 'proof_of_delivery', jobType, jobId },
+    }).catch((error) => console.error(`Error notifying ${buyerId} of no-contact drop:`, error));
+  }
+
+  return { success: true };
+});
+
+/**
+ * Send the buyer their handoff code as the runner heads over, and put back
+ * any completion not made by submitProofOfDelivery (e.g. an outdated client).
+ */
+async function trackHandoff(
+  jobType: HandoffJobType,
+  jobId: string,
+  change: functions.Change<functions.firestore.QueryDocumentSnapshot>
+) {
+  const before = change.before.data();
+  const after = change.after.data();
+  if (before.status === after.status) return;
+
+  const completedStatus = jobType === 'order' ? 'delivered' : 'completed';
+
+  // Orders are rolled back by sendOrderNotification along with other lifecycle checks.
+  // Errands are only completed by submitProofOfDelivery, which stamps the change;
+  // a proof written alongside the status proves nothing.
+  if (jobType === 'errand' && after.status === completedStatus && !getVerifiedStatusChange(before, after)) {
+    const rejected = after.rejectedStatusTransition;
+    if (rejected && rejected.from === after.status && rejected.to === before.status) return;
+
+    console.warn(`Rejected errand ${jobId} completion without proof of delivery`);
+    await change.after.ref.update({
+      status: before.status,
+      statusChange: rolledBackStatusChange(after.status, before.status),
+      completedAt: null,
+      proofOfDelivery: null,
+      rejectedStatusTransition: {
+        from: before.status,
+        to: after.status,
+        actor: 'unknown',
+        reason: 'proof_of_delivery_required',
+        rejectedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+    });
+    return;
+  }
+
+  if (!isHandoffStatus(jobType, after.status) || isHandoffStatus(jobType, before.status)) return;
+
+  const { code, created } = await ensureHandoffCode(jobType, jobId, after);
+  const buyerId = after.buyerId || after.userId;
+  if (created && buyerId) {
+    await sendInternalPushNotification({
+      userId: buyerId,
+      title: 'Your Handoff Code',
+      body: `Your runner is on the way. Give them code ${code} when they arrive.`,
+      type: jobType,
+      data: { type: 'handoff_code', jobType, jobId },
+    }).catch((error) => console.error(`Error sending handoff code to ${buyerId}:`, error));
+  }
+}
+
+export const orderHandoff = functions.firestore
+  .document('orders/{orderId}')
+  .onUpdate(async (change, context) => {
+    await trackHandoff('order', context.params.orderId, change);
+    return null;
+  });
+
+export const errandHandoff = functions.firestore
+  .document('errands/{errandId}')
+  .onUpdate(async (change, context) => {
+    await trackHandoff('errand', context.params.errandId, change);
+    return null;
+  });
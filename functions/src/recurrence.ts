@@ -0,0 +1,124 @@
+// Recurrence rules for scheduled errands, evaluated in Nigerian local time
+// Mirror of src/utils/recurrence.ts in the app - keep the two in sync.
+
+export type RecurrenceFrequency = 'once' | 'daily' | 'weekly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  time: string; // 'HH:mm' local time
+  startDate: string; // 'YYYY-MM-DD', the only date for a one-off booking
+  endDate?: string | null; // inclusive
+  daysOfWeek?: number[]; // 0 = Sunday, weekly rules only
+}
+
+// West Africa Time (Africa/Lagos) is UTC+1 all year, with no daylight saving
+export const SCHEDULE_UTC_OFFSET_MINUTES = 60;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Far enough to find the next match for any valid rule
+const MAX_LOOKAHEAD_DAYS = 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toDateKeyFromUtcMidnight = (utc: number) => {
+  const date = new Date(utc);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+const parseDateKey = (key: string): number | null => {
+  const match = DATE_PATTERN.exec(key);
+  if (!match) return null;
+  const utc = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return toDateKeyFromUtcMidnight(utc) === key ? utc : null;
+};
+
+// Local calendar date of an instant, as 'YYYY-MM-DD'
+export const toLocalDateKey = (instant: Date): string =>
+  toDateKeyFromUtcMidnight(instant.getTime() + SCHEDULE_UTC_OFFSET_MINUTES * 60 * 1000);
+
+// The instant a local date and 'HH:mm' time refer to
+export const occurrenceAt = (dateKey: string, time: string): Date => {
+  const day = parseDateKey(dateKey);
+  const match = TIME_PATTERN.exec(time);
+  if (day === null || !match) throw new Error(`Invalid occurrence ${dateKey} ${time}`);
+  const minutes = Number(match[1]) * 60 + Number(match[2]) - SCHEDULE_UTC_OFFSET_MINUTES;
+  return new Date(day + minutes * 60 * 1000);
+};
+
+// A description of what is wrong with a rule, or null when it is usable
+export const validateRecurrence = (rule: Partial<RecurrenceRule> | null | undefined): string | null => {
+  if (!rule || !['once', 'daily', 'weekly'].includes(rule.frequency as string)) {
+    return 'Choose how often the errand should run';
+  }
+  if (!rule.time || !TIME_PATTERN.test(rule.time)) return 'Enter a time as HH:MM';
+  if (!rule.startDate || parseDateKey(rule.startDate) === null) return 'Enter a start date as YYYY-MM-DD';
+  if (rule.endDate) {
+    const end = parseDateKey(rule.endDate);
+    if (end === null) return 'Enter an end date as YYYY-MM-DD';
+    if (end < (parseDateKey(rule.startDate) as number)) return 'The end date must be after the start date';
+  }
+  if (rule.frequency === 'weekly') {
+    const days = rule.daysOfWeek || [];
+    if (days.length === 0) return 'Choose at least one day of the week';
+    if (days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) return 'Days of the week must be 0-6';
+  }
+  return null;
+};
+
+const matchesDay = (rule: RecurrenceRule, dateKey: string, utcMidnight: number) => {
+  if (rule.frequency === 'once') return dateKey === rule.startDate;
+  if (rule.frequency === 'weekly') return (rule.daysOfWeek || []).includes(new Date(utcMidnight).getUTCDay());
+  return true;
+};
+
+/**
+ * Occurrences strictly after `after`, earliest first, leaving out skipped
+ * dates. Returns fewer than `count` when the rule runs out.
+ */
+export const upcomingOccurrences = (
+  rule: RecurrenceRule,
+  after: Date,
+  count: number,
+  skippedDates: string[] = []
+): Date[] => {
+  if (validateRecurrence(rule)) return [];
+
+  const start = parseDateKey(rule.startDate) as number;
+  const end = rule.endDate ? parseDateKey(rule.endDate) : null;
+  const from = Math.max(start, parseDateKey(toLocalDateKey(after)) as number);
+  const results: Date[] = [];
+
+  for (let day = from; results.length < count && day <= from + MAX_LOOKAHEAD_DAYS * DAY_MS; day += DAY_MS) {
+    if (end !== null && day > end) break;
+
+    const dateKey = toDateKeyFromUtcMidnight(day);
+    if (!matchesDay(rule, dateKey, day) || skippedDates.includes(dateKey)) continue;
+
+    const instant = occurrenceAt(dateKey, rule.time);
+    if (instant.getTime() > after.getTime()) results.push(instant);
+  }
+
+  return results;
+};
+
+export const nextOccurrence = (rule: RecurrenceRule, after: Date, skippedDates: string[] = []): Date | null =>
+  upcomingOccurrences(rule, after, 1, skippedDates)[0] || null;
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const until = rule.endDate ? ` until ${rule.endDate}` : '';
+  switch (rule.frequency) {
+    case 'once':
+      return `Once on ${rule.startDate} at ${rule.time}`;
+    case 'daily':
+      return `Every day at ${rule.time}${until}`;
+    default: {
+      const days = [...(rule.daysOfWeek || [])].sort().map((day) => WEEKDAY_LABELS[day]).join(', ');
+      return `Every ${days} at ${rule.time}${until}`;
+    }
+  }
+};
@@ -0,0 +1,561 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { requireAdmin } from './access';
+import { createRefund, isPaystackRejection } from './paystack';
+import { sendInternalPushNotification } from './notifications';
+import {
+  CLEARING_ACCOUNT,
+  ESCROW_ACCOUNT,
+  LEDGER_COLLECTION,
+  LedgerLine,
+  REFUNDS_ACCOUNT,
+  REVENUE_ACCOUNT,
+  nonZeroLines,
+  writeLedgerPosting,
+} from './ledger';
+import { canTransitionOrder } from './orderLifecycle';
+import { getVerifiedStatusChange } from './orderStatus';
+
+const db = () => admin.firestore();
+
+export const REFUNDS_COLLECTION = 'refunds';
+
+// Paystack's refund statuses
+export type RefundStatus = 'pending' | 'processing' | 'processed' | 'failed';
+
+// Refund state kept on orders and payments
+export type RefundState = 'pending' | 'partially_refunded' | 'refunded' | 'failed';
+
+// unmatched_charge: a charge that could not become an order or errand
+export type RefundSource = 'admin' | 'cancellation' | 'dispute' | 'unmatched_charge';
+
+export interface StartRefundInput {
+  orderId: string;
+  amount?: number; // naira; defaults to everything still refundable
+  reason: string;
+  requestedBy: string;
+  source: RefundSource;
+  // Deterministic ID for automatic refunds so a retried trigger cannot refund twice
+  refundId?: string;
+}
+
+const roundNaira = (amount: number) => Math.round(amount * 100) / 100;
+
+const isTerminal = (status: RefundStatus) => status === 'processed' || status === 'failed';
+
+const refundStateFor = (refunded: number, total: number, pending: number): RefundState => {
+  if (pending > 0) return 'pending';
+  if (refunded <= 0) return 'failed';
+  return refunded >= total ? 'refunded' : 'partially_refunded';
+};
+
+async function notifyBuyer(buyerId: string | undefined, title: string, body: string, data: Record<string, any>) {
+  if (!buyerId) return;
+  try {
+    await sendInternalPushNotification({ userId: buyerId, title, body, type: 'payment', data: { ...data, type: 'refund' } });
+  } catch (error) {
+    console.error('Error notifying buyer about refund:', error);
+  }
+}
+
+/**
+ * Ask Paystack to send back a refund already recorded as pending, and move it
+ * on to whatever Paystack says. Throws when Paystack turns it down, and
+ * returns null when it is not known whether Paystack took it.
+ */
+async function sendRefund(
+  refundRef: admin.firestore.DocumentReference,
+  request: { transactionReference: string; amount: number; merchantNote: string; customerNote: string }
+): Promise<RefundStatus | null> {
+  let refund: any;
+  try {
+    refund = await createRefund(request);
+  } catch (error) {
+    console.error(`Error starting refund ${refundRef.id}:`, error);
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+
+    // Only a refund Paystack turned down frees the reserved amount
+    if (isPaystackRejection(error)) {
+      await applyRefundOutcome(refundRef.id, 'failed', { reason });
+      throw new functions.https.HttpsError('internal', 'Failed to start refund');
+    }
+
+    // It may have been accepted; the amount stays reserved until the refund
+    // webhooks, matched on the transaction and amount, settle it
+    await refundRef.update({
+      startError: reason,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return null;
+  }
+
+  const status: RefundStatus = ['processing', 'processed', 'failed'].includes(refund.status) ? refund.status : 'pending';
+  try {
+    await refundRef.update({
+      paystackRefundId: refund.id ?? null,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await applyRefundOutcome(refundRef.id, status);
+  } catch (error) {
+    // Paystack has the refund, so its webhooks still settle it
+    console.error(`Error recording refund ${refundRef.id}:`, error);
+  }
+  return status;
+}
+
+/**
+ * Reserve the amount on the order, record the refund and ask Paystack to
+ * send it back. The outcome arrives later through the refund webhooks.
+ */
+export async function startRefund(input: StartRefundInput): Promise<{ refundId: string; amount: number; status: RefundStatus }> {
+  const orderRef = db().collection('orders').doc(input.orderId);
+  const refundRef = input.refundId
+    ? db().collection(REFUNDS_COLLECTION).doc(input.refundId)
+    : db().collection(REFUNDS_COLLECTION).doc();
+
+  const reserved = await db().runTransaction(async (transaction) => {
+    const [orderDoc, existingRefund] = await Promise.all([
+      transaction.get(orderRef),
+      transaction.get(refundRef),
+    ]);
+
+    if (existingRefund.exists) {
+      const refund = existingRefund.data()!;
+      return { created: false, amount: refund.amount as number, status: refund.status as RefundStatus, order: orderDoc.data() };
+    }
+    if (!orderDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Order not found');
+    }
+
+    const order = orderDoc.data()!;
+    if (order.paymentMethod !== 'paystack' || !order.paymentReference) {
+      throw new functions.https.HttpsError('failed-precondition', 'Only orders paid through Paystack can be refunded');
+    }
+
+    const total = Number(order.totalAmount) || 0;
+    const refundable = roundNaira(total - (order.refundedAmount || 0) - (order.refundPendingAmount || 0));
+    const amount = roundNaira(input.amount ?? refundable);
+
+    if (!(amount > 0) || amount > refundable) {
+      throw new functions.https.HttpsError(
+        'failed-precondition',
+        `Refund must be between ₦0 and the ₦${refundable.toLocaleString()} still refundable`
+      );
+    }
+
+    transaction.create(refundRef, {
+      orderId: input.orderId,
+      paymentId: order.paymentId || null,
+      transactionReference: order.paymentReference,
+      buyerId: order.buyerId || null,
+      amount,
+      type: amount >= total ? 'full' : 'partial',
+      reason: input.reason,
+      source: input.source,
+      requestedBy: input.requestedBy,
+      status: 'pending',
+      paystackRefundId: null,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    transaction.update(orderRef, {
+      refundPendingAmount: admin.firestore.FieldValue.increment(amount),
+      refundStatus: 'pending',
+      refundIds: admin.firestore.FieldValue.arrayUnion(refundRef.id),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (order.paymentId) {
+      transaction.set(db().collection('payments').doc(order.paymentId), {
+        refundStatus: 'pending',
+        refundIds: admin.firestore.FieldValue.arrayUnion(refundRef.id),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, { merge: true });
+    }
+
+    return { created: true, amount, status: 'pending' as RefundStatus, order };
+  });
+
+  if (!reserved.created) {
+    return { refundId: refundRef.id, amount: reserved.amount, status: reserved.status };
+  }
+
+  const status = await sendRefund(refundRef, {
+    transactionReference: reserved.order!.paymentReference,
+    amount: reserved.amount,
+    merchantNote: `Order ${input.orderId}: ${input.reason}`,
+    customerNote: input.reason,
+  });
+  if (!status) {
+    return { refundId: refundRef.id, amount: reserved.amount, status: 'pending' };
+  }
+
+  await notifyBuyer(
+    reserved.order!.buyerId,
+    'Refund Started',
+    `We've started a refund of ₦${reserved.amount.toLocaleString()} for your order.`,
+    { orderId: input.orderId, refundId: refundRef.id, amount: reserved.amount }
+  );
+
+  return { refundId: refundRef.id, amount: reserved.amount, status };
+}
+
+export interface UnmatchedCharge {
+  paymentId: string;
+  reference: string;
+  amount: number; // naira
+  userId: string;
+  paystackData: any;
+}
+
+/**
+ * Record a verified charge that could not become an order or errand, for
+ * example because prices or stock changed while the buyer was paying, and
+ * refund it in full. The payment is left as `needs_review` so an admin can
+ * follow up if the refund does not go through. Null when the charge has
+ * been used or refunded since.
+ */
+export async function refundUnmatchedCharge(
+  charge: UnmatchedCharge,
+  reason: string
+): Promise<{ refundId: string; status: RefundStatus } | null> {
+  const paymentRef = db().collection('payments').doc(charge.paymentId);
+  const refundRef = db().collection(REFUNDS_COLLECTION).doc(`unmatched_${charge.paymentId}`);
+
+  const created = await db().runTransaction(async (transaction) => {
+    const [paymentDoc, existingRefund] = await Promise.all([transaction.get(paymentRef), transaction.get(refundRef)]);
+    const payment = paymentDoc.data();
+    if (existingRefund.exists || payment?.orderIds?.length || payment?.errandId) return false;
+
+    transaction.set(paymentRef, {
+      id: paymentRef.id,
+      reference: charge.reference,
+      status: 'needs_review',
+      unmatchedReason: reason,
+      amount: charge.amount,
+      currency: 'NGN',
+      userId: charge.userId,
+      paymentMethod: 'paystack',
+      paystackData: charge.paystackData,
+      refundStatus: 'pending',
+      refundIds: admin.firestore.FieldValue.arrayUnion(refundRef.id),
+      ...(!paymentDoc.exists && { createdAt: admin.firestore.FieldValue.serverTimestamp() }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+
+    transaction.create(refundRef, {
+      orderId: null,
+      paymentId: paymentRef.id,
+      transactionReference: charge.reference,
+      buyerId: charge.userId,
+      amount: charge.amount,
+      type: 'full',
+      reason,
+      source: 'unmatched_charge' as RefundSource,
+      requestedBy: 'system',
+      status: 'pending',
+      paystackRefundId: null,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+  if (!created) return null;
+
+  let status: RefundStatus | null;
+  try {
+    status = await sendRefund(refundRef, {
+      transactionReference: charge.reference,
+      amount: charge.amount,
+      merchantNote: `Unmatched charge ${charge.reference}: ${reason}`,
+      customerNote: 'Your payment could not be used',
+    });
+  } catch (error) {
+    // Marked failed; the payment stays flagged for an admin
+    return { refundId: refundRef.id, status: 'failed' };
+  }
+  if (!status) {
+    return { refundId: refundRef.id, status: 'pending' };
+  }
+
+  await notifyBuyer(
+    charge.userId,
+    'Refund Started',
+    `We couldn't complete your purchase, so we've started a refund of ₦${charge.amount.toLocaleString()}.`,
+    { paymentId: paymentRef.id, refundId: refundRef.id, amount: charge.amount }
+  );
+  return { refundId: refundRef.id, status };
+}
+
+// What a checkout turns a charge away with when the order itself is the problem
+const UNMATCHED_CHARGE_ERRORS = ['failed-precondition', 'not-found', 'invalid-argument'];
+
+/**
+ * Rethrow an error from turning a verified charge into an order or errand.
+ * When the checkout itself was the problem the charge is refunded first, and
+ * the buyer is told so.
+ */
+export async function refundIfUnmatched(error: unknown, charge: UnmatchedCharge): Promise<never> {
+  if (!(error instanceof functions.https.HttpsError) || !UNMATCHED_CHARGE_ERRORS.includes(error.code)) {
+    throw error;
+  }
+
+  try {
+    await refundUnmatchedCharge(charge, error.message);
+  } catch (refundError) {
+    console.error(`Error refunding unmatched charge ${charge.reference}:`, refundError);
+  }
+  throw new functions.https.HttpsError(error.code, `${error.message}. Your payment of ₦${charge.amount.toLocaleString()} will be refunded.`);
+}
+
+/**
+ * Lines that pay a refund back out. Earnings already credited for the order
+ * are clawed back in proportion to the share of the order being refunded and
+ * the platform covers the rest. Before settlement the order's share of escrow
+ * is returned, and clearing covers the processing fee that was never held.
+ */
+function buildRefundLines(
+  entries: admin.firestore.QueryDocumentSnapshot[],
+  amount: number,
+  orderTotal: number
+): LedgerLine[] {
+  const credited = new Map<string, number>();
+  let held = 0;
+  let escrowBalance = 0;
+  entries.forEach((doc) => {
+    const entry = doc.data();
+    if (entry.account === ESCROW_ACCOUNT) {
+      if (entry.direction === 'credit') held += entry.amount;
+      escrowBalance += entry.direction === 'credit' ? entry.amount : -entry.amount;
+      return;
+    }
+    if (!entry.userId || !['order_settlement', 'platform_commission'].includes(entry.type)) return;
+    const signed = entry.direction === 'credit' ? entry.amount : -entry.amount;
+    credited.set(entry.account, (credited.get(entry.account) || 0) + signed);
+  });
+
+  const share = orderTotal > 0 ? Math.min(1, amount / orderTotal) : 1;
+
+  if (credited.size === 0) {
+    const fromEscrow = roundNaira(Math.min(Math.max(0, escrowBalance), held * share, amount));
+    return nonZeroLines([
+      { account: ESCROW_ACCOUNT, direction: 'debit', amount: fromEscrow },
+      { account: CLEARING_ACCOUNT, direction: 'debit', amount: roundNaira(amount - fromEscrow) },
+      { account: REFUNDS_ACCOUNT, direction: 'credit', amount },
+    ]);
+  }
+
+  const clawbacks: LedgerLine[] = Array.from(credited.entries()).map(([account, net]) => ({
+    account,
+    direction: 'debit',
+    amount: roundNaira(Math.max(0, net) * share),
+  }));
+  const fromUsers = clawbacks.reduce((sum, line) => sum + line.amount, 0);
+
+  return nonZeroLines([
+    ...clawbacks,
+    { account: REVENUE_ACCOUNT, direction: 'debit', amount: roundNaira(amount - fromUsers) },
+    { account: REFUNDS_ACCOUNT, direction: 'credit', amount },
+  ]);
+}
+
+/**
+ * Move a refund to a new status and keep the order and payment in step. A
+ * processed refund is posted to the ledger exactly once.
+ */
+export async function applyRefundOutcome(refundId: string, status: RefundStatus, details: { reason?: string } = {}) {
+  const refundRef = db().collection(REFUNDS_COLLECTION).doc(refundId);
+
+  const outcome = await db().runTransaction(async (transaction) => {
+    const refundDoc = await transaction.get(refundRef);
+    if (!refundDoc.exists) return null;
+
+    const refund = refundDoc.data()!;
+    if (refund.status === status || isTerminal(refund.status)) return null;
+
+    // Refunds of unmatched charges have a payment but no order
+    const orderRef = refund.orderId ? db().collection('orders').doc(refund.orderId) : null;
+    const paymentRef = refund.paymentId ? db().collection('payments').doc(refund.paymentId) : null;
+    const [orderDoc, paymentDoc, ledgerEntries] = await Promise.all([
+      orderRef ? transaction.get(orderRef) : Promise.resolve(null),
+      paymentRef ? transaction.get(paymentRef) : Promise.resolve(null),
+      orderRef
+        ? transaction.get(db().collection(LEDGER_COLLECTION)
+          .where('sourceType', '==', 'order')
+          .where('sourceId', '==', refund.orderId))
+        : Promise.resolve(null),
+    ]);
+
+    transaction.update(refundRef, {
+      status,
+      ...(status === 'processed' && { processedAt: admin.firestore.FieldValue.serverTimestamp() }),
+      ...(status === 'failed' && { failureReason: details.reason || 'Refund failed' }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (!isTerminal(status)) return { refund, status };
+
+    const order = orderDoc?.data() || {};
+    const orderTotal = Number(order.totalAmount) || 0;
+    if (orderRef) {
+      const pending = roundNaira(Math.max(0, (order.refundPendingAmount || 0) - refund.amount));
+      const refunded = roundNaira((order.refundedAmount || 0) + (status === 'processed' ? refund.amount : 0));
+
+      transaction.update(orderRef, {
+        refundPendingAmount: pending,
+        refundedAmount: refunded,
+        refundStatus: refundStateFor(refunded, orderTotal, pending),
+        // A fully refunded order has nothing left in escrow to release
+        ...(order.escrow?.status === 'held' && refunded >= orderTotal && { 'escrow.status': 'refunded' }),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    if (paymentRef && paymentDoc?.exists) {
+      const payment = paymentDoc.data()!;
+      const paymentRefunded = roundNaira((payment.refundedAmount || 0) + (status === 'processed' ? refund.amount : 0));
+      transaction.update(paymentRef, {
+        refundedAmount: paymentRefunded,
+        refundStatus: refundStateFor(paymentRefunded, Number(payment.amount) || 0, 0),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    // An unmatched charge never reached escrow or the ledger, so there is nothing to post
+    if (status === 'processed' && ledgerEntries) {
+      writeLedgerPosting(transaction, {
+        id: `refund_${refundId}`,
+        type: 'refund',
+        sourceType: 'order',
+        sourceId: refund.orderId,
+        description: `Refund - order ${String(refund.orderId).slice(-6).toUpperCase()}`,
+        lines: buildRefundLines(ledgerEntries.docs, refund.amount, orderTotal),
+        metadata: { refundId, category: 'order' },
+      });
+    }
+
+    return { refund, status };
+  });
+
+  if (!outcome || !isTerminal(outcome.status)) return;
+
+  const { refund } = outcome;
+  if (outcome.status === 'processed') {
+    await notifyBuyer(
+      refund.buyerId,
+      'Refund Processed',
+      `₦${refund.amount.toLocaleString()} has been refunded to your original payment method.`,
+      { orderId: refund.orderId, refundId, amount: refund.amount }
+    );
+  } else {
+    await notifyBuyer(
+      refund.buyerId,
+      'Refund Delayed',
+      `Your refund of ₦${refund.amount.toLocaleString()} could not be completed yet. Our team is looking into it.`,
+      { orderId: refund.orderId, refundId, amount: refund.amount }
+    );
+  }
+}
+
+const REFUND_EVENT_STATUS: Record<string, RefundStatus> = {
+  'refund.pending': 'pending',
+  'refund.processing': 'processing',
+  'refund.processed': 'processed',
+  'refund.failed': 'failed',
+};
+
+// Apply a refund webhook to the refund it belongs to
+export async function applyRefundEvent(eventType: string, data: any): Promise<void> {
+  const status = REFUND_EVENT_STATUS[eventType];
+  if (!status) return;
+
+  let snapshot = data?.id !== undefined
+    ? await db().collection(REFUNDS_COLLECTION).where('paystackRefundId', '==', data.id).limit(1).get()
+    : null;
+
+  // The webhook can arrive before the refund ID is saved; fall back to the
+  // transaction and amount of a refund still in flight
+  if (!snapshot || snapshot.empty) {
+    const reference = data?.transaction_reference || data?.transaction?.reference;
+    if (!reference) {
+      console.log(`Refund event ${eventType} has no transaction reference`);
+      return;
+    }
+    const candidates = await db().collection(REFUNDS_COLLECTION)
+      .where('transactionReference', '==', reference)
+      .get();
+    const match = candidates.docs.find((doc) => {
+      const refund = doc.data();
+      return !isTerminal(refund.status) && Math.round(refund.amount * 100) === Number(data.amount);
+    });
+    if (!match) {
+      console.log(`No refund found for ${eventType} on ${reference}`);
+      return;
+    }
+    await applyRefundOutcome(match.id, status, { reason: data?.reason || data?.status });
+    return;
+  }
+
+  await applyRefundOutcome(snapshot.docs[0].id, status, { reason: data?.reason || data?.status });
+}
+
+// Give the buyer their money back when a paid order is cancelled. Only
+// cancellations made on the server and allowed by the lifecycle count; a
+// status written by a client directly is rolled back by sendOrderNotification.
+export const refundCancelledOrder = functions.firestore
+  .document('orders/{orderId}')
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+
+    const statusChange = getVerifiedStatusChange(before, after);
+    if (!statusChange || statusChange.to !== 'cancelled') return null;
+    if (!canTransitionOrder(before.status, 'cancelled', statusChange.actor)) return null;
+    if (after.paymentMethod !== 'paystack' || !after.paymentReference) return null;
+    if (['failed', 'rejected'].includes(after.paymentStatus)) return null;
+
+    const refundable = (Number(after.totalAmount) || 0) - (after.refundedAmount || 0) - (after.refundPendingAmount || 0);
+    if (refundable <= 0) return null;
+
+    try {
+      await startRefund({
+        orderId: context.params.orderId,
+        reason: 'Order cancelled',
+        requestedBy: statusChange.by || statusChange.actor,
+        source: 'cancellation',
+        refundId: `cancel_${context.params.orderId}`,
+      });
+    } catch (error) {
+      console.error(`Error refunding cancelled order ${context.params.orderId}:`, error);
+    }
+    return null;
+  });
+
+interface RefundOrderData {
+  orderId: string;
+  amount?: number;
+  reason: string;
+}
+
+// Admin refund of all or part of an order
+export const refundOrder = functions.https.onCall(async (data: RefundOrderData, context: functions.https.CallableContext) => {
+  const adminId = await requireAdmin(context);
+
+  if (!data?.orderId || !data.reason) {
+    throw new functions.https.HttpsError('invalid-argument', 'Order ID and reason are required');
+  }
+  if (data.amount !== undefined && !(Number(data.amount) > 0)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Refund amount must be positive');
+  }
+
+  const result = await startRefund({
+    orderId: data.orderId,
+    amount: data.amount !== undefined ? Number(data.amount) : undefined,
+    reason: data.reason,
+    requestedBy: adminId,
+    source: 'admin',
+  });
+
+  return { success: true, ...result };
+});
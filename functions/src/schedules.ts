@@ -0,0 +1,370 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { requireAuth } from './access';
+import { RecurrenceRule, nextOccurrence, toLocalDateKey, validateRecurrence } from './recurrence';
+import { sendInternalPushNotification } from './notifications';
+import { priceErrand, toErrandRequest } from './errandRequests';
+import { getFeeRules } from './pricing';
+
+const db = () => admin.firestore();
+
+export const ERRAND_SCHEDULES_COLLECTION = 'errandSchedules';
+
+// Errand documents are created this far ahead of their scheduled time, so
+// buyers can see, skip or cancel the next occurrence before it starts
+export const SCHEDULE_BOOKING_AHEAD_HOURS = 24;
+
+// Dispatch starts this long before the scheduled time, giving the runner time to get there
+export const SCHEDULED_DISPATCH_LEAD_MINUTES = 45;
+
+export type ScheduleStatus = 'active' | 'paused' | 'cancelled' | 'completed';
+
+export type ScheduleAction = 'pause' | 'resume' | 'cancel';
+
+const occurrenceId = (scheduleId: string, dateKey: string) => `${scheduleId}_${dateKey}`;
+
+const bookingHorizon = () => admin.firestore.Timestamp.fromMillis(Date.now() + SCHEDULE_BOOKING_AHEAD_HOURS * 60 * 60 * 1000);
+
+const nextRunAfter = (rule: RecurrenceRule, after: Date, skippedDates: string[]) => {
+  const next = nextOccurrence(rule, after, skippedDates);
+  return next ? admin.firestore.Timestamp.fromDate(next) : null;
+};
+
+async function getOwnedSchedule(scheduleId: string, uid: string) {
+  const ref = db().collection(ERRAND_SCHEDULES_COLLECTION).doc(scheduleId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    throw new functions.https.HttpsError('not-found', 'Schedule not found');
+  }
+  if (snapshot.data()?.buyerId !== uid) {
+    throw new functions.https.HttpsError('permission-denied', 'Only the buyer can change this schedule');
+  }
+  return ref;
+}
+
+// Why booked occurrences of a schedule that stopped running are cancelled
+const STOPPED_CANCEL_REASONS: Partial<Record<ScheduleStatus, string>> = {
+  paused: 'schedule_paused',
+  cancelled: 'schedule_cancelled',
+};
+
+const cancelOccurrence = (transaction: admin.firestore.Transaction, errandRef: admin.firestore.DocumentReference, reason: string) =>
+  transaction.update(errandRef, {
+    status: 'cancelled',
+    cancelReason: reason,
+    cancelledAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+// Cancel occurrences that were booked but have not been released to dispatch yet
+async function cancelBookedOccurrences(scheduleId: string, reason: string) {
+  const booked = await db().collection('errands')
+    .where('scheduleId', '==', scheduleId)
+    .where('status', '==', 'scheduled')
+    .get();
+  // Each one is re-read, as runErrandSchedules may release it in the meantime
+  await Promise.all(booked.docs.map((doc) => db().runTransaction(async (transaction) => {
+    const errand = (await transaction.get(doc.ref)).data();
+    if (errand?.status === 'scheduled') cancelOccurrence(transaction, doc.ref, reason);
+  })));
+}
+
+/**
+ * Hand a booked errand to dispatch, unless its schedule was paused or
+ * cancelled since it was booked, in which case it is cancelled instead.
+ */
+async function releaseOccurrence(errandRef: admin.firestore.DocumentReference): Promise<'released' | 'cancelled' | null> {
+  return db().runTransaction(async (transaction) => {
+    const errand = (await transaction.get(errandRef)).data();
+    if (errand?.status !== 'scheduled') return null;
+
+    const scheduleRef = db().collection(ERRAND_SCHEDULES_COLLECTION).doc(errand.scheduleId);
+    const schedule = (await transaction.get(scheduleRef)).data();
+    const stoppedReason = schedule ? STOPPED_CANCEL_REASONS[schedule.status as ScheduleStatus] : 'schedule_cancelled';
+    if (stoppedReason) {
+      cancelOccurrence(transaction, errandRef, stoppedReason);
+      return 'cancelled';
+    }
+
+    transaction.update(errandRef, {
+      status: 'pending',
+      releasedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return 'released';
+  });
+}
+
+/**
+ * Book the schedule's next occurrence as a real errand document, then move
+ * `nextRunAt` on. Returns false when nothing was due.
+ */
+async function bookNextOccurrence(scheduleId: string): Promise<boolean> {
+  const scheduleRef = db().collection(ERRAND_SCHEDULES_COLLECTION).doc(scheduleId);
+  const rules = await getFeeRules();
+
+  const booked = await db().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(scheduleRef);
+    const schedule = snapshot.data();
+    const runAt: admin.firestore.Timestamp | null = schedule?.nextRunAt || null;
+    if (!schedule || schedule.status !== 'active' || !runAt || runAt.toMillis() > bookingHorizon().toMillis()) {
+      return null;
+    }
+
+    const dateKey = toLocalDateKey(runAt.toDate());
+    const errandRef = db().collection('errands').doc(occurrenceId(scheduleId, dateKey));
+    const existing = await transaction.get(errandRef);
+    // Resuming books again the dates that pausing cancelled
+    const rebook = existing.data()?.cancelReason === STOPPED_CANCEL_REASONS.paused;
+
+    if (!existing.exists || rebook) {
+      transaction.set(errandRef, {
+        ...schedule.template,
+        ...priceErrand(schedule.template || {}, rules),
+        userId: schedule.buyerId,
+        buyerId: schedule.buyerId,
+        userName: schedule.buyerName || null,
+        buyerName: schedule.buyerName || null,
+        status: 'scheduled',
+        scheduleId,
+        occurrenceKey: dateKey,
+        scheduledFor: runAt,
+        dispatchAt: admin.firestore.Timestamp.fromMillis(runAt.toMillis() - SCHEDULED_DISPATCH_LEAD_MINUTES * 60 * 1000),
+        runnerId: null,
+        runnerName: null,
+        paymentStatus: 'pending',
+        paymentReference: null,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    const created = !existing.exists || rebook;
+
+    const next = nextRunAfter(schedule.recurrence, runAt.toDate(), schedule.skippedDates || []);
+    transaction.update(scheduleRef, {
+      nextRunAt: next,
+      status: next ? 'active' : 'completed',
+      lastBookedKey: dateKey,
+      occurrenceCount: admin.firestore.FieldValue.increment(existing.exists ? 0 : 1),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return created ? { buyerId: schedule.buyerId, title: schedule.template?.title, dateKey } : null;
+  });
+
+  if (booked) {
+    await sendInternalPushNotification({
+      userId: booked.buyerId,
+      title: 'Scheduled Errand Booked',
+      body: `"${booked.title || 'Your errand'}" is booked for ${booked.dateKey}. You can still skip or cancel it.`,
+      type: 'errand',
+      data: { type: 'errand_scheduled', scheduleId, errandId: occurrenceId(scheduleId, booked.dateKey) },
+    }).catch((error) => console.error(`Error notifying ${booked.buyerId} of booked errand:`, error));
+  }
+
+  return !!booked;
+}
+
+export const createErrandSchedule = functions.https.onCall(async (
+  data: { template: Record<string, any>; recurrence: RecurrenceRule },
+  context: functions.https.CallableContext
+) => {
+  const uid = requireAuth(context);
+
+  const ruleError = validateRecurrence(data?.recurrence);
+  if (ruleError) {
+    throw new functions.https.HttpsError('invalid-argument', ruleError);
+  }
+
+  // Each occurrence is priced when it is booked, with the fee rules of the day
+  const template = toErrandRequest(data.template || {});
+  priceErrand(template, await getFeeRules());
+
+  const recurrence: RecurrenceRule = {
+    frequency: data.recurrence.frequency,
+    time: data.recurrence.time,
+    startDate: data.recurrence.startDate,
+    endDate: data.recurrence.endDate || null,
+    daysOfWeek: data.recurrence.frequency === 'weekly' ? data.recurrence.daysOfWeek : [],
+  };
+  const nextRunAt = nextRunAfter(recurrence, new Date(), []);
+  if (!nextRunAt) {
+    throw new functions.https.HttpsError('invalid-argument', 'This schedule has no upcoming dates');
+  }
+
+  const buyer = await db().collection('users').doc(uid).get();
+  const scheduleRef = await db().collection(ERRAND_SCHEDULES_COLLECTION).add({
+    buyerId: uid,
+    buyerName: buyer.data()?.name || buyer.data()?.displayName || null,
+    template,
+    recurrence,
+    status: 'active' as ScheduleStatus,
+    nextRunAt,
+    skippedDates: [],
+    occurrenceCount: 0,
+    lastBookedKey: null,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  // A booking for later today or tomorrow is created straight away
+  await bookNextOccurrence(scheduleRef.id);
+
+  return { scheduleId: scheduleRef.id };
+});
+
+export const manageErrandSchedule = functions.https.onCall(async (
+  data: { scheduleId: string; action: ScheduleAction },
+  context: functions.https.CallableContext
+) => {
+  const uid = requireAuth(context);
+  if (!data?.scheduleId || !['pause', 'resume', 'cancel'].includes(data.action)) {
+    throw new functions.https.HttpsError('invalid-argument', 'A schedule and a valid action are required');
+  }
+
+  const scheduleRef = await getOwnedSchedule(data.scheduleId, uid);
+
+  await db().runTransaction(async (transaction) => {
+    const schedule = (await transaction.get(scheduleRef)).data() || {};
+    const status: ScheduleStatus = schedule.status;
+
+    if (data.action === 'pause') {
+      if (status !== 'active') {
+        throw new functions.https.HttpsError('failed-precondition', 'Only active schedules can be paused');
+      }
+      transaction.update(scheduleRef, {
+        status: 'paused',
+        pausedAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } else if (data.action === 'resume') {
+      if (status !== 'paused') {
+        throw new functions.https.HttpsError('failed-precondition', 'Only paused schedules can be resumed');
+      }
+      // Dates that passed while paused are not made up
+      const next = nextRunAfter(schedule.recurrence, new Date(), schedule.skippedDates || []);
+      transaction.update(scheduleRef, {
+        status: next ? 'active' : 'completed',
+        nextRunAt: next,
+        pausedAt: null,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } else {
+      if (status === 'cancelled' || status === 'completed') {
+        throw new functions.https.HttpsError('failed-precondition', 'This schedule has already ended');
+      }
+      transaction.update(scheduleRef, {
+        status: 'cancelled',
+        nextRunAt: null,
+        cancelledAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+  });
+
+  if (data.action === 'pause') {
+    await cancelBookedOccurrences(data.scheduleId, STOPPED_CANCEL_REASONS.paused!);
+  } else if (data.action === 'cancel') {
+    await cancelBookedOccurrences(data.scheduleId, STOPPED_CANCEL_REASONS.cancelled!);
+  } else if (data.action === 'resume') {
+    await bookNextOccurrence(data.scheduleId);
+  }
+
+  return { success: true };
+});
+
+// Skip one date, cancelling its errand if it has already been booked
+export const skipErrandOccurrence = functions.https.onCall(async (
+  data: { scheduleId: string; occurrenceKey: string },
+  context: functions.https.CallableContext
+) => {
+  const uid = requireAuth(context);
+  if (!data?.scheduleId || !/^\d{4}-\d{2}-\d{2}$/.test(data.occurrenceKey || '')) {
+    throw new functions.https.HttpsError('invalid-argument', 'A schedule and occurrence date are required');
+  }
+
+  const scheduleRef = await getOwnedSchedule(data.scheduleId, uid);
+  const errandRef = db().collection('errands').doc(occurrenceId(data.scheduleId, data.occurrenceKey));
+
+  await db().runTransaction(async (transaction) => {
+    const [scheduleSnapshot, errandSnapshot] = await Promise.all([
+      transaction.get(scheduleRef),
+      transaction.get(errandRef),
+    ]);
+    const schedule = scheduleSnapshot.data() || {};
+    const errand = errandSnapshot.data();
+
+    if (errand && errand.status !== 'scheduled') {
+      throw new functions.https.HttpsError('failed-precondition', 'This errand has already started and cannot be skipped');
+    }
+
+    const skippedDates: string[] = Array.from(new Set([...(schedule.skippedDates || []), data.occurrenceKey]));
+    const nextRunAt: admin.firestore.Timestamp | null = schedule.nextRunAt || null;
+    const skipsNext = !!nextRunAt && toLocalDateKey(nextRunAt.toDate()) === data.occurrenceKey;
+    const next = skipsNext ? nextRunAfter(schedule.recurrence, nextRunAt!.toDate(), skippedDates) : nextRunAt;
+
+    transaction.update(scheduleRef, {
+      skippedDates,
+      nextRunAt: next,
+      ...(schedule.status === 'active' && !next && { status: 'completed' }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (errand) {
+      transaction.update(errandRef, {
+        status: 'cancelled',
+        cancelReason: 'occurrence_skipped',
+        cancelledAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+  });
+
+  return { success: true };
+});
+
+/**
+ * Book upcoming occurrences for active schedules, and hand booked errands to
+ * dispatch once they are inside the lead time. Releasing an errand sets it to
+ * `pending`, which `dispatchErrand` picks up like any new errand; errands of
+ * paused or cancelled schedules are cancelled instead.
+ */
+export const runErrandSchedules = functions.pubsub
+  .schedule('every 5 minutes')
+  .onRun(async () => {
+    const due = await db().collection(ERRAND_SCHEDULES_COLLECTION)
+      .where('status', '==', 'active')
+      .where('nextRunAt', '<=', bookingHorizon())
+      .limit(200)
+      .get();
+
+    for (const doc of due.docs) {
+      try {
+        // Book every occurrence inside the horizon; a few at most for daily rules
+        let booked = 0;
+        while (booked < 3 && await bookNextOccurrence(doc.id)) booked++;
+      } catch (error) {
+        console.error(`Error booking schedule ${doc.id}:`, error);
+      }
+    }
+
+    const release = await db().collection('errands')
+      .where('status', '==', 'scheduled')
+      .where('dispatchAt', '<=', admin.firestore.Timestamp.now())
+      .limit(200)
+      .get();
+
+    for (const doc of release.docs) {
+      try {
+        const result = await releaseOccurrence(doc.ref);
+        if (result === 'released') {
+          console.log(`Released scheduled errand ${doc.id} for dispatch`);
+        } else if (result === 'cancelled') {
+          console.log(`Cancelled scheduled errand ${doc.id}, its schedule is no longer active`);
+        }
+      } catch (error) {
+        console.error(`Error releasing scheduled errand ${doc.id}:`, error);
+      }
+    }
+    return null;
+  });
@@ -0,0 +1,67 @@
+/**
+ * Re-process stored Paystack webhook events against the Firestore emulator.
+ *
+ *   npm run build
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 npm run replay:paystack -- [--status failed] [eventKey ...]
+ *
+ * With no event keys every stored event (optionally filtered by status) is
+ * replayed in the order it was received. Replays bypass the duplicate check.
+ */
+import * as admin from 'firebase-admin';
+import { PAYSTACK_EVENTS_COLLECTION, PaystackEvent, processPaystackEvent } from '../webhooks';
+
+const parseArgs = (argv: string[]) => {
+  const eventKeys: string[] = [];
+  let status: string | null = null;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--status') {
+      status = argv[++i] || null;
+    } else {
+      eventKeys.push(argv[i]);
+    }
+  }
+  return { eventKeys, status };
+};
+
+async function main() {
+  if (!process.env.FIRESTORE_EMULATOR_HOST) {
+    // Never replay against production data by accident
+    throw new Error('FIRESTORE_EMULATOR_HOST is not set; replays only run against the Firestore emulator');
+  }
+
+  admin.initializeApp({ projectId: process.env.GCLOUD_PROJECT || 'demo-airrands' });
+  const db = admin.firestore();
+  const { eventKeys, status } = parseArgs(process.argv.slice(2));
+
+  let docs: admin.firestore.DocumentSnapshot[];
+  if (eventKeys.length > 0) {
+    docs = await Promise.all(eventKeys.map((key) => db.collection(PAYSTACK_EVENTS_COLLECTION).doc(key).get()));
+  } else {
+    let query: admin.firestore.Query = db.collection(PAYSTACK_EVENTS_COLLECTION);
+    if (status) {
+      query = query.where('status', '==', status);
+    }
+    docs = (await query.get()).docs.sort(
+      (a, b) => (a.data()?.receivedAt?.toMillis?.() || 0) - (b.data()?.receivedAt?.toMillis?.() || 0)
+    );
+  }
+
+  for (const doc of docs) {
+    const payload = doc.data()?.payload as PaystackEvent | undefined;
+    if (!doc.exists || !payload) {
+      console.warn(`Skipping ${doc.id}: no stored payload`);
+      continue;
+    }
+
+    const result = await processPaystackEvent(payload, { force: true, source: 'replay' });
+    console.log(`${result.eventKey}: ${result.status}`);
+  }
+
+  console.log(`Replayed ${docs.length} event(s)`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
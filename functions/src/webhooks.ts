@@ -1,17 +1,61 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
+import * as crypto from 'crypto';
+import { getPaystackSecretKey } from './paystack';
+import { applyTransferEvent } from './payouts';
+import { applyRefundEvent } from './refunds';
 
-const db = admin.firestore();
+const db = () => admin.firestore();
+
+// Every webhook delivery is recorded here, keyed by event, so Paystack's
+// retries of the same event are no-ops once it has been processed
+export const PAYSTACK_EVENTS_COLLECTION = 'paystackEvents';
+
+export type PaystackEventStatus = 'processing' | 'processed' | 'failed' | 'ignored';
+
+// A claim older than this belongs to a run that crashed or timed out, and the
+// next delivery takes the event over. Well past the function's 60s timeout.
+export const PAYSTACK_EVENT_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+// The payment for a charge, shared by the checkout callable and the webhook so
+// both land on one record whichever arrives first
+export const chargePaymentId = (reference: string) => `charge_${reference}`.replace(/\//g, '_');
+
+export interface PaystackEvent {
+  event: string;
+  data: any;
+}
+
+export interface ProcessEventResult {
+  eventKey: string;
+  // in_progress: another delivery of the event is being handled right now
+  status: PaystackEventStatus | 'duplicate' | 'in_progress';
+}
+
+// Paystack does not send a delivery ID, so the event type plus the
+// transaction/transfer ID (or reference) identifies an event. Null when the
+// event carries none of them.
+export const getPaystackEventKey = (event: PaystackEvent): string | null => {
+  const id = event.data?.id ?? event.data?.reference ?? event.data?.transfer_code;
+  if (id === undefined || id === null) return null;
+  return `${event.event}_${id}`.replace(/\//g, '_');
+};
 
 export const paystackWebhook = functions.https.onRequest(async (req, res) => {
-  const secret = process.env.PAYSTACK_SECRET_KEY;
+  const secret = getPaystackSecretKey();
   const hash = req.headers['x-paystack-signature'];
-  const event = req.body;
+  const event = req.body as PaystackEvent;
 
-  // Verify webhook signature
-  const expectedHash = require('crypto')
+  if (!secret) {
+    console.error('Paystack webhook received but no secret key is configured');
+    res.status(500).send('Not configured');
+    return;
+  }
+
+  // Verify webhook signature against the exact bytes Paystack sent
+  const expectedHash = crypto
     .createHmac('sha512', secret)
-    .update(JSON.stringify(req.body))
+    .update(req.rawBody || JSON.stringify(req.body))
     .digest('hex');
 
   if (hash !== expectedHash) {
@@ -19,146 +63,249 @@ export const paystackWebhook = functions.https.onRequest(async (req, res) => {
     return;
   }
 
-  // Handle different event types
-  switch (event.event) {
-    case 'charge.success':
-      await handleSuccessfulCharge(event.data);
-      break;
-    case 'transfer.success':
-      await handleSuccessfulTransfer(event.data);
-      break;
-    case 'charge.failed':
-      await handleFailedCharge(event.data);
-      break;
-    default:
-      console.log('Unhandled event type:', event.event);
+  try {
+    const result = await processPaystackEvent(event);
+    if (result.status === 'failed' || result.status === 'in_progress') {
+      // Let Paystack retry; the ledger entry allows a second attempt
+      res.sendStatus(500);
+      return;
+    }
+    res.sendStatus(200);
+  } catch (error) {
+    console.error('Error processing Paystack webhook:', error);
+    res.sendStatus(500);
   }
-
-  res.sendStatus(200);
 });
 
-async function handleSuccessfulCharge(data: any) {
-  const { reference, metadata, amount, customer } = data;
-  
-  try {
-    // Update order status
-    if (metadata?.orderId) {
-      await db.collection('orders').doc(metadata.orderId).update({
-        paymentStatus: 'completed',
-        paymentVerified: true,
-        verificationDate: admin.firestore.FieldValue.serverTimestamp(),
-        paymentDetails: {
-          amount: amount / 100, // Convert from kobo to naira
-          reference,
-          customerEmail: customer.email,
-          verificationSource: 'webhook'
-        }
+/**
+ * Claim the event in the ledger, run its handler and record the outcome.
+ * Events already processed are skipped unless `force` is set, which the
+ * replay script uses. A live claim by another delivery is left alone; a
+ * stale one is taken over.
+ */
+export async function processPaystackEvent(
+  event: PaystackEvent,
+  options: { force?: boolean; source?: 'webhook' | 'replay' } = {}
+): Promise<ProcessEventResult> {
+  const eventKey = getPaystackEventKey(event);
+
+  // Nothing to act on or to match retries by; it is kept for inspection and
+  // acknowledged, since Paystack would otherwise retry it forever
+  if (!eventKey) {
+    const invalidRef = await db().collection(PAYSTACK_EVENTS_COLLECTION).add({
+      event: event?.event || null,
+      reference: null,
+      payload: event ?? null,
+      status: 'ignored',
+      source: options.source || 'webhook',
+      error: 'Event has no id or reference',
+      receivedAt: admin.firestore.FieldValue.serverTimestamp(),
+      processedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    console.warn(`Ignoring Paystack event ${event?.event} without an id or reference, stored as ${invalidRef.id}`);
+    return { eventKey: invalidRef.id, status: 'ignored' };
+  }
+
+  const ledgerRef = db().collection(PAYSTACK_EVENTS_COLLECTION).doc(eventKey);
+
+  const claim = await db().runTransaction(async (transaction): Promise<'claimed' | 'duplicate' | 'in_progress'> => {
+    const existing = await transaction.get(ledgerRef);
+    const previousStatus = existing.data()?.status as PaystackEventStatus | undefined;
+    const claimedAt: number = existing.data()?.claimedAt?.toMillis?.() || 0;
+    const done = previousStatus === 'processed' || previousStatus === 'ignored';
+    const liveClaim = previousStatus === 'processing' && Date.now() - claimedAt < PAYSTACK_EVENT_CLAIM_TIMEOUT_MS;
+
+    if (existing.exists && !options.force && (done || liveClaim)) {
+      transaction.update(ledgerRef, {
+        duplicateDeliveries: admin.firestore.FieldValue.increment(1),
+        lastDeliveredAt: admin.firestore.FieldValue.serverTimestamp(),
       });
+      return done ? 'duplicate' : 'in_progress';
     }
 
-    // Create payment record
-    await db.collection('payments').add({
+    transaction.set(ledgerRef, {
+      eventKey,
+      event: event.event,
+      reference: event.data?.reference || null,
+      payload: event,
+      status: 'processing',
+      claimedAt: admin.firestore.Timestamp.now(),
+      source: options.source || 'webhook',
+      attempts: admin.firestore.FieldValue.increment(1),
+      receivedAt: existing.data()?.receivedAt || admin.firestore.FieldValue.serverTimestamp(),
+      lastDeliveredAt: admin.firestore.FieldValue.serverTimestamp(),
+      error: null,
+    }, { merge: true });
+    return 'claimed';
+  });
+
+  if (claim !== 'claimed') {
+    return { eventKey, status: claim };
+  }
+
+  let status: PaystackEventStatus = 'processed';
+  let error: string | null = null;
+
+  try {
+    // Handle different event types
+    switch (event.event) {
+      case 'charge.success':
+        await handleSuccessfulCharge(event.data);
+        break;
+      case 'transfer.success':
+        await handleSuccessfulTransfer(event.data);
+        await applyTransferEvent(event.event, event.data);
+        break;
+      case 'transfer.failed':
+      case 'transfer.reversed':
+        await applyTransferEvent(event.event, event.data);
+        break;
+      case 'charge.failed':
+        await handleFailedCharge(event.data);
+        break;
+      case 'refund.pending':
+      case 'refund.processing':
+      case 'refund.processed':
+      case 'refund.failed':
+        await applyRefundEvent(event.event, event.data);
+        break;
+      default:
+        console.log('Unhandled event type:', event.event);
+        status = 'ignored';
+    }
+  } catch (handlerError) {
+    console.error(`Error handling Paystack event ${eventKey}:`, handlerError);
+    status = 'failed';
+    error = handlerError instanceof Error ? handlerError.message : String(handlerError);
+  }
+
+  await ledgerRef.update({
+    status,
+    error,
+    processedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return { eventKey, status };
+}
+
+async function handleSuccessfulCharge(data: any) {
+  const { reference, metadata, amount, customer } = data;
+
+  // Update order status
+  if (metadata?.orderId) {
+    await db().collection('orders').doc(metadata.orderId).update({
+      paymentStatus: 'completed',
+      paymentVerified: true,
+      verificationDate: admin.firestore.FieldValue.serverTimestamp(),
+      paymentDetails: {
+        amount: amount / 100, // Convert from kobo to naira
+        reference,
+        customerEmail: customer.email,
+        verificationSource: 'webhook'
+      }
+    });
+  }
+
+  // Record the charge on its payment, keyed by reference so a replay overwrites
+  // it. Once checkout has recorded the payment, its review status and orders stay.
+  const paymentRef = db().collection('payments').doc(chargePaymentId(reference));
+  await db().runTransaction(async (transaction) => {
+    const existing = await transaction.get(paymentRef);
+    transaction.set(paymentRef, {
       reference,
       amount: amount / 100,
-      status: 'success',
+      chargeStatus: 'success',
       customerEmail: customer.email,
-      orderId: metadata?.orderId,
-      metadata,
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
-      verificationSource: 'webhook'
-    });
+      metadata: metadata || null,
+      verificationSource: 'webhook',
+      webhookReceivedAt: admin.firestore.FieldValue.serverTimestamp(),
+      ...(!existing.exists && {
+        status: 'success',
+        orderId: metadata?.orderId || null,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      }),
+    }, { merge: true });
+  });
 
-    // Send notification to user
-    if (metadata?.userId) {
-      const notificationData = {
-        title: 'Payment Successful',
-        body: `Your payment of ₦${(amount / 100).toLocaleString()} has been confirmed.`,
-        type: 'payment',
-        data: {
-          orderId: metadata.orderId,
-          amount: amount / 100,
-          reference
-        }
-      };
-
-      await db.collection('users').doc(metadata.userId)
-        .collection('notifications').add({
-          ...notificationData,
-          isRead: false,
-          createdAt: admin.firestore.FieldValue.serverTimestamp()
-        });
-    }
-  } catch (error) {
-    console.error('Error handling successful charge:', error);
-    throw new functions.https.HttpsError('internal', 'Error processing payment webhook');
+  // Send notification to user
+  if (metadata?.userId) {
+    const notificationData = {
+      title: 'Payment Successful',
+      body: `Your payment of ₦${(amount / 100).toLocaleString()} has been confirmed.`,
+      type: 'payment',
+      data: {
+        orderId: metadata.orderId,
+        amount: amount / 100,
+        reference
+      }
+    };
+
+    await db().collection('users').doc(metadata.userId)
+      .collection('notifications').doc(`charge_success_${reference}`).set({
+        ...notificationData,
+        isRead: false,
+        createdAt: admin.firestore.FieldValue.serverTimestamp()
+      });
   }
 }
 
 async function handleSuccessfulTransfer(data: any) {
   // Handle successful transfers (e.g., paying runners)
   const { reference, metadata, amount, recipient } = data;
-  
-  try {
-    await db.collection('transfers').add({
-      reference,
-      amount: amount / 100,
-      status: 'success',
-      recipient,
-      metadata,
-      createdAt: admin.firestore.FieldValue.serverTimestamp()
-    });
-  } catch (error) {
-    console.error('Error handling successful transfer:', error);
-  }
+
+  await db().collection('transfers').doc(`transfer_${reference}`).set({
+    reference,
+    amount: amount / 100,
+    status: 'success',
+    recipient,
+    metadata: metadata || null,
+    createdAt: admin.firestore.FieldValue.serverTimestamp()
+  }, { merge: true });
 }
 
 async function handleFailedCharge(data: any) {
   const { reference, metadata, amount, customer } = data;
-  
-  try {
-    // Update order status if it exists
-    if (metadata?.orderId) {
-      await db.collection('orders').doc(metadata.orderId).update({
-        paymentStatus: 'failed',
-        paymentError: data.gateway_response,
-        lastUpdateAt: admin.firestore.FieldValue.serverTimestamp()
-      });
-    }
 
-    // Record failed payment
-    await db.collection('payments').add({
-      reference,
-      amount: amount / 100,
-      status: 'failed',
-      customerEmail: customer.email,
-      orderId: metadata?.orderId,
-      error: data.gateway_response,
-      metadata,
-      createdAt: admin.firestore.FieldValue.serverTimestamp()
+  // Update order status if it exists
+  if (metadata?.orderId) {
+    await db().collection('orders').doc(metadata.orderId).update({
+      paymentStatus: 'failed',
+      paymentError: data.gateway_response,
+      lastUpdateAt: admin.firestore.FieldValue.serverTimestamp()
     });
+  }
 
-    // Notify user of failed payment
-    if (metadata?.userId) {
-      const notificationData = {
-        title: 'Payment Failed',
-        body: `Your payment of ₦${(amount / 100).toLocaleString()} was unsuccessful. Please try again.`,
-        type: 'payment',
-        data: {
-          orderId: metadata.orderId,
-          amount: amount / 100,
-          reference,
-          error: data.gateway_response
-        }
-      };
-
-      await db.collection('users').doc(metadata.userId)
-        .collection('notifications').add({
-          ...notificationData,
-          isRead: false,
-          createdAt: admin.firestore.FieldValue.serverTimestamp()
-        });
-    }
-  } catch (error) {
-    console.error('Error handling failed charge:', error);
+  // Record failed payment
+  await db().collection('payments').doc(`charge_failed_${reference}`).set({
+    reference,
+    amount: amount / 100,
+    status: 'failed',
+    customerEmail: customer.email,
+    orderId: metadata?.orderId || null,
+    error: data.gateway_response,
+    metadata: metadata || null,
+    createdAt: admin.firestore.FieldValue.serverTimestamp()
+  }, { merge: true });
+
+  // Notify user of failed payment
+  if (metadata?.userId) {
+    const notificationData = {
+      title: 'Payment Failed',
+      body: `Your payment of ₦${(amount / 100).toLocaleString()} was unsuccessful. Please try again.`,
+      type: 'payment',
+      data: {
+        orderId: metadata.orderId,
+        amount: amount / 100,
+        reference,
+        error: data.gateway_response
+      }
+    };
+
+    await db().collection('users').doc(metadata.userId)
+      .collection('notifications').doc(`charge_failed_${reference}`).set({
+        ...notificationData,
+        isRead: false,
+        createdAt: admin.firestore.FieldValue.serverTimestamp()
+      });
   }
 }
@@ -0,0 +1,45 @@
+import * as admin from 'firebase-admin';
+import { clearFirestore, describeEmulator, testEnv } from './emulator';
+import { BREADCRUMBS_COLLECTION, purgeExpiredBreadcrumbs } from '../src/breadcrumbs';
+
+describeEmulator('purgeExpiredBreadcrumbs', () => {
+  const db = () => admin.firestore();
+  const purge = testEnv.wrap(purgeExpiredBreadcrumbs);
+  const expired = admin.firestore.Timestamp.fromMillis(Date.now() - 60 * 1000);
+
+  // Route chunks for one job, written in batches the size Firestore allows
+  const addChunks = async (jobPath: string, count: number) => {
+    for (let start = 0; start < count; start += 500) {
+      const batch = db().batch();
+      for (let i = start; i < Math.min(count, start + 500); i++) {
+        batch.set(db().doc(jobPath).collection(BREADCRUMBS_COLLECTION).doc(`chunk-${i}`), { expiresAt: expired });
+      }
+      await batch.commit();
+    }
+  };
+
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('keeps purging pages until every expired chunk is gone', async () => {
+    await db().doc('orders/busy').set({ status: 'completed' });
+    await addChunks('orders/busy', 900);
+
+    await purge({});
+
+    expect((await db().collectionGroup(BREADCRUMBS_COLLECTION).get()).size).toBe(0);
+  });
+
+  it('holds the chunks of jobs with an open dispute', async () => {
+    await db().doc('errands/disputed').set({ status: 'completed', disputeStatus: 'open' });
+    await db().doc('errands/settled').set({ status: 'completed' });
+    await addChunks('errands/disputed', 3);
+    await addChunks('errands/settled', 3);
+
+    await purge({});
+
+    const left = await db().collectionGroup(BREADCRUMBS_COLLECTION).get();
+    expect(left.docs.map((doc) => doc.ref.parent.parent?.id)).toEqual(['disputed', 'disputed', 'disputed']);
+    left.docs.forEach((doc) => expect(doc.data().expiresAt.toMillis()).toBeGreaterThan(Date.now()));
+  });
+});
@@ -0,0 +1,175 @@
+import * as admin from 'firebase-admin';
+import { clearFirestore, describeEmulator, testEnv } from './emulator';
+import { encodeGeohash } from '../src/geohash';
+import { DISPATCH_OFFERS_COLLECTION, MAX_DISPATCH_RADIUS_KM, acceptErrand, rankCandidates, scoreRunner } from '../src/dispatch';
+
+const pickup = { latitude: 6.5244, longitude: 3.3792 };
+// Roughly 11 m, 1.1 km and 22 km north of the pickup
+const nextDoor = { latitude: 6.5245, longitude: 3.3792 };
+const nearby = { latitude: 6.5344, longitude: 3.3792 };
+const distant = { latitude: 6.7244, longitude: 3.3792 };
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(NOW - hours * 60 * 60 * 1000).toISOString();
+
+const runner = (overrides: Record<string, any> = {}) => ({
+  role: 'runner',
+  status: 'available',
+  currentLocation: pickup,
+  rating: 5,
+  vehicleType: 'Motorbike',
+  ...overrides,
+});
+
+const score = (overrides: Record<string, any> = {}, tripKm = 2, category = 'food') =>
+  scoreRunner(runner(overrides), pickup, tripKm, category, NOW);
+
+describe('scoreRunner', () => {
+  it('gives an idle, top rated runner at the pickup the full score', () => {
+    expect(score()).toEqual({ score: 1, distanceKm: 0 });
+  });
+
+  it.each([
+    ['busy', { status: 'busy' }],
+    ['offline', { availabilityStatus: 'offline' }],
+    ['deactivated', { isActive: false }],
+    ['on another errand', { currentErrand: 'errand-9' }],
+    ['on a delivery', { currentDeliveryId: 'order-9' }],
+    ['without a location', { currentLocation: null }],
+    ['beyond the dispatch radius', { currentLocation: distant }],
+  ])('leaves out a runner who is %s', (_reason, overrides) => {
+    expect(score(overrides)).toBeNull();
+  });
+
+  it('prefers the closer runner when all else is equal', () => {
+    expect(score({ currentLocation: nearby })!.score).toBeLessThan(score()!.score);
+    expect(score({ currentLocation: nearby })!.distanceKm).toBeGreaterThan(1);
+    expect(score({ currentLocation: nearby })!.distanceKm).toBeLessThan(MAX_DISPATCH_RADIUS_KM);
+  });
+
+  it('places unrated runners between poorly and highly rated ones', () => {
+    const unrated = score({ rating: 0 })!.score;
+    expect(unrated).toBeGreaterThan(score({ rating: 2 })!.score);
+    expect(unrated).toBeLessThan(score({ rating: 4 })!.score);
+  });
+
+  it('favours runners who have waited longest for a job', () => {
+    const justAssigned = score({ lastAssignedAt: hoursAgo(0) })!.score;
+    const waitedHalfDay = score({ lastAssignedAt: hoursAgo(12) })!.score;
+    expect(justAssigned).toBeLessThan(score({ lastAssignedAt: hoursAgo(6) })!.score);
+    expect(waitedHalfDay).toBe(score()!.score);
+  });
+
+  it('matches the vehicle to the load and trip length', () => {
+    expect(score({ vehicleType: 'Car' }, 2, 'grocery')!.score).toBeGreaterThan(score({ vehicleType: 'Bicycle' }, 2, 'grocery')!.score);
+    expect(score({ vehicleType: 'Bicycle' }, 10)!.score).toBeLessThan(score({ vehicleType: 'Bicycle' }, 2)!.score);
+    expect(score({ vehicleType: 'On foot' }, 2)!.score).toBeLessThan(score({ vehicleType: 'Motorbike' }, 2)!.score);
+  });
+});
+
+describeEmulator('rankCandidates', () => {
+  const db = () => admin.firestore();
+  const errand = { status: 'pending', category: 'food', pickupCoordinates: pickup };
+
+  const addUser = (id: string, data: Record<string, any>) =>
+    db().collection('users').doc(id).set({
+      ...data,
+      geohash: encodeGeohash(data.currentLocation.latitude, data.currentLocation.longitude),
+    });
+
+  beforeEach(async () => {
+    await Promise.all([
+      addUser('runner-0', runner({ currentLocation: nextDoor })),
+      addUser('runner-b', runner()),
+      addUser('runner-a', runner()),
+      addUser('runner-near', runner({ currentLocation: nearby })),
+      addUser('runner-low', runner({ rating: 2 })),
+      addUser('runner-busy', runner({ status: 'busy' })),
+      addUser('runner-far', runner({ currentLocation: distant })),
+      addUser('seller-1', { role: 'seller', currentLocation: pickup }),
+    ]);
+  });
+
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('ranks available runners by score and breaks ties by distance, then ID', async () => {
+    const ranked = await rankCandidates(errand);
+
+    expect(ranked.map((candidate) => candidate.runnerId)).toEqual(['runner-a', 'runner-b', 'runner-0', 'runner-near', 'runner-low']);
+    expect(ranked[0].score).toBe(ranked[2].score);
+    expect(ranked[2].distanceKm).toBeGreaterThan(ranked[0].distanceKm);
+  });
+
+  it('skips runners already offered the errand', async () => {
+    const ranked = await rankCandidates(errand, ['runner-a', 'runner-near']);
+
+    expect(ranked.map((candidate) => candidate.runnerId)).toEqual(['runner-b', 'runner-0', 'runner-low']);
+  });
+
+  it('finds nobody for an errand without a pickup location', async () => {
+    expect(await rankCandidates({ ...errand, pickupCoordinates: null })).toEqual([]);
+  });
+});
+
+describeEmulator('acceptErrand', () => {
+  const db = () => admin.firestore();
+  const accept = testEnv.wrap(acceptErrand);
+  const as = (uid: string) => ({ auth: { uid, token: {} } });
+
+  const errandRef = (id: string) => db().collection('errands').doc(id);
+  const errand = async (id: string) => (await errandRef(id).get()).data();
+
+  beforeEach(async () => {
+    await Promise.all([
+      db().collection('users').doc('runner-1').set(runner({ name: 'Ebi' })),
+      db().collection('users').doc('runner-2').set(runner()),
+      db().collection('users').doc('buyer-1').set({ role: 'buyer' }),
+    ]);
+  });
+
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('assigns an open errand to the first runner to take it', async () => {
+    await errandRef('open').set({ buyerId: 'buyer-1', status: 'available', runnerId: null });
+
+    await expect(accept({ errandId: 'open' }, as('runner-1'))).resolves.toEqual({ success: true, errandId: 'open' });
+    await expect(accept({ errandId: 'open' }, as('runner-2'))).rejects.toThrow('This errand was requested from another runner');
+
+    expect(await errand('open')).toMatchObject({ status: 'accepted', runnerId: 'runner-1', runnerName: 'Ebi' });
+    expect((await db().collection('users').doc('runner-1').get()).data()).toMatchObject({ status: 'busy', currentErrand: 'open' });
+  });
+
+  it('lets only the picked runner accept a hand-picked errand', async () => {
+    await errandRef('picked').set({ buyerId: 'buyer-1', status: 'available', runnerId: 'runner-1' });
+
+    await expect(accept({ errandId: 'picked' }, as('runner-2'))).rejects.toThrow('This errand was requested from another runner');
+    await accept({ errandId: 'picked' }, as('runner-1'));
+
+    expect((await errand('picked'))?.status).toBe('accepted');
+  });
+
+  it('withdraws the dispatch offer still out for the errand', async () => {
+    await db().collection(DISPATCH_OFFERS_COLLECTION).doc('offer-1').set({ errandId: 'offered', runnerId: 'runner-2', status: 'pending' });
+    await errandRef('offered').set({
+      buyerId: 'buyer-1',
+      status: 'pending',
+      runnerId: null,
+      dispatch: { status: 'offering', currentOfferId: 'offer-1', offeredRunnerId: 'runner-2' },
+    });
+
+    await accept({ errandId: 'offered' }, as('runner-1'));
+
+    expect((await errand('offered'))?.dispatch).toMatchObject({ status: 'assigned', currentOfferId: null });
+    expect((await db().collection(DISPATCH_OFFERS_COLLECTION).doc('offer-1').get()).data()?.status).toBe('cancelled');
+  });
+
+  it('turns away errands already under way and users who are not runners', async () => {
+    await errandRef('started').set({ buyerId: 'buyer-1', status: 'in_progress', runnerId: 'runner-1' });
+    await errandRef('open').set({ buyerId: 'buyer-1', status: 'pending', runnerId: null });
+
+    await expect(accept({ errandId: 'started' }, as('runner-1'))).rejects.toThrow('This errand is no longer available');
+    await expect(accept({ errandId: 'open' }, as('buyer-1'))).rejects.toThrow('Only runners can accept errands');
+  });
+});
@@ -0,0 +1,113 @@
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { clearFirestore, describeEmulator, testEnv } from './emulator';
+import * as paystack from '../src/paystack';
+import { LEDGER_COLLECTION } from '../src/ledger';
+import { DISPUTES_COLLECTION, resolveDispute } from '../src/disputes';
+import { REFUNDS_COLLECTION } from '../src/refunds';
+
+jest.mock('../src/paystack', () => ({
+  ...jest.requireActual('../src/paystack'),
+  createRefund: jest.fn(),
+}));
+
+const mockPaystack = paystack as jest.Mocked<typeof paystack>;
+
+describeEmulator('dispute resolution', () => {
+  const db = () => admin.firestore();
+  const resolve = testEnv.wrap(resolveDispute);
+  const asAdmin = { auth: { uid: 'admin-1', token: { admin: true } } };
+
+  const orderRef = () => db().collection('orders').doc('order-1');
+  const disputeRef = () => db().collection(DISPUTES_COLLECTION).doc('dispute-1');
+  const order = async () => (await orderRef().get()).data();
+  const dispute = async () => (await disputeRef().get()).data();
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    await orderRef().set({
+      buyerId: 'buyer-1',
+      sellerId: 'seller-1',
+      runnerId: 'runner-1',
+      status: 'completed',
+      paymentMethod: 'paystack',
+      paymentReference: 'ref_1',
+      totalAmount: 10000,
+      disputeId: 'dispute-1',
+      disputeStatus: 'open',
+    });
+    await disputeRef().set({
+      jobType: 'order',
+      jobId: 'order-1',
+      participants: { buyer: 'buyer-1', seller: 'seller-1', runner: 'runner-1' },
+      status: 'under_review',
+      timeline: [],
+      resolution: null,
+    });
+  });
+
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('keeps the dispute open and the job frozen when the refund cannot be started', async () => {
+    mockPaystack.createRefund.mockRejectedValue(
+      new functions.https.HttpsError('internal', 'Transaction has been fully reversed', { rejected: true })
+    );
+
+    await expect(resolve({ disputeId: 'dispute-1', outcome: 'buyer', note: 'Items never arrived', refundAmount: 10000 }, asAdmin))
+      .rejects.toThrow('Failed to start refund');
+
+    expect(await dispute()).toMatchObject({ status: 'under_review', resolution: null });
+    expect(await order()).toMatchObject({ disputeStatus: 'open' });
+  });
+
+  it('lifts the freeze once the refund is reserved', async () => {
+    mockPaystack.createRefund.mockRejectedValue(new Error('network timeout'));
+
+    const result = await resolve({ disputeId: 'dispute-1', outcome: 'buyer', note: 'Items never arrived', refundAmount: 4000 }, asAdmin);
+
+    expect(result.refund).toMatchObject({ refundId: 'dispute_dispute-1', status: 'pending' });
+    expect(await order()).toMatchObject({ disputeStatus: 'resolved', disputeOutcome: 'buyer', refundPendingAmount: 4000 });
+    expect(await dispute()).toMatchObject({
+      status: 'resolved_buyer',
+      resolution: { refundAmount: 4000, refundId: 'dispute_dispute-1' },
+    });
+  });
+
+  it('refuses clawbacks alongside a refund', async () => {
+    await expect(resolve({
+      disputeId: 'dispute-1',
+      outcome: 'buyer',
+      note: 'Items never arrived',
+      refundAmount: 4000,
+      clawbacks: [{ userId: 'seller-1', amount: 2000 }],
+    }, asAdmin)).rejects.toThrow('cannot be combined with clawbacks');
+
+    expect(mockPaystack.createRefund).not.toHaveBeenCalled();
+    expect((await db().collection(REFUNDS_COLLECTION).get()).size).toBe(0);
+    expect(await order()).toMatchObject({ disputeStatus: 'open' });
+  });
+
+  it('debits clawbacks when no refund is given', async () => {
+    await resolve({
+      disputeId: 'dispute-1',
+      outcome: 'seller',
+      note: 'Runner dropped the parcel',
+      clawbacks: [{ userId: 'runner-1', amount: 500 }],
+    }, asAdmin);
+
+    const entries = await db().collection(LEDGER_COLLECTION).where('postingId', '==', 'dispute_clawback_dispute-1_runner-1').get();
+    expect(entries.docs.map((doc) => doc.data())).toEqual(expect.arrayContaining([
+      expect.objectContaining({ userId: 'runner-1', direction: 'debit', amount: 500 }),
+    ]));
+    expect(await order()).toMatchObject({ disputeStatus: 'resolved', disputeOutcome: 'seller' });
+  });
+
+  it('does not resolve a dispute twice', async () => {
+    await resolve({ disputeId: 'dispute-1', outcome: 'seller', note: 'Delivered as described' }, asAdmin);
+
+    await expect(resolve({ disputeId: 'dispute-1', outcome: 'buyer', note: 'Second thoughts', refundAmount: 10000 }, asAdmin))
+      .rejects.toThrow("cannot move from 'resolved_seller'");
+    expect(mockPaystack.createRefund).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,21 @@
+import * as admin from 'firebase-admin';
+import functionsTest = require('firebase-functions-test');
+
+// Matches the project passed to the emulator in `npm run test:emulator`
+export const PROJECT_ID = 'demo-airrands';
+
+export const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+// Suites that read and write Firestore are skipped outside the emulator
+export const describeEmulator = emulatorHost ? describe : describe.skip;
+
+export const testEnv = functionsTest({ projectId: PROJECT_ID });
+
+if (!admin.apps.length) {
+  admin.initializeApp({ projectId: PROJECT_ID });
+}
+
+export const clearFirestore = async () => {
+  if (!emulatorHost) return;
+  await fetch(`http://${emulatorHost}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`, { method: 'DELETE' });
+};
@@ -0,0 +1,113 @@
+import * as admin from 'firebase-admin';
+import { clearFirestore, describeEmulator, testEnv } from './emulator';
+import * as paystack from '../src/paystack';
+import { DEFAULT_FEE_RULES, calculateErrandFees } from '../src/feeRules';
+import { MAX_ERRAND_DISTANCE_KM, createErrand, priceErrand } from '../src/errandRequests';
+
+jest.mock('../src/paystack', () => ({
+  ...jest.requireActual('../src/paystack'),
+  fetchPaystackTransaction: jest.fn(),
+  createRefund: jest.fn(),
+}));
+
+jest.mock('../src/notifications', () => ({
+  sendInternalPushNotification: jest.fn().mockResolvedValue(undefined),
+}));
+
+const mockPaystack = paystack as jest.Mocked<typeof paystack>;
+
+// Roughly 2.2km apart in Yenagoa
+const pickup = { latitude: 4.9247, longitude: 6.2676 };
+const dropoff = { latitude: 4.9447, longitude: 6.2676 };
+
+const stop = (type: 'pickup' | 'dropoff', coordinates: typeof pickup | null) => ({ type, address: `${type} address`, coordinates });
+
+const request = { title: 'Groceries', category: 'grocery', stops: [stop('pickup', pickup), stop('dropoff', dropoff)] };
+
+describe('priceErrand', () => {
+  it('prices the route with the fee rules, ignoring any fee the app sent', () => {
+    const priced = priceErrand({ ...request, fee: 1, fees: { total: 1 } }, DEFAULT_FEE_RULES);
+
+    expect(priced.distance).toBeCloseTo(2.22, 1);
+    expect(priced.fees).toEqual(calculateErrandFees(DEFAULT_FEE_RULES, { distanceKm: priced.distance, errandType: 'grocery' }));
+    expect(priced.fee).toBe(priced.fees.subtotal);
+  });
+
+  it('needs a title and a located stop for every address', () => {
+    expect(() => priceErrand({ ...request, title: '' }, DEFAULT_FEE_RULES)).toThrow('An errand title and route are required');
+    expect(() => priceErrand({ ...request, stops: [stop('pickup', pickup), stop('dropoff', null)] }, DEFAULT_FEE_RULES))
+      .toThrow('Every stop needs a location');
+  });
+
+  it(`turns away routes longer than ${MAX_ERRAND_DISTANCE_KM}km`, () => {
+    const faraway = { ...request, stops: [stop('pickup', pickup), stop('dropoff', { latitude: 6.4541, longitude: 3.3947 })] };
+    expect(() => priceErrand(faraway, DEFAULT_FEE_RULES)).toThrow(`Errands can be at most ${MAX_ERRAND_DISTANCE_KM}km`);
+  });
+});
+
+describeEmulator('createErrand', () => {
+  const db = () => admin.firestore();
+  const create = testEnv.wrap(createErrand);
+  const asBuyer = { auth: { uid: 'buyer-1', token: {} } };
+  const total = priceErrand(request, DEFAULT_FEE_RULES).fees.total;
+
+  const charge = (amount: number) => ({ status: 'success', currency: 'NGN', amount, reference: 'ref_1' });
+  const errand = async (id: string) => (await db().collection('errands').doc(id).get()).data();
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    await db().collection('users').doc('runner-1').set({ role: 'runner', name: 'Ebi' });
+  });
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('creates an unpaid errand for dispatch at the server price', async () => {
+    const { errandId } = await create({ errand: { ...request, fees: { total: 1 }, paymentStatus: 'paid' } }, asBuyer);
+
+    expect(await errand(errandId)).toMatchObject({
+      buyerId: 'buyer-1',
+      status: 'pending',
+      runnerId: null,
+      paymentStatus: 'pending',
+      fees: { total },
+    });
+    expect(mockPaystack.fetchPaystackTransaction).not.toHaveBeenCalled();
+  });
+
+  it('creates a paid errand for the picked runner once the charge matches', async () => {
+    mockPaystack.fetchPaystackTransaction.mockResolvedValue(charge(paystack.toKobo(total)));
+
+    const { errandId } = await create({ errand: request, runnerId: 'runner-1', reference: 'ref_1' }, asBuyer);
+
+    expect(await errand(errandId)).toMatchObject({
+      status: 'available',
+      runnerId: 'runner-1',
+      runnerName: 'Ebi',
+      paymentStatus: 'paid',
+      paymentReference: 'ref_1',
+      paymentAmount: total,
+    });
+    expect((await db().collection('payments').doc('charge_ref_1').get()).data()).toMatchObject({ errandId, amount: total });
+  });
+
+  it('turns away and refunds a charge for less than the errand costs', async () => {
+    mockPaystack.fetchPaystackTransaction.mockResolvedValue(charge(10000));
+    mockPaystack.createRefund.mockResolvedValue({ id: 5, status: 'pending' });
+
+    await expect(create({ errand: request, reference: 'ref_1' }, asBuyer)).rejects.toThrow('Your payment of ₦100 will be refunded');
+    expect((await db().collection('errands').get()).empty).toBe(true);
+    expect(mockPaystack.createRefund).toHaveBeenCalledWith(expect.objectContaining({ transactionReference: 'ref_1', amount: 100 }));
+    expect((await db().collection('payments').doc('charge_ref_1').get()).data()).toMatchObject({ status: 'needs_review' });
+  });
+
+  it('only lets a charge pay for one errand', async () => {
+    mockPaystack.fetchPaystackTransaction.mockResolvedValue(charge(paystack.toKobo(total)));
+    await create({ errand: request, reference: 'ref_1' }, asBuyer);
+
+    await expect(create({ errand: request, reference: 'ref_1' }, asBuyer)).rejects.toThrow('This payment has already been used');
+  });
+
+  it('only hands errands to runners', async () => {
+    await expect(create({ errand: request, runnerId: 'buyer-2' }, asBuyer)).rejects.toThrow('Runner not found');
+  });
+});
@@ -0,0 +1,118 @@
+import * as admin from 'firebase-admin';
+import { clearFirestore, describeEmulator, testEnv } from './emulator';
+import { ESCROW_AUTO_CONFIRM_HOURS, autoConfirmDeliveries, confirmDelivery, holdErrandFunds, holdOrderFunds } from '../src/escrow';
+import { updateOrderStatus } from '../src/orderStatus';
+
+jest.mock('../src/notifications', () => ({
+  sendInternalPushNotification: jest.fn().mockResolvedValue(undefined),
+}));
+
+describeEmulator('escrow auto-confirm', () => {
+  const db = () => admin.firestore();
+  const holdOrder = testEnv.wrap(holdOrderFunds);
+  const holdErrand = testEnv.wrap(holdErrandFunds);
+  const autoConfirm = testEnv.wrap(autoConfirmDeliveries);
+  const confirm = testEnv.wrap(confirmDelivery);
+  const updateStatus = testEnv.wrap(updateOrderStatus);
+  const as = (uid: string) => ({ auth: { uid, token: {} } });
+
+  const orderRef = (id: string) => db().collection('orders').doc(id);
+  const order = async (id: string) => (await orderRef(id).get()).data()!;
+  const hoursFromNow = (hours: number) => admin.firestore.Timestamp.fromMillis(Date.now() + hours * 60 * 60 * 1000);
+
+  const heldOrder = (overrides: Record<string, any> = {}) => ({
+    buyerId: 'buyer-1',
+    sellerId: 'seller-1',
+    status: 'delivered',
+    paymentStatus: 'paid',
+    totalAmount: 10000,
+    escrow: { status: 'held', amount: 10000, heldAt: hoursFromNow(-72), autoConfirmAt: hoursFromNow(-1), releasedAt: null },
+    ...overrides,
+  });
+
+  const change = (path: string, before: Record<string, any>, after: Record<string, any>) =>
+    testEnv.makeChange(
+      testEnv.firestore.makeDocumentSnapshot(before, path),
+      testEnv.firestore.makeDocumentSnapshot(after, path)
+    );
+
+  // Write the order and run the escrow trigger for the change
+  const writeOrder = async (id: string, before: Record<string, any>, after: Record<string, any>) => {
+    await orderRef(id).set(after);
+    await holdOrder(change(`orders/${id}`, before, after), { params: { orderId: id } });
+  };
+
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('stops the clock when a dispute opens', async () => {
+    const before = heldOrder();
+    await writeOrder('order-1', before, { ...before, disputeId: 'dispute-1', disputeStatus: 'open' });
+
+    expect((await order('order-1')).escrow).toMatchObject({ status: 'held', autoConfirmAt: null });
+  });
+
+  it('restarts the full window once the dispute is resolved', async () => {
+    const disputed = heldOrder({
+      disputeStatus: 'open',
+      escrow: { ...heldOrder().escrow, autoConfirmAt: null },
+    });
+    await writeOrder('order-1', disputed, { ...disputed, disputeStatus: 'resolved', disputeOutcome: 'seller' });
+
+    const autoConfirmAt = (await order('order-1')).escrow.autoConfirmAt as admin.firestore.Timestamp;
+    expect(autoConfirmAt.toMillis()).toBeGreaterThan(hoursFromNow(ESCROW_AUTO_CONFIRM_HOURS - 1).toMillis());
+  });
+
+  it('stops the clock when the job no longer waits for confirmation', async () => {
+    const errandRef = db().collection('errands').doc('errand-1');
+    const before = { userId: 'buyer-1', runnerId: 'runner-1', status: 'completed', paymentStatus: 'paid', escrow: heldOrder().escrow };
+    const after = { ...before, deliveryConfirmedAt: admin.firestore.Timestamp.now() };
+    await errandRef.set(after);
+
+    await holdErrand(change('errands/errand-1', before, after), { params: { errandId: 'errand-1' } });
+
+    expect((await errandRef.get()).data()!.escrow).toMatchObject({ status: 'held', autoConfirmAt: null });
+  });
+
+  it('confirms due jobs without getting stuck on disputed ones', async () => {
+    await orderRef('disputed').set(heldOrder({
+      disputeStatus: 'open',
+      escrow: { ...heldOrder().escrow, autoConfirmAt: hoursFromNow(-3) },
+    }));
+    await orderRef('due').set(heldOrder());
+    await orderRef('not-due').set(heldOrder({ escrow: { ...heldOrder().escrow, autoConfirmAt: hoursFromNow(5) } }));
+
+    await autoConfirm({});
+
+    expect(await order('due')).toMatchObject({ status: 'completed', deliveryConfirmedBy: 'auto' });
+    expect(await order('disputed')).toMatchObject({ status: 'delivered' });
+    expect(await order('not-due')).toMatchObject({ status: 'delivered' });
+  });
+
+  it('lets the buyer confirm collecting a pickup order', async () => {
+    await orderRef('pickup').set(heldOrder({ status: 'ready', deliveryOption: 'pickup' }));
+
+    await confirm({ jobType: 'order', jobId: 'pickup' }, as('buyer-1'));
+
+    expect(await order('pickup')).toMatchObject({
+      status: 'completed',
+      deliveryConfirmedBy: 'buyer-1',
+      statusChange: { from: 'ready', to: 'completed', actor: 'buyer' },
+    });
+  });
+
+  it('does not confirm a delivery order that is only ready at the store', async () => {
+    await orderRef('delivery').set(heldOrder({ status: 'ready', deliveryOption: 'delivery' }));
+
+    await expect(confirm({ jobType: 'order', jobId: 'delivery' }, as('buyer-1'))).rejects.toThrow('not waiting for confirmation');
+    expect(await order('delivery')).toMatchObject({ status: 'ready' });
+  });
+
+  it('does not let anyone complete an order without confirming delivery', async () => {
+    await orderRef('ready').set(heldOrder({ status: 'ready', deliveryOption: 'pickup' }));
+
+    await expect(updateStatus({ orderId: 'ready', status: 'completed' }, as('seller-1'))).rejects.toThrow('confirming delivery');
+    await expect(updateStatus({ orderId: 'ready', status: 'completed' }, as('buyer-1'))).rejects.toThrow('confirming delivery');
+    expect(await order('ready')).toMatchObject({ status: 'ready' });
+  });
+});
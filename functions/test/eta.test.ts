@@ -0,0 +1,40 @@
+import * as admin from 'firebase-admin';
+import { clearFirestore, describeEmulator, testEnv } from './emulator';
+import { ETAS_COLLECTION, notifyRunningLate } from '../src/eta';
+
+describeEmulator('notifyRunningLate', () => {
+  const db = () => admin.firestore();
+  const notify = testEnv.wrap(notifyRunningLate);
+  const minutesFromNow = (minutes: number) => admin.firestore.Timestamp.fromMillis(Date.now() + minutes * 60 * 1000);
+
+  const order = { status: 'picked_up', buyerId: 'buyer-1', runnerId: 'runner-1' };
+  const promised = minutesFromNow(15);
+  const onTime = { jobType: 'order', jobId: 'late-order', minutes: 15, arrivalAt: promised, promisedArrivalAt: promised };
+
+  const writeEta = async (before: Record<string, any>, after: Record<string, any>) => {
+    const path = `${ETAS_COLLECTION}/order_late-order`;
+    await db().doc(path).set(after);
+    await notify(testEnv.makeChange(
+      testEnv.firestore.makeDocumentSnapshot(before, path),
+      testEnv.firestore.makeDocumentSnapshot(after, path)
+    ));
+  };
+
+  beforeEach(() => db().doc('orders/late-order').set(order));
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('records the alert with the ETA and leaves the order alone', async () => {
+    await writeEta(onTime, { ...onTime, minutes: 27, arrivalAt: minutesFromNow(27) });
+
+    const eta = (await db().doc(`${ETAS_COLLECTION}/order_late-order`).get()).data();
+    expect(eta?.lateAlert?.slipMinutes).toBeGreaterThanOrEqual(10);
+    expect((await db().doc('orders/late-order').get()).data()).toEqual(order);
+  });
+
+  it('stays quiet while the slip is under the threshold', async () => {
+    await writeEta(onTime, { ...onTime, minutes: 20, arrivalAt: minutesFromNow(20) });
+
+    expect((await db().doc(`${ETAS_COLLECTION}/order_late-order`).get()).data()?.lateAlert).toBeUndefined();
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  DEFAULT_FEE_RULES,
+  FeeRules,
+  allocate,
+  calculateCheckoutFees,
+  calculateErrandFees,
+  calculateOrderCommission,
+  calculateProcessingFee,
+  calculateServiceFee,
+  mergeFeeRules,
+  roundNaira,
+} from '../src/feeRules';
+
+const rules = DEFAULT_FEE_RULES;
+const sum = (amounts: number[]) => roundNaira(amounts.reduce((total, amount) => total + amount, 0));
+
+describe('calculateOrderCommission', () => {
+  const commission = (lineTotal: number, overrides: { sellerTier?: string; categoryId?: string; rules?: FeeRules } = {}) =>
+    calculateOrderCommission(overrides.rules || rules, {
+      sellerTier: overrides.sellerTier,
+      deliveryFee: 0,
+      items: [{ categoryId: overrides.categoryId, lineTotal }],
+    }).commission;
+
+  it('takes the percentage once it clears the minimum', () => {
+    expect(commission(10000)).toBe(1000);
+  });
+
+  it('raises small commissions to the minimum', () => {
+    expect(commission(100)).toBe(50);
+  });
+
+  it('never takes more than the order is worth', () => {
+    expect(commission(30)).toBe(30);
+    expect(commission(0)).toBe(0);
+  });
+
+  it('applies seller tier and category overrides, with the category winning', () => {
+    const withCategory = mergeFeeRules({ ...rules, commission: { ...rules.commission, categories: { groceries: 5 } } });
+
+    expect(commission(10000, { sellerTier: 'premium' })).toBe(700);
+    expect(commission(10000, { sellerTier: 'premium', categoryId: 'groceries', rules: withCategory })).toBe(500);
+  });
+});
+
+describe('calculateServiceFee', () => {
+  it('charges the percentage between the minimum and the cap', () => {
+    expect(calculateServiceFee(rules, 1000)).toBe(50);
+    expect(calculateServiceFee(rules, 10000)).toBe(200);
+    expect(calculateServiceFee(rules, 100000)).toBe(1000);
+    expect(calculateServiceFee(rules, 0)).toBe(0);
+  });
+
+  it('leaves the fee uncapped when the maximum is 0', () => {
+    const uncapped = mergeFeeRules({ serviceFee: { ...rules.serviceFee, maximum: 0 } });
+    expect(calculateServiceFee(uncapped, 100000)).toBe(2000);
+  });
+});
+
+describe('calculateProcessingFee', () => {
+  // What Paystack deducts from a charge
+  const paystackFee = (charge: number) => {
+    const { percentage, flat, flatWaivedBelow, cap } = rules.paystack;
+    return Math.min((charge * percentage) / 100 + (charge >= flatWaivedBelow ? flat : 0), cap);
+  };
+
+  it('grosses the charge up so the amount survives Paystack fees', () => {
+    [100, 1000, 2400, 2463, 2500, 10000, 99999].forEach((amount) => {
+      const fee = calculateProcessingFee(rules, amount);
+      expect(paystackFee(amount + fee)).toBeLessThanOrEqual(fee);
+      expect(fee - paystackFee(amount + fee)).toBeLessThan(1);
+    });
+  });
+
+  it('adds the flat fee once the gross charge reaches the waiver limit', () => {
+    expect(calculateProcessingFee(rules, 1000)).toBe(16);
+    expect(calculateProcessingFee(rules, 10000)).toBe(254);
+  });
+
+  it('caps the fee and charges nothing when not passed through', () => {
+    expect(calculateProcessingFee(rules, 200000)).toBe(2000);
+    expect(calculateProcessingFee(mergeFeeRules({ paystack: { ...rules.paystack, passThrough: false } }), 10000)).toBe(0);
+  });
+});
+
+describe('allocate', () => {
+  it('puts the rounding remainder on the last share', () => {
+    expect(allocate(100, [1, 1, 1])).toEqual([33.33, 33.33, 33.34]);
+    expect(allocate(0.05, [1, 1, 1])).toEqual([0.02, 0.02, 0.01]);
+  });
+
+  it('splits in proportion to the weights', () => {
+    expect(allocate(90, [1, 2])).toEqual([30, 60]);
+  });
+
+  it('gives nothing when there is nothing to split or no weight to split by', () => {
+    expect(allocate(0, [1, 2])).toEqual([0, 0]);
+    expect(allocate(10, [0, 0])).toEqual([0, 0]);
+  });
+
+  it.each([
+    [1015.27, [3333.33, 6666.67, 1234.56]],
+    [0.07, [1, 1, 1, 1, 1, 1]],
+    [999.99, [7, 11, 13]],
+  ])('splits %p into shares that add back up', (amount, weights) => {
+    expect(sum(allocate(amount, weights))).toBe(amount);
+  });
+});
+
+describe('calculateCheckoutFees', () => {
+  const orders = [
+    { deliveryFee: 500, items: [{ lineTotal: 3333.33 }] },
+    { sellerTier: 'premium', deliveryFee: 700, items: [{ lineTotal: 4000 }, { lineTotal: 2666.67 }] },
+    { deliveryFee: 0, items: [{ lineTotal: 1234.56 }] },
+  ];
+
+  it('splits the buyer fees so the orders add up to the checkout', () => {
+    const { checkout, orders: split } = calculateCheckoutFees(rules, orders);
+
+    expect(sum(split.map((order) => order.serviceFee))).toBe(checkout.serviceFee);
+    expect(sum(split.map((order) => order.processingFee))).toBe(checkout.processingFee);
+    expect(sum(split.map((order) => order.commission))).toBe(checkout.commission);
+    expect(sum(split.map((order) => order.total))).toBe(checkout.total);
+  });
+
+  it('totals what the buyer pays and what the platform keeps', () => {
+    const { checkout } = calculateCheckoutFees(rules, orders);
+
+    expect(checkout.subtotal).toBe(11234.56);
+    expect(checkout.deliveryFee).toBe(1200);
+    expect(checkout.serviceFee).toBe(224.69);
+    expect(checkout.total).toBe(sum([checkout.subtotal, checkout.deliveryFee, checkout.serviceFee, checkout.processingFee]));
+    expect(checkout.platformRevenue).toBe(sum([checkout.commission, checkout.serviceFee]));
+    expect(checkout.payeeAmount).toBe(roundNaira(checkout.subtotal - checkout.commission));
+  });
+});
+
+describe('calculateErrandFees', () => {
+  it('prices the fare by distance and charges the runner commission', () => {
+    const fees = calculateErrandFees(rules, { distanceKm: 2.5 });
+
+    expect(fees).toMatchObject({
+      subtotal: 2500,
+      commission: 375,
+      serviceFee: 50,
+      processingFee: 141,
+      total: 2691,
+      payeeAmount: 2125,
+      platformRevenue: 425,
+    });
+    expect(fees.lines.map((line) => [line.code, line.payer])).toEqual([
+      ['errand_fare', 'buyer'],
+      ['service_fee', 'buyer'],
+      ['processing_fee', 'buyer'],
+      ['commission', 'runner'],
+    ]);
+  });
+
+  it('charges at least the minimum fare and commission', () => {
+    expect(calculateErrandFees(rules, { distanceKm: 0.2 })).toMatchObject({ subtotal: 500, commission: 100 });
+  });
+});
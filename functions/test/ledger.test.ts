@@ -0,0 +1,172 @@
+import * as admin from 'firebase-admin';
+import { clearFirestore, describeEmulator, testEnv } from './emulator';
+import {
+  CASH_COLLECTED_ACCOUNT,
+  ESCROW_ACCOUNT,
+  LEDGER_COLLECTION,
+  LedgerPosting,
+  REVENUE_ACCOUNT,
+  WALLETS_COLLECTION,
+  applyLedgerEntry,
+  assertBalanced,
+  buildErrandSettlement,
+  isPlatformCollected,
+  rebuildWallet,
+  settleCompletedErrand,
+  userAccount,
+} from '../src/ledger';
+import { DEFAULT_FEE_RULES, calculateErrandCommission } from '../src/feeRules';
+
+// Net effect of a set of postings on one account, credits positive
+const netFor = (postings: LedgerPosting[], account: string) =>
+  postings.reduce((sum, posting) => sum + posting.lines
+    .filter((line) => line.account === account)
+    .reduce((lineSum, line) => lineSum + (line.direction === 'credit' ? line.amount : -line.amount), 0), 0);
+
+const cashErrand = {
+  runnerId: 'runner-1',
+  userId: 'buyer-1',
+  status: 'completed',
+  category: 'grocery',
+  title: 'Weekly shop',
+  fee: 2000,
+  paymentStatus: 'pending',
+};
+
+describe('buildErrandSettlement', () => {
+  it('records a cash errand as earned and collected, leaving the commission owed', () => {
+    const postings = buildErrandSettlement('errand-1', cashErrand, 300);
+
+    expect(postings.map((posting) => posting.type)).toEqual(['errand_fee', 'cash_collection', 'platform_commission']);
+    postings.forEach(assertBalanced);
+    expect(netFor(postings, userAccount('runner-1'))).toBe(-300);
+    expect(netFor(postings, CASH_COLLECTED_ACCOUNT)).toBe(0);
+    expect(netFor(postings, REVENUE_ACCOUNT)).toBe(300);
+    expect(postings[0].metadata).toMatchObject({ collection: 'cash' });
+  });
+
+  it('releases a paid errand from escrow with its service fee', () => {
+    const postings = buildErrandSettlement('errand-2', {
+      ...cashErrand,
+      paymentStatus: 'paid',
+      escrow: { status: 'held' },
+      fees: { subtotal: 2000, serviceFee: 150 },
+    }, 300);
+
+    expect(postings.map((posting) => posting.type)).toEqual(['errand_fee', 'platform_commission']);
+    postings.forEach(assertBalanced);
+    expect(netFor(postings, ESCROW_ACCOUNT)).toBe(-2150);
+    expect(netFor(postings, userAccount('runner-1'))).toBe(1700);
+    expect(netFor(postings, CASH_COLLECTED_ACCOUNT)).toBe(0);
+  });
+
+  it('posts nothing without a runner or a fare', () => {
+    expect(buildErrandSettlement('errand-3', { ...cashErrand, runnerId: null }, 300)).toEqual([]);
+    expect(buildErrandSettlement('errand-4', { ...cashErrand, fee: 0 }, 0)).toEqual([]);
+  });
+});
+
+describe('isPlatformCollected', () => {
+  it('only counts payments that reached the platform', () => {
+    expect(isPlatformCollected({ paid: true })).toBe(true);
+    expect(isPlatformCollected({ paymentStatus: 'approved' })).toBe(true);
+    expect(isPlatformCollected({ paymentStatus: 'completed' })).toBe(true);
+    expect(isPlatformCollected({ paymentStatus: 'paid' })).toBe(true);
+  });
+
+  it('does not count a Paystack checkout still awaiting review', () => {
+    const checkout = { paymentMethod: 'paystack', paymentStatus: 'pending', paid: false };
+    expect(isPlatformCollected(checkout)).toBe(false);
+    expect(isPlatformCollected({ ...checkout, paymentStatus: undefined })).toBe(false);
+    expect(isPlatformCollected({ paymentStatus: 'rejected', paid: false })).toBe(false);
+  });
+});
+
+describeEmulator('settleCompletedErrand', () => {
+  const db = () => admin.firestore();
+  const settle = testEnv.wrap(settleCompletedErrand);
+  const apply = testEnv.wrap(applyLedgerEntry);
+
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('settles a cash errand into the runner wallet as a receivable', async () => {
+    const path = 'errands/cash-errand';
+    await db().doc(path).set(cashErrand);
+    const change = testEnv.makeChange(
+      testEnv.firestore.makeDocumentSnapshot({ ...cashErrand, status: 'in_progress' }, path),
+      testEnv.firestore.makeDocumentSnapshot(cashErrand, path)
+    );
+
+    await settle(change, { params: { errandId: 'cash-errand' } });
+
+    const entries = await db().collection(LEDGER_COLLECTION).where('sourceId', '==', 'cash-errand').get();
+    expect(new Set(entries.docs.map((doc) => doc.data().postingId))).toEqual(new Set([
+      'errand_fee_cash-errand',
+      'errand_cash_cash-errand',
+      'errand_commission_cash-errand',
+    ]));
+
+    // Apply the entries as the onCreate trigger would
+    for (const doc of entries.docs) {
+      await apply(doc, { params: { entryId: doc.id } });
+    }
+    const commission = calculateErrandCommission(DEFAULT_FEE_RULES, cashErrand.fee, cashErrand.category);
+    const wallet = (await db().collection(WALLETS_COLLECTION).doc('runner-1').get()).data();
+    expect(wallet?.balance).toBeCloseTo(-commission);
+    expect(wallet?.totalEarnings).toBeCloseTo(cashErrand.fee);
+    expect(wallet?.totalDeductions).toBeCloseTo(commission);
+  });
+
+  it('settles an errand only once', async () => {
+    const path = 'errands/twice';
+    const change = testEnv.makeChange(
+      testEnv.firestore.makeDocumentSnapshot({ ...cashErrand, status: 'in_progress' }, path),
+      testEnv.firestore.makeDocumentSnapshot(cashErrand, path)
+    );
+
+    await settle(change, { params: { errandId: 'twice' } });
+    await settle(change, { params: { errandId: 'twice' } });
+
+    const entries = await db().collection(LEDGER_COLLECTION).where('sourceId', '==', 'twice').get();
+    expect(entries.size).toBe(6); // three postings of two lines each
+  });
+});
+
+describeEmulator('rebuildWallet', () => {
+  const db = () => admin.firestore();
+  const apply = testEnv.wrap(applyLedgerEntry);
+  const walletRef = () => db().collection(WALLETS_COLLECTION).doc('runner-1');
+
+  const addEntry = (id: string, amount: number) =>
+    db().collection(LEDGER_COLLECTION).doc(id).set({
+      postingId: id,
+      type: 'adjustment',
+      account: userAccount('runner-1'),
+      userId: 'runner-1',
+      direction: 'credit',
+      amount,
+    });
+
+  // Run the onCreate trigger for an entry
+  const applyEntry = async (id: string) => {
+    const [entry] = (await db().collection(LEDGER_COLLECTION).where('postingId', '==', id).get()).docs;
+    await apply(entry, { params: { entryId: id } });
+  };
+
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('marks the entries it counted with the balance so their trigger does not add them again', async () => {
+    await addEntry('entry-1', 1000);
+    await applyEntry('entry-1');
+    await addEntry('entry-2', 500);
+
+    expect(await rebuildWallet('runner-1')).toMatchObject({ balance: 1500, entryCount: 2 });
+
+    // entry-2's trigger runs after the rebuild counted it
+    await applyEntry('entry-2');
+    expect((await walletRef().get()).data()?.balance).toBe(1500);
+    expect((await walletRef().collection('appliedEntries').get()).size).toBe(2);
+  });
+});
@@ -0,0 +1,38 @@
+import * as admin from 'firebase-admin';
+import { clearFirestore, describeEmulator, testEnv } from './emulator';
+import { encodeGeohash } from '../src/geohash';
+import { backfillLocationIndex } from '../src/locationIndex';
+
+describeEmulator('backfillLocationIndex', () => {
+  const db = () => admin.firestore();
+  const backfill = testEnv.wrap(backfillLocationIndex);
+  const asAdmin = { auth: { uid: 'admin-1', token: { admin: true } } };
+  const lagos = { latitude: 6.5244, longitude: 3.3792 };
+
+  const user = async (id: string) => (await db().collection('users').doc(id).get()).data()!;
+
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('indexes documents saved before the geohash index existed', async () => {
+    await Promise.all([
+      db().collection('users').doc('seller-old').set({ role: 'seller', currentLocation: lagos }),
+      db().collection('users').doc('runner-moved').set({ role: 'runner', ...lagos, geohash: 's0000' }),
+      db().collection('users').doc('buyer-unplaced').set({ role: 'buyer', geohash: 's0000' }),
+    ]);
+
+    const result = await backfill({ collection: 'users' }, asAdmin);
+
+    expect(result).toEqual({ success: true, indexed: 3, cursor: null });
+    expect((await user('seller-old')).geohash).toBe(encodeGeohash(lagos.latitude, lagos.longitude));
+    expect((await user('runner-moved')).geohash).toBe(encodeGeohash(lagos.latitude, lagos.longitude));
+    expect((await user('buyer-unplaced')).geohash).toBeUndefined();
+
+    expect(await backfill({ collection: 'users' }, asAdmin)).toMatchObject({ indexed: 0 });
+  });
+
+  it('only runs for admins over indexed collections', async () => {
+    await expect(backfill({ collection: 'users' }, { auth: { uid: 'buyer-1', token: {} } })).rejects.toThrow('Admin access required');
+    await expect(backfill({ collection: 'orders' }, asAdmin)).rejects.toThrow('Collection must be one of');
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  ORDER_STATUSES,
+  OrderActor,
+  OrderStatus,
+  OrderTransitionError,
+  assertOrderTransition,
+  canTransitionOrder,
+  getAllowedOrderTransitions,
+  isTerminalOrderStatus,
+  normalizeOrderStatus,
+} from '../src/orderLifecycle';
+
+const ACTORS: OrderActor[] = ['buyer', 'seller', 'runner', 'system'];
+
+describe('canTransitionOrder', () => {
+  // from, to, and the actors allowed to make the move
+  const cases: Array<[OrderStatus, OrderStatus, OrderActor[]]> = [
+    ['pending_payment', 'confirmed', ['system']],
+    ['pending_payment', 'cancelled', ['buyer', 'system']],
+    ['pending', 'confirmed', ['seller', 'system']],
+    ['confirmed', 'ready', ['seller']],
+    ['confirmed', 'cancelled', ['buyer', 'seller', 'system']],
+    ['preparing', 'cancelled', ['seller', 'system']],
+    ['ready', 'available', ['seller']],
+    ['ready', 'assigned', ['seller', 'runner', 'system']],
+    ['ready', 'completed', ['buyer', 'system']],
+    ['available', 'assigned', ['buyer', 'seller', 'runner', 'system']],
+    ['assigned', 'available', ['runner', 'system']],
+    ['assigned', 'picked_up', ['runner']],
+    ['assigned', 'cancelled', ['system']],
+    ['picked_up', 'delivered', ['runner']],
+    ['out_for_delivery', 'delivered', ['runner', 'system']],
+    ['delivered', 'completed', ['buyer', 'system']],
+  ];
+
+  it.each(cases)('lets only the listed actors move %s -> %s', (from, to, allowed) => {
+    ACTORS.forEach((actor) => {
+      expect(canTransitionOrder(from, to, actor)).toBe(allowed.includes(actor));
+    });
+    expect(canTransitionOrder(from, to)).toBe(true);
+  });
+
+  it.each([
+    ['pending_payment', 'delivered'],
+    ['confirmed', 'completed'],
+    ['assigned', 'completed'],
+    ['delivered', 'cancelled'],
+    ['picked_up', 'cancelled'],
+    ['completed', 'cancelled'],
+    ['cancelled', 'pending'],
+  ] as Array<[OrderStatus, OrderStatus]>)('never allows %s -> %s', (from, to) => {
+    expect(canTransitionOrder(from, to)).toBe(false);
+    ACTORS.forEach((actor) => expect(canTransitionOrder(from, to, actor)).toBe(false));
+  });
+
+  it('reads legacy statuses through the lifecycle', () => {
+    expect(normalizeOrderStatus('accepted')).toBe('confirmed');
+    expect(normalizeOrderStatus('on_the_way')).toBe('out_for_delivery');
+    expect(canTransitionOrder('on_the_way', 'delivered', 'runner')).toBe(true);
+    expect(canTransitionOrder('in_progress', 'ready', 'seller')).toBe(true);
+  });
+
+  it('rejects unknown statuses', () => {
+    expect(canTransitionOrder('shipped', 'delivered')).toBe(false);
+    expect(canTransitionOrder('pending', 'shipped')).toBe(false);
+    expect(canTransitionOrder(undefined, 'pending')).toBe(false);
+  });
+});
+
+describe('order lifecycle helpers', () => {
+  it('only treats completed and cancelled as terminal', () => {
+    expect(ORDER_STATUSES.filter(isTerminalOrderStatus)).toEqual(['completed', 'cancelled']);
+  });
+
+  it('lists the moves open to an actor', () => {
+    expect(getAllowedOrderTransitions('ready', 'buyer')).toEqual(['completed']);
+    expect(getAllowedOrderTransitions('ready', 'seller')).toEqual(['available', 'assigned', 'cancelled']);
+    expect(getAllowedOrderTransitions('completed', 'system')).toEqual([]);
+  });
+
+  it('throws a transition error naming the actor', () => {
+    expect(assertOrderTransition('delivered', 'completed', 'buyer')).toBe('completed');
+    expect(() => assertOrderTransition('ready', 'completed', 'seller')).toThrow(OrderTransitionError);
+    expect(() => assertOrderTransition('ready', 'completed', 'seller')).toThrow("A seller cannot move an order from 'ready' to 'completed'");
+  });
+});
@@ -0,0 +1,172 @@
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { clearFirestore, describeEmulator, testEnv } from './emulator';
+import * as paystack from '../src/paystack';
+import { LEDGER_COLLECTION, WALLETS_COLLECTION } from '../src/ledger';
+import {
+  PayoutStatus,
+  applyTransferEvent,
+  canTransitionPayout,
+  payoutTransferReference,
+  reviewPayoutRequest,
+} from '../src/payouts';
+
+jest.mock('../src/paystack', () => ({
+  ...jest.requireActual('../src/paystack'),
+  createTransferRecipient: jest.fn(),
+  initiateTransfer: jest.fn(),
+  fetchPaystackTransfer: jest.fn(),
+}));
+
+const mockPaystack = paystack as jest.Mocked<typeof paystack>;
+
+const rejected = (message: string) => new functions.https.HttpsError('internal', message, { rejected: true });
+
+describe('canTransitionPayout', () => {
+  it('lets a failed payout be retried or paid by a late success', () => {
+    expect(canTransitionPayout('failed', 'processing')).toBe(true);
+    expect(canTransitionPayout('failed', 'paid')).toBe(true);
+    expect(canTransitionPayout('failed', 'reversed')).toBe(false);
+  });
+
+  it('only reverses payouts that went out', () => {
+    (['pending', 'rejected', 'failed', 'reversed'] as PayoutStatus[]).forEach((status) => {
+      expect(canTransitionPayout(status, 'reversed')).toBe(false);
+    });
+    expect(canTransitionPayout('paid', 'reversed')).toBe(true);
+  });
+
+  it('rejects unknown statuses', () => {
+    expect(canTransitionPayout(undefined, 'processing')).toBe(false);
+    expect(canTransitionPayout('approved', 'paid')).toBe(false);
+  });
+});
+
+describeEmulator('payout transfers', () => {
+  const db = () => admin.firestore();
+  const review = testEnv.wrap(reviewPayoutRequest);
+  const asAdmin = { auth: { uid: 'admin-1', token: { admin: true } } };
+  const reference = payoutTransferReference('payout-1', 1);
+
+  const payoutRef = () => db().collection('payoutRequests').doc('payout-1');
+  const payout = async () => (await payoutRef().get()).data();
+  const payoutEntries = async () =>
+    (await db().collection(LEDGER_COLLECTION).where('sourceId', '==', 'payout-1').get()).size;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPaystack.createTransferRecipient.mockResolvedValue('RCP_1');
+    await db().collection(WALLETS_COLLECTION).doc('runner-1').set({ balance: 10000 });
+    await payoutRef().set({
+      userId: 'runner-1',
+      amount: 5000,
+      status: 'pending',
+      bankDetails: { accountNumber: '0123456789', bankCode: '058', accountName: 'Runner One' },
+    });
+  });
+
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('keeps a payout processing when the transfer call times out', async () => {
+    mockPaystack.initiateTransfer.mockRejectedValue(new Error('socket hang up'));
+    mockPaystack.fetchPaystackTransfer.mockRejectedValue(new Error('socket hang up'));
+
+    const result = await review({ payoutId: 'payout-1', decision: 'approve' }, asAdmin);
+
+    expect(result.status).toBe('processing');
+    expect(await payout()).toMatchObject({ status: 'processing', transferUnconfirmed: true, transferReference: reference });
+
+    // The success webhook then settles it, debiting the wallet once
+    await applyTransferEvent('transfer.success', { reference });
+    await applyTransferEvent('transfer.success', { reference });
+    expect((await payout())?.status).toBe('paid');
+    expect(await payoutEntries()).toBe(2);
+  });
+
+  it('settles from Paystack\'s record of the transfer when the response was lost', async () => {
+    mockPaystack.initiateTransfer.mockRejectedValue(new Error('timeout'));
+    mockPaystack.fetchPaystackTransfer.mockResolvedValue({ status: 'success', reference });
+
+    const result = await review({ payoutId: 'payout-1', decision: 'approve' }, asAdmin);
+
+    expect(result.status).toBe('paid');
+    expect(await payoutEntries()).toBe(2);
+  });
+
+  it('fails a payout Paystack turned down and retries it under a new reference', async () => {
+    mockPaystack.initiateTransfer.mockRejectedValueOnce(rejected('Insufficient balance'));
+    mockPaystack.fetchPaystackTransfer.mockRejectedValueOnce(rejected('Transfer not found'));
+
+    await expect(review({ payoutId: 'payout-1', decision: 'approve' }, asAdmin)).rejects.toThrow('Failed to start transfer');
+    expect((await payout())?.status).toBe('failed');
+
+    mockPaystack.initiateTransfer.mockResolvedValueOnce({ transfer_code: 'TRF_2' });
+    await review({ payoutId: 'payout-1', decision: 'approve' }, asAdmin);
+
+    const retryReference = payoutTransferReference('payout-1', 2);
+    expect(mockPaystack.initiateTransfer.mock.calls.map(([input]) => input.reference)).toEqual([reference, retryReference]);
+    expect(await payout()).toMatchObject({
+      status: 'processing',
+      transferAttempts: 2,
+      transferReference: retryReference,
+      transferReferences: [reference, retryReference],
+    });
+  });
+
+  it('pays a retry after Paystack failed the first transfer by webhook', async () => {
+    mockPaystack.initiateTransfer.mockResolvedValueOnce({ transfer_code: 'TRF_1' });
+    await review({ payoutId: 'payout-1', decision: 'approve' }, asAdmin);
+
+    await applyTransferEvent('transfer.failed', { reference, reason: 'Account could not be credited' });
+    expect((await payout())?.status).toBe('failed');
+
+    const retryReference = payoutTransferReference('payout-1', 2);
+    mockPaystack.initiateTransfer.mockResolvedValueOnce({ transfer_code: 'TRF_2' });
+    const result = await review({ payoutId: 'payout-1', decision: 'approve' }, asAdmin);
+
+    expect(result.status).toBe('processing');
+    expect(mockPaystack.initiateTransfer).toHaveBeenLastCalledWith(expect.objectContaining({ reference: retryReference }));
+    expect(mockPaystack.fetchPaystackTransfer).not.toHaveBeenCalled();
+
+    // A repeat of the first attempt's failure does not touch the retry
+    await applyTransferEvent('transfer.failed', { reference });
+    expect((await payout())?.status).toBe('processing');
+
+    await applyTransferEvent('transfer.success', { reference: retryReference });
+    expect((await payout())?.status).toBe('paid');
+    expect(await payoutEntries()).toBe(2);
+  });
+
+  it('records a late success for a payout already marked failed', async () => {
+    await payoutRef().update({ status: 'failed', transferReference: reference, transferReferences: [reference] });
+
+    await applyTransferEvent('transfer.success', { reference });
+
+    expect((await payout())?.status).toBe('paid');
+    expect(await payoutEntries()).toBe(2);
+  });
+
+  it('matches events for references used by earlier attempts', async () => {
+    await payoutRef().update({
+      status: 'processing',
+      transferReference: payoutTransferReference('payout-1', 2),
+      transferReferences: [reference, payoutTransferReference('payout-1', 2)],
+    });
+
+    // A failure of the old attempt does not fail the one in flight...
+    await applyTransferEvent('transfer.failed', { reference });
+    expect((await payout())?.status).toBe('processing');
+
+    // ...but its success still counts
+    await applyTransferEvent('transfer.success', { reference });
+    expect((await payout())?.status).toBe('paid');
+  });
+
+  it('holds in-flight payouts against the balance', async () => {
+    await db().collection('payoutRequests').doc('payout-0').set({ userId: 'runner-1', amount: 6000, status: 'processing' });
+
+    await expect(review({ payoutId: 'payout-1', decision: 'approve' }, asAdmin)).rejects.toThrow('does not cover');
+    expect(mockPaystack.initiateTransfer).not.toHaveBeenCalled();
+  });
+});
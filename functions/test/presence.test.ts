@@ -0,0 +1,27 @@
+import * as admin from 'firebase-admin';
+import { clearFirestore, describeEmulator, testEnv } from './emulator';
+import { PRESENCE_TIMEOUT_MS, expirePresence } from '../src/presence';
+
+describeEmulator('expirePresence', () => {
+  const db = () => admin.firestore();
+  const expire = testEnv.wrap(expirePresence);
+
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('marks more users offline than fit in one write batch', async () => {
+    const lastHeartbeatAt = admin.firestore.Timestamp.fromMillis(Date.now() - PRESENCE_TIMEOUT_MS - 60 * 1000);
+    const batch = db().batch();
+    for (let i = 0; i < 300; i++) {
+      batch.set(db().collection('presence').doc(`user-${i}`), { online: true, lastHeartbeatAt });
+    }
+    await batch.commit();
+
+    await expire({});
+
+    const online = await db().collection('presence').where('online', '==', true).get();
+    expect(online.size).toBe(0);
+    const user = (await db().collection('users').doc('user-299').get()).data();
+    expect(user?.lastSeen?.isEqual(lastHeartbeatAt)).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+import * as admin from 'firebase-admin';
+// Sets up the admin app the document references below belong to
+import './emulator';
+import { DEFAULT_FEE_RULES, calculateCheckoutFees } from '../src/feeRules';
+import { MAX_ITEM_QUANTITY, priceCheckout, validateCheckoutItems } from '../src/pricing';
+
+describe('validateCheckoutItems', () => {
+  it('keeps only the product, option and quantity of each item', () => {
+    const tampered = [{ productId: 'rice', variantId: 'large', quantity: '2', price: 1, lineTotal: 2, sellerId: 'seller-9' }];
+
+    expect(validateCheckoutItems(tampered)).toEqual([{ productId: 'rice', variantId: 'large', quantity: 2 }]);
+    expect(validateCheckoutItems([{ productId: 'rice', variantId: '', quantity: 1 }])).toEqual([
+      { productId: 'rice', variantId: null, quantity: 1 },
+    ]);
+  });
+
+  it('needs at least one item with a product ID', () => {
+    expect(() => validateCheckoutItems([])).toThrow('At least one item is required');
+    expect(() => validateCheckoutItems('rice')).toThrow('At least one item is required');
+    expect(() => validateCheckoutItems([{ quantity: 1 }])).toThrow('Every item needs a product ID');
+  });
+
+  it.each([0, -1, 1.5, MAX_ITEM_QUANTITY + 1, 'many'])('rejects a quantity of %p', (quantity) => {
+    expect(() => validateCheckoutItems([{ productId: 'rice', quantity }])).toThrow(`Quantity must be between 1 and ${MAX_ITEM_QUANTITY}`);
+  });
+});
+
+describe('priceCheckout', () => {
+  // Firestore as it stands at checkout, by document path
+  const stored: Record<string, admin.firestore.DocumentData> = {
+    'products/rice': {
+      name: 'Rice',
+      sellerId: 'seller-1',
+      status: 'active',
+      price: 5000,
+      stockLevel: 3,
+      variants: [{ id: 'bag', name: '50kg bag', price: 40000 }, { id: 'cup', name: 'Cup' }],
+    },
+    'products/beans': { name: 'Beans', sellerId: 'seller-1', status: 'active', price: 2500, categoryId: 'grains' },
+    'products/soap': { name: 'Soap', sellerId: 'seller-2', status: 'active', price: 800 },
+    'products/retired': { name: 'Old Stock', sellerId: 'seller-1', status: 'inactive', price: 100 },
+    'users/seller-1': { businessName: 'Mama Put', deliveryFee: 1000 },
+    'users/seller-2': { businessName: 'Corner Shop', deliveryFee: 500, minimumOrder: 1000 },
+  };
+
+  // Reads through priceCheckout's `get`, as a transaction would
+  const get = async (ref: admin.firestore.DocumentReference) => {
+    const data = stored[ref.path];
+    return { id: ref.id, ref, exists: !!data, data: () => data } as unknown as admin.firestore.DocumentSnapshot;
+  };
+
+  const price = (items: Array<{ productId: string; variantId?: string; quantity: number }>, option: 'pickup' | 'delivery' = 'delivery') =>
+    priceCheckout(validateCheckoutItems(items), option, get);
+
+  it('prices every line from the stored product, whatever the client sent', async () => {
+    const tampered = { productId: 'rice', quantity: 2, price: 1, lineTotal: 2 };
+    const { quote } = await price([tampered, { productId: 'beans', quantity: 1 }]);
+
+    expect(quote.orders).toHaveLength(1);
+    expect(quote.orders[0].items.map((item) => [item.productId, item.price, item.lineTotal])).toEqual([
+      ['rice', 5000, 10000],
+      ['beans', 2500, 2500],
+    ]);
+    expect(quote.subtotal).toBe(12500);
+  });
+
+  it('uses an option\'s own price and falls back to the product price', async () => {
+    const { quote } = await price([{ productId: 'rice', variantId: 'bag', quantity: 1 }, { productId: 'rice', variantId: 'cup', quantity: 1 }]);
+
+    expect(quote.orders[0].items.map((item) => [item.variantName, item.price])).toEqual([
+      ['50kg bag', 40000],
+      ['Cup', 5000],
+    ]);
+  });
+
+  it('splits the checkout by seller and charges delivery only when delivering', async () => {
+    const items = [{ productId: 'rice', quantity: 1 }, { productId: 'soap', quantity: 2 }];
+    const delivered = (await price(items)).quote;
+    const collected = (await price(items, 'pickup')).quote;
+
+    expect(delivered.orders.map((order) => [order.sellerName, order.subtotal, order.deliveryFee])).toEqual([
+      ['Mama Put', 5000, 1000],
+      ['Corner Shop', 1600, 500],
+    ]);
+    expect(delivered.fees.delivery).toBe(1500);
+    expect(collected.fees.delivery).toBe(0);
+  });
+
+  it('charges what the fee engine works out for the repriced orders', async () => {
+    const { quote } = await price([{ productId: 'beans', quantity: 2 }, { productId: 'soap', quantity: 2 }]);
+    const expected = calculateCheckoutFees(DEFAULT_FEE_RULES, [
+      { sellerTier: null, deliveryFee: 1000, items: [{ categoryId: 'grains', lineTotal: 5000 }] },
+      { sellerTier: null, deliveryFee: 500, items: [{ categoryId: null, lineTotal: 1600 }] },
+    ]);
+
+    expect(quote.total).toBe(expected.checkout.total);
+    expect(quote.orders.map((order) => order.totalAmount)).toEqual(expected.orders.map((order) => order.total));
+  });
+
+  it('turns away products and options that have gone', async () => {
+    await expect(price([{ productId: 'ghost', quantity: 1 }])).rejects.toThrow('Product ghost no longer exists');
+    await expect(price([{ productId: 'retired', quantity: 1 }])).rejects.toThrow('Old Stock is not available');
+    await expect(price([{ productId: 'rice', variantId: 'sack', quantity: 1 }])).rejects.toThrow('The selected option for Rice no longer exists');
+  });
+
+  it('reserves stock across every line for the same product', async () => {
+    const { reservations } = await price([{ productId: 'rice', quantity: 1 }, { productId: 'rice', variantId: 'bag', quantity: 2 }]);
+    expect(reservations).toEqual({ rice: 3 });
+
+    await expect(price([{ productId: 'rice', quantity: 2 }, { productId: 'rice', variantId: 'bag', quantity: 2 }]))
+      .rejects.toThrow('Only 3 of Rice left in stock');
+  });
+
+  it('holds each seller to their minimum order', async () => {
+    await expect(price([{ productId: 'soap', quantity: 1 }])).rejects.toThrow('Corner Shop has a minimum order of ₦1000');
+  });
+});
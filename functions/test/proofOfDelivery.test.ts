@@ -0,0 +1,113 @@
+import * as admin from 'firebase-admin';
+import { clearFirestore, describeEmulator, testEnv } from './emulator';
+import {
+  HANDOFF_CODES_COLLECTION,
+  MAX_HANDOFF_ATTEMPTS,
+  errandHandoff,
+  getHandoffCode,
+  submitProofOfDelivery,
+} from '../src/proofOfDelivery';
+
+jest.mock('../src/notifications', () => ({
+  sendInternalPushNotification: jest.fn().mockResolvedValue(undefined),
+}));
+
+describeEmulator('proof of delivery', () => {
+  const db = () => admin.firestore();
+  const getCode = testEnv.wrap(getHandoffCode);
+  const submitProof = testEnv.wrap(submitProofOfDelivery);
+  const handoff = testEnv.wrap(errandHandoff);
+  const as = (uid: string) => ({ auth: { uid, token: {} } });
+
+  const errandRef = (id: string) => db().collection('errands').doc(id);
+  const errand = async (id: string) => (await errandRef(id).get()).data()!;
+  const codeDoc = async (id: string) => (await db().collection(HANDOFF_CODES_COLLECTION).doc(`errand_${id}`).get()).data()!;
+
+  const onTheWay = { userId: 'buyer-1', runnerId: 'runner-1', status: 'on_the_way' };
+  const forgedProof = { method: 'code', photoUrl: null, signature: null, recipientName: null, submittedBy: 'runner-1' };
+
+  // Write the errand and run the handoff trigger for the change
+  const writeErrand = async (id: string, before: Record<string, any>, after: Record<string, any>) => {
+    await errandRef(id).set(after);
+    await handoff(
+      testEnv.makeChange(
+        testEnv.firestore.makeDocumentSnapshot(before, `errands/${id}`),
+        testEnv.firestore.makeDocumentSnapshot(after, `errands/${id}`)
+      ),
+      { params: { errandId: id } }
+    );
+  };
+
+  beforeEach(() => errandRef('errand-1').set(onTheWay));
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('issues the buyer one code per job', async () => {
+    const { code } = await getCode({ jobType: 'errand', jobId: 'errand-1' }, as('buyer-1'));
+
+    expect(code).toMatch(/^\d{4}$/);
+    expect(await getCode({ jobType: 'errand', jobId: 'errand-1' }, as('buyer-1'))).toEqual({ code });
+    await expect(getCode({ jobType: 'errand', jobId: 'errand-1' }, as('runner-1'))).rejects.toThrow('Only the buyer can view the handoff code');
+  });
+
+  it('completes the errand with the right code and stamps the change', async () => {
+    const { code } = await getCode({ jobType: 'errand', jobId: 'errand-1' }, as('buyer-1'));
+
+    await expect(submitProof({ jobType: 'errand', jobId: 'errand-1', code }, as('runner-1'))).resolves.toEqual({ success: true });
+
+    const completed = await errand('errand-1');
+    expect(completed).toMatchObject({
+      status: 'completed',
+      statusChange: { from: 'on_the_way', to: 'completed', actor: 'runner', by: 'runner-1' },
+      proofOfDelivery: { method: 'code', submittedBy: 'runner-1' },
+    });
+    expect((await codeDoc('errand-1')).usedAt).toBeDefined();
+  });
+
+  it('counts wrong codes and locks the code after the last attempt', async () => {
+    const { code } = await getCode({ jobType: 'errand', jobId: 'errand-1' }, as('buyer-1'));
+    const wrong = code === '0000' ? '1111' : '0000';
+
+    for (let attempt = 1; attempt < MAX_HANDOFF_ATTEMPTS; attempt++) {
+      const left = MAX_HANDOFF_ATTEMPTS - attempt;
+      await expect(submitProof({ jobType: 'errand', jobId: 'errand-1', code: wrong }, as('runner-1')))
+        .rejects.toThrow(`${left} ${left === 1 ? 'try' : 'tries'} left`);
+    }
+    await expect(submitProof({ jobType: 'errand', jobId: 'errand-1', code: wrong }, as('runner-1')))
+      .rejects.toThrow('Use a no-contact drop with a photo instead');
+    expect((await codeDoc('errand-1')).attempts).toBe(MAX_HANDOFF_ATTEMPTS);
+
+    // Even the right code is turned away now
+    await expect(submitProof({ jobType: 'errand', jobId: 'errand-1', code }, as('runner-1')))
+      .rejects.toThrow('Too many wrong codes');
+    expect((await errand('errand-1')).status).toBe('on_the_way');
+  });
+
+  it('only lets the assigned runner hand over', async () => {
+    await getCode({ jobType: 'errand', jobId: 'errand-1' }, as('buyer-1'));
+
+    await expect(submitProof({ jobType: 'errand', jobId: 'errand-1', code: '1234' }, as('runner-2')))
+      .rejects.toThrow('Only the assigned runner can complete this delivery');
+  });
+
+  it('rolls back a completion written with a proof but no stamp', async () => {
+    await writeErrand('errand-1', onTheWay, { ...onTheWay, status: 'completed', proofOfDelivery: forgedProof });
+
+    expect(await errand('errand-1')).toMatchObject({
+      status: 'on_the_way',
+      proofOfDelivery: null,
+      statusChange: { rolledBack: true },
+      rejectedStatusTransition: { from: 'on_the_way', to: 'completed', reason: 'proof_of_delivery_required' },
+    });
+  });
+
+  it('keeps a completion made by submitProofOfDelivery', async () => {
+    const { code } = await getCode({ jobType: 'errand', jobId: 'errand-1' }, as('buyer-1'));
+    await submitProof({ jobType: 'errand', jobId: 'errand-1', code }, as('runner-1'));
+    const completed = await errand('errand-1');
+
+    await writeErrand('errand-1', onTheWay, completed);
+
+    expect((await errand('errand-1')).status).toBe('completed');
+  });
+});
@@ -0,0 +1,164 @@
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { clearFirestore, describeEmulator, testEnv } from './emulator';
+import * as paystack from '../src/paystack';
+import { LEDGER_COLLECTION, REFUNDS_ACCOUNT, REVENUE_ACCOUNT, userAccount } from '../src/ledger';
+import {
+  REFUNDS_COLLECTION,
+  applyRefundEvent,
+  refundIfUnmatched,
+  refundUnmatchedCharge,
+  startRefund,
+} from '../src/refunds';
+
+jest.mock('../src/paystack', () => ({
+  ...jest.requireActual('../src/paystack'),
+  createRefund: jest.fn(),
+}));
+
+jest.mock('../src/notifications', () => ({
+  sendInternalPushNotification: jest.fn().mockResolvedValue(undefined),
+}));
+
+const mockPaystack = paystack as jest.Mocked<typeof paystack>;
+
+describeEmulator('refunds', () => {
+  const db = () => admin.firestore();
+  const orderRef = () => db().collection('orders').doc('order-1');
+  const order = async () => (await orderRef().get()).data();
+  const refund = async (id: string) => (await db().collection(REFUNDS_COLLECTION).doc(id).get()).data();
+
+  const refundInput = (refundId: string, amount?: number) => ({
+    orderId: 'order-1',
+    amount,
+    reason: 'Damaged items',
+    requestedBy: 'admin-1',
+    source: 'admin' as const,
+    refundId,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    await orderRef().set({
+      buyerId: 'buyer-1',
+      sellerId: 'seller-1',
+      status: 'completed',
+      paymentMethod: 'paystack',
+      paymentReference: 'ref_1',
+      totalAmount: 10000,
+    });
+  });
+
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('keeps the amount reserved when the refund call times out', async () => {
+    mockPaystack.createRefund.mockRejectedValue(new Error('network timeout'));
+
+    const result = await startRefund(refundInput('timed-out'));
+
+    expect(result.status).toBe('pending');
+    expect(await refund('timed-out')).toMatchObject({ status: 'pending', startError: 'network timeout' });
+    expect(await order()).toMatchObject({ refundPendingAmount: 10000, refundStatus: 'pending' });
+
+    // Nothing is left to refund a second time
+    await expect(startRefund(refundInput('second'))).rejects.toThrow('still refundable');
+  });
+
+  it('settles a refund whose start timed out from the webhook', async () => {
+    mockPaystack.createRefund.mockRejectedValue(new Error('network timeout'));
+    await startRefund(refundInput('late', 4000));
+
+    await applyRefundEvent('refund.processed', { id: 99, transaction_reference: 'ref_1', amount: 400000 });
+
+    expect((await refund('late'))?.status).toBe('processed');
+    expect(await order()).toMatchObject({ refundPendingAmount: 0, refundedAmount: 4000, refundStatus: 'partially_refunded' });
+  });
+
+  it('frees the amount when Paystack turns the refund down', async () => {
+    mockPaystack.createRefund.mockRejectedValue(
+      new functions.https.HttpsError('internal', 'Paystack API error: Transaction has been fully reversed', { rejected: true })
+    );
+
+    await expect(startRefund(refundInput('turned-down'))).rejects.toThrow('Failed to start refund');
+
+    expect((await refund('turned-down'))?.status).toBe('failed');
+    expect(await order()).toMatchObject({ refundPendingAmount: 0, refundStatus: 'failed' });
+  });
+
+  it('ignores events that arrive after the refund was processed', async () => {
+    mockPaystack.createRefund.mockResolvedValue({ id: 7, status: 'pending' });
+    await startRefund(refundInput('in-order', 2500));
+
+    await applyRefundEvent('refund.processed', { id: 7 });
+    await applyRefundEvent('refund.processing', { id: 7 });
+    await applyRefundEvent('refund.processed', { id: 7 });
+
+    expect((await refund('in-order'))?.status).toBe('processed');
+    expect((await order())?.refundedAmount).toBe(2500);
+    const posted = await db().collection(LEDGER_COLLECTION).where('postingId', '==', 'refund_in-order').get();
+    expect(posted.size).toBeGreaterThan(0);
+    expect(posted.docs.find((doc) => doc.data().account === REFUNDS_ACCOUNT)?.data().amount).toBe(2500);
+  });
+
+  describe('unmatched charges', () => {
+    const paymentRef = () => db().collection('payments').doc('charge_ref_9');
+    const unmatched = { paymentId: 'charge_ref_9', reference: 'ref_9', amount: 12000, userId: 'buyer-1', paystackData: { amount: 1200000 } };
+
+    it('refunds a charge that never became an order and flags it for review', async () => {
+      mockPaystack.createRefund.mockResolvedValue({ id: 11, status: 'pending' });
+
+      await expect(refundIfUnmatched(new functions.https.HttpsError('failed-precondition', 'Only 1 of Rice left in stock'), unmatched))
+        .rejects.toThrow('Only 1 of Rice left in stock. Your payment of ₦12,000 will be refunded.');
+
+      expect(mockPaystack.createRefund).toHaveBeenCalledWith(expect.objectContaining({ transactionReference: 'ref_9', amount: 12000 }));
+      expect(await refund('unmatched_charge_ref_9')).toMatchObject({ orderId: null, amount: 12000, source: 'unmatched_charge' });
+      expect((await paymentRef().get()).data()).toMatchObject({ status: 'needs_review', refundStatus: 'pending' });
+    });
+
+    it('posts the refund once Paystack processes it', async () => {
+      mockPaystack.createRefund.mockResolvedValue({ id: 12, status: 'pending' });
+      await refundUnmatchedCharge(unmatched, 'Prices changed');
+
+      await applyRefundEvent('refund.processed', { id: 12 });
+
+      expect((await refund('unmatched_charge_ref_9'))?.status).toBe('processed');
+      expect((await paymentRef().get()).data()?.refundStatus).toBe('refunded');
+    });
+
+    it('leaves charges that already paid for something alone', async () => {
+      await paymentRef().set({ reference: 'ref_9', orderIds: ['order-1'] });
+
+      await expect(refundUnmatchedCharge(unmatched, 'Prices changed')).resolves.toBeNull();
+      await expect(refundIfUnmatched(new functions.https.HttpsError('already-exists', 'This payment has already been used'), unmatched))
+        .rejects.toThrow(/^This payment has already been used$/);
+      expect(mockPaystack.createRefund).not.toHaveBeenCalled();
+    });
+  });
+
+  it('claws back settled earnings in proportion to the refund', async () => {
+    const settle = (account: string, direction: 'credit' | 'debit', amount: number, index: number) =>
+      db().collection(LEDGER_COLLECTION).doc(`order_settlement_order-1_${index}`).set({
+        postingId: 'order_settlement_order-1',
+        type: 'order_settlement',
+        sourceType: 'order',
+        sourceId: 'order-1',
+        account,
+        userId: account.startsWith('user:') ? account.slice(5) : null,
+        direction,
+        amount,
+      });
+    await settle(userAccount('seller-1'), 'credit', 8000, 0);
+    await settle(userAccount('runner-1'), 'credit', 1000, 1);
+    mockPaystack.createRefund.mockResolvedValue({ id: 8, status: 'processed' });
+
+    await startRefund(refundInput('half', 5000));
+
+    const lines = (await db().collection(LEDGER_COLLECTION).where('postingId', '==', 'refund_half').get())
+      .docs.map((doc) => doc.data());
+    const debitOf = (account: string) => lines.find((line) => line.account === account && line.direction === 'debit')?.amount;
+    expect(debitOf(userAccount('seller-1'))).toBe(4000);
+    expect(debitOf(userAccount('runner-1'))).toBe(500);
+    expect(debitOf(REVENUE_ACCOUNT)).toBe(500);
+  });
+});
@@ -0,0 +1,79 @@
+import * as admin from 'firebase-admin';
+import { clearFirestore, describeEmulator, testEnv } from './emulator';
+import { ERRAND_SCHEDULES_COLLECTION, manageErrandSchedule, runErrandSchedules } from '../src/schedules';
+import { RecurrenceRule, nextOccurrence, toLocalDateKey } from '../src/recurrence';
+
+const daily: RecurrenceRule = { frequency: 'daily', time: '12:00', startDate: '2020-01-01', endDate: null, daysOfWeek: [] };
+
+describeEmulator('pausing errand schedules', () => {
+  const db = () => admin.firestore();
+  const manage = testEnv.wrap(manageErrandSchedule);
+  const run = testEnv.wrap(runErrandSchedules);
+  const asBuyer = { auth: { uid: 'buyer-1' } };
+
+  const addSchedule = (id: string, status: string) => db().collection(ERRAND_SCHEDULES_COLLECTION).doc(id).set({
+    buyerId: 'buyer-1',
+    template: {
+      title: 'Weekly shop',
+      pickupLocation: 'Swali Market',
+      dropoffLocation: 'Home',
+      pickupCoordinates: { latitude: 4.9247, longitude: 6.2676 },
+      dropoffCoordinates: { latitude: 4.9447, longitude: 6.2676 },
+    },
+    recurrence: daily,
+    status,
+    nextRunAt: null,
+    skippedDates: [],
+  });
+
+  const addOccurrence = (scheduleId: string, dateKey: string, fields: Record<string, any> = {}) =>
+    db().collection('errands').doc(`${scheduleId}_${dateKey}`).set({
+      title: 'Weekly shop',
+      buyerId: 'buyer-1',
+      scheduleId,
+      occurrenceKey: dateKey,
+      status: 'scheduled',
+      dispatchAt: admin.firestore.Timestamp.fromMillis(Date.now() - 60 * 1000),
+      ...fields,
+    });
+
+  const errand = async (id: string) => (await db().collection('errands').doc(id).get()).data();
+
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('cancels the occurrences already booked when a schedule is paused', async () => {
+    await addSchedule('paused-now', 'active');
+    await addOccurrence('paused-now', '2026-01-02');
+
+    await manage({ scheduleId: 'paused-now', action: 'pause' }, asBuyer);
+
+    expect(await errand('paused-now_2026-01-02')).toMatchObject({ status: 'cancelled', cancelReason: 'schedule_paused' });
+  });
+
+  it('does not release the booked errands of a paused schedule to dispatch', async () => {
+    await addSchedule('running', 'active');
+    await addSchedule('on-hold', 'paused');
+    await addOccurrence('running', '2026-01-02');
+    await addOccurrence('on-hold', '2026-01-02');
+
+    await run({});
+
+    expect((await errand('running_2026-01-02'))?.status).toBe('pending');
+    expect(await errand('on-hold_2026-01-02')).toMatchObject({ status: 'cancelled', cancelReason: 'schedule_paused' });
+  });
+
+  it('books a paused date again when the schedule is resumed', async () => {
+    const dateKey = toLocalDateKey(nextOccurrence(daily, new Date())!);
+    await addSchedule('resumed', 'paused');
+    await addOccurrence('resumed', dateKey, { status: 'cancelled', cancelReason: 'schedule_paused' });
+
+    await manage({ scheduleId: 'resumed', action: 'resume' }, asBuyer);
+
+    const rebooked = await errand(`resumed_${dateKey}`);
+    expect(rebooked?.status).toBe('scheduled');
+    expect(rebooked?.cancelReason).toBeUndefined();
+    // Priced on the server when booked
+    expect(rebooked?.fees?.total).toBeGreaterThan(0);
+  });
+});
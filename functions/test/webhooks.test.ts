@@ -0,0 +1,64 @@
+import * as admin from 'firebase-admin';
+import { clearFirestore, describeEmulator, testEnv } from './emulator';
+import { PAYSTACK_EVENTS_COLLECTION, chargePaymentId, getPaystackEventKey, processPaystackEvent } from '../src/webhooks';
+
+describe('getPaystackEventKey', () => {
+  it('keys an event by its type and id, reference or transfer code', () => {
+    expect(getPaystackEventKey({ event: 'charge.success', data: { id: 501, reference: 'ref_1' } })).toBe('charge.success_501');
+    expect(getPaystackEventKey({ event: 'transfer.failed', data: { reference: 'payout/1' } })).toBe('transfer.failed_payout_1');
+    expect(getPaystackEventKey({ event: 'transfer.success', data: { transfer_code: 'TRF_1' } })).toBe('transfer.success_TRF_1');
+  });
+
+  it('has no key for an event without any of them', () => {
+    expect(getPaystackEventKey({ event: 'charge.success', data: {} })).toBeNull();
+    expect(getPaystackEventKey({ event: 'charge.success', data: null })).toBeNull();
+  });
+});
+
+describeEmulator('charge webhooks', () => {
+  const db = () => admin.firestore();
+  const chargeSuccess = {
+    event: 'charge.success',
+    data: { id: 501, reference: 'ref_1', amount: 1050000, customer: { email: 'buyer@example.com' }, metadata: null },
+  };
+
+  const paymentsFor = async (reference: string) =>
+    (await db().collection('payments').where('reference', '==', reference).get()).docs;
+
+  afterEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('records the charge on the payment checkout created, keeping its review status', async () => {
+    await db().collection('payments').doc(chargePaymentId('ref_1')).set({
+      id: chargePaymentId('ref_1'),
+      reference: 'ref_1',
+      status: 'pending',
+      orderId: 'order-1',
+      orderIds: ['order-1'],
+    });
+
+    await processPaystackEvent(chargeSuccess);
+
+    const payments = await paymentsFor('ref_1');
+    expect(payments).toHaveLength(1);
+    expect(payments[0].data()).toMatchObject({ status: 'pending', chargeStatus: 'success', orderIds: ['order-1'], amount: 10500 });
+  });
+
+  it('logs a charge that arrives before checkout on the same payment', async () => {
+    await processPaystackEvent(chargeSuccess);
+    await processPaystackEvent(chargeSuccess, { force: true });
+
+    const payments = await paymentsFor('ref_1');
+    expect(payments).toHaveLength(1);
+    expect(payments[0].id).toBe(chargePaymentId('ref_1'));
+    expect(payments[0].data()).toMatchObject({ status: 'success', chargeStatus: 'success', verificationSource: 'webhook' });
+  });
+
+  it('stores an event without an id or reference as ignored instead of failing it', async () => {
+    const result = await processPaystackEvent({ event: 'charge.success', data: { amount: 100 } });
+
+    expect(result.status).toBe('ignored');
+    const stored = (await db().collection(PAYSTACK_EVENTS_COLLECTION).doc(result.eventKey).get()).data();
+    expect(stored).toMatchObject({ event: 'charge.success', status: 'ignored', error: 'Event has no id or reference' });
+  });
+});
@@ -0,0 +1,10 @@
+// Unit tests run anywhere; tests that need Firestore only run inside the
+// emulator (npm run test:emulator) and are skipped otherwise
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/test'],
+  transform: {
+    // The Expo tsconfig targets Metro, so tests compile to CommonJS for Node
+    '^.+\\.tsx?$': ['ts-jest', { tsconfig: { module: 'commonjs', esModuleInterop: true } }],
+  },
+};
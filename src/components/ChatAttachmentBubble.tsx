@@ -0,0 +1,167 @@
+import React from 'react';
+import { View, StyleSheet, Image, TouchableOpacity, Linking, Platform } from 'react-native';
+import { Text, IconButton, ProgressBar } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useAudioPlayer, useAudioPlayerStatus } from 'expo-audio';
+import { ChatImage, ChatJobCard, ChatLocation, ChatMessageType, ChatVoiceNote } from '../services/chatService';
+import { ORDER_STATUS_LABELS, normalizeOrderStatus } from '../constants/orderLifecycle';
+
+interface ChatAttachmentBubbleProps {
+  type: ChatMessageType;
+  image?: ChatImage;
+  voice?: ChatVoiceNote;
+  location?: ChatLocation;
+  jobCard?: ChatJobCard;
+  color: string; // text colour of the surrounding bubble
+  onOpenImage: (url: string) => void;
+  onOpenJob: (card: ChatJobCard) => void;
+}
+
+// Bubbles never grow past this, whatever the photo's size
+const MAX_IMAGE_WIDTH = 220;
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const VoiceNotePlayer: React.FC<{ voice: ChatVoiceNote; color: string }> = ({ voice, color }) => {
+  const player = useAudioPlayer(voice.url);
+  const status = useAudioPlayerStatus(player);
+  const durationMs = status.duration ? status.duration * 1000 : voice.durationMs;
+  const positionMs = status.currentTime * 1000;
+
+  const handlePress = () => {
+    if (status.playing) {
+      player.pause();
+      return;
+    }
+    if (status.didJustFinish || positionMs >= durationMs) player.seekTo(0);
+    player.play();
+  };
+
+  return (
+    <View style={styles.voice}>
+      <IconButton icon={status.playing ? 'pause' : 'play'} iconColor={color} size={24} onPress={handlePress} style={styles.voiceButton} />
+      <View style={styles.voiceBody}>
+        <ProgressBar progress={durationMs > 0 ? Math.min(positionMs / durationMs, 1) : 0} color={color} style={styles.voiceProgress} />
+        <Text style={[styles.caption, { color }]}>
+          {formatDuration(status.playing || positionMs > 0 ? positionMs : durationMs)}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const openInMaps = ({ latitude, longitude }: ChatLocation) => {
+  const url = Platform.OS === 'ios'
+    ? `http://maps.apple.com/?ll=${latitude},${longitude}`
+    : `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`;
+  Linking.openURL(url).catch((error) => console.error('Error opening maps:', error));
+};
+
+const jobStatusLabel = (card: ChatJobCard) => {
+  const status = card.jobType === 'order' ? normalizeOrderStatus(card.status) : null;
+  return status ? ORDER_STATUS_LABELS[status] : card.status.replace(/_/g, ' ');
+};
+
+const ChatAttachmentBubble: React.FC<ChatAttachmentBubbleProps> = ({
+  type,
+  image,
+  voice,
+  location,
+  jobCard,
+  color,
+  onOpenImage,
+  onOpenJob,
+}) => {
+  if (type === 'image' && image) {
+    const width = Math.min(MAX_IMAGE_WIDTH, image.width || MAX_IMAGE_WIDTH);
+    const height = image.width && image.height ? (width * image.height) / image.width : width;
+    return (
+      <TouchableOpacity onPress={() => onOpenImage(image.url)}>
+        <Image source={{ uri: image.thumbnailUrl || image.url }} style={[styles.image, { width, height }]} />
+      </TouchableOpacity>
+    );
+  }
+
+  if (type === 'voice' && voice) {
+    return <VoiceNotePlayer voice={voice} color={color} />;
+  }
+
+  if (type === 'location' && location) {
+    return (
+      <TouchableOpacity style={styles.row} onPress={() => openInMaps(location)}>
+        <MaterialCommunityIcons name="map-marker" size={28} color={color} />
+        <View style={styles.rowBody}>
+          <Text style={[styles.title, { color }]}>{location.address || 'Shared location'}</Text>
+          <Text style={[styles.caption, { color }]}>Tap to open in maps</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  }
+
+  if (type === 'job_card' && jobCard) {
+    return (
+      <TouchableOpacity style={[styles.row, styles.card, { borderColor: color }]} onPress={() => onOpenJob(jobCard)}>
+        <MaterialCommunityIcons name={jobCard.jobType === 'order' ? 'package-variant' : 'run-fast'} size={28} color={color} />
+        <View style={styles.rowBody}>
+          <Text style={[styles.title, { color }]} numberOfLines={2}>{jobCard.title}</Text>
+          <Text style={[styles.caption, { color }]}>
+            {jobStatusLabel(jobCard)}
+            {jobCard.amount !== undefined ? ` · ₦${jobCard.amount.toLocaleString()}` : ''}
+          </Text>
+        </View>
+        <MaterialCommunityIcons name="chevron-right" size={20} color={color} />
+      </TouchableOpacity>
+    );
+  }
+
+  return null;
+};
+
+const styles = StyleSheet.create({
+  image: {
+    borderRadius: 12,
+  },
+  voice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minWidth: 200,
+  },
+  voiceButton: {
+    margin: 0,
+  },
+  voiceBody: {
+    flex: 1,
+    marginLeft: 4,
+  },
+  voiceProgress: {
+    height: 4,
+    borderRadius: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minWidth: 200,
+  },
+  rowBody: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  card: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 8,
+    padding: 8,
+  },
+  title: {
+    fontWeight: '600',
+  },
+  caption: {
+    fontSize: 12,
+    marginTop: 2,
+    opacity: 0.8,
+  },
+});
+
+export default ChatAttachmentBubble;
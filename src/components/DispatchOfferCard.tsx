@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { Text, Card, Button, ProgressBar } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { DispatchOffer, getOfferExpiry, respondToDispatchOffer } from '../services/dispatchService';
+
+interface DispatchOfferCardProps {
+  offer: DispatchOffer;
+  onAccepted?: (errandId: string) => void;
+}
+
+// Seconds a runner is given per offer; matches DISPATCH_OFFER_TIMEOUT_SECONDS
+const OFFER_WINDOW_SECONDS = 90;
+
+const DispatchOfferCard: React.FC<DispatchOfferCardProps> = ({ offer, onAccepted }) => {
+  const { theme } = useTheme();
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [responding, setResponding] = useState<'accept' | 'decline' | null>(null);
+
+  useEffect(() => {
+    const tick = () => setSecondsLeft(Math.max(0, Math.round((getOfferExpiry(offer).getTime() - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [offer]);
+
+  const respond = async (accept: boolean) => {
+    setResponding(accept ? 'accept' : 'decline');
+    try {
+      const result = await respondToDispatchOffer(offer.id, accept);
+      if (accept && result.errandId) onAccepted?.(result.errandId);
+    } catch (error: any) {
+      Alert.alert('Offer Unavailable', error.message || 'This offer is no longer available.');
+    } finally {
+      setResponding(null);
+    }
+  };
+
+  if (secondsLeft === 0) return null;
+
+  return (
+    <Card style={[styles.card, { backgroundColor: theme.colors.surface, borderColor: theme.colors.primary }]}>
+      <Card.Content>
+        <View style={styles.header}>
+          <MaterialCommunityIcons name="lightning-bolt" size={24} color={theme.colors.primary} />
+          <Text variant="titleMedium" style={[styles.title, { color: theme.colors.onSurface }]}>
+            New errand offer
+          </Text>
+          <Text variant="labelLarge" style={{ color: theme.colors.primary }}>{secondsLeft}s</Text>
+        </View>
+        <ProgressBar
+          progress={Math.min(1, secondsLeft / OFFER_WINDOW_SECONDS)}
+          color={theme.colors.primary}
+          style={styles.progress}
+        />
+        <Text variant="bodyLarge" style={{ color: theme.colors.onSurface, fontWeight: '600' }}>{offer.title}</Text>
+        {!!offer.pickupLocation && (
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>From: {offer.pickupLocation}</Text>
+        )}
+        {!!offer.dropoffLocation && (
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>To: {offer.dropoffLocation}</Text>
+        )}
+        {offer.stopCount > 2 && (
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+            {offer.stopCount - 1} pickups before dropoff
+          </Text>
+        )}
+        <Text variant="bodyMedium" style={{ color: theme.colors.onSurface, marginTop: 6 }}>
+          {offer.distanceKm} km to pickup &bull; Earn ₦{offer.fee.toLocaleString()}
+        </Text>
+        <View style={styles.actions}>
+          <Button
+            mode="outlined"
+            onPress={() => respond(false)}
+            loading={responding === 'decline'}
+            disabled={!!responding}
+            style={styles.action}
+          >
+            Decline
+          </Button>
+          <Button
+            mode="contained"
+            onPress={() => respond(true)}
+            loading={responding === 'accept'}
+            disabled={!!responding}
+            style={styles.action}
+          >
+            Accept
+          </Button>
+        </View>
+      </Card.Content>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+    borderWidth: 1,
+    borderRadius: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    marginLeft: 8,
+    fontWeight: '600',
+  },
+  progress: {
+    height: 4,
+    borderRadius: 2,
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  action: {
+    marginLeft: 8,
+  },
+});
+
+export default DispatchOfferCard;
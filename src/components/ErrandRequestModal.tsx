@@ -22,10 +22,22 @@ import { COLORS } from '../constants/colors';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { useTheme } from '../contexts/ThemeContext';
 import * as Location from 'expo-location';
-import { haversineDistance, geocodeLocation, isWithinNigeria, calculateDistanceAndPrice } from '../utils/distance';
-import { db } from '../config/firebase';
-import firebase from 'firebase/compat/app';
+import { geocodeLocation, isWithinNigeria, calculateDistanceAndPrice } from '../utils/distance';
+import { FeeBreakdown } from '../constants/feeRules';
+import { getFeeRules } from '../services/feeRulesService';
 import { useAuth } from '../contexts/AuthContext';
+import { ErrandStopType, MAX_ERRAND_STOPS, buildErrandStops } from '../services/errandStopsService';
+import { LatLng } from '../utils/geohash';
+import {
+  RecurrenceFrequency,
+  RecurrenceRule,
+  WEEKDAY_LABELS,
+  describeRecurrence,
+  toLocalDateKey,
+  validateRecurrence,
+} from '../utils/recurrence';
+import { createErrandSchedule } from '../services/scheduleService';
+import { requestErrand } from '../services/buyerServices';
 
 interface ErrandRequestModalProps {
   visible: boolean;
@@ -35,34 +47,84 @@ interface ErrandRequestModalProps {
   loading?: boolean;
 }
 
+// One stop as entered in the form; items are comma separated
+interface ErrandStopFormData {
+  type: ErrandStopType;
+  address: string;
+  instructions: string;
+  items: string;
+  coordinates?: LatLng | null;
+}
+
 interface ErrandRequestData {
   title: string;
   description: string;
   category: string;
   urgency: 'low' | 'medium' | 'high';
   budget: string;
-  pickupLocation: string;
-  dropoffLocation: string;
+  // Pickups in the order they should be visited, then the dropoff last
+  stops: ErrandStopFormData[];
   estimatedTime: string;
 }
 
+type ErrandFormField = Exclude<keyof ErrandRequestData, 'stops'>;
+
+type ErrandFormErrors = Partial<Record<ErrandFormField, string>> & { stops?: Record<number, string>; schedule?: string };
+
+// Run the errand straight away, or book it for later once or on a repeating rule
+type ErrandTiming = 'now' | RecurrenceFrequency;
+
+interface ScheduleFormData {
+  startDate: string;
+  time: string;
+  endDate: string;
+  daysOfWeek: number[];
+}
+
+const TIMING_OPTIONS: Array<{ value: ErrandTiming; label: string; icon: string }> = [
+  { value: 'now', label: 'Now', icon: 'flash' },
+  { value: 'once', label: 'Later', icon: 'calendar-clock' },
+  { value: 'daily', label: 'Daily', icon: 'calendar-refresh' },
+  { value: 'weekly', label: 'Weekly', icon: 'calendar-week' },
+];
+
+const initialScheduleForm = (): ScheduleFormData => ({
+  startDate: toLocalDateKey(new Date(Date.now() + 24 * 60 * 60 * 1000)),
+  time: '08:00',
+  endDate: '',
+  daysOfWeek: [],
+});
+
+const emptyStop = (type: ErrandStopType): ErrandStopFormData => ({
+  type,
+  address: '',
+  instructions: '',
+  items: '',
+});
+
+const initialFormData = (): ErrandRequestData => ({
+  title: '',
+  description: '',
+  category: '',
+  urgency: 'medium',
+  budget: '',
+  stops: [emptyStop('pickup'), emptyStop('dropoff')],
+  estimatedTime: '',
+});
+
+const stopLabel = (stops: ErrandStopFormData[], index: number) =>
+  stops[index].type === 'dropoff'
+    ? 'Dropoff'
+    : stops.filter((stop) => stop.type === 'pickup').length > 1 ? `Pickup ${index + 1}` : 'Pickup';
+
 const ErrandRequestModal: React.FC<ErrandRequestModalProps> = ({
   visible, onDismiss, onSubmit, onPaymentRequired, loading = false
 }) => {
   const { theme } = useTheme();
   const { user } = useAuth();
-  const [formData, setFormData] = useState<ErrandRequestData>({
-    title: '',
-    description: '',
-    category: '',
-    urgency: 'medium',
-    budget: '',
-    pickupLocation: '',
-    dropoffLocation: '',
-    estimatedTime: '',
-  });
-
-  const [errors, setErrors] = useState<Partial<ErrandRequestData>>({});
+  const [formData, setFormData] = useState<ErrandRequestData>(initialFormData);
+
+  const [errors, setErrors] = useState<ErrandFormErrors>({});
   const [snackbarVisible, setSnackbarVisible] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -70,6 +132,9 @@ const ErrandRequestModal: React.FC<ErrandRequestModalProps> = ({
   const [calculating, setCalculating] = useState(false);
   const [distance, setDistance] = useState<number | null>(null);
   const [geoError, setGeoError] = useState<string | null>(null);
+  const [feeBreakdown, setFeeBreakdown] = useState<FeeBreakdown | null>(null);
+  const [timing, setTiming] = useState<ErrandTiming>('now');
+  const [scheduleForm, setScheduleForm] = useState<ScheduleFormData>(initialScheduleForm);
 
   const categories = [
     'Grocery Shopping',
@@ -88,7 +153,7 @@ const ErrandRequestModal: React.FC<ErrandRequestModalProps> = ({
   ];
 
   const validateForm = () => {
-    const newErrors: Partial<ErrandRequestData> = {};
+    const newErrors: ErrandFormErrors = {};
 
     if (!formData.title.trim()) {
       newErrors.title = 'Title is required';
@@ -110,16 +175,27 @@ const ErrandRequestModal: React.FC<ErrandRequestModalProps> = ({
       newErrors.category = 'Category is required';
     }
     
-    if (!formData.pickupLocation.trim()) {
-      newErrors.pickupLocation = 'Pickup location is required';
-    } else if (formData.pickupLocation.trim().length < 5) {
-      newErrors.pickupLocation = 'Pickup location must be at least 5 characters';
+    const stopErrors: Record<number, string> = {};
+    formData.stops.forEach((stop, index) => {
+      const address = stop.address.trim();
+      const label = stopLabel(formData.stops, index);
+      if (!address) {
+        stopErrors[index] = `${label} location is required`;
+      } else if (address.length < 5) {
+        stopErrors[index] = `${label} location must be at least 5 characters`;
+      } else if (index > 0 && address.toLowerCase() === formData.stops[index - 1].address.trim().toLowerCase()) {
+        // Check if consecutive stops are the same place
+        stopErrors[index] = `${label} cannot be the same as the previous stop`;
+      }
+    });
+    if (Object.keys(stopErrors).length > 0) {
+      newErrors.stops = stopErrors;
     }
-    
-    if (!formData.dropoffLocation.trim()) {
-      newErrors.dropoffLocation = 'Dropoff location is required';
-    } else if (formData.dropoffLocation.trim().length < 5) {
-      newErrors.dropoffLocation = 'Dropoff location must be at least 5 characters';
+
+    const recurrence = buildRecurrence();
+    const scheduleError = recurrence && validateRecurrence(recurrence);
+    if (scheduleError) {
+      newErrors.schedule = scheduleError;
     }
     
     if (!formData.budget.trim()) {
@@ -133,22 +209,70 @@ const ErrandRequestModal: React.FC<ErrandRequestModalProps> = ({
       }
     }
 
-    // Check if locations are the same
-    if (formData.pickupLocation.trim().toLowerCase() === formData.dropoffLocation.trim().toLowerCase()) {
-      newErrors.dropoffLocation = 'Pickup and dropoff locations cannot be the same';
-    }
-
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleFieldChange = (field: keyof ErrandRequestData, value: string) => {
+  const handleFieldChange = (field: ErrandFormField, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     if (errors?.[field]) {
       setErrors(prev => ({ ...prev, [field]: undefined }));
     }
   };
 
+  // The repeat rule for a scheduled errand, or null when it runs now
+  const buildRecurrence = (): RecurrenceRule | null => timing === 'now' ? null : {
+    frequency: timing,
+    time: scheduleForm.time.trim(),
+    startDate: scheduleForm.startDate.trim(),
+    endDate: timing === 'once' ? null : scheduleForm.endDate.trim() || null,
+    daysOfWeek: timing === 'weekly' ? scheduleForm.daysOfWeek : [],
+  };
+
+  const handleScheduleChange = (field: 'startDate' | 'time' | 'endDate', value: string) => {
+    setScheduleForm(prev => ({ ...prev, [field]: value }));
+    if (errors.schedule) {
+      setErrors(prev => ({ ...prev, schedule: undefined }));
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    setScheduleForm(prev => ({
+      ...prev,
+      daysOfWeek: prev.daysOfWeek.includes(day)
+        ? prev.daysOfWeek.filter((d) => d !== day)
+        : [...prev.daysOfWeek, day].sort(),
+    }));
+    if (errors.schedule) {
+      setErrors(prev => ({ ...prev, schedule: undefined }));
+    }
+  };
+
+  const handleStopChange = (index: number, field: 'address' | 'instructions' | 'items', value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      stops: prev.stops.map((stop, i) => i === index ? { ...stop, [field]: value } : stop),
+    }));
+    if (errors.stops?.[index]) {
+      setErrors(prev => ({ ...prev, stops: undefined }));
+    }
+  };
+
+  // Extra pickups go before the dropoff, which always stays last
+  const handleAddStop = () => {
+    if (formData.stops.length >= MAX_ERRAND_STOPS) return;
+    setFormData(prev => ({
+      ...prev,
+      stops: [...prev.stops.slice(0, -1), emptyStop('pickup'), prev.stops[prev.stops.length - 1]],
+    }));
+    setErrors(prev => ({ ...prev, stops: undefined }));
+  };
+
+  const handleRemoveStop = (index: number) => {
+    setFormData(prev => ({ ...prev, stops: prev.stops.filter((_, i) => i !== index) }));
+    setErrors(prev => ({ ...prev, stops: undefined }));
+  };
+
   const handleSubmit = async () => {
     if (validateForm()) {
       setIsSubmitting(true);
@@ -157,31 +281,35 @@ const ErrandRequestModal: React.FC<ErrandRequestModalProps> = ({
         const saved = await saveErrandToFirebase(formData);
         
         if (saved) {
-          // If payment callback is provided, trigger payment flow
-          if (onPaymentRequired) {
-            const amount = parseFloat(formData.budget);
-            onPaymentRequired(formData, amount);
-          } else {
-            // Fallback to original submit behavior
-            onSubmit(formData);
+          const recurrence = buildRecurrence();
+
+          // Scheduled errands are booked by the scheduler, so there is nothing to pay for yet
+          if (!recurrence) {
+            // Hand the geocoded stops on so the route can be priced again
+            const submitted = { ...formData, stops: saved };
+
+            // If payment callback is provided, trigger payment flow
+            if (onPaymentRequired) {
+              const amount = parseFloat(formData.budget);
+              onPaymentRequired(submitted, amount);
+            } else {
+              // Fallback to original submit behavior
+              onSubmit(submitted);
+            }
           }
           
           // Reset form
-          setFormData({
-            title: '',
-            description: '',
-            category: '',
-            urgency: 'medium',
-            budget: '',
-            pickupLocation: '',
-            dropoffLocation: '',
-            estimatedTime: '',
-          });
+          setFormData(initialFormData());
           setErrors({});
           setDistance(null);
+          setFeeBreakdown(null);
+          setTiming('now');
+          setScheduleForm(initialScheduleForm());
           
           // Show success message
-          setSnackbarMessage('Errand request submitted successfully!');
+          setSnackbarMessage(recurrence
+            ? `Errand scheduled: ${describeRecurrence(recurrence)}`
+            : 'Errand request submitted successfully!');
           setSnackbarVisible(true);
           
           // Close modal after success
@@ -202,158 +330,157 @@ const ErrandRequestModal: React.FC<ErrandRequestModalProps> = ({
     return formData.title.trim() && 
            formData.description.trim() && 
            formData.category && 
-           formData.pickupLocation.trim() && 
-           formData.dropoffLocation.trim() && 
+           formData.stops.every((stop) => stop.address.trim()) && 
            formData.budget.trim();
   };
 
-  // Save errand data to Firebase
-  const saveErrandToFirebase = async (errandData: ErrandRequestData) => {
+  // Save errand data to Firebase, returning the stops with their coordinates
+  const saveErrandToFirebase = async (errandData: ErrandRequestData): Promise<ErrandStopFormData[] | null> => {
     if (!user?.uid) {
       setSnackbarMessage('User not authenticated. Please log in again.');
       setSnackbarVisible(true);
-      return false;
+      return null;
     }
 
     try {
-      // Get coordinates for both locations using enhanced geocoding
-      const [pickupCoords, dropoffCoords] = await Promise.all([
-        geocodeLocation(errandData.pickupLocation),
-        geocodeLocation(errandData.dropoffLocation),
-      ]);
-
-      if (!pickupCoords || !dropoffCoords) {
-        setSnackbarMessage('Could not find coordinates for one or both locations. Please check the addresses.');
+      // Get coordinates for every stop using enhanced geocoding
+      const coordinates = await Promise.all(errandData.stops.map((stop) => geocodeLocation(stop.address)));
+
+      if (coordinates.some((coords) => !coords)) {
+        setSnackbarMessage('Could not find coordinates for one or more stops. Please check the addresses.');
         setSnackbarVisible(true);
-        return false;
+        return null;
       }
 
-      const pickupCoordinates = {
-        latitude: pickupCoords.latitude,
-        longitude: pickupCoords.longitude,
-      };
+      const stops = buildErrandStops(errandData.stops.map((stop, index) => ({
+        type: stop.type,
+        address: stop.address,
+        coordinates: coordinates[index],
+        instructions: stop.instructions,
+        items: stop.items.split(','),
+      })));
+      const pickup = stops[0];
+      const dropoff = stops[stops.length - 1];
 
-      const dropoffCoordinates = {
-        latitude: dropoffCoords.latitude,
-        longitude: dropoffCoords.longitude,
-      };
-
-      const errandDoc = {
+      const errandFields = {
         ...errandData,
-        userId: user.uid,
-        userEmail: user.email,
-        userName: user.displayName || 'Unknown User',
-        status: 'pending',
-        createdAt: firebase.firestore.FieldValue.serverTimestamp(),
-        updatedAt: firebase.firestore.FieldValue.serverTimestamp(),
-        distance: distance || 0,
-        pickupCoordinates,
-        dropoffCoordinates,
-        runnerId: null,
-        runnerName: null,
-        runnerImage: null,
-        acceptedAt: null,
-        completedAt: null,
-        paymentStatus: 'pending',
-        paymentReference: null,
+        stops,
+        currentStopId: pickup.id,
+        // First pickup and final dropoff, for screens that show a single route
+        pickupLocation: pickup.address,
+        dropoffLocation: dropoff.address,
+        pickupCoordinates: pickup.coordinates,
+        dropoffCoordinates: dropoff.coordinates,
         urgency: errandData.urgency,
         category: errandData.category,
         estimatedTime: errandData.estimatedTime || null,
       };
 
-      await db.collection('errands').add(errandDoc);
-      return true;
-    } catch (error) {
-      setSnackbarMessage('Failed to save errand. Please try again.');
+      // Scheduled errands become errand documents when the scheduler books each date
+      const recurrence = buildRecurrence();
+      if (recurrence) {
+        await createErrandSchedule(errandFields, recurrence);
+      } else {
+        // Priced on the server; the fees shown here are an estimate
+        await requestErrand(errandFields);
+      }
+      return errandData.stops.map((stop, index) => ({ ...stop, coordinates: stops[index].coordinates }));
+    } catch (error: any) {
+      setSnackbarMessage(error?.message || 'Failed to save errand. Please try again.');
       setSnackbarVisible(true);
-      return false;
+      return null;
     }
   };
 
+  // Changes only when an address changes, so editing instructions does not re-quote
+  const stopAddresses = formData.stops.map((stop) => stop.address.trim()).join('\n');
+
   // Add effect to calculate distance and price when locations change
   React.useEffect(() => {
-    const calculateDistanceAndPrice = async () => {
+    const updateQuote = async () => {
       setGeoError(null);
-      if (
-        formData.pickupLocation.trim() &&
-        formData.dropoffLocation.trim()
-      ) {
+      if (formData.stops.every((stop) => stop.address.trim())) {
         setCalculating(true);
         try {
-          // Use enhanced geocoding function
-          const [pickupCoords, dropoffCoords] = await Promise.all([
-            geocodeLocation(formData.pickupLocation),
-            geocodeLocation(formData.dropoffLocation),
-          ]);
+          // Use enhanced geocoding function for every stop
+          const coordinates = await Promise.all(formData.stops.map((stop) => geocodeLocation(stop.address)));
           
-          if (!pickupCoords || !dropoffCoords) {
-            let errorMessage = 'Could not find one or both locations. ';
-            if (!pickupCoords && !dropoffCoords) {
-              errorMessage += 'Please check both pickup and dropoff addresses. Try adding more specific details like street name, area, or landmark.';
-            } else if (!pickupCoords) {
-              errorMessage += 'Could not find pickup location. Please check the pickup address and try adding more specific details.';
-            } else {
-              errorMessage += 'Could not find dropoff location. Please check the dropoff address and try adding more specific details.';
-            }
-            setGeoError(errorMessage);
+          const missing = formData.stops
+            .map((_, index) => stopLabel(formData.stops, index))
+            .filter((_, index) => !coordinates[index]);
+          if (missing.length > 0) {
+            setGeoError(
+              `Could not find ${missing.join(', ')} location${missing.length > 1 ? 's' : ''}. ` +
+              'Please check the address and try adding more specific details like street name, area, or landmark.'
+            );
             setDistance(null);
+            setFeeBreakdown(null);
             setFormData((prev) => ({ ...prev, budget: '' }));
             setCalculating(false);
             return;
           }
+          const route = coordinates as LatLng[];
           
           // Validate coordinates are within Nigeria bounds
-          const isPickupValid = isWithinNigeria(pickupCoords.latitude, pickupCoords.longitude);
-          const isDropoffValid = isWithinNigeria(dropoffCoords.latitude, dropoffCoords.longitude);
-          
-          if (!isPickupValid || !isDropoffValid) {
+          if (!route.every((point) => isWithinNigeria(point.latitude, point.longitude))) {
             setGeoError('Locations must be within Bayelsa State. Please check the addresses.');
             setDistance(null);
+            setFeeBreakdown(null);
             setFormData((prev) => ({ ...prev, budget: '' }));
             setCalculating(false);
             return;
           }
           
-          // Calculate distance and price with enhanced validation
-          const dist = haversineDistance(
-            pickupCoords.latitude,
-            pickupCoords.longitude,
-            dropoffCoords.latitude,
-            dropoffCoords.longitude
+          // Price the full route with the platform fee rules for this errand type
+          const { distance: dist, price, isValid, fees } = calculateDistanceAndPrice(
+            route,
+            await getFeeRules(),
+            formData.category
           );
-          const price = Math.round(dist * 1000); // ₦1000 per km
-          const isValid = dist > 0 && dist <= 50; // Max 50km for errands
           
           // Validate reasonable distance (max 50km for errands)
           if (!isValid) {
             setGeoError('Distance is too far (max 50km). Please choose closer locations.');
             setDistance(null);
+            setFeeBreakdown(null);
             setFormData((prev) => ({ ...prev, budget: '' }));
             setCalculating(false);
             return;
           }
           
           setDistance(dist);
-          // Use calculated price from enhanced function
+          setFeeBreakdown(fees);
           setFormData((prev) => ({ ...prev, budget: price.toString() }));
         } catch (e) {
           setGeoError('Failed to calculate distance. Please check your internet connection and try again.');
           setDistance(null);
+          setFeeBreakdown(null);
           setFormData((prev) => ({ ...prev, budget: '' }));
         } finally {
           setCalculating(false);
         }
       } else {
         setDistance(null);
+        setFeeBreakdown(null);
         setFormData((prev) => ({ ...prev, budget: '' }));
       }
     };
     
     // Add debounce to avoid too many API calls
-    const timeoutId = setTimeout(calculateDistanceAndPrice, 1000);
+    const timeoutId = setTimeout(updateQuote, 1000);
     return () => clearTimeout(timeoutId);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [formData.pickupLocation, formData.dropoffLocation]);
+  }, [stopAddresses, formData.category]);
+
+  const inputTheme = {
+    roundness: 8,
+    colors: {
+      primary: theme.colors.primary,
+      placeholder: theme.colors.onSurfaceVariant,
+      text: theme.colors.onSurface,
+      background: theme.colors.surfaceVariant,
+    }
+  };
 
   return (<Portal>
       <Modal
@@ -506,51 +633,200 @@ const ErrandRequestModal: React.FC<ErrandRequestModalProps> = ({
                   ))}
                 </View>
 
-                {/* Pickup Location */}
-                <TextInput
-                  label="Pickup Location"
-                  value={formData.pickupLocation}
-                  onChangeText={(text) => handleFieldChange('pickupLocation', text)}
-                  mode="outlined"
-                  style={styles.input}
-                  error={!!errors?.pickupLocation}
-                  placeholder="e.g., Yenagoa Main Market or 123 Okutukutu, Yenagoa"
-                  outlineColor={theme.colors.outline}
-                  activeOutlineColor={theme.colors.primary}
-                  theme={{ 
-                    roundness: 8,
-                    colors: {
-                      primary: theme.colors.primary,
-                      placeholder: theme.colors.onSurfaceVariant,
-                      text: theme.colors.onSurface,
-                      background: theme.colors.surfaceVariant,
-                    }
-                  }}
-                  editable={!loading}
-                />
+                {/* When */}
+                <Text variant="titleMedium" style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+                  When
+                </Text>
+                <View style={styles.chipContainer}>
+                  {TIMING_OPTIONS.map((option) => (<Chip
+                      key={option.value}
+                      icon={option.icon}
+                      selected={timing === option.value}
+                      onPress={() => {
+                        setTiming(option.value);
+                        setErrors(prev => ({ ...prev, schedule: undefined }));
+                      }}
+                      style={[
+                        styles.chip,
+                        { 
+                          backgroundColor: timing === option.value 
+                            ? theme.colors.primary 
+                            : theme.colors.surfaceVariant,
+                          borderColor: theme.colors.outline
+                        }
+                      ]}
+                      textStyle={{
+                        color: timing === option.value 
+                          ? theme.colors.onPrimary 
+                          : theme.colors.onSurface
+                      }}
+                      disabled={loading}
+                    >
+                      {option.label}
+                    </Chip>
+                  ))}
+                </View>
+                {timing !== 'now' && (
+                  <View style={styles.scheduleSection}>
+                    <View style={styles.scheduleRow}>
+                      <TextInput
+                        label={timing === 'once' ? 'Date' : 'Starting'}
+                        value={scheduleForm.startDate}
+                        onChangeText={(text) => handleScheduleChange('startDate', text)}
+                        mode="outlined"
+                        style={[styles.input, styles.scheduleInput]}
+                        error={!!errors.schedule}
+                        placeholder="YYYY-MM-DD"
+                        outlineColor={theme.colors.outline}
+                        activeOutlineColor={theme.colors.primary}
+                        theme={inputTheme}
+                        editable={!loading}
+                      />
+                      <TextInput
+                        label="Time"
+                        value={scheduleForm.time}
+                        onChangeText={(text) => handleScheduleChange('time', text)}
+                        mode="outlined"
+                        style={[styles.input, styles.scheduleInput]}
+                        error={!!errors.schedule}
+                        placeholder="HH:MM"
+                        outlineColor={theme.colors.outline}
+                        activeOutlineColor={theme.colors.primary}
+                        theme={inputTheme}
+                        editable={!loading}
+                      />
+                    </View>
+                    {timing === 'weekly' && (
+                      <View style={styles.chipContainer}>
+                        {WEEKDAY_LABELS.map((label, day) => (<Chip
+                            key={label}
+                            selected={scheduleForm.daysOfWeek.includes(day)}
+                            onPress={() => toggleWeekday(day)}
+                            style={[
+                              styles.chip,
+                              {
+                                backgroundColor: scheduleForm.daysOfWeek.includes(day)
+                                  ? theme.colors.primary
+                                  : theme.colors.surfaceVariant,
+                                borderColor: theme.colors.outline
+                              }
+                            ]}
+                            textStyle={{
+                              color: scheduleForm.daysOfWeek.includes(day)
+                                ? theme.colors.onPrimary
+                                : theme.colors.onSurface
+                            }}
+                            disabled={loading}
+                          >
+                            {label}
+                          </Chip>
+                        ))}
+                      </View>
+                    )}
+                    {timing !== 'once' && (
+                      <TextInput
+                        label="Until (optional)"
+                        value={scheduleForm.endDate}
+                        onChangeText={(text) => handleScheduleChange('endDate', text)}
+                        mode="outlined"
+                        style={styles.input}
+                        placeholder="YYYY-MM-DD"
+                        outlineColor={theme.colors.outline}
+                        activeOutlineColor={theme.colors.primary}
+                        theme={inputTheme}
+                        editable={!loading}
+                      />
+                    )}
+                    {errors.schedule ? (
+                      <Text style={[styles.scheduleHint, { color: theme.colors.error }]}>{errors.schedule}</Text>
+                    ) : !validateRecurrence(buildRecurrence()) && (
+                      <Text style={[styles.scheduleHint, { color: theme.colors.onSurfaceVariant }]}>
+                        {describeRecurrence(buildRecurrence() as RecurrenceRule)}. A runner is found shortly before each time.
+                      </Text>
+                    )}
+                  </View>
+                )}
 
-                {/* Dropoff Location */}
-                <TextInput
-                  label="Dropoff Location"
-                  value={formData.dropoffLocation}
-                  onChangeText={(text) => handleFieldChange('dropoffLocation', text)}
-                  mode="outlined"
-                  style={styles.input}
-                  error={!!errors?.dropoffLocation}
-                  placeholder="e.g., 456 Kpansia, Yenagoa or Niger Delta University, Amassoma"
-                  outlineColor={theme.colors.outline}
-                  activeOutlineColor={theme.colors.primary}
-                  theme={{ 
-                    roundness: 8,
-                    colors: {
-                      primary: theme.colors.primary,
-                      placeholder: theme.colors.onSurfaceVariant,
-                      text: theme.colors.onSurface,
-                      background: theme.colors.surfaceVariant,
-                    }
-                  }}
-                  editable={!loading}
-                />
+                {/* Route */}
+                <Text variant="titleMedium" style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+                  Route
+                </Text>
+                {formData.stops.map((stop, index) => (
+                  <View
+                    key={index}
+                    style={[styles.stopCard, { borderColor: errors.stops?.[index] ? theme.colors.error : theme.colors.outline }]}
+                  >
+                    <View style={styles.stopHeader}>
+                      <MaterialCommunityIcons
+                        name={stop.type === 'dropoff' ? 'flag-checkered' : 'package-variant'}
+                        size={18}
+                        color={theme.colors.primary}
+                      />
+                      <Text variant="titleSmall" style={[styles.stopTitle, { color: theme.colors.onSurface }]}>
+                        {stopLabel(formData.stops, index)}
+                      </Text>
+                      {stop.type === 'pickup' && formData.stops.length > 2 && (
+                        <IconButton
+                          icon="close"
+                          size={18}
+                          onPress={() => handleRemoveStop(index)}
+                          iconColor={theme.colors.onSurfaceVariant}
+                          disabled={loading}
+                        />
+                      )}
+                    </View>
+                    <TextInput
+                      label={stop.type === 'dropoff' ? 'Dropoff Location' : 'Pickup Location'}
+                      value={stop.address}
+                      onChangeText={(text) => handleStopChange(index, 'address', text)}
+                      mode="outlined"
+                      style={styles.input}
+                      error={!!errors.stops?.[index]}
+                      placeholder={stop.type === 'dropoff'
+                        ? 'e.g., 456 Kpansia, Yenagoa or Niger Delta University, Amassoma'
+                        : 'e.g., Yenagoa Main Market or 123 Okutukutu, Yenagoa'}
+                      outlineColor={theme.colors.outline}
+                      activeOutlineColor={theme.colors.primary}
+                      theme={inputTheme}
+                      editable={!loading}
+                    />
+                    <TextInput
+                      label={stop.type === 'dropoff' ? 'Items to deliver (optional)' : 'Items to collect (optional)'}
+                      value={stop.items}
+                      onChangeText={(text) => handleStopChange(index, 'items', text)}
+                      mode="outlined"
+                      style={styles.input}
+                      placeholder="Separate items with commas"
+                      outlineColor={theme.colors.outline}
+                      activeOutlineColor={theme.colors.primary}
+                      theme={inputTheme}
+                      editable={!loading}
+                    />
+                    <TextInput
+                      label="Instructions (optional)"
+                      value={stop.instructions}
+                      onChangeText={(text) => handleStopChange(index, 'instructions', text)}
+                      mode="outlined"
+                      style={styles.stopLastInput}
+                      placeholder="e.g., Ask for Mama Ebi at stall 12"
+                      outlineColor={theme.colors.outline}
+                      activeOutlineColor={theme.colors.primary}
+                      theme={inputTheme}
+                      editable={!loading}
+                    />
+                  </View>
+                ))}
+                {formData.stops.length < MAX_ERRAND_STOPS && (
+                  <Button
+                    mode="text"
+                    icon="plus"
+                    onPress={handleAddStop}
+                    style={styles.addStopButton}
+                    disabled={loading}
+                  >
+                    Add Pickup Stop
+                  </Button>
+                )}
 
                 {/* Address Tips */}
                 <View style={styles.tipsContainer}>
@@ -581,6 +857,18 @@ const ErrandRequestModal: React.FC<ErrandRequestModalProps> = ({
                     </Text>
                   </View>
                 )}
+                {feeBreakdown && distance !== null && !calculating && !geoError && (
+                  <View style={styles.feeBreakdown}>
+                    {feeBreakdown.lines
+                      .filter((line) => line.payer === 'buyer')
+                      .map((line) => (
+                        <View key={line.code} style={styles.feeRow}>
+                          <Text style={{ color: theme.colors.onSurfaceVariant, fontSize: 12 }}>{line.label}</Text>
+                          <Text style={{ color: theme.colors.onSurface, fontSize: 12 }}>₦{line.amount.toLocaleString()}</Text>
+                        </View>
+                      ))}
+                  </View>
+                )}
                 {/* Budget (auto-filled, read-only) */}
                 <TextInput
                   label="Price"
@@ -640,7 +928,7 @@ const ErrandRequestModal: React.FC<ErrandRequestModalProps> = ({
                   loading={loading || isSubmitting}
                   labelStyle={{ color: theme.colors.onPrimary }}
                 >
-                  {loading || isSubmitting ? 'Sending...' : 'Request Errand'}
+                  {loading || isSubmitting ? 'Sending...' : timing === 'now' ? 'Request Errand' : 'Schedule Errand'}
                 </Button>
               </View>
             </ScrollView>
@@ -735,6 +1023,44 @@ const styles = StyleSheet.create({
   descriptionInput: {
     minHeight: 100,
   },
+  scheduleSection: {
+    marginBottom: 8,
+  },
+  scheduleRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  scheduleInput: {
+    flex: 1,
+  },
+  scheduleHint: {
+    fontSize: 12,
+    marginBottom: 16,
+  },
+  stopCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  stopHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 36,
+    marginBottom: 4,
+  },
+  stopTitle: {
+    flex: 1,
+    marginLeft: 8,
+    fontWeight: '600',
+  },
+  stopLastInput: {
+    marginBottom: 0,
+  },
+  addStopButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 16,
+  },
   chipContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -773,6 +1099,15 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 8,
   },
+  feeBreakdown: {
+    marginBottom: 12,
+    paddingHorizontal: 4,
+  },
+  feeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 2,
+  },
   distanceContainer: {
     flexDirection: 'row',
     alignItems: 'center',
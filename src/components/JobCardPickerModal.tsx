@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, ScrollView } from 'react-native';
+import { Modal, Portal, Text, List, ActivityIndicator } from 'react-native-paper';
+import { useTheme } from '../contexts/ThemeContext';
+import { ChatJobCard } from '../services/chatService';
+import { getShareableJobs } from '../services/chatAttachmentService';
+
+interface JobCardPickerModalProps {
+  visible: boolean;
+  userId: string;
+  otherUserId: string;
+  onSelect: (card: ChatJobCard) => void;
+  onDismiss: () => void;
+}
+
+const JobCardPickerModal: React.FC<JobCardPickerModalProps> = ({ visible, userId, otherUserId, onSelect, onDismiss }) => {
+  const { theme } = useTheme();
+  const [jobs, setJobs] = useState<ChatJobCard[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setLoading(true);
+    getShareableJobs(userId, otherUserId)
+      .then(setJobs)
+      .catch((error) => console.error('Error loading shareable jobs:', error))
+      .finally(() => setLoading(false));
+  }, [visible, userId, otherUserId]);
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={[styles.container, { backgroundColor: theme.colors.surface }]}
+      >
+        <Text variant="titleLarge" style={[styles.title, { color: theme.colors.onSurface }]}>Share an Order or Errand</Text>
+        {loading ? (
+          <ActivityIndicator style={styles.placeholder} />
+        ) : jobs.length === 0 ? (
+          <Text variant="bodyMedium" style={[styles.placeholder, { color: theme.colors.onSurfaceVariant }]}>
+            You have no orders or errands with this person yet.
+          </Text>
+        ) : (
+          <ScrollView style={styles.list}>
+            {jobs.map((job) => (
+              <List.Item
+                key={`${job.jobType}:${job.jobId}`}
+                title={job.title}
+                description={job.status.replace(/_/g, ' ')}
+                left={(props) => <List.Icon {...props} icon={job.jobType === 'order' ? 'package-variant' : 'run-fast'} />}
+                onPress={() => onSelect(job)}
+              />
+            ))}
+          </ScrollView>
+        )}
+      </Modal>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    margin: 16,
+    borderRadius: 12,
+    padding: 16,
+  },
+  title: {
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  placeholder: {
+    marginVertical: 32,
+    textAlign: 'center',
+  },
+  list: {
+    maxHeight: 400,
+  },
+});
+
+export default JobCardPickerModal;
@@ -1,15 +1,18 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, Animated } from 'react-native';
 import NetInfo from '@react-native-community/netinfo';
+import { handleConnectivityChange, subscribeToPendingUpdates } from '../services/offlineQueueService';
 
 const OfflineBanner = () => {
   const [isOffline, setIsOffline] = useState(false);
+  const [pendingUpdates, setPendingUpdates] = useState(0);
   const [slideAnim] = useState(new Animated.Value(-100)); // Start off-screen
 
   useEffect(() => {
     const unsubscribe = NetInfo.addEventListener(state => {
       const offline = !state.isConnected;
       setIsOffline(offline);
+      handleConnectivityChange(!offline);
 
       if (offline) {
         slideDown();
@@ -20,6 +23,8 @@ const OfflineBanner = () => {
     return () => unsubscribe();
   }, []);
 
+  useEffect(() => subscribeToPendingUpdates(setPendingUpdates), []);
+
   const slideDown = () => {
     Animated.timing(slideAnim, {
       toValue: 0,
@@ -39,6 +44,13 @@ const OfflineBanner = () => {
   return (
     <Animated.View style={[styles.banner, { transform: [{ translateY: slideAnim }], backgroundColor: isOffline ? '#b71c1c' : '#4CAF50' }]}>
       <Text style={styles.text}>{isOffline ? 'You are offline' : 'You are back online'}</Text>
+      {pendingUpdates > 0 && (
+        <Text style={styles.detail}>
+          {isOffline
+            ? `${pendingUpdates} update${pendingUpdates === 1 ? '' : 's'} will be sent when you reconnect`
+            : `Sending ${pendingUpdates} saved update${pendingUpdates === 1 ? '' : 's'}...`}
+        </Text>
+      )}
     </Animated.View>
   );
 };
@@ -58,6 +70,11 @@ const styles = StyleSheet.create({
     color: 'white',
     fontWeight: 'bold',
   },
+  detail: {
+    color: 'white',
+    fontSize: 12,
+    marginTop: 2,
+  },
 });
 
 export default OfflineBanner;
\ No newline at end of file
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, Image, Alert } from 'react-native';
+import { Modal, Portal, Text, TextInput, Button, Switch, HelperText } from 'react-native-paper';
+import * as ImagePicker from 'expo-image-picker';
+import { useTheme } from '../contexts/ThemeContext';
+import SignaturePad from './SignaturePad';
+import {
+  HANDOFF_CODE_LENGTH,
+  HandoffJobType,
+  SignatureData,
+  submitProofOfDelivery,
+} from '../services/proofOfDeliveryService';
+
+interface ProofOfDeliveryModalProps {
+  visible: boolean;
+  jobType: HandoffJobType;
+  jobId: string;
+  runnerId: string;
+  onDismiss: () => void;
+  onCompleted?: () => void;
+}
+
+const ProofOfDeliveryModal: React.FC<ProofOfDeliveryModalProps> = ({
+  visible, jobType, jobId, runnerId, onDismiss, onCompleted
+}) => {
+  const { theme } = useTheme();
+  const [code, setCode] = useState('');
+  const [noContact, setNoContact] = useState(false);
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [signature, setSignature] = useState<SignatureData | null>(null);
+  const [recipientName, setRecipientName] = useState('');
+  const [signing, setSigning] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start fresh each time the runner opens the handoff
+  useEffect(() => {
+    if (!visible) return;
+    setCode('');
+    setNoContact(false);
+    setPhotoUri(null);
+    setSignature(null);
+    setRecipientName('');
+    setError(null);
+  }, [visible]);
+
+  const handleTakePhoto = async () => {
+    try {
+      const { status } = await ImagePicker.requestCameraPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission Required', 'Please allow camera access to photograph the delivery.');
+        return;
+      }
+
+      const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        quality: 0.6,
+      });
+      if (!result.canceled && result.assets[0]) {
+        setPhotoUri(result.assets[0].uri);
+      }
+    } catch (e) {
+      console.error('Error taking delivery photo:', e);
+      Alert.alert('Error', 'Failed to take photo. Please try again.');
+    }
+  };
+
+  const canSubmit = noContact ? !!photoUri : code.length === HANDOFF_CODE_LENGTH;
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await submitProofOfDelivery(jobType, jobId, runnerId, {
+        code,
+        noContact,
+        photoUri,
+        signature: noContact ? null : signature,
+        recipientName: noContact ? undefined : recipientName.trim(),
+      });
+      onCompleted?.();
+      onDismiss();
+    } catch (e: any) {
+      setError(e.message || 'Failed to complete delivery. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={submitting ? undefined : onDismiss}
+        contentContainerStyle={[styles.container, { backgroundColor: theme.colors.surface }]}
+      >
+        <ScrollView scrollEnabled={!signing} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+          <Text variant="titleLarge" style={[styles.title, { color: theme.colors.onSurface }]}>
+            Proof of Delivery
+          </Text>
+
+          <View style={styles.switchRow}>
+            <View style={{ flex: 1 }}>
+              <Text variant="bodyLarge" style={{ color: theme.colors.onSurface }}>No-contact drop</Text>
+              <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                Nobody to hand over to? Leave it safely and take a photo.
+              </Text>
+            </View>
+            <Switch value={noContact} onValueChange={setNoContact} disabled={submitting} />
+          </View>
+
+          {!noContact && (
+            <>
+              <TextInput
+                mode="outlined"
+                label="Handoff code from the buyer"
+                value={code}
+                onChangeText={(text) => setCode(text.replace(/\D/g, '').slice(0, HANDOFF_CODE_LENGTH))}
+                keyboardType="number-pad"
+                maxLength={HANDOFF_CODE_LENGTH}
+                style={styles.input}
+                disabled={submitting}
+              />
+              <TextInput
+                mode="outlined"
+                label="Received by (optional)"
+                value={recipientName}
+                onChangeText={setRecipientName}
+                style={styles.input}
+                disabled={submitting}
+              />
+              <Text variant="labelLarge" style={[styles.label, { color: theme.colors.onSurface }]}>
+                Signature (optional)
+              </Text>
+              <SignaturePad onChange={setSignature} onSigningChange={setSigning} />
+            </>
+          )}
+
+          <Text variant="labelLarge" style={[styles.label, { color: theme.colors.onSurface }]}>
+            {noContact ? 'Photo of where you left it' : 'Photo (optional)'}
+          </Text>
+          {photoUri ? (
+            <Image source={{ uri: photoUri }} style={styles.photo} />
+          ) : null}
+          <Button mode="outlined" icon="camera" onPress={handleTakePhoto} disabled={submitting} style={styles.photoButton}>
+            {photoUri ? 'Retake Photo' : 'Take Photo'}
+          </Button>
+
+          {!!error && <HelperText type="error" visible>{error}</HelperText>}
+
+          <View style={styles.actions}>
+            <Button mode="text" onPress={onDismiss} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button mode="contained" onPress={handleSubmit} loading={submitting} disabled={!canSubmit || submitting}>
+              {jobType === 'order' ? 'Mark Delivered' : 'Complete Errand'}
+            </Button>
+          </View>
+        </ScrollView>
+      </Modal>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    margin: 20,
+    borderRadius: 12,
+    padding: 20,
+    maxHeight: '90%',
+  },
+  title: {
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  input: {
+    marginBottom: 12,
+  },
+  label: {
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  photo: {
+    width: '100%',
+    height: 180,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  photoButton: {
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+});
+
+export default ProofOfDeliveryModal;
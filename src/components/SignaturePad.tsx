@@ -0,0 +1,155 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { View, StyleSheet, PanResponder, LayoutChangeEvent } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import { useTheme } from '../contexts/ThemeContext';
+import { SignatureData } from '../services/proofOfDeliveryService';
+
+interface SignaturePadProps {
+  onChange: (signature: SignatureData | null) => void;
+  // Lets a parent ScrollView stop scrolling while the recipient signs
+  onSigningChange?: (signing: boolean) => void;
+  height?: number;
+}
+
+type Point = { x: number; y: number };
+
+const STROKE_WIDTH = 3;
+
+// Points closer than this are dropped to keep the stored path small
+const MIN_POINT_DISTANCE = 2;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const toPath = (strokes: Point[][]) => strokes
+  .filter((stroke) => stroke.length > 0)
+  .map((stroke) => stroke
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${round(point.x)} ${round(point.y)}`)
+    .join(' '))
+  .join(' ');
+
+// Draws with plain views (one rotated bar per segment), as the app has no SVG renderer
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, onSigningChange, height = 160 }) => {
+  const { theme } = useTheme();
+  const [strokes, setStrokes] = useState<Point[][]>([]);
+  const [width, setWidth] = useState(0);
+  const strokesRef = useRef<Point[][]>([]);
+  const sizeRef = useRef({ width: 0, height });
+
+  const publish = (next: Point[][]) => {
+    strokesRef.current = next;
+    setStrokes(next);
+  };
+
+  const panResponder = useMemo(() => PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onMoveShouldSetPanResponder: () => true,
+    onPanResponderTerminationRequest: () => false,
+    onPanResponderGrant: (event) => {
+      onSigningChange?.(true);
+      const { locationX, locationY } = event.nativeEvent;
+      publish([...strokesRef.current, [{ x: locationX, y: locationY }]]);
+    },
+    onPanResponderMove: (event) => {
+      const { locationX, locationY } = event.nativeEvent;
+      const current = strokesRef.current;
+      const stroke = current[current.length - 1];
+      if (!stroke) return;
+
+      const last = stroke[stroke.length - 1];
+      if (Math.hypot(locationX - last.x, locationY - last.y) < MIN_POINT_DISTANCE) return;
+      publish([...current.slice(0, -1), [...stroke, { x: locationX, y: locationY }]]);
+    },
+    onPanResponderRelease: () => {
+      onSigningChange?.(false);
+      const { width: padWidth, height: padHeight } = sizeRef.current;
+      onChange({ path: toPath(strokesRef.current), width: round(padWidth), height: padHeight });
+    },
+  }), [onChange, onSigningChange]);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    sizeRef.current = { width: event.nativeEvent.layout.width, height };
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const handleClear = () => {
+    publish([]);
+    onChange(null);
+  };
+
+  const segments = strokes.flatMap((stroke, strokeIndex) => {
+    if (stroke.length === 1) {
+      const [dot] = stroke;
+      return [{ key: `${strokeIndex}_dot`, left: dot.x - STROKE_WIDTH / 2, top: dot.y - STROKE_WIDTH / 2, length: STROKE_WIDTH, angle: 0 }];
+    }
+    return stroke.slice(1).map((point, index) => {
+      const from = stroke[index];
+      const length = Math.hypot(point.x - from.x, point.y - from.y);
+      return {
+        key: `${strokeIndex}_${index}`,
+        left: (from.x + point.x) / 2 - length / 2,
+        top: (from.y + point.y) / 2 - STROKE_WIDTH / 2,
+        length,
+        angle: Math.atan2(point.y - from.y, point.x - from.x),
+      };
+    });
+  });
+
+  return (
+    <View>
+      <View
+        style={[styles.pad, { height, borderColor: theme.colors.outline, backgroundColor: theme.colors.surface }]}
+        onLayout={handleLayout}
+        {...panResponder.panHandlers}
+      >
+        {strokes.length === 0 && width > 0 && (
+          <View pointerEvents="none" style={styles.placeholder}>
+            <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>Recipient signs here</Text>
+          </View>
+        )}
+        {segments.map((segment) => (
+          <View
+            key={segment.key}
+            pointerEvents="none"
+            style={[
+              styles.segment,
+              {
+                left: segment.left,
+                top: segment.top,
+                width: segment.length,
+                backgroundColor: theme.colors.onSurface,
+                transform: [{ rotate: `${segment.angle}rad` }],
+              },
+            ]}
+          />
+        ))}
+      </View>
+      <Button compact mode="text" onPress={handleClear} disabled={strokes.length === 0} style={styles.clear}>
+        Clear
+      </Button>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  pad: {
+    borderWidth: 1,
+    borderRadius: 8,
+    borderStyle: 'dashed',
+    overflow: 'hidden',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholder: {
+    position: 'absolute',
+  },
+  segment: {
+    position: 'absolute',
+    height: STROKE_WIDTH,
+    borderRadius: STROKE_WIDTH / 2,
+  },
+  clear: {
+    alignSelf: 'flex-end',
+  },
+});
+
+export default SignaturePad;
@@ -0,0 +1,175 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Modal, Portal, Text, Button, IconButton, ProgressBar, ActivityIndicator } from 'react-native-paper';
+import MapView, { Marker, Polyline, PROVIDER_DEFAULT } from 'react-native-maps';
+import { useTheme } from '../contexts/ThemeContext';
+import { BreadcrumbPoint, getTripBreadcrumbs } from '../services/breadcrumbService';
+
+interface TripReplayModalProps {
+  visible: boolean;
+  jobType: 'order' | 'errand';
+  jobId: string;
+  onDismiss: () => void;
+}
+
+// Playback steps through the recorded points, not real time
+const STEP_MS = 250;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const TripReplayModal: React.FC<TripReplayModalProps> = ({ visible, jobType, jobId, onDismiss }) => {
+  const { theme } = useTheme();
+  const [points, setPoints] = useState<BreadcrumbPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const mapRef = useRef<MapView>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setLoading(true);
+    setError(null);
+    setIndex(0);
+    setPlaying(false);
+    getTripBreadcrumbs(jobType, jobId)
+      .then(setPoints)
+      .catch((e) => {
+        console.error('Error loading trip breadcrumbs:', e);
+        setError('Failed to load the trip. Please try again.');
+      })
+      .finally(() => setLoading(false));
+  }, [visible, jobType, jobId]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => {
+      setIndex((current) => Math.min(current + 1, points.length - 1));
+    }, STEP_MS);
+    return () => clearInterval(timer);
+  }, [playing, points.length]);
+
+  // Stop at the end of the route
+  useEffect(() => {
+    if (playing && index >= points.length - 1) setPlaying(false);
+  }, [playing, index, points.length]);
+
+  const handleMapReady = () => {
+    if (points.length > 1) {
+      mapRef.current?.fitToCoordinates(points, {
+        edgePadding: { top: 40, right: 40, bottom: 40, left: 40 },
+        animated: false,
+      });
+    }
+  };
+
+  const handlePlay = () => {
+    if (index >= points.length - 1) setIndex(0);
+    setPlaying(!playing);
+  };
+
+  const current = points[index];
+  const first = points[0];
+  const elapsedMinutes = current && first ? Math.round((current.timestamp - first.timestamp) / 60000) : 0;
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={[styles.container, { backgroundColor: theme.colors.surface }]}
+      >
+        <View style={styles.header}>
+          <Text variant="titleLarge" style={[styles.title, { color: theme.colors.onSurface }]}>Trip Replay</Text>
+          <IconButton icon="close" onPress={onDismiss} iconColor={theme.colors.onSurfaceVariant} />
+        </View>
+
+        {loading ? (
+          <ActivityIndicator style={styles.placeholder} />
+        ) : error || points.length === 0 ? (
+          <Text variant="bodyMedium" style={[styles.placeholder, { color: theme.colors.onSurfaceVariant }]}>
+            {error || 'No route was recorded for this trip.'}
+          </Text>
+        ) : (
+          <>
+            <MapView
+              ref={mapRef}
+              provider={PROVIDER_DEFAULT}
+              style={styles.map}
+              initialRegion={{ ...points[0], latitudeDelta: 0.02, longitudeDelta: 0.02 }}
+              onMapReady={handleMapReady}
+            >
+              <Polyline coordinates={points} strokeColor={theme.colors.outline} strokeWidth={3} />
+              <Polyline coordinates={points.slice(0, index + 1)} strokeColor={theme.colors.primary} strokeWidth={4} />
+              <Marker coordinate={points[0]} title="Start" pinColor="green" />
+              <Marker coordinate={points[points.length - 1]} title="End" pinColor="red" />
+              {current && <Marker coordinate={current} title={formatTime(current.timestamp)} pinColor="orange" />}
+            </MapView>
+
+            <ProgressBar
+              progress={points.length > 1 ? index / (points.length - 1) : 1}
+              color={theme.colors.primary}
+              style={styles.progress}
+            />
+            <View style={styles.row}>
+              <Text variant="bodyMedium" style={{ color: theme.colors.onSurface, fontWeight: '600' }}>
+                {current ? formatTime(current.timestamp) : ''}
+              </Text>
+              <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                {elapsedMinutes} min into the trip · {first ? formatTime(first.timestamp) : ''} to {formatTime(points[points.length - 1].timestamp)}
+              </Text>
+            </View>
+            <View style={styles.controls}>
+              <Button mode="text" icon="restart" onPress={() => { setPlaying(false); setIndex(0); }}>
+                Restart
+              </Button>
+              <Button mode="contained" icon={playing ? 'pause' : 'play'} onPress={handlePlay}>
+                {playing ? 'Pause' : 'Play'}
+              </Button>
+            </View>
+          </>
+        )}
+      </Modal>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    margin: 16,
+    borderRadius: 12,
+    padding: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontWeight: '600',
+  },
+  placeholder: {
+    marginVertical: 32,
+    textAlign: 'center',
+  },
+  map: {
+    height: 320,
+    borderRadius: 8,
+  },
+  progress: {
+    height: 6,
+    borderRadius: 3,
+    marginTop: 12,
+  },
+  row: {
+    marginTop: 8,
+  },
+  controls: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+});
+
+export default TripReplayModal;
@@ -0,0 +1,295 @@
+// Platform commission and fee engine shared by checkout, errand quotes and
+// settlement. Mirrored in functions/src/feeRules.ts - keep the two in sync.
+// Amounts are in naira.
+
+export interface CommissionRule {
+  percentage: number; // of the amount being commissioned, e.g. 10 for 10%
+  flat: number;
+  minimum: number; // the platform never takes less than this per order/errand
+}
+
+export interface ErrandPricingRule {
+  baseFare: number;
+  pricePerKm: number;
+  minimumFare: number;
+  commission: CommissionRule;
+}
+
+export interface FeeRules {
+  version: number;
+  commission: {
+    default: CommissionRule;
+    // Percentage override per product category ID
+    categories: Record<string, number>;
+    // Overrides per seller tier (users.sellerTier); a category percentage still wins
+    sellerTiers: Record<string, Partial<CommissionRule>>;
+  };
+  errands: {
+    default: ErrandPricingRule;
+    // Overrides per errand type, keyed by the lower-cased category name
+    types: Record<string, Partial<Omit<ErrandPricingRule, 'commission'>> & { commission?: Partial<CommissionRule> }>;
+  };
+  // Charged to the buyer on top of the goods or fare
+  serviceFee: {
+    percentage: number;
+    flat: number;
+    minimum: number;
+    maximum: number; // 0 for no cap
+  };
+  // Paystack's processing fee, passed on to the buyer when enabled
+  paystack: {
+    passThrough: boolean;
+    percentage: number;
+    flat: number;
+    flatWaivedBelow: number;
+    cap: number;
+  };
+}
+
+export type FeePayer = 'buyer' | 'seller' | 'runner';
+
+export type FeeLineCode =
+  | 'subtotal'
+  | 'delivery_fee'
+  | 'errand_fare'
+  | 'service_fee'
+  | 'processing_fee'
+  | 'commission';
+
+export interface FeeLine {
+  code: FeeLineCode;
+  label: string;
+  amount: number;
+  payer: FeePayer;
+}
+
+export interface FeeBreakdown {
+  rulesVersion: number;
+  subtotal: number; // goods (orders) or fare (errands)
+  deliveryFee: number;
+  serviceFee: number;
+  processingFee: number;
+  total: number; // what the buyer pays
+  commission: number;
+  payeeAmount: number; // what the seller or runner earns on the subtotal
+  platformRevenue: number; // commission + service fee
+  lines: FeeLine[];
+}
+
+export const FEE_RULES_DOC = 'platformConfig/feeRules';
+
+export const DEFAULT_FEE_RULES: FeeRules = {
+  version: 1,
+  commission: {
+    default: { percentage: 10, flat: 0, minimum: 50 },
+    categories: {},
+    sellerTiers: {
+      premium: { percentage: 7 },
+    },
+  },
+  errands: {
+    default: {
+      baseFare: 0,
+      pricePerKm: 1000,
+      minimumFare: 500,
+      commission: { percentage: 15, flat: 0, minimum: 100 },
+    },
+    types: {},
+  },
+  serviceFee: { percentage: 2, flat: 0, minimum: 50, maximum: 1000 },
+  paystack: { passThrough: true, percentage: 1.5, flat: 100, flatWaivedBelow: 2500, cap: 2000 },
+};
+
+export const roundNaira = (amount: number) => Math.round(amount * 100) / 100;
+
+// Fill any gaps in stored rules with the defaults
+export const mergeFeeRules = (stored?: Partial<FeeRules> | null): FeeRules => {
+  if (!stored) return DEFAULT_FEE_RULES;
+  return {
+    version: stored.version ?? DEFAULT_FEE_RULES.version,
+    commission: {
+      default: { ...DEFAULT_FEE_RULES.commission.default, ...stored.commission?.default },
+      categories: stored.commission?.categories || {},
+      sellerTiers: stored.commission?.sellerTiers || DEFAULT_FEE_RULES.commission.sellerTiers,
+    },
+    errands: {
+      default: {
+        ...DEFAULT_FEE_RULES.errands.default,
+        ...stored.errands?.default,
+        commission: { ...DEFAULT_FEE_RULES.errands.default.commission, ...stored.errands?.default?.commission },
+      },
+      types: stored.errands?.types || {},
+    },
+    serviceFee: { ...DEFAULT_FEE_RULES.serviceFee, ...stored.serviceFee },
+    paystack: { ...DEFAULT_FEE_RULES.paystack, ...stored.paystack },
+  };
+};
+
+// Commission rule for a seller tier, before any category percentage is applied
+export const resolveSellerCommission = (rules: FeeRules, sellerTier?: string | null): CommissionRule => ({
+  ...rules.commission.default,
+  ...(sellerTier ? rules.commission.sellerTiers[sellerTier] : undefined),
+});
+
+export const resolveErrandRule = (rules: FeeRules, errandType?: string | null): ErrandPricingRule => {
+  const override = errandType ? rules.errands.types[errandType.trim().toLowerCase()] : undefined;
+  return {
+    ...rules.errands.default,
+    ...override,
+    commission: { ...rules.errands.default.commission, ...override?.commission },
+  };
+};
+
+// Percentage plus flat, raised to the minimum but never more than the amount
+const applyCommission = (amount: number, percentageAmount: number, rule: CommissionRule) => {
+  if (amount <= 0) return 0;
+  const commission = Math.max(percentageAmount + rule.flat, rule.minimum);
+  return roundNaira(Math.min(commission, amount));
+};
+
+export const calculateServiceFee = (rules: FeeRules, amount: number) => {
+  if (amount <= 0) return 0;
+  const { percentage, flat, minimum, maximum } = rules.serviceFee;
+  const fee = Math.max((amount * percentage) / 100 + flat, minimum);
+  return roundNaira(maximum > 0 ? Math.min(fee, maximum) : fee);
+};
+
+/**
+ * Paystack fee on a charge that must leave `amount` after fees. The charge is
+ * grossed up so the fee is covered, then the fee is capped.
+ */
+export const calculateProcessingFee = (rules: FeeRules, amount: number) => {
+  const { passThrough, percentage, flat, flatWaivedBelow, cap } = rules.paystack;
+  if (!passThrough || amount <= 0) return 0;
+
+  const rate = percentage / 100;
+  let charge = amount / (1 - rate);
+  if (charge >= flatWaivedBelow) {
+    charge = (amount + flat) / (1 - rate);
+  }
+  return roundNaira(Math.min(Math.ceil(charge - amount), cap));
+};
+
+const buildBreakdown = (
+  rules: FeeRules,
+  parts: { subtotal: number; deliveryFee: number; serviceFee: number; processingFee: number; commission: number },
+  subtotalLine: { code: FeeLineCode; label: string },
+  payee: FeePayer
+): FeeBreakdown => {
+  const total = roundNaira(parts.subtotal + parts.deliveryFee + parts.serviceFee + parts.processingFee);
+  const lines: FeeLine[] = [
+    { ...subtotalLine, amount: parts.subtotal, payer: 'buyer' },
+    { code: 'delivery_fee', label: 'Delivery fee', amount: parts.deliveryFee, payer: 'buyer' },
+    { code: 'service_fee', label: 'Service fee', amount: parts.serviceFee, payer: 'buyer' },
+    { code: 'processing_fee', label: 'Payment processing', amount: parts.processingFee, payer: 'buyer' },
+    { code: 'commission', label: 'Platform commission', amount: parts.commission, payer: payee },
+  ];
+
+  return {
+    rulesVersion: rules.version,
+    ...parts,
+    total,
+    payeeAmount: roundNaira(parts.subtotal - parts.commission),
+    platformRevenue: roundNaira(parts.commission + parts.serviceFee),
+    lines: lines.filter((line) => line.amount > 0 || line.code === subtotalLine.code),
+  };
+};
+
+export interface OrderFeeInput {
+  sellerTier?: string | null;
+  deliveryFee: number;
+  items: Array<{ categoryId?: string | null; lineTotal: number }>;
+}
+
+// Commission on one seller's order, before buyer-side fees
+export const calculateOrderCommission = (rules: FeeRules, input: OrderFeeInput) => {
+  const rule = resolveSellerCommission(rules, input.sellerTier);
+  const subtotal = roundNaira(input.items.reduce((sum, item) => sum + item.lineTotal, 0));
+  const percentageAmount = input.items.reduce((sum, item) => {
+    const categoryPercentage = item.categoryId ? rules.commission.categories[item.categoryId] : undefined;
+    return sum + (item.lineTotal * (categoryPercentage ?? rule.percentage)) / 100;
+  }, 0);
+  return { subtotal, commission: applyCommission(subtotal, percentageAmount, rule) };
+};
+
+/**
+ * Itemised fees for a checkout of one or more seller orders. The buyer pays
+ * one service fee and one Paystack charge, which are split across the orders
+ * in proportion to their value so every order carries its own breakdown.
+ */
+export const calculateCheckoutFees = (rules: FeeRules, orders: OrderFeeInput[]) => {
+  const priced = orders.map((order) => ({ ...calculateOrderCommission(rules, order), deliveryFee: order.deliveryFee }));
+  const subtotal = roundNaira(priced.reduce((sum, order) => sum + order.subtotal, 0));
+  const deliveryFee = roundNaira(priced.reduce((sum, order) => sum + order.deliveryFee, 0));
+  const serviceFee = calculateServiceFee(rules, subtotal);
+  const processingFee = calculateProcessingFee(rules, subtotal + deliveryFee + serviceFee);
+
+  const serviceShares = allocate(serviceFee, priced.map((order) => order.subtotal));
+  const processingShares = allocate(processingFee, priced.map((order) => order.subtotal + order.deliveryFee));
+
+  const orderBreakdowns = priced.map((order, index) => buildBreakdown(
+    rules,
+    {
+      subtotal: order.subtotal,
+      deliveryFee: order.deliveryFee,
+      serviceFee: serviceShares[index],
+      processingFee: processingShares[index],
+      commission: order.commission,
+    },
+    { code: 'subtotal', label: 'Subtotal' },
+    'seller'
+  ));
+
+  const checkout = buildBreakdown(
+    rules,
+    {
+      subtotal,
+      deliveryFee,
+      serviceFee,
+      processingFee,
+      commission: roundNaira(priced.reduce((sum, order) => sum + order.commission, 0)),
+    },
+    { code: 'subtotal', label: 'Subtotal' },
+    'seller'
+  );
+
+  return { checkout, orders: orderBreakdowns };
+};
+
+export interface ErrandFeeInput {
+  distanceKm: number;
+  errandType?: string | null;
+}
+
+// Runner commission on an errand fare
+export const calculateErrandCommission = (rules: FeeRules, fare: number, errandType?: string | null) => {
+  const { commission } = resolveErrandRule(rules, errandType);
+  return applyCommission(fare, (fare * commission.percentage) / 100, commission);
+};
+
+// Fare, buyer fees and runner commission for an errand quote
+export const calculateErrandFees = (rules: FeeRules, input: ErrandFeeInput): FeeBreakdown => {
+  const rule = resolveErrandRule(rules, input.errandType);
+  const fare = Math.round(Math.max(rule.baseFare + input.distanceKm * rule.pricePerKm, rule.minimumFare));
+  const commission = calculateErrandCommission(rules, fare, input.errandType);
+  const serviceFee = calculateServiceFee(rules, fare);
+  const processingFee = calculateProcessingFee(rules, fare + serviceFee);
+
+  return buildBreakdown(
+    rules,
+    { subtotal: fare, deliveryFee: 0, serviceFee, processingFee, commission },
+    { code: 'errand_fare', label: 'Errand fare' },
+    'runner'
+  );
+};
+
+// Split `amount` across `weights`, putting any rounding remainder on the last share
+export const allocate = (amount: number, weights: number[]): number[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (amount <= 0 || totalWeight <= 0) return weights.map(() => 0);
+
+  const shares = weights.map((weight) => roundNaira((amount * weight) / totalWeight));
+  const remainder = roundNaira(amount - shares.reduce((sum, share) => sum + share, 0));
+  shares[shares.length - 1] = roundNaira(shares[shares.length - 1] + remainder);
+  return shares;
+};
@@ -0,0 +1,165 @@
+// Order lifecycle state machine
+// Keep in sync with functions/src/orderLifecycle.ts - the Cloud Functions
+// package is built on its own and cannot import from the app bundle.
+
+export type OrderStatus =
+  | 'pending_payment'
+  | 'pending'
+  | 'confirmed'
+  | 'preparing'
+  | 'ready'
+  | 'available'
+  | 'assigned'
+  | 'picked_up'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'completed'
+  | 'cancelled';
+
+// 'system' covers Cloud Functions and admin actions
+export type OrderActor = 'buyer' | 'seller' | 'runner' | 'system';
+
+export const ORDER_STATUSES: readonly OrderStatus[] = [
+  'pending_payment',
+  'pending',
+  'confirmed',
+  'preparing',
+  'ready',
+  'available',
+  'assigned',
+  'picked_up',
+  'out_for_delivery',
+  'delivered',
+  'completed',
+  'cancelled',
+];
+
+// For every status, the statuses it may move to and who may perform the move
+export const ORDER_TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, OrderActor[]>>> = {
+  pending_payment: {
+    pending: ['system'],
+    confirmed: ['system'],
+    cancelled: ['buyer', 'system'],
+  },
+  pending: {
+    confirmed: ['seller', 'system'],
+    preparing: ['seller', 'system'],
+    cancelled: ['buyer', 'seller', 'system'],
+  },
+  confirmed: {
+    preparing: ['seller', 'system'],
+    ready: ['seller'],
+    available: ['seller'],
+    cancelled: ['buyer', 'seller', 'system'],
+  },
+  preparing: {
+    ready: ['seller'],
+    available: ['seller'],
+    cancelled: ['seller', 'system'],
+  },
+  ready: {
+    available: ['seller'],
+    assigned: ['seller', 'runner', 'system'],
+    completed: ['buyer', 'system'], // buyer confirms collecting a pickup order
+    cancelled: ['seller', 'system'],
+  },
+  available: {
+    assigned: ['buyer', 'seller', 'runner', 'system'],
+    cancelled: ['seller', 'system'],
+  },
+  assigned: {
+    available: ['runner', 'system'], // runner dropped the job
+    picked_up: ['runner'],
+    cancelled: ['system'],
+  },
+  picked_up: {
+    out_for_delivery: ['runner'],
+    delivered: ['runner'],
+  },
+  out_for_delivery: {
+    delivered: ['runner', 'system'],
+  },
+  delivered: {
+    completed: ['buyer', 'system'],
+  },
+  completed: {},
+  cancelled: {},
+};
+
+// Statuses written by older app versions
+const LEGACY_STATUS_MAP: Record<string, OrderStatus> = {
+  accepted: 'confirmed',
+  in_progress: 'preparing',
+  inprogress: 'preparing',
+  on_the_way: 'out_for_delivery',
+  ontheway: 'out_for_delivery',
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending_payment: 'Awaiting Payment',
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  preparing: 'Preparing',
+  ready: 'Ready',
+  available: 'Available',
+  assigned: 'Assigned to Runner',
+  picked_up: 'Picked Up',
+  out_for_delivery: 'Out for Delivery',
+  delivered: 'Delivered',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export class OrderTransitionError extends Error {
+  constructor(
+    public readonly from: string,
+    public readonly to: string,
+    public readonly actor?: OrderActor
+  ) {
+    super(
+      actor
+        ? `A ${actor} cannot move an order from '${from}' to '${to}'`
+        : `Orders cannot move from '${from}' to '${to}'`
+    );
+    this.name = 'OrderTransitionError';
+  }
+}
+
+export const isOrderStatus = (value: unknown): value is OrderStatus =>
+  typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value);
+
+// Map a stored status (including legacy values) onto the lifecycle
+export const normalizeOrderStatus = (value: unknown): OrderStatus | null => {
+  if (isOrderStatus(value)) return value;
+  if (typeof value === 'string' && LEGACY_STATUS_MAP[value]) return LEGACY_STATUS_MAP[value];
+  return null;
+};
+
+export const isTerminalOrderStatus = (status: OrderStatus): boolean =>
+  Object.keys(ORDER_TRANSITIONS[status]).length === 0;
+
+// Whether the move is allowed for the given actor, or for anyone when no actor is given
+export const canTransitionOrder = (from: unknown, to: unknown, actor?: OrderActor): boolean => {
+  const fromStatus = normalizeOrderStatus(from);
+  if (!fromStatus || !isOrderStatus(to)) return false;
+
+  const actors = ORDER_TRANSITIONS[fromStatus][to];
+  if (!actors) return false;
+  return actor ? actors.includes(actor) : true;
+};
+
+export const getAllowedOrderTransitions = (from: unknown, actor: OrderActor): OrderStatus[] => {
+  const fromStatus = normalizeOrderStatus(from);
+  if (!fromStatus) return [];
+
+  return (Object.entries(ORDER_TRANSITIONS[fromStatus]) as Array<[OrderStatus, OrderActor[]]>)
+    .filter(([, actors]) => actors.includes(actor))
+    .map(([status]) => status);
+};
+
+export const assertOrderTransition = (from: unknown, to: unknown, actor?: OrderActor): OrderStatus => {
+  if (!canTransitionOrder(from, to, actor)) {
+    throw new OrderTransitionError(String(from), String(to), actor);
+  }
+  return to as OrderStatus;
+};
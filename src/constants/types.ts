@@ -1,3 +1,5 @@
+import { OrderStatus } from './orderLifecycle';
+
 export type UserRole = 'buyer' | 'seller' | 'runner';
 
 export interface User {
@@ -27,7 +29,7 @@ export interface Order {
     productId: string;
     quantity: number;
   }>;
-  status: 'pending' | 'accepted' | 'in_progress' | 'delivered' | 'cancelled';
+  status: OrderStatus;
   totalAmount: number;
   createdAt: string;
 }
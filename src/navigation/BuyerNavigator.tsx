@@ -11,6 +11,7 @@ import { useTheme } from '../contexts/ThemeContext';
 import { useAuth } from '../contexts/AuthContext';
 import { Badge } from 'react-native-paper';
 import { db } from '../config/firebase';
+import { subscribeToUnreadChatCount } from '../services/chatService';
 
 const Tab = createBottomTabNavigator<BuyerTabParamList>();
 
@@ -25,20 +26,7 @@ const BuyerNavigator: React.FC<BuyerNavigatorProps> = ({ navigation }) => {
     if (!userId) return;
 
     // Listen for unread messages in chats
-    const unsubscribeMessages = db
-      .collection('chats')
-      .where('participants', 'array-contains', userId)
-      .onSnapshot(snapshot => {
-        let total = 0;
-        snapshot.forEach(doc => {
-          const chatData = doc.data();
-          // Only count messages not sent by the current user
-          if (chatData.unreadCount && chatData.lastMessage?.senderId !== userId) {
-            total += chatData.unreadCount || 0;
-          }
-        });
-        setUnreadCount(total);
-      });
+    const unsubscribeMessages = subscribeToUnreadChatCount(userId, setUnreadCount);
 
     // Listen for pending orders
     const unsubscribeOrders = db
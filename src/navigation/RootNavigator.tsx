@@ -21,6 +21,8 @@ import StoresScreen from '../screens/buyer/StoresScreen';
 import RunnersScreen from '../screens/buyer/RunnersScreen';
 import ProductDetailScreen from '../screens/buyer/ProductDetailScreen';
 import ReviewSubmissionScreen from '../screens/shared/ReviewSubmissionScreen';
+import DisputeScreen from '../screens/shared/DisputeScreen';
+import ScheduledErrandsScreen from '../screens/buyer/ScheduledErrandsScreen';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { View, Text, ActivityIndicator } from 'react-native';
@@ -162,6 +164,20 @@ const RootNavigator = () => {
                   headerShown: false,
                 }}
               />
+              <Stack.Screen
+                name="Dispute"
+                component={DisputeScreen}
+                options={{ 
+                  headerShown: false,
+                }}
+              />
+              <Stack.Screen
+                name="ScheduledErrands"
+                component={ScheduledErrandsScreen}
+                options={{ 
+                  headerShown: false,
+                }}
+              />
               <Stack.Screen
                 name="HelpCenter"
                 component={HelpCenterScreen}
@@ -290,6 +306,13 @@ const RootNavigator = () => {
                   headerShown: false,
                 }}
               />
+              <Stack.Screen
+                name="Dispute"
+                component={DisputeScreen}
+                options={{ 
+                  headerShown: false,
+                }}
+              />
               <Stack.Screen
                 name="HelpCenter"
                 component={HelpCenterScreen}
@@ -425,6 +448,13 @@ const RootNavigator = () => {
                   headerShown: false,
                 }}
               />
+              <Stack.Screen
+                name="Dispute"
+                component={DisputeScreen}
+                options={{ 
+                  headerShown: false,
+                }}
+              />
               <Stack.Screen
                 name="HelpCenter"
                 component={HelpCenterScreen}
@@ -11,6 +11,7 @@ import { useTheme } from '../contexts/ThemeContext';
 import { useAuth } from '../contexts/AuthContext';
 import { Badge } from 'react-native-paper';
 import { db } from '../config/firebase';
+import { subscribeToUnreadChatCount } from '../services/chatService';
 
 const Tab = createBottomTabNavigator<RunnerTabParamList>();
 
@@ -25,20 +26,7 @@ const RunnerNavigator: React.FC<RunnerNavigatorProps> = ({ navigation }) => {
     if (!userId) return;
 
     // Listen for unread messages in chats
-    const unsubscribeMessages = db
-      .collection('chats')
-      .where('participants', 'array-contains', userId)
-      .onSnapshot(snapshot => {
-        let total = 0;
-        snapshot.forEach(doc => {
-          const chatData = doc.data();
-          // Only count messages not sent by the current user
-          if (chatData.unreadCount && chatData.lastMessage?.senderId !== userId) {
-            total += chatData.unreadCount || 0;
-          }
-        });
-        setUnreadCount(total);
-      });
+    const unsubscribeMessages = subscribeToUnreadChatCount(userId, setUnreadCount);
 
     // Listen for new errands assigned to this runner
     const unsubscribeErrands = db
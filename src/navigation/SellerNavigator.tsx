@@ -10,6 +10,7 @@ import { useTheme } from '../contexts/ThemeContext';
 import { useAuth } from '../contexts/AuthContext';
 import { Badge } from 'react-native-paper';
 import { db } from '../config/firebase';
+import { subscribeToUnreadChatCount } from '../services/chatService';
 
 const Tab = createBottomTabNavigator<SellerTabParamList>();
 
@@ -24,20 +25,7 @@ const SellerNavigator: React.FC<SellerNavigatorProps> = ({ navigation }) => {
     if (!userId) return;
 
     // Listen for unread messages in chats
-    const unsubscribeMessages = db
-      .collection('chats')
-      .where('participants', 'array-contains', userId)
-      .onSnapshot(snapshot => {
-        let total = 0;
-        snapshot.forEach(doc => {
-          const chatData = doc.data();
-          // Only count messages not sent by the current user
-          if (chatData.unreadCount && chatData.lastMessage?.senderId !== userId) {
-            total += chatData.unreadCount || 0;
-          }
-        });
-        setUnreadCount(total);
-      });
+    const unsubscribeMessages = subscribeToUnreadChatCount(userId, setUnreadCount);
 
     // Listen for pending orders
     const unsubscribeOrders = db
@@ -55,6 +55,7 @@ export type SharedStackParamList = {
     chatName: string; 
     chatAvatar: string; 
     chatRole: 'seller' | 'runner';
+    otherUserId?: string;
   };
   OrderTracking: {
     jobType?: 'order' | 'errand';
@@ -66,11 +67,14 @@ export type SharedStackParamList = {
     totalAmount?: number;
   };
   Checkout: { 
-    productId: string; 
-    sellerId: string;
-    productName: string;
-    price: number;
+    productId?: string; 
+    sellerId?: string;
+    productName?: string;
+    price?: number;
     quantity?: number;
+    variantId?: string;
+    variantName?: string;
+    fromCart?: boolean;
   };
   SellerProfile: { 
     sellerId: string; 
@@ -87,6 +91,12 @@ export type SharedStackParamList = {
     targetImage?: string;
     existingRating?: any;
   };
+  Dispute: {
+    jobType: 'order' | 'errand';
+    jobId: string;
+    disputeId?: string;
+  };
+  ScheduledErrands: undefined;
   Stores: undefined;
   Runners: undefined;
   HelpCenter: undefined;
@@ -122,6 +132,7 @@ export type RootStackParamList = {
     chatName: string; 
     chatAvatar: string; 
     chatRole: 'seller' | 'runner';
+    otherUserId?: string;
   };
   OrderTracking: {
     jobType?: 'order' | 'errand';
@@ -139,11 +150,14 @@ export type RootStackParamList = {
     errandId?: string; 
   };
   Checkout: { 
-    productId: string; 
-    sellerId: string;
-    productName: string;
-    price: number;
+    productId?: string; 
+    sellerId?: string;
+    productName?: string;
+    price?: number;
     quantity?: number;
+    variantId?: string;
+    variantName?: string;
+    fromCart?: boolean;
   };
   SellerProfile: { 
     sellerId: string; 
@@ -174,6 +188,12 @@ export type RootStackParamList = {
     targetImage?: string;
     existingRating?: any;
   };
+  Dispute: {
+    jobType: 'order' | 'errand';
+    jobId: string;
+    disputeId?: string;
+  };
+  ScheduledErrands: undefined;
   HelpCenter: undefined;
   Feedback: undefined;
   SupportMessage: undefined;
@@ -190,13 +210,13 @@ export type RootStackParamList = {
 export type AuthNavigationProp = NativeStackNavigationProp<AuthStackParamList>;
 export type RootNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 export type BuyerNavigationProp = BottomTabNavigationProp<BuyerTabParamList> & {
-  navigate: (screen: keyof BuyerTabParamList | 'Chat' | 'OrderTracking' | 'Checkout' | 'SellerProfile' | 'RunnerProfile' | 'Stores' | 'Runners' | 'HelpCenter' | 'Feedback' | 'SupportMessage' | 'TermsOfService' | 'PrivacyPolicy' | 'DeactivateAccount' | 'ProductDetail' | 'ReviewSubmission' | 'NotificationTester', params?: any) => void;
+  navigate: (screen: keyof BuyerTabParamList | 'Chat' | 'OrderTracking' | 'Checkout' | 'SellerProfile' | 'RunnerProfile' | 'Stores' | 'Runners' | 'HelpCenter' | 'Feedback' | 'SupportMessage' | 'TermsOfService' | 'PrivacyPolicy' | 'DeactivateAccount' | 'ProductDetail' | 'ReviewSubmission' | 'Dispute' | 'ScheduledErrands' | 'NotificationTester', params?: any) => void;
 };
 export type SellerNavigationProp = BottomTabNavigationProp<SellerTabParamList> & {
-  navigate: (screen: keyof SellerTabParamList | 'Chat' | 'HelpCenter' | 'Feedback' | 'SupportMessage' | 'TermsOfService' | 'PrivacyPolicy' | 'DeactivateAccount' | 'ProductDetail' | 'Verification' | 'ReviewSubmission' | 'OrderTracking', params?: any) => void;
+  navigate: (screen: keyof SellerTabParamList | 'Chat' | 'HelpCenter' | 'Feedback' | 'SupportMessage' | 'TermsOfService' | 'PrivacyPolicy' | 'DeactivateAccount' | 'ProductDetail' | 'Verification' | 'ReviewSubmission' | 'Dispute' | 'OrderTracking', params?: any) => void;
 };
 export type RunnerNavigationProp = BottomTabNavigationProp<RunnerTabParamList> & {
-  navigate: (screen: keyof RunnerTabParamList | 'Chat' | 'HelpCenter' | 'Feedback' | 'SupportMessage' | 'TermsOfService' | 'PrivacyPolicy' | 'DeactivateAccount' | 'ProductDetail' | 'Verification' | 'ReviewSubmission' | 'RunnerTrackingScreen', params?: any) => void;
+  navigate: (screen: keyof RunnerTabParamList | 'Chat' | 'HelpCenter' | 'Feedback' | 'SupportMessage' | 'TermsOfService' | 'PrivacyPolicy' | 'DeactivateAccount' | 'ProductDetail' | 'Verification' | 'ReviewSubmission' | 'Dispute' | 'RunnerTrackingScreen', params?: any) => void;
 }; 
 
 // Navigator component prop types
@@ -37,15 +37,23 @@ import { getFunctions, httpsCallable } from 'firebase/functions';
 import * as Location from 'expo-location';
 import ErrorBoundary from '../../components/ErrorBoundary';
 
-import { getRunners } from '../../services/buyerServices';
+import { getNearbyRunners } from '../../services/buyerServices';
 import { sendOrderNotification } from '../../services/notificationService';
 import { getProfile } from '../../services/sellerServices';
+import {
+  CartItem,
+  clearCart,
+  getCartItemId,
+  getCartTotal,
+  splitCartBySeller,
+  subscribeToCart,
+  updateCartItemQuantity,
+} from '../../services/cartService';
 import Constants from 'expo-constants';
 import { PAYSTACK_PUBLIC_KEY } from '../../config/paystack';
 import Confetti from 'react-native-confetti';
 
-// Import enhanced distance calculation functions
-import { haversineDistance, isValidCoordinate } from '../../utils/distance';
+import { FeeBreakdown } from '../../constants/feeRules';
 
 // Configuration for runner selection
 const RUNNER_SELECTION_CONFIG = {
@@ -68,15 +76,31 @@ interface CheckoutScreenProps {
   navigation: RootNavigationProp;
   route: {
     params: {
-      productId: string;
-      sellerId: string;
-      productName: string;
-      price: number;
+      productId?: string;
+      sellerId?: string;
+      productName?: string;
+      price?: number;
       quantity?: number;
+      variantId?: string;
+      variantName?: string;
+      // Check out everything in the cart instead of a single product
+      fromCart?: boolean;
     };
   };
 }
 
+// Server-side price of the current checkout (see quoteCheckout in Cloud Functions)
+interface CheckoutQuote {
+  subtotal: number;
+  fees: {
+    delivery: number;
+    service: number;
+    processing: number;
+  };
+  breakdown: FeeBreakdown;
+  total: number;
+}
+
 interface PaymentMethod {
   id: string;
   type: 'card' | 'wallet' | 'bank';
@@ -99,7 +123,7 @@ const paymentMethods: PaymentMethod[] = [
 
 const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: CheckoutScreenProps) => {
   const { theme } = useTheme();
-  const { productId, sellerId, productName, price } = route.params;
+  const { productId = '', sellerId = '', productName = '', price = 0, fromCart = false } = route.params;
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<string>('1');
   const [quantity, setQuantity] = useState(route.params.quantity || 1);
   const [orderPlaced, setOrderPlaced] = useState(false);
@@ -112,6 +136,12 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: Ch
   const [selectedRunner, setSelectedRunner] = useState<any>(null);
   const [buyerLocation, setBuyerLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [orderId, setOrderId] = useState<string>('');
+  const [orderIds, setOrderIds] = useState<string[]>([]);
+  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  // Snapshot of what was ordered, so the summary survives clearing the cart
+  const [placedItems, setPlacedItems] = useState<CartItem[] | null>(null);
+  const [quote, setQuote] = useState<CheckoutQuote | null>(null);
+  const [quoting, setQuoting] = useState(false);
   const [deliveryOption, setDeliveryOption] = useState<'pickup' | 'delivery'>('delivery');
   const [sellerInfo, setSellerInfo] = useState<{name: string; avatar?: string; address?: string} | null>(null);
   const [loadingSeller, setLoadingSeller] = useState(false);
@@ -119,6 +149,30 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: Ch
   const confettiRef = useRef(null);
   const fadeAnim = useRef(new Animated.Value(0)).current;
 
+  useEffect(() => {
+    if (!fromCart) return;
+    return subscribeToCart(setCartItems);
+  }, [fromCart]);
+
+  // A single-product checkout is treated as a one-line cart
+  const lineItems: CartItem[] = placedItems || (fromCart ? cartItems : [{
+    id: getCartItemId(productId, route.params.variantId),
+    productId,
+    sellerId,
+    sellerName: sellerInfo?.name,
+    productName,
+    unitPrice: price,
+    quantity,
+    variant: route.params.variantId
+      ? { id: route.params.variantId, name: route.params.variantName || '', price }
+      : null,
+  }]);
+  const sellerGroups = splitCartBySeller(lineItems);
+  const orderTotal = getCartTotal(lineItems);
+  // Paystack is always charged the server's total, never the local estimate
+  const chargeTotal = quote?.total ?? orderTotal;
+  const checkoutKey = lineItems.map((item) => `${item.id}x${item.quantity}`).join(',');
+
   // Fetch seller information
   useEffect(() => {
     const fetchSellerInfo = async () => {
@@ -157,27 +211,14 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: Ch
         let location = await Location.getCurrentPositionAsync({});
         setBuyerLocation({ latitude: location.coords.latitude, longitude: location.coords.longitude });
         
-        // Fetch runners and filter by proximity and availability
-        const allRunners = await getRunners();
+        // Fetch runners within range (closest first) and filter by availability
+        const inRange = await getNearbyRunners(
+          { latitude: location.coords.latitude, longitude: location.coords.longitude },
+          RUNNER_SELECTION_CONFIG.maxDistance
+        );
         const currentTime = Date.now();
         
-        const nearbyRunners = allRunners.filter((runner: any) => {
-          // Validate runner coordinates
-          if (!isValidCoordinate(runner.latitude, runner.longitude)) {
-            return false;
-          }
-          
-          // Calculate accurate distance using enhanced Haversine formula
-          const distance = haversineDistance(
-            location.coords.latitude,
-            location.coords.longitude,
-            runner.latitude,
-            runner.longitude
-          );
-          
-          // Check if runner is within maximum distance
-          const isWithinDistance = distance <= RUNNER_SELECTION_CONFIG.maxDistance;
-          
+        const nearbyRunners = inRange.filter((runner: any) => {
           // Check if runner meets minimum rating requirement
           const meetsRating = (runner.rating || 0) >= RUNNER_SELECTION_CONFIG.minRating;
           
@@ -191,29 +232,15 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: Ch
           // Check if runner is not currently on a delivery
           const isNotOnDelivery = !runner.currentDeliveryId;
           
-          return isWithinDistance && meetsRating && isAvailable && isOnline && isNotOnDelivery;
+          return meetsRating && isAvailable && isOnline && isNotOnDelivery;
         });
         
-        // Sort runners by distance (closest first) and rating
+        // Already sorted by distance; prefer higher rating among runners at the same distance
         nearbyRunners.sort((a: any, b: any) => {
-          const distanceA = haversineDistance(
-            location.coords.latitude,
-            location.coords.longitude,
-            a.latitude,
-            a.longitude
-          );
-          const distanceB = haversineDistance(
-            location.coords.latitude,
-            location.coords.longitude,
-            b.latitude,
-            b.longitude
-          );
-          
-          // Primary sort by distance, secondary by rating
-          if (Math.abs(distanceA - distanceB) < 0.1) {
+          if (Math.abs(a.distanceKm - b.distanceKm) < 0.1) {
             return (b.rating || 0) - (a.rating || 0);
           }
-          return distanceA - distanceB;
+          return a.distanceKm - b.distanceKm;
         });
         
         setRunners(nearbyRunners);
@@ -247,12 +274,58 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: Ch
   const { user } = useAuth();
   const functions = getFunctions();
 
+  useEffect(() => {
+    // Keep the last quote on the success screen
+    if (orderPlaced) return;
+    if (lineItems.length === 0 || !lineItems[0].productId) {
+      setQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    setQuoting(true);
+    const quoteCheckout = httpsCallable(functions, 'quoteCheckout');
+    quoteCheckout({
+      items: lineItems.map((item) => ({
+        productId: item.productId,
+        variantId: item.variant?.id || null,
+        quantity: item.quantity,
+      })),
+      deliveryOption,
+    })
+      .then((result) => {
+        if (!cancelled) setQuote(result.data as CheckoutQuote);
+      })
+      .catch((error: any) => {
+        if (!cancelled) {
+          setQuote(null);
+          Alert.alert('Checkout Unavailable', error.message || 'Unable to price your order. Please try again.');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setQuoting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [checkoutKey, deliveryOption, orderPlaced]);
+
   const handlePlaceOrder = async () => {
     if (!user?.email) {
       Alert.alert('Missing Email', 'You must have a valid email to checkout.');
       return;
     }
+    if (lineItems.length === 0) {
+      Alert.alert('Empty Cart', 'Add some products before checking out.');
+      return;
+    }
     if (selectedPaymentMethod === 'paystack') {
+      if (!quote || quoting) {
+        Alert.alert('Please Wait', 'We are still confirming the latest prices for your order.');
+        return;
+      }
+
       // Check if Paystack key is properly configured
       if (!PAYSTACK_PUBLIC_KEY || PAYSTACK_PUBLIC_KEY === 'pk_live_your_production_paystack_public_key_here') {
         Alert.alert(
@@ -275,41 +348,28 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: Ch
     }
     setLoading(true);
     try {
-      // Only allow direct order creation for non-paystack methods
-      const orderRef = await db.collection('orders').add({
-        productId: route.params.productId,
-        sellerId: route.params.sellerId,
-        sellerName: sellerInfo?.name || 'Unknown Store',
-        productName: route.params.productName,
-        price: route.params.price,
-        quantity,
-        totalAmount: route.params.price * quantity,
-        buyerId: user?.uid,
-        buyerName: user?.displayName || 'Unknown Buyer',
-        buyerEmail: user?.email,
-        deliveryOption: deliveryOption,
-        status: 'confirmed',
-        statusHistory: [
-          {
-            status: 'confirmed',
-            timestamp: new Date().toISOString(),
-            description: 'Order received and is being prepared for ' + (deliveryOption === 'delivery' ? 'delivery' : 'pickup') + '.'
-          }
-        ],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      });
-      
-      // Update order with generated order number
-      const orderNumber = generateOrderNumber(orderRef.id);
-      await db.collection('orders').doc(orderRef.id).update({
-        orderNumber: orderNumber
+      // Pay on delivery: the server prices the orders and takes the stock, as for Paystack
+      const placeCashOrder = httpsCallable(functions, 'placeCashOrder');
+      const result = await placeCashOrder({
+        items: lineItems.map((item) => ({
+          productId: item.productId,
+          variantId: item.variant?.id || null,
+          quantity: item.quantity,
+        })),
+        deliveryOption,
       });
+      const createdIds = (result.data as { orderIds: string[] }).orderIds;
+
+      setPlacedItems(lineItems);
+      if (fromCart) {
+        await clearCart();
+      }
       
-      setOrderId(orderRef.id);
+      setOrderIds(createdIds);
+      setOrderId(createdIds[0]);
       setOrderPlaced(true);
-    } catch (error) {
-      Alert.alert('Order Error', 'Failed to place order. Please try again.');
+    } catch (error: any) {
+      Alert.alert('Order Error', error.message || 'Failed to place order. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -320,9 +380,9 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: Ch
       jobType: 'order',
       jobId: orderId,
       orderNumber: generateOrderNumber(orderId),
-      quantity: quantity,
-      productName: productName,
-      totalAmount: price * quantity,
+      quantity: sellerGroups[0]?.items.reduce((count, item) => count + item.quantity, 0),
+      productName: sellerGroups[0]?.items[0]?.productName,
+      totalAmount: sellerGroups[0]?.subtotal,
     });
   };
 
@@ -332,6 +392,12 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: Ch
     }
   };
 
+  const handleCartQuantityChange = (item: CartItem, newQuantity: number) => {
+    if (newQuantity <= 10) {
+      updateCartItemQuantity(item.id, newQuantity);
+    }
+  };
+
   const handleRunnerSelection = async () => {
     if (!selectedRunner) {
       Alert.alert('Select Runner', 'Please select a runner for delivery.');
@@ -398,45 +464,24 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: Ch
     if (!buyerLocation) return;
     
     try {
-      const allRunners = await getRunners();
+      const inRange = await getNearbyRunners(buyerLocation, RUNNER_SELECTION_CONFIG.maxDistance);
       const currentTime = Date.now();
       
-      const nearbyRunners = allRunners.filter((runner: any) => {
-        const distance = haversineDistance(
-          buyerLocation.latitude,
-          buyerLocation.longitude,
-          runner.latitude,
-          runner.longitude
-        );
-        
-        const isWithinDistance = distance <= RUNNER_SELECTION_CONFIG.maxDistance;
+      const nearbyRunners = inRange.filter((runner: any) => {
         const meetsRating = (runner.rating || 0) >= RUNNER_SELECTION_CONFIG.minRating;
         const lastSeen = runner.lastSeen ? new Date(runner.lastSeen).getTime() : 0;
         const isAvailable = (currentTime - lastSeen) <= RUNNER_SELECTION_CONFIG.availabilityTimeout;
         const isOnline = runner.isOnline === true;
         const isNotOnDelivery = !runner.currentDeliveryId;
         
-        return isWithinDistance && meetsRating && isAvailable && isOnline && isNotOnDelivery;
+        return meetsRating && isAvailable && isOnline && isNotOnDelivery;
       });
       
       nearbyRunners.sort((a: any, b: any) => {
-        const distanceA = haversineDistance(
-          buyerLocation.latitude,
-          buyerLocation.longitude,
-          a.latitude,
-          a.longitude
-        );
-        const distanceB = haversineDistance(
-          buyerLocation.latitude,
-          buyerLocation.longitude,
-          b.latitude,
-          b.longitude
-        );
-        
-        if (Math.abs(distanceA - distanceB) < 0.1) {
+        if (Math.abs(a.distanceKm - b.distanceKm) < 0.1) {
           return (b.rating || 0) - (a.rating || 0);
         }
-        return distanceA - distanceB;
+        return a.distanceKm - b.distanceKm;
       });
       
       setRunners(nearbyRunners);
@@ -474,98 +519,82 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: Ch
         );
         return;
       }
-      // Step 2: Process the successful payment and create order
+      // Step 2: The server re-prices the items, checks the paid amount and creates the orders
       const processPayment = httpsCallable(functions, 'processSuccessfulPayment');
-      const paymentData = {
-        reference: response.transactionRef.reference,
-        status: 'success',
-        amount: price * quantity,
-        currency: 'NGN',
-        userId: user?.uid,
-        userEmail: user?.email,
-        userName: user?.displayName,
-        paymentMethod: 'paystack',
-        paystackData: verificationData.data, // Store Paystack's response data
-      };
-      const orderData = {
-        productId: route.params.productId,
-        sellerId: route.params.sellerId,
-        sellerName: sellerInfo?.name || 'Unknown Store',
-        productName: route.params.productName,
-        price: route.params.price,
-        quantity,
-        totalAmount: route.params.price * quantity,
-        buyerId: user?.uid,
-        buyerEmail: user?.email,
-        buyerName: user?.displayName,
-        status: 'confirmed',
-        paymentReference: response.transactionRef.reference,
-        paymentStatus: 'completed',
-        paymentMethod: 'paystack',
-        deliveryOption: deliveryOption,
-        statusHistory: [
-          {
-            status: 'confirmed',
-            timestamp: new Date().toISOString(),
-            description: 'Order received and payment confirmed. Being prepared for ' + (deliveryOption === 'delivery' ? 'delivery' : 'pickup') + '.'
-          }
-        ],
-      };
       const processResult = await processPayment({
-        paymentData,
-        orderData
+        reference: response.transactionRef.reference,
+        items: lineItems.map((item) => ({
+          productId: item.productId,
+          variantId: item.variant?.id || null,
+          quantity: item.quantity,
+        })),
+        deliveryOption,
       });
       const processData = processResult.data as any;
       if (processData.success) {
-        setOrderId(processData.orderId);
+        const createdOrders: Array<{ orderId: string; sellerId: string; sellerName: string; productName: string; totalAmount: number }> =
+          processData.orders || [];
+        const createdIds: string[] = processData.orderIds || [processData.orderId];
+        setOrderIds(createdIds);
+        setOrderId(createdIds[0]);
         setOrderPlaced(true);
+
+        setPlacedItems(lineItems);
+        if (fromCart) {
+          await clearCart();
+        }
         
-        // Send notification to seller about new order
+        // Notify each seller about their part of the checkout
         try {
-          await sendOrderNotification(
-            route.params.sellerId, // Seller's user ID
-            user?.uid || '', // Buyer's user ID
-            processData.orderId, // Order ID
-            route.params.productName, // Product name
-            price * quantity, // Amount
-            user?.displayName || 'a customer' // Buyer name
-          );
-          
-          // Save in-app notification for seller
-          await db.collection('users').doc(route.params.sellerId)
-            .collection('notifications').add({
-              title: 'New Order Received',
-              message: `New order for ${route.params.productName} from ${user?.displayName || 'a customer'}`,
-              type: 'order',
-              isRead: false,
-              createdAt: new Date().toISOString(),
-              orderId: processData.orderId,
-              buyerId: user?.uid,
-              buyerName: user?.displayName,
-            });
-          
-          // Send notification to buyer about order confirmation
-          await sendOrderNotification(
-            user?.uid || '', // Buyer's user ID
-            route.params.sellerId, // Seller's user ID
-            processData.orderId, // Order ID
-            route.params.productName, // Product name
-            price * quantity, // Amount
-            sellerInfo?.name || 'Store' // Seller name
-          );
-          
-          // Save in-app notification for buyer
-          await db.collection('users').doc(user?.uid || '')
-            .collection('notifications').add({
-              title: 'Order Confirmed',
-              message: `Your order for ${route.params.productName} has been confirmed and is being prepared.`,
-              type: 'order',
-              isRead: false,
-              createdAt: new Date().toISOString(),
-              orderId: processData.orderId,
-              sellerId: route.params.sellerId,
-              productName: route.params.productName,
-            });
+          for (const group of createdOrders) {
+            const groupOrderId = group.orderId;
+            const groupProductName = group.productName;
+
+            await sendOrderNotification(
+              group.sellerId, // Seller's user ID
+              user?.uid || '', // Buyer's user ID
+              groupOrderId, // Order ID
+              groupProductName, // Product name
+              group.totalAmount, // Amount
+              user?.displayName || 'a customer' // Buyer name
+            );
+            
+            // Save in-app notification for seller
+            await db.collection('users').doc(group.sellerId)
+              .collection('notifications').add({
+                title: 'New Order Received',
+                message: `New order for ${groupProductName} from ${user?.displayName || 'a customer'}`,
+                type: 'order',
+                isRead: false,
+                createdAt: new Date().toISOString(),
+                orderId: groupOrderId,
+                buyerId: user?.uid,
+                buyerName: user?.displayName,
+              });
+            
+            // Send notification to buyer about order confirmation
+            await sendOrderNotification(
+              user?.uid || '', // Buyer's user ID
+              group.sellerId, // Seller's user ID
+              groupOrderId, // Order ID
+              groupProductName, // Product name
+              group.totalAmount, // Amount
+              group.sellerName // Seller name
+            );
+            
+            // Save in-app notification for buyer
+            await db.collection('users').doc(user?.uid || '')
+              .collection('notifications').add({
+                title: 'Order Confirmed',
+                message: `Your order for ${groupProductName} has been confirmed and is being prepared.`,
+                type: 'order',
+                isRead: false,
+                createdAt: new Date().toISOString(),
+                orderId: groupOrderId,
+                sellerId: group.sellerId,
+                productName: groupProductName,
+              });
+          }
             
         } catch (notificationError) {
           // Don't fail the order if notification fails
@@ -628,50 +657,119 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: Ch
               Order Summary
             </Text>
             
-            <View style={styles.productRow}>
-              <View style={styles.productInfo}>
-                <Text variant="bodyLarge" style={[styles.productName, { color: theme.colors.onSurface }]}>
-                  {productName}
-                </Text>
+            {fromCart ? sellerGroups.map((group) => (
+              <View key={group.sellerId}>
                 <Text variant="bodyMedium" style={[styles.sellerName, { color: theme.colors.onSurfaceVariant }]}>
-                  {loadingSeller ? 'Loading seller...' : (sellerInfo?.name || 'Unknown Store')}
-                </Text>
-                <Text variant="bodyMedium" style={[styles.unitPrice, { color: theme.colors.onSurfaceVariant }]}>
-                  ₦{price.toLocaleString()} each
+                  {group.sellerName}
                 </Text>
+                {group.items.map((item) => (
+                  <View key={item.id} style={styles.productRow}>
+                    <View style={styles.productInfo}>
+                      <Text variant="bodyLarge" style={[styles.productName, { color: theme.colors.onSurface }]}>
+                        {item.productName}
+                      </Text>
+                      {item.variant?.name ? (
+                        <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                          {item.variant.name}
+                        </Text>
+                      ) : null}
+                      <Text variant="bodyMedium" style={[styles.unitPrice, { color: theme.colors.onSurfaceVariant }]}>
+                        ₦{item.unitPrice.toLocaleString()} each
+                      </Text>
+                    </View>
+
+                    <View style={styles.quantityContainer}>
+                      <TouchableOpacity
+                        onPress={() => handleCartQuantityChange(item, item.quantity - 1)}
+                        style={[styles.quantityButton, { borderColor: theme.colors.outline }]}
+                      >
+                        <MaterialIcons name={item.quantity > 1 ? 'remove' : 'delete-outline'} size={20} color={theme.colors.onSurface} />
+                      </TouchableOpacity>
+
+                      <Text variant="bodyLarge" style={[styles.quantityText, { color: theme.colors.onSurface }]}>
+                        {item.quantity}
+                      </Text>
+
+                      <TouchableOpacity
+                        onPress={() => handleCartQuantityChange(item, item.quantity + 1)}
+                        style={[styles.quantityButton, { borderColor: theme.colors.outline }]}
+                      >
+                        <MaterialIcons name="add" size={20} color={theme.colors.onSurface} />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                ))}
               </View>
+            )) : (
+              <View style={styles.productRow}>
+                <View style={styles.productInfo}>
+                  <Text variant="bodyLarge" style={[styles.productName, { color: theme.colors.onSurface }]}>
+                    {productName}
+                  </Text>
+                  <Text variant="bodyMedium" style={[styles.sellerName, { color: theme.colors.onSurfaceVariant }]}>
+                    {loadingSeller ? 'Loading seller...' : (sellerInfo?.name || 'Unknown Store')}
+                  </Text>
+                  <Text variant="bodyMedium" style={[styles.unitPrice, { color: theme.colors.onSurfaceVariant }]}>
+                    ₦{price.toLocaleString()} each
+                  </Text>
+                </View>
             
-            <View style={styles.quantityContainer}>
-                <TouchableOpacity
-                  onPress={() => handleQuantityChange(quantity - 1)}
-                  style={[styles.quantityButton, { borderColor: theme.colors.outline }]}
-                >
-                  <MaterialIcons name="remove" size={20} color={theme.colors.onSurface} />
-                </TouchableOpacity>
+              <View style={styles.quantityContainer}>
+                  <TouchableOpacity
+                    onPress={() => handleQuantityChange(quantity - 1)}
+                    style={[styles.quantityButton, { borderColor: theme.colors.outline }]}
+                  >
+                    <MaterialIcons name="remove" size={20} color={theme.colors.onSurface} />
+                  </TouchableOpacity>
                 
-                <Text variant="bodyLarge" style={[styles.quantityText, { color: theme.colors.onSurface }]}>
-                  {quantity}
-                </Text>
+                  <Text variant="bodyLarge" style={[styles.quantityText, { color: theme.colors.onSurface }]}>
+                    {quantity}
+                  </Text>
                 
-                <TouchableOpacity
-                  onPress={() => handleQuantityChange(quantity + 1)}
-                  style={[styles.quantityButton, { borderColor: theme.colors.outline }]}
-                >
-                  <MaterialIcons name="add" size={20} color={theme.colors.onSurface} />
-                </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleQuantityChange(quantity + 1)}
+                    style={[styles.quantityButton, { borderColor: theme.colors.outline }]}
+                  >
+                    <MaterialIcons name="add" size={20} color={theme.colors.onSurface} />
+                  </TouchableOpacity>
+                </View>
               </View>
-            </View>
             
+            )}
+
             <Divider style={[styles.divider, { backgroundColor: theme.colors.outline }]} />
             
+            {/* Buyer-side fees, itemised by the server quote */}
+            {quote?.breakdown.lines
+              .filter((line) => line.payer === 'buyer' && line.code !== 'subtotal')
+              .map((line) => (
+                <View key={line.code} style={styles.priceRow}>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                    {line.label}
+                  </Text>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurface }}>
+                    ₦{line.amount.toLocaleString()}
+                  </Text>
+                </View>
+              ))}
+
             <View style={styles.priceRow}>
               <Text variant="titleMedium" style={[styles.totalLabel, { color: theme.colors.onSurface }]}>
                 Total
               </Text>
-              <Text variant="titleMedium" style={[styles.totalValue, { color: theme.colors.primary }]}>
-                ₦{(price * quantity).toLocaleString()}
-              </Text>
+              {quoting ? (
+                <ActivityIndicator size="small" color={theme.colors.primary} />
+              ) : (
+                <Text variant="titleMedium" style={[styles.totalValue, { color: theme.colors.primary }]}>
+                  ₦{chargeTotal.toLocaleString()}
+                </Text>
+              )}
             </View>
+            {sellerGroups.length > 1 && (
+              <HelperText type="info" visible>
+                Your items come from {sellerGroups.length} stores, so they will arrive as {sellerGroups.length} separate orders paid in one payment.
+              </HelperText>
+            )}
           </View>
 
           {/* Payment Methods */}
@@ -775,14 +873,18 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: Ch
           </Text>
           
           <Text variant="bodyLarge" style={[styles.successMessage, { color: theme.colors.onSurfaceVariant }]}>
-            Your order has been placed successfully. Your order number is:
+            {orderIds.length > 1
+              ? 'Your orders have been placed successfully. Your order numbers are:'
+              : 'Your order has been placed successfully. Your order number is:'}
           </Text>
           
-          <View style={[styles.orderNumberContainer, { backgroundColor: theme.colors.primary + '15' }]}>
-            <Text variant="titleMedium" style={[styles.orderNumber, { color: theme.colors.primary }]}>
-              {generateOrderNumber(orderId)}
-            </Text>
-          </View>
+          {(orderIds.length > 0 ? orderIds : [orderId]).map((id) => (
+            <View key={id} style={[styles.orderNumberContainer, { backgroundColor: theme.colors.primary + '15' }]}>
+              <Text variant="titleMedium" style={[styles.orderNumber, { color: theme.colors.primary }]}>
+                {generateOrderNumber(id)}
+              </Text>
+            </View>
+          ))}
 
           {/* Order Summary Card */}
           <View style={[styles.orderSummaryCard, { backgroundColor: theme.colors.surface }]}>
@@ -795,32 +897,46 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: Ch
             
             <View style={styles.orderSummaryDivider} />
             
-            <View style={styles.orderSummaryRow}>
-              <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
-                Product:
-              </Text>
-              <Text variant="bodyMedium" style={{ color: theme.colors.onSurface, textAlign: 'right', flex: 1 }}>
-                {productName}
-              </Text>
-            </View>
+            {fromCart ? lineItems.map((item) => (
+              <View key={item.id} style={styles.orderSummaryRow}>
+                <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant, flex: 1 }}>
+                  {item.quantity} × {item.productName}{item.variant?.name ? ` (${item.variant.name})` : ''}
+                </Text>
+                <Text variant="bodyMedium" style={{ color: theme.colors.onSurface }}>
+                  ₦{(item.unitPrice * item.quantity).toLocaleString()}
+                </Text>
+              </View>
+            )) : (
+              <>
+                <View style={styles.orderSummaryRow}>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                    Product:
+                  </Text>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurface, textAlign: 'right', flex: 1 }}>
+                    {productName}
+                  </Text>
+                </View>
             
-            <View style={styles.orderSummaryRow}>
-              <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
-                Quantity:
-              </Text>
-              <Text variant="bodyMedium" style={{ color: theme.colors.onSurface }}>
-                {quantity}
-              </Text>
-            </View>
+                <View style={styles.orderSummaryRow}>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                    Quantity:
+                  </Text>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurface }}>
+                    {quantity}
+                  </Text>
+                </View>
             
-            <View style={styles.orderSummaryRow}>
-              <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
-                Unit Price:
-              </Text>
-              <Text variant="bodyMedium" style={{ color: theme.colors.onSurface }}>
-                ₦{price.toLocaleString()}
-              </Text>
-            </View>
+                <View style={styles.orderSummaryRow}>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                    Unit Price:
+                  </Text>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurface }}>
+                    ₦{price.toLocaleString()}
+                  </Text>
+                </View>
+            
+              </>
+            )}
             
             <View style={[styles.orderSummaryDivider, { marginVertical: 12 }]} />
             
@@ -829,7 +945,7 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: Ch
                 Total:
               </Text>
               <Text variant="titleMedium" style={[styles.totalValue, { color: theme.colors.primary }]}>
-                ₦{(price * quantity).toLocaleString()}
+                ₦{chargeTotal.toLocaleString()}
               </Text>
             </View>
             
@@ -959,7 +1075,7 @@ const CheckoutScreen: React.FC<CheckoutScreenProps> = ({ navigation, route }: Ch
                       buttonText="Pay Now"
                       showPayButton={true}
                       paystackKey={PAYSTACK_PUBLIC_KEY}
-                      amount={price * quantity}
+                      amount={chargeTotal}
                       billingEmail={user?.email || 'customer@example.com'}
                       billingName={user?.displayName || 'Customer'}
                       billingMobile=""
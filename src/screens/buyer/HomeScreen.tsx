@@ -22,6 +22,7 @@ import {
 import RealTimeMap from '../../components/RealTimeMap';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { COLORS } from '../../constants/colors';
+import { FeeBreakdown } from '../../constants/feeRules';
 import { useTheme } from '../../contexts/ThemeContext';
 import { BuyerNavigationProp } from '../../navigation/types';
 import NotificationDrawer from '../../components/NotificationDrawer';
@@ -30,13 +31,23 @@ import ErrandRequestModal from '../../components/ErrandRequestModal';
 import { PAYSTACK_PUBLIC_KEY } from '../../config/paystack';
 import ReviewPromptModal from '../../components/ReviewPromptModal';
 import * as Animatable from 'react-native-animatable';
-import { getStores, getRunners, getNotifications, getProducts } from '../../services/buyerServices';
+import {
+  BROWSE_RADIUS_KM,
+  ErrandQuote,
+  getStores,
+  getNotifications,
+  getProducts,
+  quoteErrand,
+  requestErrand,
+} from '../../services/buyerServices';
+import { subscribeWithinRadius } from '../../services/geoQueryService';
 import { useAuth } from '../../contexts/AuthContext';
 import { db } from '../../config/firebase'; // adjust path as needed
 import { sendPushNotification } from '../../services/notificationService'; // adjust path if needed
+import { getErrandRoute, getErrandStops } from '../../services/errandStopsService';
 import { useNotification } from '../../contexts/NotificationContext';
 import { DocumentReference } from 'firebase/firestore';
-import { haversineDistance, formatDistance, calculateAndFormatDistance, isValidCoordinate, calculateDistanceAndPrice } from '../../utils/distance';
+import { haversineDistance, formatDistance, calculateAndFormatDistance, isValidCoordinate } from '../../utils/distance';
 import { addSampleData, checkDataExists } from '../../utils/sampleData';
 // @ts-ignore
 import PaystackWebView from 'react-native-paystack-webview';
@@ -89,7 +100,8 @@ interface FullErrandData {
   title?: string;
   location?: string;
   distance?: string;
-  fee?: number;
+  fee?: number; // fare the runner is paid before commission
+  fees?: FeeBreakdown;
   pickupLatitude?: number;
   pickupLongitude?: number;
   dropoffLatitude?: number;
@@ -299,7 +311,8 @@ const BuyerHomeScreen: React.FC<{ navigation: BuyerNavigationProp }> = ({ naviga
 
         // Fetch stores and products in parallel
         const [storesData, productsData] = await Promise.allSettled([
-          getStores(),
+          // Until the buyer's location arrives and the nearby listener takes over
+          getStores(null),
           getProducts()
         ]);
 
@@ -354,109 +367,71 @@ const BuyerHomeScreen: React.FC<{ navigation: BuyerNavigationProp }> = ({ naviga
     checkPendingReviews();
   }, [user?.uid]);
 
-  // Real-time location tracking for stores and runners
+  // Real-time location tracking for the stores and runners around the buyer
   useEffect(() => {
-    if (!user?.uid) return;
+    if (!user?.uid || !userLocation) return;
+
+    // Listen for real-time updates from nearby sellers (stores)
+    const sellersListener = subscribeWithinRadius(
+      db.collection('users').where('role', '==', 'seller'),
+      userLocation,
+      BROWSE_RADIUS_KM,
+      (results) => {
+        const updatedStores = results.map(({ id, data, location }) => ({
+          id,
+          name: data.name || data.displayName || data.businessName || 'Unknown Store',
+          image: data.image || data.photoURL || data.avatar || 'https://i.imgur.com/T3zF9bJ.png',
+          rating: data.rating || 4.0,
+          distance: calculateDistance(location.latitude, location.longitude),
+          type: data.type || data.businessType || 'convenience',
+          latitude: location.latitude,
+          longitude: location.longitude,
+          isOnline: data.isOnline || false,
+          lastSeen: data.lastSeen,
+        }));
 
-    // Listen for real-time updates from sellers (stores)
-    const sellersListener = db.collection('users')
-      .where('role', '==', 'seller')
-      .onSnapshot((snapshot) => {
-        console.log('Sellers snapshot received:', snapshot.docs.length, 'documents');
-        
-        const updatedStores = snapshot.docs.map((doc: any) => {
-          const data = doc.data();
-          console.log('Seller data:', doc.id, data);
-          
-          // Use actual location data from Firestore, no default coordinates
-          const latitude = data.currentLocation?.latitude || data.latitude;
-          const longitude = data.currentLocation?.longitude || data.longitude;
-          
-          console.log('Seller coordinates:', { latitude, longitude });
-          
-          // Only include stores with valid coordinates
-          if (!latitude || !longitude || !isValidCoordinate(latitude, longitude)) {
-            console.log('Invalid coordinates for seller:', doc.id);
-            return null;
-          }
-          
-          const store = {
-            id: doc.id,
-            name: data.name || data.displayName || data.businessName || 'Unknown Store',
-            image: data.image || data.photoURL || data.avatar || 'https://i.imgur.com/T3zF9bJ.png',
-            rating: data.rating || 4.0,
-            distance: calculateDistance(latitude, longitude),
-            type: data.type || data.businessType || 'convenience',
-            latitude,
-            longitude,
-            isOnline: data.isOnline || false,
-            lastSeen: data.lastSeen,
-          };
-          
-          console.log('Processed store:', store);
-          return store;
-        }).filter(store => store !== null); // Remove stores without valid coordinates
-        
-        console.log('Final stores array:', updatedStores.length, 'stores');
         setStores(updatedStores);
-      }, (error) => {
+      },
+      (error) => {
         console.error('Error listening to sellers:', error);
-      });
+      }
+    );
+
+    // Listen for real-time updates from nearby runners
+    const runnersListener = subscribeWithinRadius(
+      db.collection('users').where('role', '==', 'runner'),
+      userLocation,
+      BROWSE_RADIUS_KM,
+      (results) => {
+        const updatedRunners = results.map(({ id, data, location }) => ({
+          id,
+          name: data.name || data.displayName || 'Unknown Runner',
+          image: data.image || data.photoURL || data.avatar || 'https://i.imgur.com/T3zF9bJ.png',
+          rating: data.rating || 4.0,
+          distance: calculateDistance(location.latitude, location.longitude),
+          status: data.status || data.availability || 'available',
+          latitude: location.latitude,
+          longitude: location.longitude,
+          isOnline: data.isOnline || false,
+          lastSeen: data.lastSeen,
+          vehicle: data.vehicle || 'Motorcycle',
+          experience: data.experience || '1 year',
+          deliveries: data.deliveries || 0,
+        }));
 
-    // Listen for real-time updates from runners
-    const runnersListener = db.collection('users')
-      .where('role', '==', 'runner')
-      .onSnapshot((snapshot) => {
-        console.log('Runners snapshot received:', snapshot.docs.length, 'documents');
-        
-        const updatedRunners = snapshot.docs.map((doc: any) => {
-          const data = doc.data();
-          console.log('Runner data:', doc.id, data);
-          
-          // Use actual location data from Firestore, no default coordinates
-          const latitude = data.currentLocation?.latitude || data.latitude;
-          const longitude = data.currentLocation?.longitude || data.longitude;
-          
-          console.log('Runner coordinates:', { latitude, longitude });
-          
-          // Only include runners with valid coordinates
-          if (!latitude || !longitude || !isValidCoordinate(latitude, longitude)) {
-            console.log('Invalid coordinates for runner:', doc.id);
-            return null;
-          }
-          
-          const runner = {
-            id: doc.id,
-            name: data.name || data.displayName || 'Unknown Runner',
-            image: data.image || data.photoURL || data.avatar || 'https://i.imgur.com/T3zF9bJ.png',
-            rating: data.rating || 4.0,
-            distance: calculateDistance(latitude, longitude),
-            status: data.status || data.availability || 'available',
-            latitude,
-            longitude,
-            isOnline: data.isOnline || false,
-            lastSeen: data.lastSeen,
-            vehicle: data.vehicle || 'Motorcycle',
-            experience: data.experience || '1 year',
-            deliveries: data.deliveries || 0,
-          };
-          
-          console.log('Processed runner:', runner);
-          return runner;
-        }).filter(runner => runner !== null); // Remove runners without valid coordinates
-        
-        console.log('Final runners array:', updatedRunners.length, 'runners');
         setRunners(updatedRunners);
-      }, (error) => {
+      },
+      (error) => {
         console.error('Error listening to runners:', error);
-      });
+      }
+    );
 
     // Cleanup listeners
     return () => {
       sellersListener();
       runnersListener();
     };
-  }, [user?.uid, userLocation]); // Add userLocation as dependency to recalculate distances when user location changes
+  }, [user?.uid, userLocation]); // Re-subscribe around the buyer whenever their location changes
 
   useEffect(() => {
     const getLocation = async () => {
@@ -592,24 +567,20 @@ const BuyerHomeScreen: React.FC<{ navigation: BuyerNavigationProp }> = ({ naviga
       return;
     }
 
-    // Get pickup and dropoff coordinates from errandData
-    const pickupLat = errandData.pickupLatitude;
-    const pickupLng = errandData.pickupLongitude;
-    const dropoffLat = errandData.dropoffLatitude;
-    const dropoffLng = errandData.dropoffLongitude;
+    // Get the coordinates of every stop, from the first pickup to the dropoff
+    const route = getErrandRoute(errandData);
 
-    if (!pickupLat || !pickupLng || !dropoffLat || !dropoffLng) {
-      Alert.alert('Error', 'Pickup and dropoff locations must have valid coordinates.');
+    if (route.length < 2 || route.length < getErrandStops(errandData).length) {
+      Alert.alert('Error', 'Every stop must have valid coordinates.');
       return;
     }
 
-    // Calculate distance using haversine formula
-    const distance = haversineDistance(pickupLat, pickupLng, dropoffLat, dropoffLng);
-    const fee = Math.round(distance * 1000); // ₦1000 per km
-    const isValid = distance > 0 && distance <= 50; // Max 50km for errands
-
-    if (!isValid) {
-      Alert.alert('Error', 'Distance is too far (max 50km). Please choose closer locations.');
+    // Price the full route on the server, which checks the charge against the same quote
+    let quote: ErrandQuote;
+    try {
+      quote = await quoteErrand(errandData);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Unable to price this errand. Please try again.');
       return;
     }
 
@@ -624,8 +595,9 @@ const BuyerHomeScreen: React.FC<{ navigation: BuyerNavigationProp }> = ({ naviga
       buyerEmail: user.email,
       status: 'pending_payment',
       createdAt: new Date().toISOString(),
-      distance: distance.toFixed(2) + ' km',
-      fee,
+      distance: quote.distance.toFixed(2) + ' km',
+      fee: quote.fee,
+      fees: quote.fees,
     };
 
     // Store pending errand and trigger payment
@@ -640,18 +612,12 @@ const BuyerHomeScreen: React.FC<{ navigation: BuyerNavigationProp }> = ({ naviga
     try {
       if (!pendingErrand) return;
 
-      // Create the errand in the database
-      const errandData = {
-        ...pendingErrand,
-        status: 'available',
-        paymentStatus: 'paid',
-        paymentReference: response.reference,
-        paymentAmount: pendingErrand.fee,
-        paidAt: new Date().toISOString(),
-      };
-
-      const errandDocRef = await db.collection('errands').add(errandData);
-      setCreatedErrandId(errandDocRef.id);
+      // The server checks the charge against its own price before creating the errand
+      const { errandId } = await requestErrand(pendingErrand, {
+        runnerId: pendingErrand.runnerId,
+        reference: response.transactionRef?.reference ?? response.reference,
+      });
+      setCreatedErrandId(errandId);
 
       // Send notification to runner
       try {
@@ -671,7 +637,7 @@ const BuyerHomeScreen: React.FC<{ navigation: BuyerNavigationProp }> = ({ naviga
             `You have a new errand request from ${pendingErrand.buyerName}. Tap to view details.`,
             {
               type: 'errand_request',
-              errandId: errandDocRef.id,
+              errandId,
               buyerId: pendingErrand.buyerId,
               buyerName: pendingErrand.buyerName,
             }
@@ -685,7 +651,7 @@ const BuyerHomeScreen: React.FC<{ navigation: BuyerNavigationProp }> = ({ naviga
           title: 'New Errand Request',
           message: `You have a new errand request from ${pendingErrand.buyerName}`,
           data: {
-            errandId: errandDocRef.id,
+            errandId,
             buyerId: pendingErrand.buyerId,
             buyerName: pendingErrand.buyerName,
           },
@@ -700,7 +666,7 @@ const BuyerHomeScreen: React.FC<{ navigation: BuyerNavigationProp }> = ({ naviga
           title: 'Errand Request Sent',
           message: 'Your errand request has been sent to the runner. You will be notified when they accept.',
           data: {
-            errandId: errandDocRef.id,
+            errandId,
             runnerId: pendingErrand.runnerId,
             runnerName: pendingErrand.runnerName,
           },
@@ -1191,7 +1157,7 @@ const BuyerHomeScreen: React.FC<{ navigation: BuyerNavigationProp }> = ({ naviga
       {showPaystack && pendingErrand && (
         <PaystackWebView
           paystackKey={PAYSTACK_PUBLIC_KEY}
-          amount={pendingErrand.fee * 100} // Convert to kobo
+          amount={pendingErrand.fees.total}
           billingEmail={user?.email || ''}
           billingName={user?.displayName || 'User'}
           activityIndicatorColor={theme.colors.primary}
@@ -6,7 +6,7 @@ import { BuyerNavigationProp } from '../../navigation/types';
 import { useTheme } from '../../contexts/ThemeContext';
 import { MaterialCommunityIcons, Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../../contexts/AuthContext';
-import { getChats } from '../../services/buyerServices';
+import { ChatSummary, getChatSummaries } from '../../services/chatService';
 import * as Animatable from 'react-native-animatable';
 
 interface MessagesScreenProps {
@@ -16,8 +16,8 @@ interface MessagesScreenProps {
 const MessagesScreen: React.FC<MessagesScreenProps> = ({ navigation }) => {
   const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState('');
-  const [chats, setChats] = useState<any[]>([]);
-  const [filteredChats, setFilteredChats] = useState<any[]>([]);
+  const [chats, setChats] = useState<ChatSummary[]>([]);
+  const [filteredChats, setFilteredChats] = useState<ChatSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -30,9 +30,9 @@ const MessagesScreen: React.FC<MessagesScreenProps> = ({ navigation }) => {
     try {
       setLoading(true);
       setError(null);
-      const data = await getChats(user.uid);
-      setChats(data as any[]);
-      setFilteredChats(data as any[]);
+      const data = await getChatSummaries(user.uid);
+      setChats(data);
+      setFilteredChats(data);
     } catch (e) {
       setError('Failed to fetch chats. Please try again.');
       console.error('Failed to fetch chats:', e);
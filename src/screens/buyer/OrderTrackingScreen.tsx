@@ -1,15 +1,26 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { View, StyleSheet, ScrollView, SafeAreaView, Alert, ActivityIndicator, Dimensions, Platform } from 'react-native';
+import { View, StyleSheet, ScrollView, SafeAreaView, Alert, ActivityIndicator, Dimensions, Platform, Image } from 'react-native';
 import { Text, Card, Avatar, Divider, Button, Chip, IconButton, TouchableRipple } from 'react-native-paper';
 import RealTimeMap from '../../components/RealTimeMap';
 import { useTheme } from '../../contexts/ThemeContext';
 import { db } from '../../config/firebase';
 import { MaterialCommunityIcons, MaterialIcons } from '@expo/vector-icons';
 import { updateOrderStatus } from '../../services/buyerServices';
+import { OrderStatus, ORDER_STATUS_LABELS, canTransitionOrder } from '../../constants/orderLifecycle';
+import { REFUND_STATE_LABELS, RefundState } from '../../services/walletService';
+import { DISPATCH_STATUS_LABELS, ErrandDispatch, retryDispatch } from '../../services/dispatchService';
+import { ESCROW_STATUS_LABELS, EscrowState, confirmDelivery, isAwaitingConfirmation } from '../../services/escrowService';
+import { PROOF_METHOD_LABELS, ProofOfDelivery, getHandoffCode, hasHandoffCode } from '../../services/proofOfDeliveryService';
+import ProofOfDeliveryModal from '../../components/ProofOfDeliveryModal';
+import { GeofenceEvent, describeGeofenceEvent } from '../../services/geofenceService';
+import TripReplayModal from '../../components/TripReplayModal';
+import { jobChatId } from '../../services/chatService';
 import io from 'socket.io-client';
 import * as Location from 'expo-location';
 import { PRODUCTION_CONFIG } from '../../config/production';
 import { calculateETA } from '../../utils/maps';
+import { formatEta } from '../../utils/eta';
+import { JobEta, getEtaSlipMinutes, isRunningLate, subscribeToJobEta } from '../../services/etaService';
 
 interface OrderTrackingScreenProps {
   route: {
@@ -31,18 +42,10 @@ interface OrderTrackingScreenProps {
 
 
 const statusLabels: Record<string, string> = {
-  available: 'Available',
+  ...ORDER_STATUS_LABELS,
   accepted: 'Accepted',
   inprogress: 'In Progress',
-  completed: 'Completed',
-  pending: 'Pending',
-  cancelled: 'Cancelled',
-  confirmed: 'Confirmed',
   ontheway: 'On The Way',
-  delivered: 'Delivered',
-  assigned: 'Assigned to Runner',
-  picked_up: 'Picked Up',
-  out_for_delivery: 'Out for Delivery',
 };
 
 const statusColors: Record<string, string> = {
@@ -120,6 +123,15 @@ const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({ route, naviga
     paymentMethod?: string;
     paymentStatus?: string;
     paymentReference?: string;
+    refundStatus?: RefundState;
+    refundedAmount?: number;
+    disputeId?: string;
+    disputeStatus?: 'open' | 'resolved';
+    escrow?: EscrowState;
+    dispatch?: ErrandDispatch;
+    deliveryConfirmedAt?: any;
+    proofOfDelivery?: ProofOfDelivery;
+    geofenceEvents?: GeofenceEvent[];
     
     // Delivery Information
     deliveryOption?: 'pickup' | 'delivery';
@@ -157,6 +169,7 @@ const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({ route, naviga
   }
   
   const [doc, setDoc] = useState<OrderDocument | null>(null);
+  const [jobEta, setJobEta] = useState<JobEta | null>(null);
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
   const [estimatedTime, setEstimatedTime] = useState<string>('');
@@ -171,6 +184,9 @@ const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({ route, naviga
   const SOCKET_URL = PRODUCTION_CONFIG.SOCKET_URL;
   const [socket, setSocket] = useState<any>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const [handoffCode, setHandoffCode] = useState<string | null>(null);
+  const [proofVisible, setProofVisible] = useState(false);
+  const [replayVisible, setReplayVisible] = useState(false);
 
 
     
@@ -231,7 +247,16 @@ const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({ route, naviga
     }
   };
 
-  const handleStatusUpdate = async (newStatus: string, step: string) => {
+  // The buyer reads out this code when the runner arrives
+  const awaitingHandoff = !role && !!doc && !doc.proofOfDelivery && hasHandoffCode(type, doc.status);
+  useEffect(() => {
+    if (!id || !awaitingHandoff || handoffCode) return;
+    getHandoffCode(type, id)
+      .then(setHandoffCode)
+      .catch((error) => console.error('Error fetching handoff code:', error));
+  }, [id, type, awaitingHandoff, handoffCode]);
+
+  const handleStatusUpdate = async (newStatus: OrderStatus, step: string) => {
     if (!id) return;
     setUpdating(true);
     try {
@@ -243,12 +268,47 @@ const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({ route, naviga
     }
   };
 
+  const handleRetryDispatch = async () => {
+    if (!id) return;
+    setUpdating(true);
+    try {
+      await retryDispatch(id);
+    } catch (e: any) {
+      Alert.alert('Error', e.message || 'Failed to look for another runner');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  // Buyer confirms receipt, which releases the held payment
+  const handleConfirmDelivery = () => {
+    if (!id) return;
+    Alert.alert(
+      'Confirm Delivery',
+      'Only confirm once you have everything you ordered. Payment will be released to the seller and runner.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Confirm',
+          onPress: async () => {
+            setUpdating(true);
+            try {
+              await confirmDelivery(type, id);
+            } catch (e: any) {
+              Alert.alert('Error', e.message || 'Failed to confirm delivery');
+            } finally {
+              setUpdating(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   // Enhanced status update with confirmation
-  const confirmStatusUpdate = (newStatus: string, step: string) => {
+  const confirmStatusUpdate = (newStatus: OrderStatus, step: string) => {
     let message = '';
-    if (newStatus === 'delivered') {
-      message = 'Are you sure you want to mark this as Delivered? This action cannot be undone.';
-    } else if (newStatus === 'cancelled') {
+    if (newStatus === 'cancelled') {
       message = 'Are you sure you want to cancel this order/errand?';
     } else if (newStatus === 'picked_up') {
       message = 'Confirm that the order has been picked up from the store?';
@@ -282,8 +342,11 @@ const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({ route, naviga
       }
     }
 
-    // Calculate distance and ETA if runner location is available
-    if (doc?.runnerLocation && doc?.customer?.latitude && doc?.customer?.longitude) {
+    // Prefer the runner's live estimate; otherwise calculate distance and ETA if runner location is available
+    if (jobEta) {
+      setDistance(jobEta.remainingKm);
+      setEta(formatEta(jobEta.minutes));
+    } else if (doc?.runnerLocation && doc?.customer?.latitude && doc?.customer?.longitude) {
       const distanceKm = Math.sqrt(
         Math.pow(doc.runnerLocation.latitude - doc.customer.latitude, 2) +
         Math.pow(doc.runnerLocation.longitude - doc.customer.longitude, 2)
@@ -292,7 +355,13 @@ const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({ route, naviga
       setDistance(distanceKm);
       setEta(calculateETA(distanceKm));
     }
-  }, [doc]);
+  }, [doc, jobEta]);
+
+  // The runner's live estimate is kept apart from the job
+  useEffect(() => {
+    if (!id) return;
+    return subscribeToJobEta(type, id, setJobEta);
+  }, [id, type]);
 
   // Initialize Socket.io connection
   useEffect(() => {
@@ -366,6 +435,13 @@ const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({ route, naviga
           }
         });
 
+        newSocket.on('etaUpdate', (data) => {
+          if (data.id === id) {
+            setDistance(data.remainingKm);
+            setEta(formatEta(data.minutes));
+          }
+        });
+
         newSocket.on('routeUpdate', (data) => {
           if (data.id === id) {
             console.log('Received route update:', data);
@@ -431,6 +507,15 @@ const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({ route, naviga
         paymentMethod: data.paymentMethod,
         paymentStatus: data.paymentStatus,
         paymentReference: data.paymentReference,
+        refundStatus: data.refundStatus,
+        refundedAmount: data.refundedAmount,
+        disputeId: data.disputeId,
+        disputeStatus: data.disputeStatus,
+        escrow: data.escrow,
+        dispatch: data.dispatch,
+        deliveryConfirmedAt: data.deliveryConfirmedAt,
+        proofOfDelivery: data.proofOfDelivery,
+        geofenceEvents: data.geofenceEvents || [],
   
         // Delivery Information
         deliveryOption: data.deliveryOption,
@@ -560,6 +645,46 @@ const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({ route, naviga
                   </Text>
                 </View>
               )}
+              {doc.refundStatus && (
+                <View style={styles.detailRow}>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>Refund:</Text>
+                  <Text variant="bodyMedium" style={{ fontWeight: '600' }}>
+                    {REFUND_STATE_LABELS[doc.refundStatus]}
+                    {!!doc.refundedAmount && ` (₦${doc.refundedAmount.toLocaleString()})`}
+                  </Text>
+                </View>
+              )}
+              {doc.dispatch && !doc.runnerId && (
+                <View style={styles.detailRow}>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>Runner:</Text>
+                  <Text variant="bodyMedium" style={{ fontWeight: '600' }}>
+                    {DISPATCH_STATUS_LABELS[doc.dispatch.status]}
+                    {doc.dispatch.status === 'offering' && ` (attempt ${doc.dispatch.attempt})`}
+                  </Text>
+                </View>
+              )}
+              {doc.escrow && (
+                <View style={styles.detailRow}>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>Funds:</Text>
+                  <Text variant="bodyMedium" style={{ fontWeight: '600' }}>
+                    {ESCROW_STATUS_LABELS[doc.escrow.status]}
+                  </Text>
+                </View>
+              )}
+              {doc.proofOfDelivery && (
+                <>
+                  <View style={styles.detailRow}>
+                    <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>Handover:</Text>
+                    <Text variant="bodyMedium" style={{ fontWeight: '600' }}>
+                      {PROOF_METHOD_LABELS[doc.proofOfDelivery.method]}
+                      {doc.proofOfDelivery.recipientName && ` to ${doc.proofOfDelivery.recipientName}`}
+                    </Text>
+                  </View>
+                  {doc.proofOfDelivery.photoUrl && (
+                    <Image source={{ uri: doc.proofOfDelivery.photoUrl }} style={styles.proofPhoto} />
+                  )}
+                </>
+              )}
               {doc.deliveryOption && (
                 <View style={styles.detailRow}>
                   <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>Delivery:</Text>
@@ -615,6 +740,14 @@ const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({ route, naviga
                   </Text>
                 </View>
               )}
+              {isRunningLate(jobEta) && (
+                <View style={styles.updateItem}>
+                  <MaterialCommunityIcons name="clock-alert-outline" size={16} color={theme.colors.error} />
+                  <Text style={{ marginLeft: 8, color: theme.colors.error }}>
+                    Running about {getEtaSlipMinutes(jobEta)} minutes late
+                  </Text>
+                </View>
+              )}
               {distance && (
                 <View style={styles.updateItem}>
                   <MaterialCommunityIcons name="map-marker-radius" size={16} color={theme.colors.tertiary} />
@@ -623,6 +756,20 @@ const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({ route, naviga
                   </Text>
                 </View>
               )}
+              {/* Arrivals and departures detected from the runner's location, latest first */}
+              {[...(doc.geofenceEvents || [])].reverse().slice(0, 5).map((event, index) => (
+                <View key={`${event.fenceId}_${event.type}_${index}`} style={styles.updateItem}>
+                  <MaterialCommunityIcons
+                    name={event.type === 'arrived' ? 'map-marker-check' : 'map-marker-right'}
+                    size={16}
+                    color={theme.colors.primary}
+                  />
+                  <Text style={{ marginLeft: 8, color: theme.colors.onSurfaceVariant }}>
+                    {describeGeofenceEvent(event)}
+                    {normalizeDate(event.at) && ` at ${normalizeDate(event.at)?.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                  </Text>
+                </View>
+              ))}
             </View>
           </View>
 
@@ -694,6 +841,27 @@ const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({ route, naviga
                   Message
                 </Button>
               </View>
+              {/* The route the runner actually took, recorded while the job was active */}
+              <Button mode="text" compact icon="map-marker-path" onPress={() => setReplayVisible(true)} style={{ alignSelf: 'flex-start', marginTop: 8 }}>
+                Replay Trip
+              </Button>
+              {/* Buyer, store and runner share one chat per order, opened when the runner was assigned */}
+              {type === 'order' && !!id && (
+                <Button
+                  mode="text"
+                  compact
+                  icon="account-group"
+                  onPress={() => navigation.navigate('Chat', {
+                    chatId: jobChatId('order', id),
+                    chatName: doc.orderNumber ? `Order #${doc.orderNumber}` : 'Order chat',
+                    chatAvatar: '',
+                    chatRole: role || 'buyer',
+                  })}
+                  style={{ alignSelf: 'flex-start' }}
+                >
+                  Group Chat
+                </Button>
+              )}
             </View>
           )}
 
@@ -865,26 +1033,70 @@ const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({ route, naviga
             </View>
           )}
 
+          {!role && type === 'errand' && !doc.runnerId && doc.dispatch?.status === 'failed' && (
+            <Button mode="contained" icon="account-search" onPress={handleRetryDispatch} loading={updating} style={styles.actionButton}>
+              Find a Runner Again
+            </Button>
+          )}
+
+          {awaitingHandoff && !!handoffCode && (
+            <View style={[styles.handoffCode, { backgroundColor: theme.colors.primaryContainer }]}>
+              <Text variant="labelLarge" style={{ color: theme.colors.onPrimaryContainer }}>Handoff code</Text>
+              <Text variant="displaySmall" style={{ color: theme.colors.onPrimaryContainer, fontWeight: 'bold', letterSpacing: 8 }}>
+                {handoffCode}
+              </Text>
+              <Text variant="bodySmall" style={{ color: theme.colors.onPrimaryContainer, textAlign: 'center' }}>
+                Give this code to your runner only once you have your items
+              </Text>
+            </View>
+          )}
+
+          {/* Buyer confirmation releases escrow; otherwise it auto-confirms */}
+          {!role && isAwaitingConfirmation(type, doc) && (
+            <View style={styles.actionButtons}>
+              <Button mode="contained" icon="check-decagram" onPress={handleConfirmDelivery} loading={updating} style={styles.actionButton}>
+                {type === 'order' && doc.status === 'ready' ? 'Confirm Collection' : 'Confirm Delivery'}
+              </Button>
+              {doc.escrow?.autoConfirmAt && (
+                <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, textAlign: 'center' }}>
+                  Confirms automatically on {normalizeDate(doc.escrow.autoConfirmAt)?.toLocaleString()} unless you report a problem
+                </Text>
+              )}
+            </View>
+          )}
+
+          {/* Disputes: any participant can report a problem once the job is under way */}
+          {(doc.disputeId || !['pending_payment', 'cancelled'].includes(doc.status)) && (
+            <Button
+              mode="outlined"
+              icon={doc.disputeId ? 'scale-balance' : 'alert-circle-outline'}
+              onPress={() => navigation.navigate('Dispute', { jobType: type, jobId: id, disputeId: doc.disputeId })}
+              style={styles.actionButton}
+            >
+              {doc.disputeStatus === 'open' ? 'View Dispute' : doc.disputeId ? 'View Dispute Outcome' : 'Report a Problem'}
+            </Button>
+          )}
+
           {/* Action Buttons for Seller/Runner */}
           {role && (role === 'seller' || role === 'runner') && doc.status !== 'completed' && (<View style={styles.actionButtons}>
-              {doc.status === 'confirmed' && (
+              {doc.status === 'confirmed' && canTransitionOrder(doc.status, 'available', role) && (
                 <Button mode="contained" onPress={() => confirmStatusUpdate('available', 'available')} loading={updating} style={styles.actionButton}>
                   Mark as Available
                 </Button>
               )}
-              {doc.status === 'available' && (<Button mode="contained" onPress={() => confirmStatusUpdate('assigned', 'assigned')} loading={updating} style={styles.actionButton}>
+              {doc.status === 'available' && canTransitionOrder(doc.status, 'assigned', role) && (<Button mode="contained" onPress={() => confirmStatusUpdate('assigned', 'assigned')} loading={updating} style={styles.actionButton}>
                   Mark as Assigned
                 </Button>
               )}
-              {doc.status === 'assigned' && (<Button mode="contained" onPress={() => confirmStatusUpdate('picked_up', 'picked_up')} loading={updating} style={styles.actionButton}>
+              {doc.status === 'assigned' && canTransitionOrder(doc.status, 'picked_up', role) && (<Button mode="contained" onPress={() => confirmStatusUpdate('picked_up', 'picked_up')} loading={updating} style={styles.actionButton}>
                   Mark as Picked Up
                 </Button>
               )}
-              {doc.status === 'picked_up' && (<Button mode="contained" onPress={() => confirmStatusUpdate('out_for_delivery', 'out_for_delivery')} loading={updating} style={styles.actionButton}>
+              {doc.status === 'picked_up' && canTransitionOrder(doc.status, 'out_for_delivery', role) && (<Button mode="contained" onPress={() => confirmStatusUpdate('out_for_delivery', 'out_for_delivery')} loading={updating} style={styles.actionButton}>
                   Mark as On The Way
                 </Button>
               )}
-              {doc.status === 'out_for_delivery' && (<Button mode="contained" onPress={() => confirmStatusUpdate('delivered', 'delivered')} loading={updating} style={styles.actionButton}>
+              {doc.status === 'out_for_delivery' && canTransitionOrder(doc.status, 'delivered', role) && (<Button mode="contained" onPress={() => setProofVisible(true)} disabled={updating} style={styles.actionButton}>
                   Mark as Delivered
                 </Button>
               )}
@@ -892,6 +1104,25 @@ const OrderTrackingScreen: React.FC<OrderTrackingScreenProps> = ({ route, naviga
           )}
         </Card.Content>
       </Card>
+
+      {role === 'runner' && type === 'order' && !!id && !!doc.runnerId && (
+        <ProofOfDeliveryModal
+          visible={proofVisible}
+          jobType="order"
+          jobId={id}
+          runnerId={doc.runnerId}
+          onDismiss={() => setProofVisible(false)}
+        />
+      )}
+
+      {!!id && (
+        <TripReplayModal
+          visible={replayVisible}
+          jobType={type}
+          jobId={id}
+          onDismiss={() => setReplayVisible(false)}
+        />
+      )}
     </ScrollView>
   );
 };
@@ -968,6 +1199,18 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingVertical: 4,
   },
+  proofPhoto: {
+    width: '100%',
+    height: 160,
+    borderRadius: 8,
+    marginVertical: 8,
+  },
+  handoffCode: {
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
   currentStatus: {
     alignItems: 'center',
     marginBottom: 20,
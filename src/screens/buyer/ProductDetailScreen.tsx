@@ -6,7 +6,8 @@ import {
   ScrollView, 
   TouchableOpacity,
   Animated,
-  ActivityIndicator
+  ActivityIndicator,
+  Alert
 } from 'react-native';
 import { 
   Text, 
@@ -23,6 +24,7 @@ import ReviewsDisplay from '../../components/ReviewsDisplay';
 import { useAuth } from '../../contexts/AuthContext';
 import { db } from '../../config/firebase';
 import firebase from 'firebase/compat/app';
+import { ProductVariant, addToCart, getVariantUnitPrice } from '../../services/cartService';
 
 type ProductDetailScreenProps = NativeStackScreenProps<RootStackParamList, 'ProductDetail'>;
 
@@ -38,6 +40,7 @@ interface ProductData {
   sellerId: string;
   sellerName?: string;
   availability?: boolean;
+  variants?: ProductVariant[];
   createdAt?: any;
   updatedAt?: any;
 }
@@ -54,6 +57,7 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ navigation, r
   } = route.params || {};
   
   const [quantity, setQuantity] = useState(1);
+  const [selectedVariant, setSelectedVariant] = useState<ProductVariant | null>(null);
   const [productData, setProductData] = useState<ProductData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -129,6 +133,7 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ navigation, r
           sellerId: productInfo?.sellerId || sellerId,
           sellerName: sellerName,
           availability: productInfo?.availability !== false, // Default to true if not specified
+          variants: Array.isArray(productInfo?.variants) ? productInfo.variants : [],
           createdAt: productInfo?.createdAt,
           updatedAt: productInfo?.updatedAt,
         };
@@ -155,11 +160,39 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ navigation, r
       productId,
       sellerId: productData?.sellerId || sellerId,
       productName: currentProductData.productName,
-      price: currentProductData.price,
+      price: getVariantUnitPrice(currentProductData.price || 0, selectedVariant),
       quantity,
+      variantId: selectedVariant?.id,
+      variantName: selectedVariant?.name,
     });
   };
 
+  const handleAddToCart = async () => {
+    if (productData?.variants?.length && !selectedVariant) {
+      Alert.alert('Choose an Option', 'Please select a variant before adding this product to your cart.');
+      return;
+    }
+
+    try {
+      await addToCart({
+        productId,
+        sellerId: productData?.sellerId || sellerId,
+        sellerName: productData?.sellerName,
+        productName: productData?.productName || fallbackProductName || 'Unknown Product',
+        image: productData?.image || fallbackImage,
+        price: productData?.price || fallbackPrice || 0,
+        variant: selectedVariant,
+      }, quantity);
+
+      Alert.alert('Added to Cart', `${quantity} × ${productData?.productName || fallbackProductName} added to your cart.`, [
+        { text: 'Keep Shopping', style: 'cancel' },
+        { text: 'View Cart', onPress: () => navigation.navigate('Checkout', { fromCart: true }) },
+      ]);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to add this product to your cart.');
+    }
+  };
+
   const renderRatingStars = (rating: number) => {
     const stars = [];
     const fullStars = Math.floor(rating);
@@ -210,7 +243,9 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ navigation, r
     reviewCount: 0,
     category: 'Loading...',
     availability: true,
+    variants: [] as ProductVariant[],
   };
+  const unitPrice = getVariantUnitPrice(currentData.price, selectedVariant);
 
   // Loading state
   if (loading) {
@@ -350,15 +385,34 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ navigation, r
             variant="titleLarge" 
             style={[styles.price, { color: theme.colors.primary }]}
           >
-            ₦{currentData.price.toLocaleString()}
+            ₦{unitPrice.toLocaleString()}
           </Text>
+
+          {!!currentData.variants?.length && (
+            <View style={styles.variantRow}>
+              {currentData.variants.map((variant) => (
+                <Chip
+                  key={variant.id}
+                  mode="outlined"
+                  selected={selectedVariant?.id === variant.id}
+                  onPress={() => setSelectedVariant(selectedVariant?.id === variant.id ? null : variant)}
+                  style={[
+                    styles.variantChip,
+                    { borderColor: selectedVariant?.id === variant.id ? theme.colors.primary : theme.colors.outline }
+                  ]}
+                >
+                  {variant.name}{variant.price > 0 ? ` · ₦${variant.price.toLocaleString()}` : ''}
+                </Chip>
+              ))}
+            </View>
+          )}
           
           {quantity > 1 && (
             <Text 
               variant="bodyMedium" 
               style={[styles.unitPriceNote, { color: theme.colors.onSurfaceVariant }]}
             >
-              ₦{currentData.price.toLocaleString()} each
+              ₦{unitPrice.toLocaleString()} each
             </Text>
           )}
 
@@ -475,9 +529,16 @@ const ProductDetailScreen: React.FC<ProductDetailScreenProps> = ({ navigation, r
             variant="titleLarge" 
             style={[styles.totalPrice, { color: theme.colors.primary }]}
           >
-            ₦{(currentData.price * quantity).toLocaleString()}
+            ₦{(unitPrice * quantity).toLocaleString()}
           </Text>
         </View>
+        <IconButton
+          icon="cart-plus"
+          mode="outlined"
+          onPress={handleAddToCart}
+          iconColor={theme.colors.primary}
+          size={24}
+        />
         <Button
           mode="contained"
           onPress={handleOrder}
@@ -605,6 +666,15 @@ const styles = StyleSheet.create({
     lineHeight: 22,
     marginBottom: 24,
   },
+  variantRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  variantChip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
   quantityRow: {
     flexDirection: 'row',
     alignItems: 'center',
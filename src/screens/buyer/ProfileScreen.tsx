@@ -410,6 +410,7 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
     setEditProfileModal(true);
   };
   const handleViewOrderHistory = () => navigation.navigate('Orders');
+  const handleViewSchedules = () => navigation.navigate('ScheduledErrands');
   const handleContactSupport = async () => {
     try {
       if (!user) {
@@ -588,6 +589,20 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
               Orders
               </Text>
             </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={[styles.quickActionCard, { backgroundColor: theme.colors.tertiaryContainer }]}
+              onPress={handleViewSchedules}
+            >
+              <MaterialCommunityIcons 
+                name="calendar-clock" 
+                size={24} 
+                color={'#000000'} 
+              />
+              <Text style={[styles.quickActionText, { color: '#000000' }]}>
+              Schedules
+              </Text>
+            </TouchableOpacity>
           </View>
         </Animatable.View>
 
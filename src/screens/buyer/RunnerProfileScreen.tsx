@@ -4,7 +4,8 @@ import { Text, Button, Card, Avatar, Chip, Divider } from 'react-native-paper';
 import { MaterialCommunityIcons, MaterialIcons } from '@expo/vector-icons';
 import { useTheme } from '../../contexts/ThemeContext';
 import { RootNavigationProp } from '../../navigation/types';
-import { getRunnerProfile, requestErrand } from '../../services/buyerServices';
+import { getRunnerProfile, quoteErrand, requestErrand } from '../../services/buyerServices';
+import { buildErrandStops } from '../../services/errandStopsService';
 import { useAuth } from '../../contexts/AuthContext';
 import ErrandRequestModal from '../../components/ErrandRequestModal';
 import { COLORS } from '../../constants/colors';
@@ -96,14 +97,15 @@ const RunnerProfileScreen: React.FC<RunnerProfileScreenProps> = ({ navigation, r
     if (!runner || !user?.uid) return;
     
     try {
-      const messagingService = await import('../../services/messagingService');
-      const { chatId, isNew } = await messagingService.default.getOrCreateChat(user.uid, runner.id);
+      const { getOrCreateChat } = await import('../../services/chatService');
+      const { chatId } = await getOrCreateChat(runner.id);
       
       navigation.navigate('Chat', {
         chatId,
         chatName: runner.name,
         chatAvatar: runner.image,
         chatRole: 'runner',
+        otherUserId: runner.id,
       });
     } catch (error) {
       console.error('Error creating chat:', error);
@@ -118,6 +120,12 @@ const RunnerProfileScreen: React.FC<RunnerProfileScreenProps> = ({ navigation, r
   const handleErrandSubmit = async (errandData: any) => {
     if (!runner || !user?.uid) return;
     // Transform data to match runner UI expectations
+    const stops = buildErrandStops((errandData.stops || []).map((stop: any) => ({
+      ...stop,
+      items: stop.items ? stop.items.split(',') : [],
+    })));
+    const pickup = stops[0];
+    const dropoff = stops[stops.length - 1];
     const structuredErrand = {
       title: errandData.title,
       description: errandData.description,
@@ -125,31 +133,41 @@ const RunnerProfileScreen: React.FC<RunnerProfileScreenProps> = ({ navigation, r
       urgency: errandData.urgency,
       distance: errandData.distance || '',
       estimatedTime: errandData.estimatedTime || '',
-      fee: Number(errandData.budget),
+      stops,
+      currentStopId: pickup?.id || null,
+      pickupLocation: pickup?.address || '',
+      dropoffLocation: dropoff?.address || '',
+      pickupCoordinates: pickup?.coordinates || null,
+      dropoffCoordinates: dropoff?.coordinates || null,
       store: {
         name: 'Pickup',
-        address: errandData.pickupLocation,
+        address: pickup?.address || '',
         phone: '',
-        latitude: null,
-        longitude: null,
+        latitude: pickup?.coordinates?.latitude ?? null,
+        longitude: pickup?.coordinates?.longitude ?? null,
       },
       customer: {
         name: user.displayName || 'Customer',
-        address: errandData.dropoffLocation,
+        address: dropoff?.address || '',
         phone: '',
         email: user.email || '',
-        latitude: null,
-        longitude: null,
+        latitude: dropoff?.coordinates?.latitude ?? null,
+        longitude: dropoff?.coordinates?.longitude ?? null,
       },
       items: [
         { name: errandData.description, quantity: 1 }
       ],
-      status: 'available',
-      runnerId: '',
-      runnerName: '',
-      createdAt: new Date().toISOString(),
     };
-    setPendingErrand(structuredErrand);
+
+    // Charge what the server will check the payment against
+    try {
+      const quote = await quoteErrand(structuredErrand);
+      setPendingErrand({ ...structuredErrand, ...quote });
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Unable to price this errand. Please try again.');
+      return;
+    }
+
     // Generate a unique reference for Paystack
     const ref = `ERRAND_${user.uid}_${Date.now()}`;
     setPaystackTxnRef(ref);
@@ -161,7 +179,10 @@ const RunnerProfileScreen: React.FC<RunnerProfileScreenProps> = ({ navigation, r
     setShowPaystack(false);
     if (!pendingErrand || !runner || !user?.uid) return;
     try {
-      await requestErrand(runner.id, user.uid, pendingErrand);
+      await requestErrand(pendingErrand, {
+        runnerId: runner.id,
+        reference: response.transactionRef?.reference ?? response.reference,
+      });
       setPendingErrand(null);
       Alert.alert('Success', 'Your errand request has been submitted and paid for!');
     } catch (e) {
@@ -465,7 +486,7 @@ const RunnerProfileScreen: React.FC<RunnerProfileScreenProps> = ({ navigation, r
       {showPaystack && pendingErrand && (
         <PaystackWebView
           paystackKey={PAYSTACK_PUBLIC_KEY}
-          amount={Number(pendingErrand.budget)}
+          amount={pendingErrand.fees.total}
           billingEmail={user.email || ''}
           billingName={user.displayName || 'User'}
           activityIndicatorColor="#000"
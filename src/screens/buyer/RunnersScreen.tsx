@@ -75,13 +75,16 @@ const RunnersScreen: React.FC<RunnersScreenProps> = ({ navigation }) => {
       const { status } = await Location.getForegroundPermissionsAsync();
       if (status === 'granted') {
         const location = await Location.getCurrentPositionAsync({});
-        setUserLocation({
+        const coords = {
           latitude: location.coords.latitude,
           longitude: location.coords.longitude,
-        });
+        };
+        setUserLocation(coords);
+        return coords;
       }
     } catch (error) {
       }
+    return null;
   }, []);
 
   const loadRunners = useCallback(async (isRefresh = false) => {
@@ -93,11 +96,11 @@ const RunnersScreen: React.FC<RunnersScreenProps> = ({ navigation }) => {
     setError(null);
 
     try {
-      // Get user location first
-      await getUserLocation();
+      // Get user location first, only nearby ones are fetched
+      const location = await getUserLocation();
 
       // Fetch runners with real-time availability
-      const runnersData = await getRunners();
+      const runnersData = await getRunners(location);
       const availabilityData = await getRunnerAvailability();
 
       // Merge runners data with availability data
@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Text, Button, IconButton, Chip, ActivityIndicator } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { RootNavigationProp } from '../../navigation/types';
+import {
+  ErrandSchedule,
+  SCHEDULE_STATUS_LABELS,
+  ScheduleAction,
+  getUpcomingOccurrences,
+  manageErrandSchedule,
+  skipErrandOccurrence,
+  subscribeToBookedOccurrences,
+  subscribeToSchedules,
+} from '../../services/scheduleService';
+import { describeRecurrence } from '../../utils/recurrence';
+
+interface ScheduledErrandsScreenProps {
+  navigation: RootNavigationProp;
+}
+
+const formatOccurrence = (value: any) => {
+  const date = value?.toDate ? value.toDate() : new Date(value);
+  return isNaN(date.getTime())
+    ? ''
+    : date.toLocaleString(undefined, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+};
+
+const ScheduledErrandsScreen: React.FC<ScheduledErrandsScreenProps> = ({ navigation }) => {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+
+  const [schedules, setSchedules] = useState<ErrandSchedule[]>([]);
+  const [booked, setBooked] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user?.uid) return;
+
+    const unsubscribeSchedules = subscribeToSchedules(user.uid, (data) => {
+      setSchedules(data);
+      setLoading(false);
+    });
+    const unsubscribeBooked = subscribeToBookedOccurrences(user.uid, setBooked);
+    return () => {
+      unsubscribeSchedules();
+      unsubscribeBooked();
+    };
+  }, [user?.uid]);
+
+  const runAction = async (key: string, action: () => Promise<void>, failure: string) => {
+    setBusyKey(key);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error(failure, error);
+      Alert.alert('Error', error.message || failure);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleScheduleAction = (schedule: ErrandSchedule, action: ScheduleAction) => {
+    const run = () => runAction(
+      `${schedule.id}_${action}`,
+      () => manageErrandSchedule(schedule.id, action),
+      'Failed to update schedule. Please try again.'
+    );
+
+    if (action !== 'cancel') {
+      run();
+      return;
+    }
+    Alert.alert(
+      'Cancel Schedule',
+      'No more errands will be booked, and any booked errand that has not started will be cancelled.',
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Cancel Schedule', style: 'destructive', onPress: run },
+      ]
+    );
+  };
+
+  const handleSkip = (scheduleId: string, dateKey: string) => runAction(
+    `${scheduleId}_${dateKey}`,
+    () => skipErrandOccurrence(scheduleId, dateKey),
+    'Failed to skip this date. Please try again.'
+  );
+
+  const renderOccurrence = (scheduleId: string, dateKey: string, at: any, isBooked: boolean) => (
+    <View key={dateKey} style={[styles.occurrence, { borderColor: theme.colors.outlineVariant }]}>
+      <MaterialCommunityIcons
+        name={isBooked ? 'calendar-check' : 'calendar-blank'}
+        size={20}
+        color={isBooked ? theme.colors.primary : theme.colors.onSurfaceVariant}
+      />
+      <View style={styles.occurrenceText}>
+        <Text variant="bodyMedium" style={{ color: theme.colors.onSurface }}>{formatOccurrence(at)}</Text>
+        {isBooked && (
+          <Text variant="bodySmall" style={{ color: theme.colors.primary }}>Booked</Text>
+        )}
+      </View>
+      <Button
+        compact
+        mode="text"
+        onPress={() => handleSkip(scheduleId, dateKey)}
+        loading={busyKey === `${scheduleId}_${dateKey}`}
+        disabled={!!busyKey}
+      >
+        {isBooked ? 'Cancel' : 'Skip'}
+      </Button>
+    </View>
+  );
+
+  const renderSchedule = (schedule: ErrandSchedule) => {
+    const bookedForSchedule = booked
+      .filter((errand) => errand.scheduleId === schedule.id)
+      .sort((a, b) => (a.occurrenceKey < b.occurrenceKey ? -1 : 1));
+    const upcoming = getUpcomingOccurrences(schedule);
+    const ended = schedule.status === 'cancelled' || schedule.status === 'completed';
+
+    return (
+      <View key={schedule.id} style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+        <View style={styles.row}>
+          <View style={{ flex: 1 }}>
+            <Text variant="titleMedium" style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+              {schedule.template?.title || 'Errand'}
+            </Text>
+            <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+              {describeRecurrence(schedule.recurrence)}
+            </Text>
+          </View>
+          <Chip compact>{SCHEDULE_STATUS_LABELS[schedule.status]}</Chip>
+        </View>
+
+        {bookedForSchedule.map((errand) => renderOccurrence(schedule.id, errand.occurrenceKey, errand.scheduledFor, true))}
+        {upcoming.map((occurrence) => renderOccurrence(schedule.id, occurrence.dateKey, occurrence.at, false))}
+
+        {!ended && (
+          <View style={styles.actions}>
+            <Button
+              mode="outlined"
+              icon={schedule.status === 'paused' ? 'play' : 'pause'}
+              onPress={() => handleScheduleAction(schedule, schedule.status === 'paused' ? 'resume' : 'pause')}
+              loading={busyKey === `${schedule.id}_pause` || busyKey === `${schedule.id}_resume`}
+              disabled={!!busyKey}
+              style={styles.action}
+            >
+              {schedule.status === 'paused' ? 'Resume' : 'Pause'}
+            </Button>
+            <Button
+              mode="text"
+              textColor={theme.colors.error}
+              onPress={() => handleScheduleAction(schedule, 'cancel')}
+              loading={busyKey === `${schedule.id}_cancel`}
+              disabled={!!busyKey}
+              style={styles.action}
+            >
+              Cancel Schedule
+            </Button>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <View style={[styles.header, { backgroundColor: theme.colors.surface }]}>
+        <IconButton icon="arrow-left" onPress={() => navigation.goBack()} iconColor={theme.colors.onSurface} size={24} />
+        <Text variant="titleMedium" style={[styles.headerTitle, { color: theme.colors.onSurface }]}>
+          Scheduled Errands
+        </Text>
+        <View style={{ width: 56 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        {loading ? (
+          <ActivityIndicator style={{ marginTop: 32 }} />
+        ) : schedules.length === 0 ? (
+          <View style={styles.empty}>
+            <MaterialCommunityIcons name="calendar-clock" size={48} color={theme.colors.onSurfaceVariant} />
+            <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant, marginTop: 12, textAlign: 'center' }}>
+              No scheduled errands yet. Choose Later, Daily or Weekly when you request an errand.
+            </Text>
+          </View>
+        ) : (
+          schedules.map(renderSchedule)
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 40,
+    paddingBottom: 8,
+    elevation: 2,
+  },
+  headerTitle: {
+    fontWeight: '600',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  section: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  occurrence: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    paddingVertical: 6,
+  },
+  occurrenceText: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  action: {
+    marginLeft: 8,
+  },
+  empty: {
+    alignItems: 'center',
+    marginTop: 64,
+    paddingHorizontal: 24,
+  },
+});
+
+export default ScheduledErrandsScreen;
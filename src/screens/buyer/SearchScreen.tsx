@@ -21,6 +21,7 @@ import {
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import * as Animatable from 'react-native-animatable';
 import { useNavigation } from '@react-navigation/native';
+import * as Location from 'expo-location';
 import { RootNavigationProp } from '../../navigation/types';
 import { getProducts, getStores } from '../../services/buyerServices';
 import { useTheme } from '../../contexts/ThemeContext';
@@ -28,6 +29,18 @@ import { useAuth } from '../../contexts/AuthContext';
 
 const { width } = Dimensions.get('window');
 
+// Search covers the stores around the buyer when location is allowed
+const getSearchLocation = async () => {
+  try {
+    const { status } = await Location.getForegroundPermissionsAsync();
+    if (status !== 'granted') return null;
+    const location = await Location.getCurrentPositionAsync({});
+    return { latitude: location.coords.latitude, longitude: location.coords.longitude };
+  } catch (error) {
+    return null;
+  }
+};
+
 interface ProductType {
   id: string;
   name: string;
@@ -86,7 +99,7 @@ const SearchScreen = () => {
     try {
       const [productsData, storesData] = await Promise.all([
         getProducts(),
-        getStores()
+        getSearchLocation().then((location) => getStores(location))
       ]);
       
       setAllProducts(productsData);
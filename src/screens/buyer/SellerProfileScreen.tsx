@@ -200,15 +200,16 @@ const SellerProfileScreen: React.FC<SellerProfileScreenProps> = ({ navigation, r
     
     try {
       // Create or get chat with seller
-      const messagingService = await import('../../services/messagingService');
-      const { chatId, isNew } = await messagingService.default.getOrCreateChat(user.uid, seller.id);
+      const { getOrCreateChat } = await import('../../services/chatService');
+      const { chatId } = await getOrCreateChat(seller.id);
       
       // Navigate to chat with seller
       navigation.navigate('Chat', { 
         chatId,
         chatName: seller.name,
         chatAvatar: seller.image,
-        chatRole: 'seller'
+        chatRole: 'seller',
+        otherUserId: seller.id
       });
     } catch (error) {
       Alert.alert('Error', 'Failed to start conversation with seller');
@@ -94,13 +94,16 @@ const StoresScreen: React.FC<StoresScreenProps> = ({ navigation }) => {
       const { status } = await Location.getForegroundPermissionsAsync();
       if (status === 'granted') {
         const location = await Location.getCurrentPositionAsync({});
-        setUserLocation({
+        const coords = {
           latitude: location.coords.latitude,
           longitude: location.coords.longitude,
-        });
+        };
+        setUserLocation(coords);
+        return coords;
       }
     } catch (error) {
       }
+    return null;
   }, []);
 
   const loadStores = useCallback(async (isRefresh = false) => {
@@ -112,11 +115,11 @@ const StoresScreen: React.FC<StoresScreenProps> = ({ navigation }) => {
     setError(null);
 
     try {
-      // Get user location first
-      await getUserLocation();
+      // Get user location first, only nearby ones are fetched
+      const location = await getUserLocation();
 
       // Fetch stores with real-time status
-      const storesData = await getStores();
+      const storesData = await getStores(location);
       
       // Try to get store status, but don't fail if it's not available
       let statusData = [];
@@ -3,11 +3,12 @@ import { View, FlatList, RefreshControl, ScrollView, TouchableOpacity } from 're
 import { Text, Card, Divider, ActivityIndicator, Chip, IconButton, Button } from 'react-native-paper';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useAuth } from '../../contexts/AuthContext';
-import { db } from '../../config/firebase';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import * as Animatable from 'react-native-animatable';
 import { getRunnerEarnings, subscribeToRunnerEarnings } from '../../services/runnerServices';
+import { EarningsSummary, LedgerEntry, subscribeToWallet } from '../../services/walletService';
+import { HeldFunds, getHeldFunds } from '../../services/escrowService';
 
 const EarningsScreen: React.FC<{ navigation: any; route: any }> = ({ navigation, route }) => {
   const { user } = useAuth();
@@ -15,7 +16,9 @@ const EarningsScreen: React.FC<{ navigation: any; route: any }> = ({ navigation,
   const insets = useSafeAreaInsets();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [completedErrands, setCompletedErrands] = useState<any[]>([]);
+  const [earningEntries, setEarningEntries] = useState<LedgerEntry[]>([]);
+  const [availableBalance, setAvailableBalance] = useState(0);
+  const [heldFunds, setHeldFunds] = useState<HeldFunds>({ total: 0, jobCount: 0 });
   const [totalEarnings, setTotalEarnings] = useState(0);
   const [todayEarnings, setTodayEarnings] = useState(0);
   const [weeklyEarnings, setWeeklyEarnings] = useState(0);
@@ -48,20 +51,29 @@ const EarningsScreen: React.FC<{ navigation: any; route: any }> = ({ navigation,
     { id: 'all', label: 'All Time', icon: 'calendar' },
   ];
 
+  // Everything on this screen is derived from the runner's ledger entries
+  const applyEarnings = useCallback((earningsData: EarningsSummary) => {
+    setEarningEntries(earningsData.earningEntries);
+    setTotalEarnings(earningsData.totalEarnings);
+    setTodayEarnings(earningsData.todayEarnings);
+    setWeeklyEarnings(earningsData.weeklyEarnings);
+    setMonthlyEarnings(earningsData.monthlyEarnings);
+    setEarningsBreakdown(earningsData.earningsBreakdown);
+  }, []);
+
   const fetchEarnings = useCallback(async () => {
     if (!user?.uid) return;
     
     try {
     setLoading(true);
-      // Use the new backend function
-      const earningsData = await getRunnerEarnings(user.uid);
+      const [earningsData, held] = await Promise.all([
+        getRunnerEarnings(user.uid),
+        getHeldFunds(user.uid),
+      ]);
       
-      setCompletedErrands(earningsData.completedErrands);
-      setTotalEarnings(earningsData.totalEarnings);
-      setTodayEarnings(earningsData.todayEarnings);
-      setWeeklyEarnings(earningsData.weeklyEarnings);
-      setMonthlyEarnings(earningsData.monthlyEarnings);
-      setEarningsBreakdown(earningsData.earningsBreakdown);
+      applyEarnings(earningsData);
+      setAvailableBalance(earningsData.availableBalance);
+      setHeldFunds(held);
       
       setLoading(false);
       setRefreshing(false);
@@ -70,66 +82,22 @@ const EarningsScreen: React.FC<{ navigation: any; route: any }> = ({ navigation,
         setLoading(false);
         setRefreshing(false);
     }
-  }, [user?.uid]);
+  }, [user?.uid, applyEarnings]);
 
   // Set up real-time subscription
   useEffect(() => {
     if (!user?.uid) return;
     
-    const unsubscribe = subscribeToRunnerEarnings(user.uid, (earningsData) => {
-      setCompletedErrands(earningsData.completedErrands);
-      setTotalEarnings(earningsData.totalEarnings);
-      setTodayEarnings(earningsData.todayEarnings);
-      
-      // Calculate other periods from the real-time data
-      const today = new Date();
-      const startOfWeek = new Date(today.getTime() - (today.getDay() * 24 * 60 * 60 * 1000));
-      const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-      
-      const weeklyTotal = earningsData.completedErrands.filter((errand: any) => {
-        if (!errand.completedAt || !errand.completedAt.toDate) return false;
-        const completedAt = errand.completedAt.toDate();
-        return completedAt >= startOfWeek;
-      }).reduce((sum: number, errand: any) => sum + (errand.fee || errand.amount || 0), 0);
-      
-      const monthlyTotal = earningsData.completedErrands.filter((errand: any) => {
-        if (!errand.completedAt || !errand.completedAt.toDate) return false;
-        const completedAt = errand.completedAt.toDate();
-        return completedAt >= startOfMonth;
-      }).reduce((sum: number, errand: any) => sum + (errand.fee || errand.amount || 0), 0);
-      
-      setWeeklyEarnings(weeklyTotal);
-      setMonthlyEarnings(monthlyTotal);
-      
-      // Calculate breakdown
-      const breakdown = {
-        food: 0,
-        grocery: 0,
-        express: 0,
-        package: 0,
-        errand: 0,
-      };
-      
-      earningsData.completedErrands.forEach((errand: any) => {
-        const category = errand.category?.toLowerCase() || 'errand';
-        const amount = errand.fee || errand.amount || 0;
-        
-        if (category.includes('food')) breakdown.food += amount;
-        else if (category.includes('grocery')) breakdown.grocery += amount;
-        else if (category.includes('express')) breakdown.express += amount;
-        else if (category.includes('package')) breakdown.package += amount;
-        else breakdown.errand += amount;
-      });
-      
-      setEarningsBreakdown(breakdown);
-    });
+    const unsubscribe = subscribeToRunnerEarnings(user.uid, applyEarnings);
+    const unsubscribeWallet = subscribeToWallet(user.uid, (wallet) => setAvailableBalance(wallet.balance));
     
     return () => {
       if (unsubscribe) {
         unsubscribe();
       }
+      unsubscribeWallet();
     };
-  }, [user?.uid]);
+  }, [user?.uid, applyEarnings]);
 
   useEffect(() => {
     fetchEarnings();
@@ -150,7 +118,7 @@ const EarningsScreen: React.FC<{ navigation: any; route: any }> = ({ navigation,
     }
   };
 
-  const renderEarningsCard = ({ item }: { item: any }) => (
+  const renderEarningsCard = ({ item }: { item: LedgerEntry }) => (
     <Animatable.View
       animation="fadeInUp"
       delay={100}
@@ -161,7 +129,7 @@ const EarningsScreen: React.FC<{ navigation: any; route: any }> = ({ navigation,
           <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 8 }}>
           <MaterialCommunityIcons name="cash" size={20} color={theme.colors.primary} style={{ marginRight: 8 }} />
             <Text variant="titleSmall" style={{ color: theme.colors.primary, fontWeight: 'bold' }}>
-              ₦{(item.fee || item.amount || 0).toLocaleString()}
+              ₦{item.amount.toLocaleString()}
             </Text>
             <View style={{ marginLeft: 'auto' }}>
               <Chip 
@@ -169,27 +137,16 @@ const EarningsScreen: React.FC<{ navigation: any; route: any }> = ({ navigation,
                 textStyle={{ fontSize: 10 }}
                 style={{ height: 24 }}
               >
-                {item.category || 'Errand'}
+                {item.metadata?.category || (item.type === 'order_settlement' ? 'Order' : 'Errand')}
               </Chip>
             </View>
         </View>
           <Text style={{ color: theme.colors.onSurface, marginBottom: 4, fontWeight: '600' }}>
-            {item.store?.name || item.title || 'Errand'}
+            {item.description || 'Errand'}
           </Text>
-          <Text style={{ color: theme.colors.onSurfaceVariant, marginBottom: 4, fontSize: 12 }}>
-            {item.customer?.address || item.deliveryAddress || 'Delivery Address'}
+          <Text style={{ color: theme.colors.onSurfaceVariant, fontSize: 12 }}>
+            {item.createdAt && item.createdAt.toDate ? item.createdAt.toDate().toLocaleString() : 'Just now'}
           </Text>
-          <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
-        <Text style={{ color: theme.colors.onSurfaceVariant, fontSize: 12 }}>
-          {item.completedAt && item.completedAt.toDate ? item.completedAt.toDate().toLocaleString() : 'Completed'}
-        </Text>
-            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
-              <MaterialCommunityIcons name="map-marker-distance" size={14} color={theme.colors.onSurfaceVariant} />
-              <Text style={{ color: theme.colors.onSurfaceVariant, fontSize: 12, marginLeft: 4 }}>
-                {item.distance || 'N/A'}
-              </Text>
-            </View>
-          </View>
         </Card.Content>
       </Card>
     </Animatable.View>
@@ -248,9 +205,17 @@ const EarningsScreen: React.FC<{ navigation: any; route: any }> = ({ navigation,
           <Text variant="headlineMedium" style={{ color: theme.colors.primary, fontWeight: 'bold', marginBottom: 8 }}>
             Earnings Dashboard
           </Text>
-          <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 16 }}>
+          <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 8 }}>
             Track your earnings and performance
           </Text>
+          <Chip icon="wallet" mode="outlined" style={{ alignSelf: 'flex-start', marginBottom: 8 }}>
+            Available balance: ₦{availableBalance.toLocaleString()}
+          </Chip>
+          {heldFunds.jobCount > 0 && (
+            <Chip icon="lock-clock" mode="outlined" style={{ alignSelf: 'flex-start', marginBottom: 8 }}>
+              Held until delivery confirmed: ₦{heldFunds.total.toLocaleString()} ({heldFunds.jobCount})
+            </Chip>
+          )}
         </Animatable.View>
 
         {/* Period Selector */}
@@ -323,14 +288,14 @@ const EarningsScreen: React.FC<{ navigation: any; route: any }> = ({ navigation,
                   <MaterialCommunityIcons name="package-variant" size={24} color="#4CAF50" style={{ marginBottom: 4 }} />
                   <Text variant="titleSmall" style={{ color: theme.colors.onSurface }}>Completed</Text>
                   <Text variant="titleMedium" style={{ color: "#4CAF50", fontWeight: 'bold' }}>
-                    {completedErrands.length}
+                    {earningEntries.length}
                   </Text>
                 </View>
                 <View style={{ alignItems: 'center', flex: 1 }}>
                   <MaterialCommunityIcons name="clock-outline" size={24} color="#2196F3" style={{ marginBottom: 4 }} />
                   <Text variant="titleSmall" style={{ color: theme.colors.onSurface }}>Average</Text>
                   <Text variant="titleMedium" style={{ color: "#2196F3", fontWeight: 'bold' }}>
-                    ₦{completedErrands.length > 0 ? Math.round(getSelectedEarnings() / completedErrands.length).toLocaleString() : '0'}
+                    ₦{earningEntries.length > 0 ? Math.round(getSelectedEarnings() / earningEntries.length).toLocaleString() : '0'}
                   </Text>
                 </View>
                 <View style={{ alignItems: 'center', flex: 1 }}>
@@ -375,7 +340,7 @@ const EarningsScreen: React.FC<{ navigation: any; route: any }> = ({ navigation,
               Recent Deliveries
             </Text>
             <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
-              {completedErrands.length} completed
+              {earningEntries.length} completed
             </Text>
           </View>
           
@@ -386,7 +351,7 @@ const EarningsScreen: React.FC<{ navigation: any; route: any }> = ({ navigation,
                 Loading earnings...
               </Text>
             </View>
-          ) : completedErrands.length === 0 ? (
+          ) : earningEntries.length === 0 ? (
             <Card style={{ backgroundColor: theme.colors.surface, padding: 32, alignItems: 'center' }}>
               <MaterialCommunityIcons name="cash-multiple" size={48} color={theme.colors.onSurfaceVariant} />
               <Text style={{ color: theme.colors.onSurface, marginTop: 16, fontSize: 16, fontWeight: '600', textAlign: 'center' }}>
@@ -398,7 +363,7 @@ const EarningsScreen: React.FC<{ navigation: any; route: any }> = ({ navigation,
             </Card>
           ) : (
             <FlatList
-              data={completedErrands.slice(0, 10)} // Show only recent 10
+              data={earningEntries.slice(0, 10)} // Show only recent 10
               keyExtractor={item => item.id}
               renderItem={renderEarningsCard}
               scrollEnabled={false}
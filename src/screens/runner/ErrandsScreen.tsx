@@ -15,6 +15,8 @@ import { updateRunnerLocation, updateAvailability, getProfile, updateErrandStatu
 import { useRunnerAvailability } from '../../contexts/RunnerAvailabilityContext';
 import io from 'socket.io-client';
 import { PRODUCTION_CONFIG } from '../../config/production';
+import ProofOfDeliveryModal from '../../components/ProofOfDeliveryModal';
+import { BreadcrumbRecorder, createBreadcrumbRecorder } from '../../services/breadcrumbService';
 
 interface ErrandsScreenProps {
   navigation: RunnerNavigationProp;
@@ -77,6 +79,7 @@ const ErrandsScreen: React.FC<ErrandsScreenProps> = ({ navigation, route }) => {
   const [stats, setStats] = useState({ active: 0, completed: 0, earnings: 0 });
   const [tracking, setTracking] = useState(false);
   const trackingInterval = useRef<NodeJS.Timeout | null>(null);
+  const breadcrumbRecorder = useRef<BreadcrumbRecorder | null>(null);
   const { isAvailable, setAvailability, loading: availabilityLoading } = useRunnerAvailability();
   const [refreshing, setRefreshing] = useState(false);
   const [sortMenuVisible, setSortMenuVisible] = useState(false);
@@ -86,6 +89,7 @@ const ErrandsScreen: React.FC<ErrandsScreenProps> = ({ navigation, route }) => {
   // Handle navigation parameters from notifications
   const [highlightedErrandId, setHighlightedErrandId] = useState<string | null>(null);
   const [highlightedOrderId, setHighlightedOrderId] = useState<string | null>(null);
+  const [proofErrand, setProofErrand] = useState<Errand | null>(null);
 
   // Handle route parameters when component mounts or route changes
   useEffect(() => {
@@ -217,8 +221,8 @@ const ErrandsScreen: React.FC<ErrandsScreenProps> = ({ navigation, route }) => {
   const confirmAcceptErrand = async () => {
     if (selectedErrand && user) {
       try {
-        const { updateErrandStatus } = await import('../../services/runnerServices');
-        await updateErrandStatus(user.uid, selectedErrand.id, 'accepted');
+        const { acceptErrand } = await import('../../services/runnerServices');
+        await acceptErrand(selectedErrand.id);
         
         if (socket) {
           socket.emit('statusUpdate', { id: selectedErrand.id, status: 'accepted' });
@@ -265,19 +269,16 @@ const ErrandsScreen: React.FC<ErrandsScreenProps> = ({ navigation, route }) => {
     }
   };
 
-  const handleMarkDelivered = async (errand: Errand) => {
-    try {
-      const { updateErrandStatus } = await import('../../services/runnerServices');
-      await updateErrandStatus(user?.uid || '', errand.id, 'completed');
-      
+  // Completion needs the buyer's handoff code or a no-contact photo
+  const handleMarkDelivered = (errand: Errand) => {
+    setProofErrand(errand);
+  };
+
+  const handleDeliveryProven = (errand: Errand) => {
     if (socket) {
       socket.emit('statusUpdate', { id: errand.id, status: 'completed' });
     }
     stopLocationTracking();
-    } catch (error) {
-      console.error('Error marking errand as delivered:', error);
-      Alert.alert('Error', 'Failed to mark errand as delivered. Please try again.');
-    }
   };
 
   const startLocationTracking = async (errandId: string) => {
@@ -287,8 +288,12 @@ const ErrandsScreen: React.FC<ErrandsScreenProps> = ({ navigation, route }) => {
       return;
     }
     setTracking(true);
+    if (user?.uid) {
+      breadcrumbRecorder.current = createBreadcrumbRecorder('errand', errandId, user.uid);
+    }
     trackingInterval.current = setInterval(async () => {
       const location = await Location.getCurrentPositionAsync({});
+      breadcrumbRecorder.current?.record(location);
       if (user?.uid) {
         await updateRunnerLocation(user.uid, location.coords.latitude, location.coords.longitude);
       }
@@ -307,6 +312,10 @@ const ErrandsScreen: React.FC<ErrandsScreenProps> = ({ navigation, route }) => {
       clearInterval(trackingInterval.current);
       trackingInterval.current = null;
     }
+    if (breadcrumbRecorder.current) {
+      breadcrumbRecorder.current.flush();
+      breadcrumbRecorder.current = null;
+    }
   };
 
   useEffect(() => {
@@ -844,6 +853,17 @@ const ErrandsScreen: React.FC<ErrandsScreenProps> = ({ navigation, route }) => {
               </Dialog.Actions>
             </Dialog>
           </Portal>
+
+          {proofErrand && user?.uid && (
+            <ProofOfDeliveryModal
+              visible
+              jobType="errand"
+              jobId={proofErrand.id}
+              runnerId={user.uid}
+              onDismiss={() => setProofErrand(null)}
+              onCompleted={() => handleDeliveryProven(proofErrand)}
+            />
+          )}
         </ScrollView>
       )}
     </SafeAreaView>
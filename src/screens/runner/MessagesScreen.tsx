@@ -6,7 +6,7 @@ import { RunnerNavigationProp } from '../../navigation/types';
 import { useTheme } from '../../contexts/ThemeContext';
 import { MaterialCommunityIcons, Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../../contexts/AuthContext';
-import { getChats } from '../../services/runnerServices';
+import { ChatSummary, getChatSummaries } from '../../services/chatService';
 import * as Animatable from 'react-native-animatable';
 
 interface MessagesScreenProps {
@@ -17,7 +17,7 @@ interface MessagesScreenProps {
 const MessagesScreen: React.FC<MessagesScreenProps> = ({ navigation, route }) => {
   const { user } = useAuth();
   const { theme } = useTheme();
-  const [chats, setChats] = useState<any[]>([]);
+  const [chats, setChats] = useState<ChatSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   
@@ -34,16 +34,16 @@ const MessagesScreen: React.FC<MessagesScreenProps> = ({ navigation, route }) =>
   }, [route?.params]);
 
   const [searchQuery, setSearchQuery] = useState('');
-  const [filteredChats, setFilteredChats] = useState<any[]>([]);
+  const [filteredChats, setFilteredChats] = useState<ChatSummary[]>([]);
   const scrollY = new Animated.Value(0);
 
   const fetchChats = useCallback(async () => {
     if (!user?.uid) return;
     
     try {
-      const data = await getChats(user.uid);
-      setChats(data as any[]);
-      setFilteredChats(data as any[]);
+      const data = await getChatSummaries(user.uid);
+      setChats(data);
+      setFilteredChats(data);
     } catch (e) {
       console.error('Failed to fetch chats:', e);
     }
@@ -7,7 +7,9 @@ import { useTheme } from '../../contexts/ThemeContext';
 import { useAuth } from '../../contexts/AuthContext';
 import { db } from '../../config/firebase';
 import NotificationDrawer from '../../components/NotificationDrawer';
-import { getProfile } from '../../services/runnerServices';
+import DispatchOfferCard from '../../components/DispatchOfferCard';
+import { getProfile, updateAvailability } from '../../services/runnerServices';
+import { DispatchOffer, subscribeToDispatchOffers } from '../../services/dispatchService';
 import { getUserNotifications, markNotificationAsRead, markAllNotificationsAsRead } from '../../services/notificationService';
 
 const RunnerDashboardScreen = ({ navigation }: any) => {
@@ -25,11 +27,18 @@ const RunnerDashboardScreen = ({ navigation }: any) => {
   const [currentTime, setCurrentTime] = useState('');
   const [notifications, setNotifications] = useState<any[]>([]);
   const [notificationDrawerVisible, setNotificationDrawerVisible] = useState(false);
+  const [offers, setOffers] = useState<DispatchOffer[]>([]);
 
   useEffect(() => {
     if (!user?.uid) return;
     // Fetch runner profile
-    getProfile(user.uid).then(setProfile);
+    getProfile(user.uid).then((profileData: any) => {
+      setProfile(profileData);
+      setIsOnline(profileData?.status !== 'offline');
+    });
+
+    // Offers from automatic dispatch, shown until accepted, declined or expired
+    const unsubscribeOffers = subscribeToDispatchOffers(user.uid, setOffers);
     
     // Set up real-time listener for notifications
     const unsubscribe = db
@@ -74,9 +83,23 @@ const RunnerDashboardScreen = ({ navigation }: any) => {
       setStats(s => ({ ...s, rating: actualRating }));
     });
 
-    return () => unsubscribe();
+    return () => {
+      unsubscribe();
+      unsubscribeOffers();
+    };
   }, [user?.uid]);
 
+  const handleOnlineToggle = async (value: boolean) => {
+    setIsOnline(value);
+    if (!user?.uid) return;
+    try {
+      await updateAvailability(user.uid, value);
+    } catch (error) {
+      console.error('Error updating availability:', error);
+      setIsOnline(!value);
+    }
+  };
+
   useEffect(() => {
     // Greeting and time
     const updateGreeting = () => {
@@ -204,6 +227,14 @@ const RunnerDashboardScreen = ({ navigation }: any) => {
           onNotificationPress={handleNotificationPress}
           onClearAll={handleClearAllNotifications}
         />
+        {/* Live dispatch offers */}
+        {offers.map((offer) => (
+          <DispatchOfferCard
+            key={offer.id}
+            offer={offer}
+            onAccepted={(errandId) => navigation.navigate('Errands', { filter: 'accepted', selectedErrandId: errandId })}
+          />
+        ))}
         {/* Motivational Card if no errands */}
         {stats.active === 0 && (
           <Card style={[styles.motivationCard, { backgroundColor: theme.colors.surface, borderColor: theme.colors.primary }]}>
@@ -224,7 +255,7 @@ const RunnerDashboardScreen = ({ navigation }: any) => {
             <Text variant="titleMedium" style={{ color: theme.colors.onSurface }}>
               {isOnline ? 'Online' : 'Offline'}
             </Text>
-            <Switch value={isOnline} onValueChange={setIsOnline} color={theme.colors.primary} />
+            <Switch value={isOnline} onValueChange={handleOnlineToggle} color={theme.colors.primary} />
           </Card.Content>
         </Card>
         {/* Stats Cards as 2x2 grid */}
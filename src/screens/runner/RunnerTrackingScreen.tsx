@@ -8,8 +8,39 @@ import { db } from '../../config/firebase';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import io from 'socket.io-client';
 import * as Location from 'expo-location';
-import { updateErrandStatus, updateRunnerLocation } from '../../services/runnerServices';
+import { getProfile, startRunnerLocationTracking, updateErrandStatus, updateRunnerLocation } from '../../services/runnerServices';
 import { PRODUCTION_CONFIG } from '../../config/production';
+import ProofOfDeliveryModal from '../../components/ProofOfDeliveryModal';
+import {
+  ErrandStop,
+  ErrandStopStatus,
+  STOP_STATUS_LABELS,
+  getErrandStops,
+  getNextStop,
+  getStopProgress,
+  updateErrandStopStatus,
+} from '../../services/errandStopsService';
+import {
+  DEFAULT_GEOFENCE_SETTINGS,
+  GEOFENCE_MODE_LABELS,
+  GEOFENCE_RADIUS_OPTIONS,
+  GeofenceMode,
+  GeofenceSettings,
+  JobGeofence,
+  getGeofenceSettings,
+  getGeofenceTransition,
+  getJobGeofences,
+  recordGeofenceEvent,
+  toGeofenceConfig,
+  updateGeofenceSettings,
+} from '../../services/geofenceService';
+import { GeofenceState, evaluateGeofences } from '../../utils/geofence';
+import { BreadcrumbRecorder, createBreadcrumbRecorder, isBreadcrumbStatus } from '../../services/breadcrumbService';
+import TripReplayModal from '../../components/TripReplayModal';
+import { EtaTracker, createEtaTracker, getJobEta } from '../../services/etaService';
+import { formatEta, normalizeVehicleType } from '../../utils/eta';
+import { isOnline } from '../../services/offlineQueueService';
+import { AdaptiveLocationSubscription } from '../../utils/locationSampling';
 
 interface RunnerTrackingScreenProps {
   route: {
@@ -41,6 +72,8 @@ const RunnerTrackingScreen: React.FC<RunnerTrackingScreenProps> = ({ route, navi
   const [userLocation, setUserLocation] = useState<any>(null);
   const [isTracking, setIsTracking] = useState(false);
   const [activeTab, setActiveTab] = useState<'tracking' | 'details'>('tracking');
+  const [updatingStopId, setUpdatingStopId] = useState<string | null>(null);
+  const [proofVisible, setProofVisible] = useState(false);
   
   // Socket configuration
   const SOCKET_URL = PRODUCTION_CONFIG.SOCKET_URL;
@@ -48,35 +81,17 @@ const RunnerTrackingScreen: React.FC<RunnerTrackingScreenProps> = ({ route, navi
   const [isConnected, setIsConnected] = useState(false);
   
   const mapRef = useRef<MapView>(null);
-  const locationInterval = useRef<NodeJS.Timeout | null>(null);
-
-  // Calculate distance between two points
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c; // Distance in kilometers
-  };
+  const locationSubscription = useRef<AdaptiveLocationSubscription | null>(null);
+  const breadcrumbRecorder = useRef<BreadcrumbRecorder | null>(null);
+  const etaTracker = useRef<EtaTracker | null>(null);
+  const [replayVisible, setReplayVisible] = useState(false);
 
-  // Calculate ETA based on distance and average speed
-  const calculateETA = (distanceKm: number): string => {
-    const averageSpeedKmh = 15; // Average delivery speed in km/h
-    const timeHours = distanceKm / averageSpeedKmh;
-    const timeMinutes = Math.round(timeHours * 60);
-    
-    if (timeMinutes < 60) {
-      return `${timeMinutes} minutes`;
-    } else {
-      const hours = Math.floor(timeMinutes / 60);
-      const minutes = timeMinutes % 60;
-      return `${hours}h ${minutes}m`;
-    }
-  };
+  // Geofencing reads these from the location callback, so they live in refs
+  const [geofenceSettings, setGeofenceSettings] = useState<GeofenceSettings>(DEFAULT_GEOFENCE_SETTINGS);
+  const geofenceSettingsRef = useRef<GeofenceSettings>(DEFAULT_GEOFENCE_SETTINGS);
+  const jobRef = useRef<any>(null);
+  const fencesRef = useRef<JobGeofence[]>([]);
+  const fenceStatesRef = useRef<Record<string, GeofenceState>>({});
 
   // Get user's current location
   const getUserLocation = async () => {
@@ -111,28 +126,108 @@ const RunnerTrackingScreen: React.FC<RunnerTrackingScreenProps> = ({ route, navi
     }
   };
 
+  // Record crossings for the buyer and apply or offer the status change they imply
+  const handleGeofences = (location: Location.LocationObject) => {
+    const settings = geofenceSettingsRef.current;
+    if (!jobId || !user?.uid || settings.mode === 'off' || fencesRef.current.length === 0) return;
+
+    const { states, crossings } = evaluateGeofences(
+      fencesRef.current,
+      fenceStatesRef.current,
+      {
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+        accuracy: location.coords.accuracy,
+        timestamp: location.timestamp,
+      },
+      toGeofenceConfig(settings)
+    );
+    fenceStatesRef.current = states;
+
+    crossings.forEach(({ fenceId, crossing }) => {
+      const fence = fencesRef.current.find((item) => item.id === fenceId);
+      if (!fence) return;
+
+      const eventType = crossing === 'enter' ? 'arrived' : 'departed';
+      recordGeofenceEvent(jobType, jobId, fence, eventType)
+        .catch((error) => console.error('Error recording geofence event:', error));
+
+      const transition = getGeofenceTransition(jobType, user.uid, jobId, jobRef.current, fence, crossing);
+      if (!transition) return;
+
+      const apply = () => transition.apply().catch((error: any) => {
+        console.error('Error applying geofence transition:', error);
+        Alert.alert('Error', error.message || 'Failed to update status. Please try again.');
+      });
+      if (settings.mode === 'auto') {
+        apply();
+        return;
+      }
+      Alert.alert(
+        `${crossing === 'enter' ? 'Arrived at' : 'Left'} ${fence.label}`,
+        `Update the ${jobType}?`,
+        [
+          { text: 'Not Now', style: 'cancel' },
+          { text: transition.label, onPress: apply },
+        ]
+      );
+    });
+  };
+
+  const handleGeofenceSettingsChange = async (settings: GeofenceSettings) => {
+    if (!user?.uid) return;
+    setGeofenceSettings(settings);
+    geofenceSettingsRef.current = settings;
+    fenceStatesRef.current = {};
+    try {
+      await updateGeofenceSettings(user.uid, settings);
+    } catch (error) {
+      console.error('Error saving geofence settings:', error);
+    }
+  };
+
   // Start location tracking
   const startLocationTracking = async () => {
     if (!user?.uid) return;
     
     try {
-      await getUserLocation();
       setIsTracking(true);
+      if (jobId) {
+        breadcrumbRecorder.current = createBreadcrumbRecorder(jobType, jobId, user.uid);
+        const profile: any = await getProfile(user.uid);
+        etaTracker.current = createEtaTracker(jobType, jobId, normalizeVehicleType(profile?.vehicle));
+      }
       
-      // Update location every 15 seconds
-      locationInterval.current = setInterval(async () => {
-        const location = await getUserLocation();
-        if (location && socket) {
+      // Streams a fix every 15 seconds or 5 metres
+      locationSubscription.current = await startRunnerLocationTracking(user.uid, (location) => {
+        const current = {
+          latitude: location.coords.latitude,
+          longitude: location.coords.longitude,
+        };
+        setUserLocation(current);
+        if (socket) {
           socket.emit('locationUpdate', {
             id: jobId,
             type: jobType,
-            location: location,
+            location: current,
             runnerId: user.uid,
           });
         }
-      }, 15000);
+        if (isBreadcrumbStatus(jobType, jobRef.current?.status)) {
+          breadcrumbRecorder.current?.record(location);
+        }
+        handleGeofences(location);
+        etaTracker.current?.update(location, jobRef.current)
+          .then((estimate) => {
+            if (!estimate) return;
+            setEta(formatEta(estimate.minutes));
+            setDistance(`${estimate.remainingKm.toFixed(1)} km`);
+          })
+          .catch((error) => console.error('Error updating ETA:', error));
+      }, () => isBreadcrumbStatus(jobType, jobRef.current?.status));
       
     } catch (error) {
+      setIsTracking(false);
       console.error('Error starting location tracking:', error);
       Alert.alert('Error', 'Failed to start location tracking.');
     }
@@ -141,10 +236,15 @@ const RunnerTrackingScreen: React.FC<RunnerTrackingScreenProps> = ({ route, navi
   // Stop location tracking
   const stopLocationTracking = () => {
     setIsTracking(false);
-    if (locationInterval.current) {
-      clearInterval(locationInterval.current);
-      locationInterval.current = null;
+    if (locationSubscription.current) {
+      locationSubscription.current.remove();
+      locationSubscription.current = null;
     }
+    if (breadcrumbRecorder.current) {
+      breadcrumbRecorder.current.flush();
+      breadcrumbRecorder.current = null;
+    }
+    etaTracker.current = null;
   };
 
   // Handle status updates
@@ -156,6 +256,9 @@ const RunnerTrackingScreen: React.FC<RunnerTrackingScreenProps> = ({ route, navi
       if (jobType === 'errand') {
         await updateErrandStatus(user.uid, jobId, newStatus);
       }
+      if (!isOnline()) {
+        Alert.alert('Saved Offline', 'The status change will be sent when you are back online.');
+      }
       
       // Emit status update via socket
       if (socket) {
@@ -178,6 +281,34 @@ const RunnerTrackingScreen: React.FC<RunnerTrackingScreenProps> = ({ route, navi
     }
   };
 
+  // The errand was completed through proof of delivery
+  const handleDeliveryProven = () => {
+    if (socket && user?.uid) {
+      socket.emit('statusUpdate', {
+        id: jobId,
+        type: jobType,
+        status: 'completed',
+        runnerId: user.uid,
+      });
+    }
+    stopLocationTracking();
+  };
+
+  // Mark the next stop as arrived or completed
+  const handleStopUpdate = async (stop: ErrandStop, status: ErrandStopStatus) => {
+    if (!jobId) return;
+    
+    setUpdatingStopId(stop.id);
+    try {
+      await updateErrandStopStatus(jobId, stop.id, status);
+    } catch (error: any) {
+      console.error('Error updating stop:', error);
+      Alert.alert('Error', error.message || 'Failed to update stop. Please try again.');
+    } finally {
+      setUpdatingStopId(null);
+    }
+  };
+
   // Get progress percentage based on status
   const getProgressPercentage = () => {
     if (!job) return 0;
@@ -260,18 +391,6 @@ const RunnerTrackingScreen: React.FC<RunnerTrackingScreenProps> = ({ route, navi
       if (snapshot.exists) {
         const jobData = { id: snapshot.id, ...snapshot.data() } as any;
         setJob(jobData);
-        
-        // Calculate distance and ETA if we have locations
-        if (userLocation && jobData.customerLocation) {
-          const dist = calculateDistance(
-            userLocation.latitude,
-            userLocation.longitude,
-            jobData.customerLocation.latitude,
-            jobData.customerLocation.longitude
-          );
-          setDistance(`${dist.toFixed(1)} km`);
-          setEta(calculateETA(dist));
-        }
       }
       setLoading(false);
     }, (error) => {
@@ -280,13 +399,58 @@ const RunnerTrackingScreen: React.FC<RunnerTrackingScreenProps> = ({ route, navi
     });
     
     return () => unsubscribe();
-  }, [jobId, jobType, userLocation]);
+  }, [jobId, jobType]);
+
+  // Show the last saved estimate until tracking produces a fresh one
+  useEffect(() => {
+    if (!jobId) return;
+    getJobEta(jobType, jobId)
+      .then((saved) => {
+        if (saved && !etaTracker.current) {
+          setDistance(`${Number(saved.remainingKm).toFixed(1)} km`);
+          setEta(formatEta(saved.minutes));
+        }
+      })
+      .catch((error) => console.error('Error loading saved ETA:', error));
+  }, [jobId, jobType]);
 
   // Get user location on mount
   useEffect(() => {
     getUserLocation();
   }, []);
 
+  useEffect(() => {
+    if (!user?.uid) return;
+    getGeofenceSettings(user.uid)
+      .then((settings) => {
+        setGeofenceSettings(settings);
+        geofenceSettingsRef.current = settings;
+      })
+      .catch((error) => console.error('Error loading geofence settings:', error));
+  }, [user?.uid]);
+
+  // Fences follow the job's route; crossings are judged against its latest status
+  useEffect(() => {
+    jobRef.current = job;
+  }, [job]);
+
+  // Sampling slows down once the job is no longer being worked
+  const jobStatus = job?.status;
+  useEffect(() => {
+    locationSubscription.current?.refresh();
+  }, [jobStatus]);
+
+  const jobLoaded = !!job;
+  useEffect(() => {
+    if (!jobLoaded) return;
+    getJobGeofences(jobType, jobRef.current)
+      .then((fences) => {
+        fencesRef.current = fences;
+        fenceStatesRef.current = {};
+      })
+      .catch((error) => console.error('Error loading geofences:', error));
+  }, [jobId, jobType, jobLoaded]);
+
   // Auto-fit map to show all markers
   useEffect(() => {
     if (mapRef.current && job && userLocation) {
@@ -307,6 +471,13 @@ const RunnerTrackingScreen: React.FC<RunnerTrackingScreenProps> = ({ route, navi
         coordinates.push(job.pickupLocation);
       }
 
+      // Add every errand stop along the route
+      if (jobType === 'errand') {
+        getErrandStops(job).forEach((stop) => {
+          if (stop.coordinates) coordinates.push(stop.coordinates);
+        });
+      }
+
       if (coordinates.length > 0) {
         mapRef.current.fitToCoordinates(coordinates, {
           edgePadding: { top: 50, right: 50, bottom: 50, left: 50 },
@@ -345,6 +516,15 @@ const RunnerTrackingScreen: React.FC<RunnerTrackingScreenProps> = ({ route, navi
     );
   }
 
+  // Errand route progress; only errands created with stops can update them one by one
+  const stops = jobType === 'errand' ? getErrandStops(job) : [];
+  const nextStop = getNextStop(stops);
+  const stopProgress = getStopProgress(stops);
+  const canUpdateStops = Array.isArray(job.stops) && job.stops.length > 0;
+  const finalStop = stops[stops.length - 1];
+  // The final dropoff is completed with the handoff, so only earlier stops hold it up
+  const stopsOutstanding = canUpdateStops && !!nextStop && nextStop.id !== finalStop?.id;
+
   return (<SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
       {/* Header */}
       <View style={[styles.header, { backgroundColor: theme.colors.surface }]}>
@@ -518,6 +698,17 @@ const RunnerTrackingScreen: React.FC<RunnerTrackingScreenProps> = ({ route, navi
                       </Marker>
                     )}
 
+                    {/* Errand Stop Markers */}
+                    {stops.map((stop, index) => stop.coordinates && (
+                      <Marker
+                        key={stop.id}
+                        coordinate={stop.coordinates}
+                        title={`Stop ${index + 1}: ${stop.type === 'dropoff' ? 'Dropoff' : 'Pickup'}`}
+                        description={`${stop.address} (${STOP_STATUS_LABELS[stop.status]})`}
+                        pinColor={stop.status === 'completed' ? 'green' : stop.id === nextStop?.id ? 'orange' : 'red'}
+                      />
+                    ))}
+
                     {/* Route Polyline */}
                     {routeCoordinates.length > 1 && (
                       <Polyline
@@ -554,6 +745,85 @@ const RunnerTrackingScreen: React.FC<RunnerTrackingScreenProps> = ({ route, navi
             </Card>
           )}
 
+          {/* Errand Stops */}
+          {stops.length > 0 && (
+            <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+              <Card.Content>
+                <View style={styles.mapHeader}>
+                  <Text variant="titleMedium" style={{ color: theme.colors.onSurface, fontWeight: 'bold' }}>
+                    Stops
+                  </Text>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                    {stopProgress.completed} of {stopProgress.total} done
+                  </Text>
+                </View>
+                <ProgressBar 
+                  progress={stopProgress.progress} 
+                  color={theme.colors.primary} 
+                  style={{ height: 6, borderRadius: 3, marginBottom: 12 }}
+                />
+                {nextStop && (
+                  <Text variant="bodyMedium" style={{ color: theme.colors.primary, marginBottom: 12, fontWeight: '600' }}>
+                    Next stop: {nextStop.address}
+                  </Text>
+                )}
+                
+                {stops.map((stop, index) => {
+                  const isNext = stop.id === nextStop?.id;
+                  return (
+                    <View
+                      key={stop.id}
+                      style={[
+                        styles.stopRow,
+                        { borderColor: isNext ? theme.colors.primary : theme.colors.outlineVariant },
+                      ]}
+                    >
+                      <MaterialCommunityIcons
+                        name={stop.status === 'completed'
+                          ? 'check-circle'
+                          : stop.type === 'dropoff' ? 'flag-checkered' : 'package-variant'}
+                        size={22}
+                        color={stop.status === 'completed' ? '#4CAF50' : isNext ? theme.colors.primary : theme.colors.onSurfaceVariant}
+                      />
+                      <View style={styles.stopContent}>
+                        <Text variant="bodyMedium" style={{ color: theme.colors.onSurface, fontWeight: '600' }}>
+                          {index + 1}. {stop.type === 'dropoff' ? 'Dropoff' : 'Pickup'} - {STOP_STATUS_LABELS[stop.status]}
+                        </Text>
+                        <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                          {stop.address}
+                        </Text>
+                        {stop.items.length > 0 && (
+                          <Text variant="bodySmall" style={{ color: theme.colors.onSurface, marginTop: 2 }}>
+                            Items: {stop.items.join(', ')}
+                          </Text>
+                        )}
+                        {!!stop.instructions && (
+                          <Text variant="bodySmall" style={{ color: theme.colors.onSurface, marginTop: 2, fontStyle: 'italic' }}>
+                            {stop.instructions}
+                          </Text>
+                        )}
+                        {isNext && canUpdateStops && (
+                          <Button
+                            mode="contained-tonal"
+                            compact
+                            onPress={() => (stop.status !== 'pending' && stop.id === finalStop?.id
+                              ? setProofVisible(true)
+                              : handleStopUpdate(stop, stop.status === 'pending' ? 'arrived' : 'completed'))}
+                            loading={updatingStopId === stop.id}
+                            disabled={!!updatingStopId}
+                            style={styles.stopButton}
+                          >
+                            {stop.status === 'pending' ? 'Arrived' : stop.type === 'dropoff' ? 'Hand Over' : 'Picked Up'}
+                          </Button>
+                        )}
+                      </View>
+                    </View>
+                  );
+                })}
+              </Card.Content>
+            </Card>
+          )}
+
           {/* Action Buttons */}
           <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
             <Card.Content>
@@ -590,14 +860,13 @@ const RunnerTrackingScreen: React.FC<RunnerTrackingScreenProps> = ({ route, navi
                 
                 {job.status === 'on_the_way' && (<Button
                     mode="contained"
-                    onPress={() => handleStatusUpdate('completed')}
-                    style={[styles.actionButton, { backgroundColor: theme.colors.primary }]}
+                    onPress={() => setProofVisible(true)}
+                    style={[styles.actionButton, { backgroundColor: stopsOutstanding ? theme.colors.surfaceDisabled : theme.colors.primary }]}
                     labelStyle={{ color: 'white' }}
                     icon="check-circle"
-                    loading={updating}
-                    disabled={updating}
+                    disabled={updating || stopsOutstanding}
                   >
-                    Mark Delivered
+                    {stopsOutstanding ? 'Complete All Pickups First' : 'Mark Delivered'}
                   </Button>
                 )}
                 
@@ -612,6 +881,42 @@ const RunnerTrackingScreen: React.FC<RunnerTrackingScreenProps> = ({ route, navi
               </View>
             </Card.Content>
           </Card>
+
+          {/* Geofence-driven status updates while tracking */}
+          <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
+            <Card.Content>
+              <Text variant="titleMedium" style={{ color: theme.colors.onSurface, fontWeight: 'bold', marginBottom: 4 }}>
+                Arrival Detection
+              </Text>
+              <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 12 }}>
+                While tracking, arriving at or leaving a pickup or dropoff can update the {jobType} for you.
+              </Text>
+              <SegmentedButtons
+                value={geofenceSettings.mode}
+                onValueChange={(mode) => handleGeofenceSettingsChange({ ...geofenceSettings, mode: mode as GeofenceMode })}
+                buttons={(Object.keys(GEOFENCE_MODE_LABELS) as GeofenceMode[]).map((mode) => ({
+                  value: mode,
+                  label: GEOFENCE_MODE_LABELS[mode],
+                }))}
+              />
+              {geofenceSettings.mode !== 'off' && (
+                <View style={styles.radiusOptions}>
+                  <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginRight: 8 }}>Radius</Text>
+                  {GEOFENCE_RADIUS_OPTIONS.map((radius) => (
+                    <Chip
+                      key={radius}
+                      compact
+                      selected={geofenceSettings.radiusMeters === radius}
+                      onPress={() => handleGeofenceSettingsChange({ ...geofenceSettings, radiusMeters: radius })}
+                      style={styles.radiusChip}
+                    >
+                      {radius} m
+                    </Chip>
+                  ))}
+                </View>
+              )}
+            </Card.Content>
+          </Card>
         </ScrollView>
       ) : (
         <ScrollView style={styles.scrollContainer}>
@@ -663,15 +968,48 @@ const RunnerTrackingScreen: React.FC<RunnerTrackingScreenProps> = ({ route, navi
                   {job.location || job.deliveryAddress || 'No address'}
                 </Text>
               </View>
+
+              <Button mode="outlined" icon="map-marker-path" onPress={() => setReplayVisible(true)} style={{ marginTop: 12 }}>
+                Replay Trip
+              </Button>
             </Card.Content>
           </Card>
         </ScrollView>
       )}
+
+      {jobType === 'errand' && !!jobId && user?.uid && (
+        <ProofOfDeliveryModal
+          visible={proofVisible}
+          jobType="errand"
+          jobId={jobId}
+          runnerId={user.uid}
+          onDismiss={() => setProofVisible(false)}
+          onCompleted={handleDeliveryProven}
+        />
+      )}
+
+      {!!jobId && (
+        <TripReplayModal
+          visible={replayVisible}
+          jobType={jobType}
+          jobId={jobId}
+          onDismiss={() => setReplayVisible(false)}
+        />
+      )}
     </SafeAreaView>
   );
 };
 
 const styles = StyleSheet.create({
+  radiusOptions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  radiusChip: {
+    marginRight: 6,
+  },
   container: {
     flex: 1,
   },
@@ -767,6 +1105,22 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 12,
   },
+  stopRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+  },
+  stopContent: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  stopButton: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
   runnerMarker: {
     alignItems: 'center',
   },
@@ -6,7 +6,7 @@ import { SellerNavigationProp } from '../../navigation/types';
 import { useTheme } from '../../contexts/ThemeContext';
 import * as Animatable from 'react-native-animatable';
 import { useAuth } from '../../contexts/AuthContext';
-import { getChats } from '../../services/sellerServices';
+import { ChatSummary, getChatSummaries } from '../../services/chatService';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 
 interface MessagesScreenProps {
@@ -16,8 +16,8 @@ interface MessagesScreenProps {
 const MessagesScreen: React.FC<MessagesScreenProps> = ({ navigation }) => {
   const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState('');
-  const [chats, setChats] = useState<any[]>([]);
-  const [filteredChats, setFilteredChats] = useState<any[]>([]);
+  const [chats, setChats] = useState<ChatSummary[]>([]);
+  const [filteredChats, setFilteredChats] = useState<ChatSummary[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const { theme } = useTheme();
 
@@ -25,9 +25,9 @@ const MessagesScreen: React.FC<MessagesScreenProps> = ({ navigation }) => {
     if (!user?.uid) return;
     
     try {
-      const data = await getChats(user.uid);
-      setChats(data as any[]);
-      setFilteredChats(data as any[]);
+      const data = await getChatSummaries(user.uid);
+      setChats(data);
+      setFilteredChats(data);
     } catch (e) {
       console.error('Failed to fetch chats:', e);
     }
@@ -93,7 +93,7 @@ const MessagesScreen: React.FC<MessagesScreenProps> = ({ navigation }) => {
                 style={styles.avatar}
               />
               <View style={[styles.onlineIndicator, { 
-                backgroundColor: item.isOnline ? COLORS.success : theme.colors.outlineVariant 
+                backgroundColor: item.online ? COLORS.success : theme.colors.outlineVariant 
               }]} />
               <Badge 
                 style={[
@@ -175,7 +175,7 @@ const MessagesScreen: React.FC<MessagesScreenProps> = ({ navigation }) => {
               </View>
               <View style={[styles.statItem, { backgroundColor: theme.colors.secondaryContainer }]}>
                 <Text variant="titleMedium" style={[styles.statNumber, { color: theme.colors.secondary }]}>
-                  {chats.filter(chat => chat.unreadCount > 0).length}
+                  {chats.filter(chat => chat.unread > 0).length}
                 </Text>
                 <Text variant="bodySmall" style={[styles.statLabel, { color: theme.colors.onSurfaceVariant }]}>
                   Unread
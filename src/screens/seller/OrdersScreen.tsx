@@ -7,6 +7,7 @@ import { SellerNavigationProp } from '../../navigation/types';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useAuth } from '../../contexts/AuthContext';
 import { getOrders, updateOrderStatus, subscribeToOrderUpdates } from '../../services/sellerServices';
+import { OrderStatus } from '../../constants/orderLifecycle';
 import * as Animatable from 'react-native-animatable';
 
 const { width } = Dimensions.get('window');
@@ -148,10 +149,10 @@ const OrdersScreen: React.FC<OrdersScreenProps> = ({ navigation }: OrdersScreenP
     ? orders
     : orders.filter((order: Order) => order.status === selectedStatus);
 
-  const handleUpdateStatus = async (orderId: string, newStatus: string) => {
+  const handleUpdateStatus = async (orderId: string, newStatus: OrderStatus) => {
     if (!user?.uid) return;
     try {
-      await updateOrderStatus(user.uid, orderId, newStatus);
+      await updateOrderStatus(orderId, newStatus);
       setOrders((prev: Order[]) => prev.map((order: Order) =>
         order.id === orderId ? { ...order, status: newStatus } : order
       ));
@@ -185,7 +186,7 @@ const OrdersScreen: React.FC<OrdersScreenProps> = ({ navigation }: OrdersScreenP
           const order = orders.find(o => o.id === orderId);
           if (order && order.status === 'confirmed') {
             try {
-              await updateOrderStatus(user.uid, orderId, 'available');
+              await updateOrderStatus(orderId, 'available');
               successCount++;
             } catch (e) {
               failCount++;
@@ -199,7 +200,7 @@ const OrdersScreen: React.FC<OrdersScreenProps> = ({ navigation }: OrdersScreenP
       case 'cancel': {
         for (const orderId of selectedOrders) {
           try {
-            await updateOrderStatus(user.uid, orderId, 'cancelled');
+            await updateOrderStatus(orderId, 'cancelled');
             successCount++;
           } catch (e) {
             failCount++;
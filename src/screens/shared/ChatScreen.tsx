@@ -1,23 +1,71 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { View, StyleSheet, FlatList, KeyboardAvoidingView, Platform, Animated, TouchableOpacity } from 'react-native';
-import { Text, TextInput, IconButton, Avatar, Divider } from 'react-native-paper';
-import { RouteProp } from '@react-navigation/native';
+import { View, StyleSheet, FlatList, KeyboardAvoidingView, Platform, Animated, TouchableOpacity, Alert, Image } from 'react-native';
+import { Text, TextInput, IconButton, Avatar, Divider, Menu, Modal, Portal, ActivityIndicator } from 'react-native-paper';
+import { RouteProp, useNavigation } from '@react-navigation/native';
+import * as ImagePicker from 'expo-image-picker';
+import * as Location from 'expo-location';
+import { RecordingPresets, requestRecordingPermissionsAsync, setAudioModeAsync, useAudioRecorder, useAudioRecorderState } from 'expo-audio';
 import { useTheme } from '../../contexts/ThemeContext';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-import { getMessages, markMessagesAsRead, subscribeToUserOnlineStatus } from '../../services/chatService';
-import messagingService from '../../services/messagingService';
+import {
+  ChatAttachment,
+  ChatInfo,
+  ChatImage,
+  ChatJobCard,
+  ChatLocation,
+  ChatMessageStatus,
+  ChatMessageType,
+  ChatVoiceNote,
+  MessageFeed,
+  createMessageFeed,
+  discardMessage,
+  getMessageStatus,
+  markMessagesAsRead,
+  retryMessage,
+  sendMessage as sendChatMessage,
+  subscribeToChat,
+} from '../../services/chatService';
+import { PresenceStatus, subscribeToPresence } from '../../services/presenceService';
+import socketService from '../../services/socketService';
+import { uploadChatImage, uploadVoiceNote } from '../../services/chatAttachmentService';
 import { useAuth } from '../../contexts/AuthContext';
 import { db } from '../../config/firebase';
+import ChatAttachmentBubble from '../../components/ChatAttachmentBubble';
+import JobCardPickerModal from '../../components/JobCardPickerModal';
 
 interface Message {
   id: string;
   text: string;
   timestamp: string;
   isMe: boolean;
-  status?: 'sent' | 'delivered' | 'read';
+  senderName?: string;
+  status?: ChatMessageStatus;
   animValue?: Animated.Value;
+  type: ChatMessageType;
+  image?: ChatImage;
+  voice?: ChatVoiceNote;
+  location?: ChatLocation;
+  jobCard?: ChatJobCard;
 }
 
+// Voice notes shorter than this are treated as an accidental tap
+const MIN_VOICE_NOTE_MS = 1000;
+
+// How close to the top of the list, in points, older messages start loading
+const LOAD_OLDER_THRESHOLD = 80;
+
+// Typing stops counting after this long without a keystroke. The other side
+// gives up waiting for "stopped" a little later, in case it never arrives.
+const TYPING_IDLE_MS = 3000;
+const TYPING_EXPIRY_MS = 6000;
+
+const formatLastSeen = (lastSeen: Date) => {
+  const time = lastSeen.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return lastSeen.toDateString() === new Date().toDateString()
+    ? `Last seen at ${time}`
+    : `Last seen ${lastSeen.toLocaleDateString()} at ${time}`;
+};
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -173,6 +221,51 @@ const styles = StyleSheet.create({
     borderRadius: 4,
     marginRight: 4,
   },
+  attachmentText: {
+    marginTop: 8,
+  },
+  loadingOlder: {
+    marginVertical: 12,
+  },
+  systemMessage: {
+    alignItems: 'center',
+    marginVertical: 8,
+    paddingHorizontal: 24,
+  },
+  systemText: {
+    textAlign: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  senderName: {
+    marginBottom: 2,
+    fontWeight: '600',
+  },
+  archivedNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  recordingBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingBottom: 8,
+  },
+  imageViewer: {
+    margin: 0,
+    flex: 1,
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+  },
+  fullImage: {
+    width: '100%',
+    height: '80%',
+  },
 });
 
 const MessageItem: React.FC<{
@@ -180,7 +273,12 @@ const MessageItem: React.FC<{
   chatAvatar?: string;
   chatRole?: string;
   theme: any;
-}> = ({ item, chatAvatar, chatRole, theme }) => {
+  onOpenImage: (url: string) => void;
+  onOpenJob: (card: ChatJobCard) => void;
+  onFailedPress: (messageId: string) => void;
+  showSender?: boolean;
+}> = ({ item, chatAvatar, chatRole, theme, onOpenImage, onOpenJob, onFailedPress, showSender }) => {
+  const textColor = item.isMe ? theme.colors.onPrimary : theme.colors.onSurfaceVariant;
   const slideAnim = useRef(new Animated.Value(0)).current;
   
   useEffect(() => {
@@ -196,6 +294,19 @@ const MessageItem: React.FC<{
     }, delay);
   }, [item.isMe, slideAnim]);
 
+  if (item.type === 'system') {
+    return (
+      <View style={styles.systemMessage}>
+        <Text
+          variant="bodySmall"
+          style={[styles.systemText, { backgroundColor: theme.colors.surfaceVariant, color: theme.colors.onSurfaceVariant }]}
+        >
+          {item.text}
+        </Text>
+      </View>
+    );
+  }
+
   const slideFrom = item.isMe ? 100 : -100;
   
   return (
@@ -225,7 +336,10 @@ const MessageItem: React.FC<{
         </View>
       )}
       
-      <View
+      <TouchableOpacity
+        activeOpacity={0.8}
+        disabled={item.status !== 'failed'}
+        onPress={() => onFailedPress(item.id)}
         style={[
         styles.messageBubble,
           item.isMe ? styles.myBubble : styles.theirBubble,
@@ -234,17 +348,37 @@ const MessageItem: React.FC<{
           },
         ]}
       >
-        <Text
-          style={[
-          styles.messageText,
-            item.isMe ? styles.myText : styles.theirText,
-            {
-              color: item.isMe ? theme.colors.onPrimary : theme.colors.onSurfaceVariant,
-            },
-          ]}
-        >
-          {item.text}
-        </Text>
+        {showSender && !item.isMe && !!item.senderName && (
+          <Text variant="labelSmall" style={[styles.senderName, { color: theme.colors.primary }]}>
+            {item.senderName}
+          </Text>
+        )}
+        {item.type !== 'text' && (
+          <ChatAttachmentBubble
+            type={item.type}
+            image={item.image}
+            voice={item.voice}
+            location={item.location}
+            jobCard={item.jobCard}
+            color={textColor}
+            onOpenImage={onOpenImage}
+            onOpenJob={onOpenJob}
+          />
+        )}
+        {(item.type === 'text' || !!item.text) && (
+          <Text
+            style={[
+            styles.messageText,
+              item.isMe ? styles.myText : styles.theirText,
+              item.type !== 'text' && styles.attachmentText,
+              {
+                color: textColor,
+              },
+            ]}
+          >
+            {item.text}
+          </Text>
+        )}
         
         <View style={styles.messageFooter}>
           <Text
@@ -264,6 +398,21 @@ const MessageItem: React.FC<{
           
           {item.isMe && (
             <View style={styles.statusIcons}>
+              {item.status === 'sending' && (
+                <MaterialCommunityIcons
+                  name="clock-outline"
+                  size={14}
+                  color={theme.colors.onPrimary}
+                  style={{ opacity: 0.6 }}
+                />
+              )}
+              {item.status === 'failed' && (
+                <MaterialCommunityIcons
+                  name="alert-circle"
+                  size={14}
+                  color={theme.colors.error}
+                />
+              )}
               {item.status === 'sent' && (
                 <MaterialCommunityIcons
                   name="check"
@@ -290,7 +439,7 @@ const MessageItem: React.FC<{
             </View>
           )}
         </View>
-      </View>
+      </TouchableOpacity>
     </Animated.View>
   );
 };
@@ -302,7 +451,24 @@ const ChatScreen: React.FC<{ route: RouteProp<any, any> }> = ({ route }) => {
   const inputAnim = useRef(new Animated.Value(0)).current;
   const { chatId, chatName, chatAvatar, chatRole, otherUserId } = route.params || {};
   const { theme } = useTheme();
-  const { user } = useAuth();
+  const { user, role } = useAuth();
+  const navigation = useNavigation<any>();
+  const [attachMenuVisible, setAttachMenuVisible] = useState(false);
+  const [jobPickerVisible, setJobPickerVisible] = useState(false);
+  const [viewerUrl, setViewerUrl] = useState<string | null>(null);
+  const [sendingAttachment, setSendingAttachment] = useState(false);
+  const recorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
+  const recorderState = useAudioRecorderState(recorder);
+  const feedRef = useRef<MessageFeed | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // Loading an older page grows the list at the top, which must not jump to the end
+  const newestIdRef = useRef<string | null>(null);
+  const [presence, setPresence] = useState<PresenceStatus | null>(null);
+  const [chatInfo, setChatInfo] = useState<ChatInfo | null>(null);
+  const isJobChat = chatInfo?.kind === 'job';
+  const [otherTyping, setOtherTyping] = useState(false);
+  const typingRef = useRef(false);
+  const typingIdleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Mark messages as read when chat screen is opened
   useEffect(() => {
@@ -313,45 +479,123 @@ const ChatScreen: React.FC<{ route: RouteProp<any, any> }> = ({ route }) => {
     }
   }, [chatId, user?.uid]);
 
+  // Job chats are shared by everyone on an order and close with it
+  useEffect(() => {
+    if (!chatId) return;
+    return subscribeToChat(chatId, setChatInfo);
+  }, [chatId]);
+
   // Monitor other user's online status
   useEffect(() => {
     if (!otherUserId) return;
     
-    const unsubscribe = subscribeToUserOnlineStatus(otherUserId, (status) => {
-      // setOnlineStatus(status); // This line was removed as per the edit hint
-    });
+    const unsubscribe = subscribeToPresence(otherUserId, setPresence);
     
     return () => unsubscribe();
   }, [otherUserId]);
 
+  // Exchange typing events with the other participant while the chat is open
+  useEffect(() => {
+    if (!chatId || !user?.uid) return;
+
+    let expiry: ReturnType<typeof setTimeout> | null = null;
+    socketService.ensureConnected().then(() => socketService.joinChat(chatId));
+    const unsubscribe = socketService.onTyping((event) => {
+      if (event.chatId !== chatId || event.userId === user.uid) return;
+      if (expiry) clearTimeout(expiry);
+      setOtherTyping(event.typing);
+      if (event.typing) expiry = setTimeout(() => setOtherTyping(false), TYPING_EXPIRY_MS);
+    });
+
+    return () => {
+      if (expiry) clearTimeout(expiry);
+      if (typingIdleTimer.current) clearTimeout(typingIdleTimer.current);
+      if (typingRef.current) socketService.sendTyping(chatId, user.uid, false);
+      typingRef.current = false;
+      unsubscribe();
+      socketService.leaveChat(chatId);
+    };
+  }, [chatId, user?.uid]);
+
+  const setTyping = (typing: boolean) => {
+    if (!chatId || !user?.uid) return;
+    if (typingIdleTimer.current) clearTimeout(typingIdleTimer.current);
+    if (typing) typingIdleTimer.current = setTimeout(() => setTyping(false), TYPING_IDLE_MS);
+    if (typingRef.current !== typing) {
+      typingRef.current = typing;
+      socketService.sendTyping(chatId, user.uid, typing);
+    }
+  };
+
+  const handleChangeText = (text: string) => {
+    setMessage(text);
+    setTyping(!!text.trim());
+  };
+
   // Fetch messages from Firestore
   useEffect(() => {
     if (!chatId) return;
     
-    const unsubscribe = getMessages(chatId, (msgs) => {
+    const feed = createMessageFeed(chatId, user?.uid ?? null, (msgs) => {
       const processedMessages = msgs.map(msg => {
         const processed = {
           id: msg.id,
           text: msg.content, // Convert content to text
           timestamp: msg.timestamp?.toDate?.()?.toISOString() || new Date().toISOString(),
           isMe: msg.senderId === user?.uid,
-          status: msg.read ? 'read' : 'sent',
+          senderName: msg.senderName,
+          status: getMessageStatus(msg),
           animValue: new Animated.Value(0),
+          type: msg.type || 'text',
+          image: msg.image,
+          voice: msg.voice,
+          location: msg.location,
+          jobCard: msg.jobCard,
         };
         return processed;
       });
       
       setMessages(processedMessages);
+
+      // Messages arriving while the chat is open are read straight away
+      if (user?.uid && msgs.some((msg) => msg.receiverId === user.uid && !msg.read)) {
+        markMessagesAsRead(chatId, user.uid).catch((error) => {
+          console.error('Error marking messages as read:', error);
+        });
+      }
     });
-    return () => unsubscribe && unsubscribe();
+    feedRef.current = feed;
+    return () => {
+      feed.stop();
+      feedRef.current = null;
+    };
   }, [chatId, user?.uid]);
 
   useEffect(() => {
-    if (messages.length > 0) {
+    const newestId = messages.length > 0 ? messages[messages.length - 1].id : null;
+    if (newestId && newestId !== newestIdRef.current) {
       flatListRef.current?.scrollToEnd({ animated: true });
     }
+    newestIdRef.current = newestId;
   }, [messages]);
 
+  const handleScroll = ({ nativeEvent }: { nativeEvent: { contentOffset: { y: number } } }) => {
+    const feed = feedRef.current;
+    if (nativeEvent.contentOffset.y > LOAD_OLDER_THRESHOLD || !feed?.hasOlder() || loadingOlder) return;
+    setLoadingOlder(true);
+    feed.loadOlder()
+      .catch((error) => console.error('Error loading older messages:', error))
+      .finally(() => setLoadingOlder(false));
+  };
+
+  const handleFailedPress = useCallback((messageId: string) => {
+    Alert.alert('Message not sent', 'This message could not be sent.', [
+      { text: 'Delete', style: 'destructive', onPress: () => discardMessage(chatId, messageId) },
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Retry', onPress: () => retryMessage(chatId, messageId) },
+    ]);
+  }, [chatId]);
+
   const animateSend = () => {
     Animated.sequence([
       Animated.timing(inputAnim, {
@@ -367,38 +611,43 @@ const ChatScreen: React.FC<{ route: RouteProp<any, any> }> = ({ route }) => {
     ]).start();
   };
 
+  // Send a message to the other participants; returns false if it could not be sent
+  const deliverMessage = async (content: string, attachment?: ChatAttachment): Promise<boolean> => {
+    if (!user || !chatId || chatInfo?.archived) return false;
+
+    // Older links may not pass the other user, so fall back to the chat's participants
+    let receiverIds: string[] = !isJobChat && otherUserId ? [otherUserId] : [];
+    if (receiverIds.length === 0) {
+      const participants: string[] = chatInfo?.participants
+        || (await db.collection('chats').doc(chatId).get()).data()?.participants
+        || [];
+      receiverIds = participants.filter((p) => p !== user.uid);
+    }
+    if (receiverIds.length === 0) {
+      console.error('Could not find receiver ID');
+      return false;
+    }
+
+    // Shows in the list straight away and is retried if it fails
+    sendChatMessage({
+      chatId,
+      senderId: user.uid,
+      senderName: user.displayName || user.email || 'User',
+      receiverIds,
+      content,
+      attachment,
+    });
+    return true;
+  };
+
   const sendMessage = async () => {
     if (message.trim() && user && chatId) {
       animateSend();
+      setTyping(false);
       
       try {
-        // Get the receiver ID from chat participants
-        const chatDoc = await db.collection('chats').doc(chatId).get();
-        if (chatDoc.exists) {
-          const chatData = chatDoc.data();
-          const participants = chatData?.participants || [];
-          const receiverId = participants.find((p: string) => p !== user.uid);
-          
-          if (receiverId) {
-            // Use the new messaging service that handles background notifications
-            await messagingService.sendMessage(
-              chatId,
-              user.uid,
-              receiverId,
-              message.trim(),
-              user.displayName || user.email || 'User',
-              'buyer' // Default to buyer role, could be enhanced to detect actual role
-            );
-            
-            // Mark messages as read after sending (this will clear unread badges)
-            await markMessagesAsRead(chatId, user.uid);
-            
-            setMessage('');
-          } else {
-            console.error('Could not find receiver ID');
-          }
-        } else {
-          console.error('Chat document does not exist');
+        if (await deliverMessage(message.trim())) {
+          setMessage('');
         }
       } catch (error) {
         console.error('Error sending message:', error);
@@ -406,6 +655,97 @@ const ChatScreen: React.FC<{ route: RouteProp<any, any> }> = ({ route }) => {
     }
   };
 
+  // Uploads can take a while on a weak signal, so the input is locked meanwhile
+  const sendAttachment = async (build: () => Promise<ChatAttachment | null>) => {
+    setAttachMenuVisible(false);
+    setSendingAttachment(true);
+    try {
+      const attachment = await build();
+      if (attachment && await deliverMessage(message.trim(), attachment)) {
+        setMessage('');
+      }
+    } catch (error) {
+      console.error('Error sending attachment:', error);
+      Alert.alert('Error', 'Failed to send. Please try again.');
+    } finally {
+      setSendingAttachment(false);
+    }
+  };
+
+  const handleSendPhoto = (fromCamera: boolean) => sendAttachment(async () => {
+    const permission = fromCamera
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (permission.status !== 'granted') {
+      Alert.alert('Permission Required', `Please allow ${fromCamera ? 'camera' : 'photo library'} access to send photos.`);
+      return null;
+    }
+
+    const options = { mediaTypes: ImagePicker.MediaTypeOptions.Images, quality: 0.8 };
+    const result = fromCamera ? await ImagePicker.launchCameraAsync(options) : await ImagePicker.launchImageLibraryAsync(options);
+    if (result.canceled || !result.assets[0]) return null;
+
+    const asset = result.assets[0];
+    return { type: 'image', image: await uploadChatImage(chatId, asset.uri, asset.width) };
+  });
+
+  const handleSendLocation = () => sendAttachment(async () => {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission Required', 'Please allow location access to share where you are.');
+      return null;
+    }
+
+    const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+    const { latitude, longitude } = position.coords;
+    const [place] = await Location.reverseGeocodeAsync({ latitude, longitude }).catch(() => []);
+    const address = place ? [place.name, place.street, place.city].filter(Boolean).join(', ') : undefined;
+    return { type: 'location', location: { latitude, longitude, ...(address ? { address } : {}) } };
+  });
+
+  const handleSendJobCard = (card: ChatJobCard) => {
+    setJobPickerVisible(false);
+    sendAttachment(async () => ({ type: 'job_card', jobCard: card }));
+  };
+
+  // The mic button starts a voice note; pressing it again stops and sends it
+  const handleVoiceNote = async () => {
+    if (recorderState.isRecording) {
+      const durationMs = recorderState.durationMillis;
+      await recorder.stop();
+      const uri = recorder.uri;
+      if (!uri || durationMs < MIN_VOICE_NOTE_MS) return;
+      sendAttachment(async () => ({ type: 'voice', voice: await uploadVoiceNote(chatId, uri, durationMs) }));
+      return;
+    }
+
+    try {
+      const { granted } = await requestRecordingPermissionsAsync();
+      if (!granted) {
+        Alert.alert('Permission Required', 'Please allow microphone access to record voice notes.');
+        return;
+      }
+      await setAudioModeAsync({ allowsRecording: true, playsInSilentMode: true });
+      await recorder.prepareToRecordAsync();
+      recorder.record();
+    } catch (error) {
+      console.error('Error starting voice note:', error);
+      Alert.alert('Error', 'Failed to start recording. Please try again.');
+    }
+  };
+
+  const handleCancelVoiceNote = async () => {
+    await recorder.stop().catch((error) => console.error('Error cancelling voice note:', error));
+  };
+
+  const handleOpenJob = useCallback((card: ChatJobCard) => {
+    if (role === 'runner') {
+      navigation.navigate('RunnerTrackingScreen', { jobId: card.jobId, jobType: card.jobType });
+    } else {
+      navigation.navigate('OrderTracking', { jobId: card.jobId, jobType: card.jobType, role: role === 'seller' ? 'seller' : undefined });
+    }
+  }, [navigation, role]);
+
   const renderMessage = useCallback(({ item }: { item: Message }) => {
     return (
       <MessageItem 
@@ -413,9 +753,15 @@ const ChatScreen: React.FC<{ route: RouteProp<any, any> }> = ({ route }) => {
         chatAvatar={chatAvatar} 
         chatRole={chatRole} 
         theme={theme}
+        onOpenImage={setViewerUrl}
+        onOpenJob={handleOpenJob}
+        onFailedPress={handleFailedPress}
+        showSender={isJobChat}
       />
     );
-  }, [chatAvatar, chatRole, theme]);
+  }, [chatAvatar, chatRole, theme, handleOpenJob, handleFailedPress, isJobChat]);
+
+  const hasText = !!message.trim();
 
   return (<KeyboardAvoidingView
       style={[styles.container, { backgroundColor: theme.colors.background }]}
@@ -435,7 +781,16 @@ const ChatScreen: React.FC<{ route: RouteProp<any, any> }> = ({ route }) => {
                 {chatName || 'Chat'}
               </Text>
               <Text variant="bodySmall" style={[styles.status, { color: theme.colors.onSurfaceVariant }]}>
-                {chatRole === 'seller' ? 'Store' : chatRole === 'buyer' ? 'Buyer' : chatRole === 'runner' ? 'Runner' : 'User'} • Online
+                {isJobChat
+                  ? `Order chat • ${chatInfo?.participants.length || 0} people`
+                  : chatRole === 'seller' ? 'Store' : chatRole === 'buyer' ? 'Buyer' : chatRole === 'runner' ? 'Runner' : 'User'}
+                {otherTyping
+                  ? ' • typing…'
+                  : presence?.isOnline
+                    ? ' • Online'
+                    : presence?.lastSeen
+                      ? ` • ${formatLastSeen(presence.lastSeen)}`
+                      : ''}
               </Text>
             </View>
           </View>
@@ -462,11 +817,22 @@ const ChatScreen: React.FC<{ route: RouteProp<any, any> }> = ({ route }) => {
         contentContainerStyle={styles.messagesContainer}
         showsVerticalScrollIndicator={false}
         keyboardDismissMode="interactive"
-        onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: true })}
+        onScroll={handleScroll}
+        scrollEventThrottle={100}
+        maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+        ListHeaderComponent={loadingOlder ? <ActivityIndicator style={styles.loadingOlder} /> : null}
         onLayout={() => flatListRef.current?.scrollToEnd({ animated: true })}
       />
 
       {/* Input */}
+      {chatInfo?.archived ? (
+        <View style={[styles.archivedNotice, { backgroundColor: theme.colors.surface, borderTopColor: theme.colors.outlineVariant }]}>
+          <MaterialCommunityIcons name="archive-outline" size={18} color={theme.colors.onSurfaceVariant} />
+          <Text variant="bodySmall" style={{ marginLeft: 8, color: theme.colors.onSurfaceVariant }}>
+            This order is closed, so the chat is read-only.
+          </Text>
+        </View>
+      ) : (
       <Animated.View 
         style={[
           styles.inputContainer, 
@@ -480,12 +846,47 @@ const ChatScreen: React.FC<{ route: RouteProp<any, any> }> = ({ route }) => {
           }
         ]}
       >
+        {recorderState.isRecording && (
+          <View style={styles.recordingBar}>
+            <MaterialCommunityIcons name="record-circle" size={16} color={theme.colors.error} />
+            <Text style={{ marginLeft: 8, flex: 1, color: theme.colors.onSurface }}>
+              Recording {Math.floor(recorderState.durationMillis / 60000)}:{String(Math.floor(recorderState.durationMillis / 1000) % 60).padStart(2, '0')}
+            </Text>
+            <IconButton icon="close" size={20} onPress={handleCancelVoiceNote} iconColor={theme.colors.onSurfaceVariant} />
+          </View>
+        )}
         <View style={styles.inputWrapper}>
+          <Menu
+            visible={attachMenuVisible}
+            onDismiss={() => setAttachMenuVisible(false)}
+            anchor={
+              <IconButton
+                icon="paperclip"
+                size={24}
+                iconColor={theme.colors.onSurfaceVariant}
+                disabled={sendingAttachment || recorderState.isRecording}
+                onPress={() => setAttachMenuVisible(true)}
+              />
+            }
+          >
+            <Menu.Item leadingIcon="camera" title="Take Photo" onPress={() => handleSendPhoto(true)} />
+            <Menu.Item leadingIcon="image" title="Choose Photo" onPress={() => handleSendPhoto(false)} />
+            <Menu.Item leadingIcon="map-marker" title="Share Location" onPress={handleSendLocation} />
+            <Menu.Item
+              leadingIcon="package-variant"
+              title="Share Order or Errand"
+              disabled={!otherUserId}
+              onPress={() => {
+                setAttachMenuVisible(false);
+                setJobPickerVisible(true);
+              }}
+            />
+          </Menu>
           <TextInput
             mode="flat"
             placeholder="Type a message..."
             value={message}
-            onChangeText={setMessage}
+            onChangeText={handleChangeText}
             style={[styles.input, { backgroundColor: theme.colors.surface }]}
             contentStyle={styles.inputContent}
             underlineColor="transparent"
@@ -501,23 +902,45 @@ const ChatScreen: React.FC<{ route: RouteProp<any, any> }> = ({ route }) => {
             }}
           />
           <TouchableOpacity 
-            onPress={sendMessage}
-            disabled={!message.trim()}
+            onPress={hasText ? sendMessage : handleVoiceNote}
+            disabled={sendingAttachment}
             style={[
               styles.sendButton, 
               { 
-                backgroundColor: message.trim() ? theme.colors.primary : theme.colors.surfaceVariant,
+                backgroundColor: hasText || recorderState.isRecording ? theme.colors.primary : theme.colors.surfaceVariant,
               }
             ]}
           >
-            <MaterialCommunityIcons 
-              name={message.trim() ? "send" : "microphone"} 
-              size={24} 
-              color={message.trim() ? theme.colors.onPrimary : theme.colors.onSurfaceVariant} 
-            />
+            {sendingAttachment ? (
+              <ActivityIndicator size={20} color={theme.colors.onSurfaceVariant} />
+            ) : (
+              <MaterialCommunityIcons 
+                name={hasText || recorderState.isRecording ? "send" : "microphone"} 
+                size={24} 
+                color={hasText || recorderState.isRecording ? theme.colors.onPrimary : theme.colors.onSurfaceVariant} 
+              />
+            )}
           </TouchableOpacity>
         </View>
       </Animated.View>
+      )}
+
+      {user && otherUserId && (
+        <JobCardPickerModal
+          visible={jobPickerVisible}
+          userId={user.uid}
+          otherUserId={otherUserId}
+          onSelect={handleSendJobCard}
+          onDismiss={() => setJobPickerVisible(false)}
+        />
+      )}
+
+      <Portal>
+        <Modal visible={!!viewerUrl} onDismiss={() => setViewerUrl(null)} contentContainerStyle={styles.imageViewer}>
+          {viewerUrl && <Image source={{ uri: viewerUrl }} style={styles.fullImage} resizeMode="contain" />}
+          <IconButton icon="close" iconColor="white" size={28} onPress={() => setViewerUrl(null)} style={{ alignSelf: 'center' }} />
+        </Modal>
+      </Portal>
     </KeyboardAvoidingView>
   );
 };
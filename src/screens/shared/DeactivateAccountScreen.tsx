@@ -49,10 +49,10 @@ const DeactivateAccountScreen: React.FC = () => {
         batch.delete(doc.ref);
       });
       
-      // Delete user's chats
+      // Delete user's direct chats; job chats belong to the order's other participants too
       const chatsRef = db.collection('chats').where('participants', 'array-contains', userId);
       const chatsSnap = await chatsRef.get();
-      chatsSnap.docs.forEach(doc => {
+      chatsSnap.docs.filter(doc => doc.data().kind !== 'job').forEach(doc => {
         batch.delete(doc.ref);
       });
       
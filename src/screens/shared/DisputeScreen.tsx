@@ -0,0 +1,421 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Image,
+  TouchableOpacity,
+} from 'react-native';
+import {
+  Text,
+  TextInput,
+  Button,
+  IconButton,
+  Chip,
+  ActivityIndicator,
+} from 'react-native-paper';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { RootNavigationProp } from '../../navigation/types';
+import {
+  Dispute,
+  DisputeReason,
+  DISPUTE_REASON_LABELS,
+  DISPUTE_STATUS_LABELS,
+  addDisputeStatement,
+  isDisputeResolved,
+  openDispute,
+  subscribeToDispute,
+} from '../../services/disputeService';
+
+interface DisputeScreenProps {
+  navigation: RootNavigationProp;
+  route: {
+    params: {
+      jobType: 'order' | 'errand';
+      jobId: string;
+      disputeId?: string;
+    };
+  };
+}
+
+const MAX_PHOTOS = 6;
+
+const formatTime = (value: any) => {
+  const date = value?.toDate ? value.toDate() : new Date(value);
+  return isNaN(date.getTime()) ? '' : date.toLocaleString();
+};
+
+const DisputeScreen: React.FC<DisputeScreenProps> = ({ navigation, route }) => {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const { jobType, jobId } = route.params;
+
+  const [disputeId, setDisputeId] = useState(route.params.disputeId);
+  const [dispute, setDispute] = useState<Dispute | null>(null);
+  const [loading, setLoading] = useState(!!route.params.disputeId);
+  const [submitting, setSubmitting] = useState(false);
+  const [reasonCode, setReasonCode] = useState<DisputeReason | null>(null);
+  const [text, setText] = useState('');
+  const [images, setImages] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!disputeId) return;
+    const unsubscribe = subscribeToDispute(disputeId, (data) => {
+      setDispute(data);
+      setLoading(false);
+    });
+    return unsubscribe;
+  }, [disputeId]);
+
+  const handleImagePick = async () => {
+    try {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission Required', 'Please allow access to your photo library to add evidence.');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        quality: 0.7,
+      });
+
+      if (!result.canceled && result.assets?.[0]?.uri) {
+        setImages(prev => [...prev, result.assets[0].uri].slice(0, MAX_PHOTOS));
+      }
+    } catch (error) {
+      console.error('Error picking image:', error);
+      Alert.alert('Error', 'Failed to pick image. Please try again.');
+    }
+  };
+
+  const handleOpen = async () => {
+    if (!user?.uid) return;
+    if (!reasonCode || !text.trim()) {
+      Alert.alert('Missing Details', 'Choose a reason and describe what went wrong.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const id = await openDispute({
+        jobType,
+        jobId,
+        userId: user.uid,
+        reasonCode,
+        description: text.trim(),
+        imageUris: images,
+      });
+      setText('');
+      setImages([]);
+      setLoading(true);
+      setDisputeId(id);
+    } catch (error: any) {
+      console.error('Error opening dispute:', error);
+      Alert.alert('Error', error.message || 'Failed to open dispute. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAddStatement = async () => {
+    if (!user?.uid || !disputeId || !text.trim()) return;
+
+    setSubmitting(true);
+    try {
+      await addDisputeStatement({
+        disputeId,
+        jobId,
+        userId: user.uid,
+        text: text.trim(),
+        imageUris: images,
+      });
+      setText('');
+      setImages([]);
+    } catch (error: any) {
+      console.error('Error adding dispute statement:', error);
+      Alert.alert('Error', error.message || 'Failed to add statement. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderPhotoPicker = () => (
+    <View style={styles.imagesContainer}>
+      {images.map((uri, index) => (
+        <View key={uri} style={styles.imageContainer}>
+          <Image source={{ uri }} style={styles.image} />
+          <TouchableOpacity
+            style={[styles.removeImage, { backgroundColor: theme.colors.error }]}
+            onPress={() => setImages(prev => prev.filter((_, i) => i !== index))}
+          >
+            <MaterialIcons name="close" size={14} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      ))}
+      {images.length < MAX_PHOTOS && (
+        <TouchableOpacity
+          style={[styles.addImage, { borderColor: theme.colors.outline }]}
+          onPress={handleImagePick}
+        >
+          <MaterialIcons name="add-a-photo" size={24} color={theme.colors.onSurfaceVariant} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  const renderOpenForm = () => (
+    <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+      <Text variant="titleMedium" style={styles.sectionTitle}>What went wrong?</Text>
+      <View style={styles.chips}>
+        {(Object.keys(DISPUTE_REASON_LABELS) as DisputeReason[]).map((reason) => (
+          <Chip
+            key={reason}
+            selected={reasonCode === reason}
+            onPress={() => setReasonCode(reason)}
+            style={styles.chip}
+          >
+            {DISPUTE_REASON_LABELS[reason]}
+          </Chip>
+        ))}
+      </View>
+      <TextInput
+        mode="outlined"
+        multiline
+        numberOfLines={4}
+        placeholder="Describe the problem"
+        value={text}
+        onChangeText={setText}
+        maxLength={2000}
+        style={styles.input}
+      />
+      <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 8 }}>
+        Add photos of the item or delivery (optional)
+      </Text>
+      {renderPhotoPicker()}
+      <Button mode="contained" onPress={handleOpen} loading={submitting} disabled={submitting} style={styles.submit}>
+        Open Dispute
+      </Button>
+    </View>
+  );
+
+  const renderDispute = (current: Dispute) => {
+    const resolved = isDisputeResolved(current.status);
+    return (
+      <>
+        <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+          <View style={styles.row}>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              {DISPUTE_REASON_LABELS[current.reasonCode]}
+            </Text>
+            <Chip compact>{DISPUTE_STATUS_LABELS[current.status]}</Chip>
+          </View>
+          {current.timeline.map((entry, index) => (
+            <View key={index} style={styles.timelineItem}>
+              <MaterialIcons
+                name={index === current.timeline.length - 1 ? 'radio-button-checked' : 'check-circle'}
+                size={18}
+                color={theme.colors.primary}
+              />
+              <View style={styles.timelineText}>
+                <Text variant="bodyMedium" style={{ fontWeight: '600' }}>{DISPUTE_STATUS_LABELS[entry.status]}</Text>
+                {!!entry.note && <Text variant="bodySmall">{entry.note}</Text>}
+                <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>{formatTime(entry.at)}</Text>
+              </View>
+            </View>
+          ))}
+          {current.resolution && current.resolution.refundAmount > 0 && (
+            <Text variant="bodyMedium" style={{ marginTop: 8 }}>
+              Refund to buyer: ₦{current.resolution.refundAmount.toLocaleString()}
+            </Text>
+          )}
+        </View>
+
+        <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+          <Text variant="titleMedium" style={styles.sectionTitle}>Statements</Text>
+          {current.statements.map((statement, index) => (
+            <View key={index} style={[styles.statement, { borderColor: theme.colors.outlineVariant }]}>
+              <Text variant="labelMedium" style={{ color: theme.colors.primary }}>
+                {statement.userId === user?.uid ? 'You' : statement.role.charAt(0).toUpperCase() + statement.role.slice(1)}
+                {'  '}
+                <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>{formatTime(statement.createdAt)}</Text>
+              </Text>
+              <Text variant="bodyMedium" style={{ marginTop: 4 }}>{statement.text}</Text>
+              {statement.evidenceUrls?.length > 0 && (
+                <View style={styles.imagesContainer}>
+                  {statement.evidenceUrls.map((url) => (
+                    <Image key={url} source={{ uri: url }} style={styles.image} />
+                  ))}
+                </View>
+              )}
+            </View>
+          ))}
+        </View>
+
+        {!resolved && (
+          <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+            <Text variant="titleMedium" style={styles.sectionTitle}>Add your side</Text>
+            <TextInput
+              mode="outlined"
+              multiline
+              numberOfLines={3}
+              placeholder="Add a statement"
+              value={text}
+              onChangeText={setText}
+              maxLength={2000}
+              style={styles.input}
+            />
+            {renderPhotoPicker()}
+            <Button
+              mode="contained"
+              onPress={handleAddStatement}
+              loading={submitting}
+              disabled={submitting || !text.trim()}
+              style={styles.submit}
+            >
+              Submit Statement
+            </Button>
+          </View>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <View style={[styles.header, { backgroundColor: theme.colors.surface }]}>
+        <IconButton icon="arrow-left" onPress={() => navigation.goBack()} iconColor={theme.colors.onSurface} size={24} />
+        <Text variant="titleMedium" style={[styles.headerTitle, { color: theme.colors.onSurface }]}>
+          {disputeId ? 'Dispute' : 'Report a Problem'}
+        </Text>
+        <View style={{ width: 56 }} />
+      </View>
+
+      <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : 'height'}>
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 12 }}>
+            {jobType === 'order' ? 'Order' : 'Errand'} #{jobId.slice(-6).toUpperCase()}
+          </Text>
+          {loading ? (
+            <ActivityIndicator style={{ marginTop: 32 }} />
+          ) : dispute ? (
+            renderDispute(dispute)
+          ) : disputeId ? (
+            <Text variant="bodyMedium">This dispute could not be loaded.</Text>
+          ) : (
+            renderOpenForm()
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 40,
+    paddingBottom: 8,
+    elevation: 2,
+  },
+  headerTitle: {
+    fontWeight: '600',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  section: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  input: {
+    marginBottom: 12,
+  },
+  imagesContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  imageContainer: {
+    position: 'relative',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  image: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  removeImage: {
+    position: 'absolute',
+    top: -6,
+    right: 2,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addImage: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  submit: {
+    marginTop: 8,
+  },
+  timelineItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 10,
+  },
+  timelineText: {
+    marginLeft: 10,
+    flex: 1,
+  },
+  statement: {
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    paddingVertical: 10,
+  },
+});
+
+export default DisputeScreen;
@@ -1,5 +1,6 @@
 // Admin service for handling admin-related operations
 import { db } from '../config/firebase';
+import { getWallet } from './walletService';
 
 export interface AdminNotification {
   id: string;
@@ -11,6 +12,9 @@ export interface AdminNotification {
   createdAt: any;
 }
 
+// Mirrors the payout state machine in functions/src/payouts.ts
+export type PayoutStatus = 'pending' | 'rejected' | 'processing' | 'paid' | 'failed' | 'reversed';
+
 export interface AdminAction {
   action: string;
   targetId: string;
@@ -96,7 +100,7 @@ class AdminService {
         userRole: userData.role,
         amount: payoutData.amount,
         currency: payoutData.currency || 'NGN',
-        status: 'pending',
+        status: 'pending' as PayoutStatus,
         bankDetails: {
           accountName: payoutData.accountName,
           accountNumber: payoutData.accountNumber,
@@ -195,12 +199,10 @@ class AdminService {
       // Check minimum payout amount (example: ₦5,000)
       const minPayoutAmount = 5000;
       
-      // Get user's available balance (this would come from your earnings calculation)
-      // For now, we'll assume it's available in user data
-      const userDoc = await db.collection('users').doc(userId).get();
-      const userData = userDoc.data();
+      // Available balance is derived from the user's ledger entries
+      const wallet = await getWallet(userId);
       
-      if (userData?.availableBalance < minPayoutAmount) {
+      if (wallet.balance < minPayoutAmount) {
         return { 
           canRequest: false, 
           reason: `Minimum payout amount is ₦${minPayoutAmount.toLocaleString()}` 
@@ -217,52 +219,29 @@ class AdminService {
   // Get user's earnings summary
   async getEarningsSummary(userId: string, userRole: string) {
     try {
-      let totalEarnings = 0;
-      let totalPayouts = 0;
-      let availableBalance = 0;
+      // Earnings, payouts and balance all come from the wallet ledger
+      const wallet = await getWallet(userId);
 
-      if (userRole === 'seller') {
-        // Calculate seller earnings from completed orders
-        const ordersSnapshot = await db.collection('orders')
-          .where('sellerId', '==', userId)
-          .where('status', '==', 'completed')
-          .get();
-        
-        ordersSnapshot.docs.forEach((doc) => {
-          const orderData = doc.data();
-          totalEarnings += orderData.totalAmount || 0;
-        });
-      } else if (userRole === 'runner') {
-        // Calculate runner earnings from completed errands
-        const errandsSnapshot = await db.collection('errands')
-          .where('runnerId', '==', userId)
-          .where('status', '==', 'completed')
-          .get();
-        
-        errandsSnapshot.docs.forEach((doc) => {
-          const errandData = doc.data();
-          totalEarnings += errandData.deliveryFee || 0;
-        });
-      }
-
-      // Calculate total payouts
+      // Requests not yet paid out are still part of the balance
       const payoutsSnapshot = await db.collection('payoutRequests')
         .where('userId', '==', userId)
-        .where('status', '==', 'completed')
         .get();
       
+      let pendingPayouts = 0;
       payoutsSnapshot.docs.forEach((doc) => {
         const payoutData = doc.data();
-        totalPayouts += payoutData.amount || 0;
+        const status = payoutData.status as PayoutStatus;
+        if (status === 'pending' || status === 'processing') {
+          pendingPayouts += payoutData.amount || 0;
+        }
       });
 
-      availableBalance = totalEarnings - totalPayouts;
-
       return {
-        totalEarnings,
-        totalPayouts,
-        availableBalance,
-        pendingPayouts: 0 // This would be calculated from pending payout requests
+        totalEarnings: wallet.totalEarnings,
+        totalPayouts: wallet.totalPayouts,
+        totalDeductions: wallet.totalDeductions,
+        availableBalance: wallet.balance,
+        pendingPayouts
       };
     } catch (error) {
       console.error('Error getting earnings summary:', error);
@@ -0,0 +1,133 @@
+import { db } from '../config/firebase';
+import firebase from 'firebase/compat/app';
+import * as Location from 'expo-location';
+import * as polyline from '@mapbox/polyline';
+import { distanceKm } from '../utils/geohash';
+
+// The route a runner actually took, kept so disputes can be settled. While a
+// job is active, fixes are thinned and written in chunks to
+// `{orders|errands}/{jobId}/breadcrumbs`; each chunk stores its points as an
+// encoded polyline plus second offsets from `startedAt`. Chunks past
+// `expiresAt` are purged by functions/src/breadcrumbs.ts.
+export interface BreadcrumbPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: number; // ms
+}
+
+export interface BreadcrumbChunk {
+  id: string;
+  runnerId: string;
+  polyline: string;
+  offsets: number[]; // seconds after startedAt, one per point
+  startedAt: any;
+  endedAt: any;
+  pointCount: number;
+  expiresAt: any;
+}
+
+export interface BreadcrumbRecorder {
+  record: (location: Location.LocationObject) => void;
+  flush: () => Promise<void>;
+}
+
+// Matches BREADCRUMB_RETENTION_DAYS
+export const BREADCRUMB_RETENTION_DAYS = 90;
+
+// A fix is kept once the runner has moved this far, or this long has passed
+const MIN_POINT_DISTANCE_METERS = 15;
+const MAX_POINT_GAP_SECONDS = 120;
+const MAX_ACCURACY_METERS = 100;
+
+// A chunk is written once it holds this many points or spans this long
+const CHUNK_MAX_POINTS = 40;
+const CHUNK_MAX_SECONDS = 300;
+
+const ACTIVE_STATUSES: Record<'order' | 'errand', string[]> = {
+  order: ['assigned', 'picked_up', 'out_for_delivery'],
+  errand: ['accepted', 'in_progress', 'on_the_way'],
+};
+
+// Breadcrumbs are only recorded while the runner is working the job
+export const isBreadcrumbStatus = (jobType: 'order' | 'errand', status: string | undefined): boolean =>
+  !!status && ACTIVE_STATUSES[jobType].includes(status);
+
+const breadcrumbsRef = (jobType: 'order' | 'errand', jobId: string) =>
+  db.collection(jobType === 'order' ? 'orders' : 'errands').doc(jobId).collection('breadcrumbs');
+
+const shouldKeep = (last: BreadcrumbPoint | null, next: BreadcrumbPoint) =>
+  !last ||
+  distanceKm(last, next) * 1000 >= MIN_POINT_DISTANCE_METERS ||
+  next.timestamp - last.timestamp >= MAX_POINT_GAP_SECONDS * 1000;
+
+/**
+ * Collects a runner's fixes for one job. Jittery and near-duplicate fixes are
+ * dropped; the rest are written a chunk at a time. Call `flush` when tracking
+ * stops so the tail of the trip is kept.
+ */
+export const createBreadcrumbRecorder = (
+  jobType: 'order' | 'errand',
+  jobId: string,
+  runnerId: string
+): BreadcrumbRecorder => {
+  let buffer: BreadcrumbPoint[] = [];
+  let lastKept: BreadcrumbPoint | null = null;
+
+  const flush = async () => {
+    if (buffer.length === 0) return;
+    const points = buffer;
+    buffer = [];
+
+    const startedAt = points[0].timestamp;
+    try {
+      await breadcrumbsRef(jobType, jobId).add({
+        runnerId,
+        polyline: polyline.encode(points.map((point) => [point.latitude, point.longitude] as [number, number])),
+        offsets: points.map((point) => Math.round((point.timestamp - startedAt) / 1000)),
+        startedAt: firebase.firestore.Timestamp.fromMillis(startedAt),
+        endedAt: firebase.firestore.Timestamp.fromMillis(points[points.length - 1].timestamp),
+        pointCount: points.length,
+        expiresAt: firebase.firestore.Timestamp.fromMillis(Date.now() + BREADCRUMB_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+        createdAt: firebase.firestore.FieldValue.serverTimestamp(),
+      });
+    } catch (error) {
+      // Keep the points for the next attempt rather than losing part of the route
+      buffer = [...points, ...buffer];
+      console.error('Error saving breadcrumbs:', error);
+    }
+  };
+
+  const record = (location: Location.LocationObject) => {
+    if (location.coords.accuracy !== null && location.coords.accuracy > MAX_ACCURACY_METERS) return;
+
+    const point = {
+      latitude: location.coords.latitude,
+      longitude: location.coords.longitude,
+      timestamp: location.timestamp,
+    };
+    if (!shouldKeep(lastKept, point)) return;
+
+    lastKept = point;
+    buffer.push(point);
+    if (buffer.length >= CHUNK_MAX_POINTS || point.timestamp - buffer[0].timestamp >= CHUNK_MAX_SECONDS * 1000) {
+      flush();
+    }
+  };
+
+  return { record, flush };
+};
+
+// Every recorded point for a job, in the order the runner passed them
+export const getTripBreadcrumbs = async (jobType: 'order' | 'errand', jobId: string): Promise<BreadcrumbPoint[]> => {
+  const snapshot = await breadcrumbsRef(jobType, jobId).orderBy('startedAt').get();
+
+  return snapshot.docs.flatMap((doc) => {
+    const chunk = doc.data() as BreadcrumbChunk;
+    const startedAt = chunk.startedAt?.toMillis ? chunk.startedAt.toMillis() : 0;
+    return polyline.decode(chunk.polyline).map(([latitude, longitude], index) => ({
+      latitude,
+      longitude,
+      timestamp: startedAt + (chunk.offsets?.[index] || 0) * 1000,
+    }));
+  });
+};
@@ -1,41 +1,61 @@
-import { db } from '../config/firebase';
+import { db, functions } from '../config/firebase';
 import firebase from 'firebase/compat/app';
+import { FeeBreakdown } from '../constants/feeRules';
+import { OrderStatus } from '../constants/orderLifecycle';
+import { LatLng } from '../utils/geohash';
+import { queryWithinRadius } from './geoQueryService';
+
+// Seller profile shaped for store lists; null without valid coordinates
+const toStore = (id: string, data: any) => {
+  const latitude = data.currentLocation?.latitude || data.latitude;
+  const longitude = data.currentLocation?.longitude || data.longitude;
+
+  // Only return stores with valid coordinates
+  if (!latitude || !longitude) {
+    return null;
+  }
+
+  return {
+    id,
+    ...data,
+    // Ensure required fields are present
+    name: data.name || data.displayName || data.businessName || 'Unknown Store',
+    image: data.image || data.photoURL || data.avatar || 'https://i.imgur.com/T3zF9bJ.png',
+    rating: data.rating || 4.0,
+    distance: data.distance || 'Unknown',
+    type: data.type || data.businessType || 'convenience',
+    latitude,
+    longitude,
+  };
+};
 
-// Get all stores (sellers)
-export const getStores = async () => {
+// How far the browse screens look for stores and runners around the buyer
+export const BROWSE_RADIUS_KM = 25;
+
+// Without the buyer's location lists are capped rather than the whole collection
+const BROWSE_LIMIT = 50;
+
+// Stores near `center`, or a capped list when the buyer's location is unknown or nothing nearby is indexed
+export const getStores = async (center: LatLng | null, radiusKm = BROWSE_RADIUS_KM) => {
+  if (center) {
+    const nearby = await getNearbyStores(center, radiusKm);
+    // Profiles saved before the geohash index only show up in the capped list
+    // until backfillLocationIndex has been run over them
+    if (nearby.length > 0) return nearby;
+  }
   try {
     // First try to get sellers from users collection
-    const sellersRef = db.collection('users').where('role', '==', 'seller');
+    const sellersRef = db.collection('users').where('role', '==', 'seller').limit(BROWSE_LIMIT);
     const sellersSnap = await sellersRef.get();
     
     if (sellersSnap.docs.length > 0) {
-      return sellersSnap.docs.map((doc: any) => {
-        const data = doc.data();
-        const latitude = data.currentLocation?.latitude || data.latitude;
-        const longitude = data.currentLocation?.longitude || data.longitude;
-        
-        // Only return stores with valid coordinates
-        if (!latitude || !longitude) {
-          return null;
-        }
-        
-        return { 
-          id: doc.id, 
-          ...data,
-          // Ensure required fields are present
-          name: data.name || data.displayName || data.businessName || 'Unknown Store',
-          image: data.image || data.photoURL || data.avatar || 'https://i.imgur.com/T3zF9bJ.png',
-          rating: data.rating || 4.0,
-          distance: data.distance || 'Unknown',
-          type: data.type || data.businessType || 'convenience',
-          latitude,
-          longitude,
-        };
-      }).filter(store => store !== null);
+      return sellersSnap.docs
+        .map((doc: any) => toStore(doc.id, doc.data()))
+        .filter(store => store !== null);
     }
     
     // If no sellers found, try the stores collection as fallback
-    const storesRef = db.collection('stores');
+    const storesRef = db.collection('stores').limit(BROWSE_LIMIT);
     const storesSnap = await storesRef.get();
     
     if (storesSnap.docs.length > 0) {
@@ -113,54 +133,79 @@ export const getProducts = async () => {
   }
 };
 
-// Get all runners
-export const getRunners = async () => {
+// Stores within `radiusKm`, closest first, using the geohash index
+export const getNearbyStores = async (center: LatLng, radiusKm: number) => {
   try {
-    const ref = db.collection('users').where('role', '==', 'runner');
+    const results = await queryWithinRadius(db.collection('users').where('role', '==', 'seller'), center, radiusKm);
+    return results
+      .map((result) => {
+        const store = toStore(result.id, result.data);
+        return store && { ...store, distanceKm: result.distanceKm };
+      })
+      .filter(store => store !== null);
+  } catch (error) {
+    console.error('Error fetching nearby stores:', error);
+    return [];
+  }
+};
+
+// Runner profile shaped for runner lists; null without valid coordinates
+const toRunner = (id: string, data: any) => {
+  const latitude = data.currentLocation?.latitude || data.latitude;
+  const longitude = data.currentLocation?.longitude || data.longitude;
+
+  // Only return runners with valid coordinates
+  if (!latitude || !longitude) {
+    return null;
+  }
+
+  return {
+    id,
+    ...data,
+    // Ensure required fields are present
+    name: data.name || data.displayName || 'Unknown Runner',
+    image: data.image || data.photoURL || data.avatar || 'https://i.imgur.com/T3zF9bJ.png',
+    rating: data.rating || data.averageRating || 0, // Show actual rating or 0 if none
+    distance: data.distance || 'Unknown',
+    status: data.status || 'available',
+    latitude,
+    longitude,
+    // Additional fields for improved runner selection
+    isOnline: data.isOnline || data.online || false,
+    lastSeen: data.lastSeen || data.lastActive || data.updatedAt || null,
+    currentDeliveryId: data.currentDeliveryId || data.activeDeliveryId || null,
+    deliveries: data.deliveries || data.completedDeliveries || 0,
+    availabilityStatus: data.availabilityStatus || 'available',
+    // Runner-specific fields
+    vehicleType: data.vehicleType || 'bike',
+    vehicleNumber: data.vehicleNumber || null,
+    phoneNumber: data.phoneNumber || data.phone || null,
+    // Location tracking
+    currentLocation: data.currentLocation || { latitude, longitude },
+    // Performance metrics
+    averageRating: data.averageRating || data.rating || 0,
+    totalDeliveries: data.totalDeliveries || data.deliveries || 0,
+    // Timestamps
+    lastAssignedAt: data.lastAssignedAt || null,
+    lastActiveAt: data.lastActiveAt || data.lastSeen || null,
+  };
+};
+
+// Runners near `center`, or a capped list when the buyer's location is unknown or nothing nearby is indexed
+export const getRunners = async (center: LatLng | null, radiusKm = BROWSE_RADIUS_KM) => {
+  if (center) {
+    const nearby = await getNearbyRunners(center, radiusKm);
+    // As for stores, runners without a geohash yet only show up in the capped list
+    if (nearby.length > 0) return nearby;
+  }
+  try {
+    const ref = db.collection('users').where('role', '==', 'runner').limit(BROWSE_LIMIT);
     const snap = await ref.get();
     
     if (snap.docs.length > 0) {
-      return snap.docs.map((doc: any) => {
-        const data = doc.data();
-        const latitude = data.currentLocation?.latitude || data.latitude;
-        const longitude = data.currentLocation?.longitude || data.longitude;
-        
-        // Only return runners with valid coordinates
-        if (!latitude || !longitude) {
-          return null;
-        }
-        
-        return { 
-          id: doc.id, 
-          ...data,
-          // Ensure required fields are present
-          name: data.name || data.displayName || 'Unknown Runner',
-          image: data.image || data.photoURL || data.avatar || 'https://i.imgur.com/T3zF9bJ.png',
-          rating: data.rating || data.averageRating || 0, // Show actual rating or 0 if none
-          distance: data.distance || 'Unknown',
-          status: data.status || 'available',
-          latitude,
-          longitude,
-          // Additional fields for improved runner selection
-          isOnline: data.isOnline || data.online || false,
-          lastSeen: data.lastSeen || data.lastActive || data.updatedAt || null,
-          currentDeliveryId: data.currentDeliveryId || data.activeDeliveryId || null,
-          deliveries: data.deliveries || data.completedDeliveries || 0,
-          availabilityStatus: data.availabilityStatus || 'available',
-          // Runner-specific fields
-          vehicleType: data.vehicleType || 'bike',
-          vehicleNumber: data.vehicleNumber || null,
-          phoneNumber: data.phoneNumber || data.phone || null,
-          // Location tracking
-          currentLocation: data.currentLocation || { latitude, longitude },
-          // Performance metrics
-          averageRating: data.averageRating || data.rating || 0,
-          totalDeliveries: data.totalDeliveries || data.deliveries || 0,
-          // Timestamps
-          lastAssignedAt: data.lastAssignedAt || null,
-          lastActiveAt: data.lastActiveAt || data.lastSeen || null,
-        };
-      }).filter(runner => runner !== null);
+      return snap.docs
+        .map((doc: any) => toRunner(doc.id, doc.data()))
+        .filter(runner => runner !== null);
     }
     
     // If no runners found, return empty array
@@ -170,6 +215,22 @@ export const getRunners = async () => {
   }
 };
 
+// Runners within `radiusKm`, closest first, using the geohash index
+export const getNearbyRunners = async (center: LatLng, radiusKm: number) => {
+  try {
+    const results = await queryWithinRadius(db.collection('users').where('role', '==', 'runner'), center, radiusKm);
+    return results
+      .map((result) => {
+        const runner = toRunner(result.id, result.data);
+        return runner && { ...runner, distanceKm: result.distanceKm };
+      })
+      .filter(runner => runner !== null);
+  } catch (error) {
+    console.error('Error fetching nearby runners:', error);
+    return [];
+  }
+};
+
 export const getRunnerAvailability = async () => {
   try {
     const snapshot = await db
@@ -231,99 +292,61 @@ export const getOrders = async (userId: string) => {
   return allOrders.sort((a: any, b: any) => (b.createdAt?.toMillis() || 0) - (a.createdAt?.toMillis() || 0));
 };
 
-// Update order status and tracking
-export const updateOrderStatus = async (orderId: string, status: string, trackingUpdate?: any) => {
+// Prompt the buyer to review the store once an order reaches them
+export const createOrderReviewPrompt = async (orderId: string) => {
   try {
-    const orderRef = db.collection('orders').doc(orderId);
-    const updateData: any = { status, updatedAt: new Date() };
-    if (trackingUpdate) {
-      // Merge tracking update into the order's tracking field
-      if (updateData && trackingUpdate.step) {
-        updateData[`tracking.${trackingUpdate.step}`] = true;
-      }
-    }
-    await orderRef.update(updateData);
-
-    // If order is completed, trigger review prompt
-    if (status === 'delivered' || status === 'completed') {
-      try {
-        // Get order details to find seller and buyer
-        const orderDoc = await orderRef.get();
-        if (orderDoc.exists) {
-          const orderData = orderDoc.data();
-          const buyerId = orderData?.userId;
-          const sellerId = orderData?.sellerId;
-          
-          if (buyerId && sellerId) {
-            // Get seller details
-            const sellerDoc = await db.collection('users').doc(sellerId).get();
-            if (sellerDoc.exists) {
-              const sellerData = sellerDoc.data();
-              const sellerName = sellerData?.name || sellerData?.businessName || 'Unknown Store';
-              const sellerImage = sellerData?.image || sellerData?.avatar;
-
-              // Import and use review service
-              const { reviewService } = await import('./reviewService');
-              await reviewService.createOrderReviewTrigger(
-                buyerId,
-                orderId,
-                sellerId,
-                sellerName,
-                sellerImage
-              );
-            }
-          }
+    // Get order details to find seller and buyer
+    const orderDoc = await db.collection('orders').doc(orderId).get();
+    if (orderDoc.exists) {
+      const orderData = orderDoc.data();
+      const buyerId = orderData?.userId;
+      const sellerId = orderData?.sellerId;
+      
+      if (buyerId && sellerId) {
+        // Get seller details
+        const sellerDoc = await db.collection('users').doc(sellerId).get();
+        if (sellerDoc.exists) {
+          const sellerData = sellerDoc.data();
+          const sellerName = sellerData?.name || sellerData?.businessName || 'Unknown Store';
+          const sellerImage = sellerData?.image || sellerData?.avatar;
+
+          // Import and use review service
+          const { reviewService } = await import('./reviewService');
+          await reviewService.createOrderReviewTrigger(
+            buyerId,
+            orderId,
+            sellerId,
+            sellerName,
+            sellerImage
+          );
         }
-      } catch (error) {
-        // Don't fail the order update if review trigger fails
       }
     }
-
-    return true;
   } catch (error) {
-    throw error;
+    // Don't fail the order update if review trigger fails
   }
 };
 
-// Get chats for a buyer - Updated to use chatService for consistency
-export const getChats = async (buyerId: string): Promise<any[]> => {
-  try {
-    // Use the chatService to get chats with proper participant details
-    const { getUserChats } = await import('./chatService');
-    
-    return new Promise((resolve) => {
-      const unsubscribe = getUserChats(buyerId, (chats) => {
-        // Transform chat data to match the expected format in MessagesScreen
-        const transformedChats = chats.map(chat => {
-          const otherParticipant = chat.participants.find(p => p !== buyerId);
-          const participantDetails = chat.participantDetails?.[otherParticipant || ''];
-          
-          // Only count unread messages that were not sent by the current user
-          const unreadCount = chat.lastMessage?.senderId === buyerId ? 0 : (chat.unreadCount || 0);
-          
-          return {
-            id: chat.id,
-            name: participantDetails?.name || 'Unknown User',
-            avatar: participantDetails?.avatar || 'https://i.imgur.com/T3zF9bJ.png',
-            role: participantDetails?.role || 'user',
-            lastMessage: chat.lastMessage?.content || 'No messages yet',
-            timestamp: chat.lastMessageTime?.toDate?.()?.toLocaleTimeString([], { 
-              hour: '2-digit', 
-              minute: '2-digit' 
-            }) || 'Now',
-            unread: unreadCount,
-            online: false, 
-            participantId: otherParticipant, // Add the other participant's ID
-          };
-        });
-        
-        unsubscribe();
-        resolve(transformedChats);
-      });
-    });
-  } catch (error) {
-    return [];
+// Update order status and tracking. The updateOrderStatus function works out
+// whether the signed in user is the buyer, seller or runner and checks the
+// move against the lifecycle in a transaction.
+export const updateOrderStatus = async (
+  orderId: string,
+  status: OrderStatus,
+  trackingUpdate?: { step?: string }
+) => {
+  // Delivery needs the buyer's handoff code or a no-contact photo, and goes
+  // through submitProofOfDelivery in proofOfDeliveryService
+  if (status === 'delivered') {
+    throw new Error('Orders are delivered with proof of delivery');
+  }
+  // Completion releases the held payment, so it goes through confirmDelivery in escrowService
+  if (status === 'completed') {
+    throw new Error('Orders are completed by confirming delivery');
   }
+
+  await functions.httpsCallable('updateOrderStatus')({ orderId, status, trackingStep: trackingUpdate?.step });
+  return true;
 };
 
 // Get buyer profile
@@ -438,19 +461,26 @@ export const getErrands = async (buyerId: string) => {
 };
 
 // Send an errand request from a buyer to a runner
-export const requestErrand = async (runnerId: string, buyerId: string, data: any) => {
-  try {
-    await db.collection('errands').add({
-      runnerId,
-      buyerId,
-      ...data,
-      createdAt: data.createdAt || firebase.firestore.FieldValue.serverTimestamp(),
-    });
-    return true;
-  } catch (error) {
-    console.error('Error sending errand request:', error);
-    throw error;
-  }
+export interface ErrandQuote {
+  distance: number;
+  fee: number;
+  fees: FeeBreakdown;
+}
+
+// Price an errand on the server, so the buyer is charged what createErrand will accept
+export const quoteErrand = async (errand: Record<string, any>): Promise<ErrandQuote> => {
+  const result = await functions.httpsCallable('quoteErrand')({ errand });
+  return result.data;
+};
+
+// Errands are priced and created by the createErrand callable. Pass the runner
+// the buyer picked, and the Paystack reference when the errand is paid up front.
+export const requestErrand = async (
+  errand: Record<string, any>,
+  options: { runnerId?: string | null; reference?: string | null } = {}
+): Promise<ErrandQuote & { errandId: string }> => {
+  const result = await functions.httpsCallable('createErrand')({ errand, ...options });
+  return result.data;
 };
 
 // Get store status for real-time availability
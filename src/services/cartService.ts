@@ -0,0 +1,155 @@
+import { getCartItems, saveCartItems, clearCartItems } from '../utils/storage';
+
+export const MAX_CART_ITEM_QUANTITY = 10;
+
+export interface ProductVariant {
+  id: string;
+  name: string;
+  price: number;
+}
+
+export interface CartItem {
+  id: string; // productId, or productId:variantId when a variant is selected
+  productId: string;
+  sellerId: string;
+  sellerName?: string;
+  productName: string;
+  image?: string;
+  unitPrice: number;
+  quantity: number;
+  variant?: ProductVariant | null;
+}
+
+export interface CartSellerGroup {
+  sellerId: string;
+  sellerName: string;
+  items: CartItem[];
+  subtotal: number;
+}
+
+export interface AddToCartInput {
+  productId: string;
+  sellerId: string;
+  sellerName?: string;
+  productName: string;
+  image?: string;
+  price: number;
+  variant?: ProductVariant | null;
+}
+
+type CartListener = (items: CartItem[]) => void;
+
+// The cart is loaded from storage once and then kept in memory
+let cartCache: CartItem[] | null = null;
+const listeners = new Set<CartListener>();
+
+const loadCart = async (): Promise<CartItem[]> => {
+  if (cartCache === null) {
+    cartCache = await getCartItems<CartItem>();
+  }
+  return cartCache;
+};
+
+const persistCart = async (items: CartItem[]) => {
+  cartCache = items;
+  await saveCartItems(items);
+  listeners.forEach((listener) => listener(items));
+  return items;
+};
+
+const clampQuantity = (quantity: number) =>
+  Math.max(1, Math.min(MAX_CART_ITEM_QUANTITY, Math.floor(quantity)));
+
+export const getCartItemId = (productId: string, variantId?: string | null) =>
+  variantId ? `${productId}:${variantId}` : productId;
+
+// A variant with its own price replaces the base product price
+export const getVariantUnitPrice = (basePrice: number, variant?: ProductVariant | null) =>
+  variant && variant.price > 0 ? variant.price : basePrice;
+
+export const getCart = async (): Promise<CartItem[]> => loadCart();
+
+export const subscribeToCart = (callback: CartListener) => {
+  listeners.add(callback);
+  loadCart().then(callback);
+  return () => {
+    listeners.delete(callback);
+  };
+};
+
+export const addToCart = async (input: AddToCartInput, quantity: number = 1) => {
+  if (!input.productId || !input.sellerId) {
+    throw new Error('Product and seller are required');
+  }
+
+  const items = await loadCart();
+  const id = getCartItemId(input.productId, input.variant?.id);
+  const existing = items.find((item) => item.id === id);
+
+  if (existing) {
+    return persistCart(items.map((item) =>
+      item.id === id ? { ...item, quantity: clampQuantity(item.quantity + quantity) } : item
+    ));
+  }
+
+  return persistCart([
+    ...items,
+    {
+      id,
+      productId: input.productId,
+      sellerId: input.sellerId,
+      sellerName: input.sellerName,
+      productName: input.productName,
+      image: input.image,
+      unitPrice: getVariantUnitPrice(input.price, input.variant),
+      quantity: clampQuantity(quantity),
+      variant: input.variant || null,
+    },
+  ]);
+};
+
+export const updateCartItemQuantity = async (itemId: string, quantity: number) => {
+  const items = await loadCart();
+  if (quantity < 1) {
+    return persistCart(items.filter((item) => item.id !== itemId));
+  }
+  return persistCart(items.map((item) =>
+    item.id === itemId ? { ...item, quantity: clampQuantity(quantity) } : item
+  ));
+};
+
+export const removeFromCart = async (itemId: string) => {
+  const items = await loadCart();
+  return persistCart(items.filter((item) => item.id !== itemId));
+};
+
+export const clearCart = async () => {
+  cartCache = [];
+  await clearCartItems();
+  listeners.forEach((listener) => listener([]));
+};
+
+export const getCartItemCount = (items: CartItem[]) =>
+  items.reduce((count, item) => count + item.quantity, 0);
+
+export const getCartTotal = (items: CartItem[]) =>
+  items.reduce((total, item) => total + item.unitPrice * item.quantity, 0);
+
+// Split the cart into one group per seller - each group becomes its own order
+export const splitCartBySeller = (items: CartItem[]): CartSellerGroup[] => {
+  const groups = new Map<string, CartSellerGroup>();
+
+  items.forEach((item) => {
+    const group = groups.get(item.sellerId) || {
+      sellerId: item.sellerId,
+      sellerName: item.sellerName || 'Unknown Store',
+      items: [],
+      subtotal: 0,
+    };
+    group.items.push(item);
+    group.subtotal += item.unitPrice * item.quantity;
+    groups.set(item.sellerId, group);
+  });
+
+  return Array.from(groups.values());
+};
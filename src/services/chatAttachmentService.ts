@@ -0,0 +1,99 @@
+import { db, storage } from '../config/firebase';
+import firebase from 'firebase/compat/app';
+import * as ImageManipulator from 'expo-image-manipulator';
+import { ChatImage, ChatJobCard, ChatVoiceNote } from './chatService';
+
+// Photos and voice notes sent in chat are stored under `chats/{chatId}/` in
+// Firebase Storage. Each photo is uploaded as a resized copy plus a small
+// thumbnail; chat bubbles load the thumbnail and open the full copy on tap.
+const FULL_IMAGE_WIDTH = 1280;
+const THUMBNAIL_WIDTH = 320;
+
+// Jobs looked at per role when offering cards to attach
+const SHAREABLE_JOBS_LIMIT = 20;
+
+const mediaPath = (chatId: string, suffix: string) =>
+  `chats/${chatId}/${Date.now()}_${Math.random().toString(36).substring(7)}${suffix}`;
+
+const uploadFile = async (uri: string, path: string, contentType: string): Promise<string> => {
+  const response = await fetch(uri);
+  const blob = await response.blob();
+  const ref = storage.ref().child(path);
+  await ref.put(blob, { contentType });
+  return ref.getDownloadURL();
+};
+
+const resizeImage = (uri: string, width: number, compress: number) =>
+  ImageManipulator.manipulateAsync(uri, [{ resize: { width } }], {
+    compress,
+    format: ImageManipulator.SaveFormat.JPEG,
+  });
+
+// `width` is the picked image's own width, so small photos are not scaled up
+export const uploadChatImage = async (chatId: string, uri: string, width: number): Promise<ChatImage> => {
+  const [full, thumbnail] = await Promise.all([
+    resizeImage(uri, Math.min(width || FULL_IMAGE_WIDTH, FULL_IMAGE_WIDTH), 0.7),
+    resizeImage(uri, Math.min(width || THUMBNAIL_WIDTH, THUMBNAIL_WIDTH), 0.5),
+  ]);
+  const path = mediaPath(chatId, '');
+  const [url, thumbnailUrl] = await Promise.all([
+    uploadFile(full.uri, `${path}.jpg`, 'image/jpeg'),
+    uploadFile(thumbnail.uri, `${path}_thumb.jpg`, 'image/jpeg'),
+  ]);
+  return { url, thumbnailUrl, width: full.width, height: full.height };
+};
+
+export const uploadVoiceNote = async (chatId: string, uri: string, durationMs: number): Promise<ChatVoiceNote> => {
+  const extension = uri.split('.').pop()?.toLowerCase() || 'm4a';
+  const contentType = extension === 'm4a' ? 'audio/mp4' : `audio/${extension}`;
+  const url = await uploadFile(uri, mediaPath(chatId, `.${extension}`), contentType);
+  return { url, durationMs: Math.round(durationMs) };
+};
+
+const toJobCard = (jobType: 'order' | 'errand', id: string, data: any): ChatJobCard => ({
+  jobType,
+  jobId: id,
+  title: jobType === 'order'
+    ? `Order #${data.orderNumber || id.slice(-6).toUpperCase()}${data.productName ? ` · ${data.productName}` : ''}`
+    : data.title || 'Errand',
+  status: data.status || 'pending',
+  ...(typeof (data.totalAmount ?? data.fee) === 'number' ? { amount: data.totalAmount ?? data.fee } : {}),
+});
+
+/**
+ * Orders and errands both users take part in, newest first, for attaching
+ * as cards. Only jobs the current user can query by their own role are found.
+ */
+export const getShareableJobs = async (userId: string, otherUserId: string): Promise<ChatJobCard[]> => {
+  const queries: Array<['order' | 'errand', string]> = [
+    ['order', 'buyerId'],
+    ['order', 'sellerId'],
+    ['order', 'runnerId'],
+    ['errand', 'userId'],
+    ['errand', 'runnerId'],
+  ];
+  const snapshots = await Promise.all(queries.map(([jobType, field]) =>
+    db.collection(jobType === 'order' ? 'orders' : 'errands')
+      .where(field, '==', userId)
+      .limit(SHAREABLE_JOBS_LIMIT)
+      .get()
+      .then((snapshot) => ({ jobType, docs: snapshot.docs }))
+      .catch((error) => {
+        console.error(`Error loading ${jobType}s by ${field}:`, error);
+        return { jobType, docs: [] as firebase.firestore.QueryDocumentSnapshot[] };
+      })
+  ));
+
+  const seen = new Set<string>();
+  const jobs: Array<{ card: ChatJobCard; createdAt: number }> = [];
+  snapshots.forEach(({ jobType, docs }) => docs.forEach((doc) => {
+    const data = doc.data();
+    const key = `${jobType}:${doc.id}`;
+    const involved = [data.buyerId, data.userId, data.sellerId, data.runnerId].includes(otherUserId);
+    if (!involved || seen.has(key)) return;
+    seen.add(key);
+    jobs.push({ card: toJobCard(jobType, doc.id, data), createdAt: data.createdAt?.toMillis?.() || 0 });
+  }));
+
+  return jobs.sort((a, b) => b.createdAt - a.createdAt).map((job) => job.card);
+};
@@ -1,65 +1,188 @@
 import { db } from '../config/firebase';
 import firebase from 'firebase/compat/app';
+import { getPresence } from './presenceService';
+
+// Everything chat: creating chats, chat lists, paged message feeds, sending
+// with retry, unread counters and receipts. Push notifications for new
+// messages are sent by the sendMessageNotification Cloud Function.
+
+// 'system' messages are posted by Cloud Functions into job chats, e.g. on status changes
+export type ChatMessageType = 'text' | 'image' | 'file' | 'voice' | 'location' | 'job_card' | 'system';
+
+export interface ChatImage {
+  url: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+}
+
+export interface ChatVoiceNote {
+  url: string;
+  durationMs: number;
+}
+
+export interface ChatLocation {
+  latitude: number;
+  longitude: number;
+  address?: string;
+}
+
+// A snapshot of an order or errand, so the card reads the same later on
+export interface ChatJobCard {
+  jobType: 'order' | 'errand';
+  jobId: string;
+  title: string;
+  status: string;
+  amount?: number;
+}
+
+// What a non-text message carries; `content` holds an optional caption
+export type ChatAttachment =
+  | { type: 'image'; image: ChatImage }
+  | { type: 'voice'; voice: ChatVoiceNote }
+  | { type: 'location'; location: ChatLocation }
+  | { type: 'job_card'; jobCard: ChatJobCard };
 
 export interface ChatMessage {
   id: string;
   senderId: string;
-  receiverId: string;
+  senderName?: string;
+  receiverId: string | null; // null in job chats, which have no single receiver
   content: string;
   timestamp: firebase.firestore.Timestamp;
   read: boolean;
-  type: 'text' | 'image' | 'file';
+  deliveredAt?: firebase.firestore.Timestamp | null;
+  readAt?: firebase.firestore.Timestamp | null;
+  // Messages with several receivers track each one instead, crossing them off
+  // as the message reaches them and as they read it
+  undeliveredTo?: string[];
+  unreadBy?: string[];
+  type: ChatMessageType;
+  image?: ChatImage;
+  voice?: ChatVoiceNote;
+  location?: ChatLocation;
+  jobCard?: ChatJobCard;
+  pending?: 'sending' | 'failed'; // only on this device, until the server has it
 }
 
-export interface Chat {
+// Chats are direct between two users, or job chats shared by the buyer,
+// seller and runner of an order
+export interface ChatInfo {
   id: string;
+  kind: 'direct' | 'job';
   participants: string[];
-  lastMessage?: ChatMessage;
-  lastMessageTime?: firebase.firestore.Timestamp;
-  unreadCount: number;
-  participantDetails: {
-    [userId: string]: {
-      name: string;
-      avatar?: string;
-      role: string;
-      isOnline: boolean;
-      lastSeen: Date | null;
-    };
-  };
+  jobType?: 'order' | 'errand';
+  jobId?: string;
+  title?: string;
+  archived: boolean; // job chats become read-only once the job closes
 }
 
-// Check if a chat already exists between two users
-export const checkExistingChat = async (userId1: string, userId2: string): Promise<{ exists: boolean; chatId?: string }> => {
-  const auth = firebase.auth();
-  const currentUser = auth.currentUser;
-  
-  if (!currentUser) {
-    throw new Error('User not authenticated');
+// One row of a chat list, from the signed in user's side
+export interface ChatSummary {
+  id: string;
+  kind: 'direct' | 'job';
+  participantId: string; // empty for job chats
+  name: string;
+  avatar: string;
+  role: string;
+  online: boolean;
+  lastMessage: string;
+  timestamp: string; // time of the last message, for display
+  lastMessageAt: number; // ms, 0 before the first message
+  unread: number;
+}
+
+export interface OutgoingMessage {
+  chatId: string;
+  senderId: string;
+  senderName: string;
+  receiverIds: string[];
+  content: string;
+  attachment?: ChatAttachment;
+}
+
+export interface MessageFeed {
+  // Fetch the page before the oldest message loaded so far
+  loadOlder: () => Promise<void>;
+  hasOlder: () => boolean;
+  stop: () => void;
+}
+
+export type ChatMessageStatus = 'sending' | 'failed' | 'sent' | 'delivered' | 'read';
+
+// Firestore caps a write batch at 500 operations
+const BATCH_LIMIT = 500;
+
+export const MESSAGE_PAGE_SIZE = 30;
+
+// Failed sends are retried after 2s and 4s before being shown as failed
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_BASE_MS = 2000;
+
+const DEFAULT_AVATAR = 'https://i.imgur.com/T3zF9bJ.png';
+
+export const getMessageStatus = (
+  message: Pick<ChatMessage, 'read' | 'deliveredAt' | 'readAt' | 'undeliveredTo' | 'unreadBy' | 'pending'>
+): ChatMessageStatus => {
+  if (message.pending) return message.pending;
+  // Read or delivered once everyone has it
+  if (message.unreadBy) {
+    if (message.unreadBy.length === 0) return 'read';
+    return message.undeliveredTo?.length === 0 ? 'delivered' : 'sent';
   }
-  
-  // Sort participant IDs to ensure consistent chatKey
-  const participants = [userId1, userId2].sort();
-  const chatKey = participants.join('');
-  
-  try {
-    // Check if chat already exists using chatKey
-    const existingChat = await db.collection('chats')
-      .where('chatKey', '==', chatKey)
-      .limit(1)
-      .get();
-
-    if (!existingChat.empty) {
-      const chatId = existingChat.docs[0].id;
-      return { exists: true, chatId };
-    }
-    
-    return { exists: false };
-  } catch (error: any) {
-    console.error('Error checking for existing chat:', error);
-    throw error;
+  if (message.readAt || message.read) return 'read';
+  return message.deliveredAt ? 'delivered' : 'sent';
+};
+
+/**
+ * Messages waiting for `userId` in a chat document. Unread counters are kept
+ * per participant in `unreadCounts`; chats written before that only have the
+ * shared `unreadCount`, which is only meaningful to the last message's receiver.
+ */
+export const getUnreadCount = (chatData: any, userId: string): number => {
+  if (chatData?.unreadCounts) return Math.max(0, chatData.unreadCounts[userId] || 0);
+  return chatData?.lastMessage?.senderId === userId ? 0 : Math.max(0, chatData?.unreadCount || 0);
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// One-line summary for chat lists and notifications
+export const getMessagePreview = (message: Partial<Omit<ChatMessage, 'timestamp'>> | null | undefined): string => {
+  if (!message) return '';
+  const caption = message.content?.trim();
+  switch (message.type) {
+    case 'image':
+      return caption ? `📷 ${caption}` : '📷 Photo';
+    case 'voice':
+      return `🎤 Voice note${message.voice ? ` (${formatDuration(message.voice.durationMs)})` : ''}`;
+    case 'location':
+      return `📍 ${message.location?.address || 'Shared location'}`;
+    case 'job_card':
+      return `📦 ${message.jobCard?.title || 'Shared job'}`;
+    case 'file':
+      return caption ? `📎 ${caption}` : '📎 File';
+    default:
+      return message.content || '';
   }
 };
 
+// The fields stored on a message document for an optional attachment
+export const buildMessageData = (senderId: string, receiverId: string | null, content: string, attachment?: ChatAttachment) => ({
+  senderId,
+  receiverId,
+  content,
+  timestamp: firebase.firestore.FieldValue.serverTimestamp(),
+  read: false,
+  // Stored as null rather than left out so undelivered messages can be queried
+  deliveredAt: null,
+  readAt: null,
+  type: 'text' as ChatMessageType,
+  ...attachment,
+});
+
 // Main chat creation function - always use the authenticated user and the other user
 export const getOrCreateChat = async (otherUserId: string): Promise<{ chatId: string; isNew: boolean }> => {
   const auth = firebase.auth();
@@ -87,7 +210,7 @@ export const getOrCreateChat = async (otherUserId: string): Promise<{ chatId: st
     participants,
     chatKey,
     createdAt: firebase.firestore.FieldValue.serverTimestamp(),
-    unreadCount: 0,
+    unreadCounts: Object.fromEntries(participants.map((id) => [id, 0])),
     participantDetails: {},
     createdBy: currentUser.uid,
   };
@@ -96,287 +219,378 @@ export const getOrCreateChat = async (otherUserId: string): Promise<{ chatId: st
   return { chatId: chatRef.id, isNew: true };
 };
 
-// Send a message
-export const sendMessage = async (chatId: string, senderId: string, receiverId: string, content: string) => {
+// Chat document fields to update when `senderId` sends to `receiverIds`
+export const unreadIncrement = (senderId: string, receiverIds: string[]) =>
+  Object.fromEntries(receiverIds
+    .filter((receiverId) => receiverId !== senderId)
+    .map((receiverId) => [`unreadCounts.${receiverId}`, firebase.firestore.FieldValue.increment(1)]));
+
+// Matches jobChatId in functions/src/jobChat.ts
+export const jobChatId = (jobType: 'order' | 'errand', jobId: string) => `job_${jobType}_${jobId}`;
+
+export const subscribeToChat = (chatId: string, callback: (chat: ChatInfo | null) => void) => {
+  return db.collection('chats').doc(chatId).onSnapshot((doc) => {
+    const data = doc.data();
+    if (!data) {
+      callback(null);
+      return;
+    }
+    callback({
+      id: doc.id,
+      kind: data.kind === 'job' ? 'job' : 'direct',
+      participants: data.participants || [],
+      jobType: data.jobType,
+      jobId: data.jobId,
+      title: data.title,
+      archived: !!data.archived,
+    });
+  }, (error) => {
+    console.error('Error in chat listener:', error);
+  });
+};
+
+// Messages written on this device that the server has not accepted yet, by chat
+const pendingMessages = new Map<string, Map<string, { outgoing: OutgoingMessage; message: ChatMessage; attempts: number }>>();
+const pendingListeners = new Map<string, Set<() => void>>();
+
+const notifyPending = (chatId: string) => {
+  pendingListeners.get(chatId)?.forEach((listener) => listener());
+};
+
+const settlePending = (chatId: string, messageId: string) => {
+  pendingMessages.get(chatId)?.delete(messageId);
+  notifyPending(chatId);
+};
+
+// The message and its chat's summary fields go in one batch, so a retry never counts a message twice
+const attemptSend = async (chatId: string, messageId: string) => {
+  const entry = pendingMessages.get(chatId)?.get(messageId);
+  if (!entry) return;
+  entry.attempts += 1;
+  entry.message = { ...entry.message, pending: 'sending' };
+  notifyPending(chatId);
+
+  const { senderId, senderName, receiverIds, content, attachment } = entry.outgoing;
+  const receiverId = receiverIds.length === 1 ? receiverIds[0] : null;
   const messageData = {
+    ...buildMessageData(senderId, receiverId, content, attachment),
+    senderName,
+    ...(receiverId === null && { undeliveredTo: receiverIds, unreadBy: receiverIds }),
+  };
+  const chatRef = db.collection('chats').doc(chatId);
+  const batch = db.batch();
+  batch.set(chatRef.collection('messages').doc(messageId), messageData);
+  batch.update(chatRef, {
+    lastMessage: { ...messageData, id: messageId },
+    lastMessageTime: messageData.timestamp,
+    ...unreadIncrement(senderId, receiverIds),
+  });
+
+  try {
+    await batch.commit();
+    settlePending(chatId, messageId);
+  } catch (error) {
+    console.error('Error sending message:', error);
+    if (entry.attempts < MAX_SEND_ATTEMPTS) {
+      setTimeout(() => attemptSend(chatId, messageId), RETRY_BASE_MS * 2 ** (entry.attempts - 1));
+    } else {
+      entry.message = { ...entry.message, pending: 'failed' };
+      notifyPending(chatId);
+    }
+  }
+};
+
+/**
+ * Send a message, optionally with an image, voice note, location or job card.
+ * It shows in message feeds straight away and is retried in the background;
+ * one that still fails is marked `failed` for `retryMessage`. The receiver is
+ * notified by the sendMessageNotification function. Returns the message ID.
+ */
+export const sendMessage = (outgoing: OutgoingMessage): string => {
+  const { chatId, senderId, senderName, receiverIds, content, attachment } = outgoing;
+  const messageId = db.collection('chats').doc(chatId).collection('messages').doc().id;
+  const message: ChatMessage = {
+    id: messageId,
     senderId,
-    receiverId,
+    senderName,
+    receiverId: receiverIds.length === 1 ? receiverIds[0] : null,
+    ...(receiverIds.length !== 1 && { undeliveredTo: receiverIds, unreadBy: receiverIds }),
     content,
-    timestamp: firebase.firestore.FieldValue.serverTimestamp(),
+    timestamp: firebase.firestore.Timestamp.now(),
     read: false,
-    type: 'text' as const,
+    type: 'text',
+    ...attachment,
+    pending: 'sending',
   };
 
-  try {
-    // Add message to chat
-    const messageRef = await db.collection('chats').doc(chatId).collection('messages').add(messageData);
-    // Update chat with last message
-    await db.collection('chats').doc(chatId).update({
-      lastMessage: {
-        ...messageData,
-        id: messageRef.id,
-      },
-      lastMessageTime: messageData.timestamp,
-      // Only increment unread count if the sender is not the same as the receiver
-      // This prevents counting your own messages as unread
-      unreadCount: firebase.firestore.FieldValue.increment(senderId !== receiverId ? 1 : 0),
-    });
-    return messageRef.id;
-  } catch (error: any) {
-    console.error('Error in sendMessage:', error);
-    console.error('Error details:', {
-      code: error?.code,
-      message: error?.message,
-      stack: error?.stack,
-      chatId,
-      senderId,
-      receiverId
-    });
-    throw error;
-  }
+  if (!pendingMessages.has(chatId)) pendingMessages.set(chatId, new Map());
+  pendingMessages.get(chatId)!.set(messageId, { outgoing, message, attempts: 0 });
+  attemptSend(chatId, messageId);
+  return messageId;
 };
 
-// Get messages for a chat
-export const getMessages = (chatId: string, callback: (messages: ChatMessage[]) => void) => {
-  return db.collection('chats').doc(chatId).collection('messages')
-    .orderBy('timestamp', 'asc')
-    .onSnapshot((snapshot) => {
-      const messages: ChatMessage[] = [];
-      snapshot.forEach((doc) => {
-        const data = doc.data();
-        messages.push({
-          id: doc.id,
-          ...data,
-        } as ChatMessage);
+export const retryMessage = (chatId: string, messageId: string) => {
+  const entry = pendingMessages.get(chatId)?.get(messageId);
+  if (!entry || entry.message.pending !== 'failed') return;
+  entry.attempts = 0;
+  attemptSend(chatId, messageId);
+};
+
+export const discardMessage = (chatId: string, messageId: string) => {
+  const entry = pendingMessages.get(chatId)?.get(messageId);
+  if (entry?.message.pending === 'failed') settlePending(chatId, messageId);
+};
+
+// Local writes to other people's messages (marking them read) also leave
+// pending writes, so only `userId`'s own messages count as still sending
+const toChatMessage = (doc: firebase.firestore.QueryDocumentSnapshot, userId: string | null): ChatMessage => {
+  const data = doc.data({ serverTimestamps: 'estimate' });
+  return {
+    id: doc.id,
+    ...data,
+    ...(doc.metadata.hasPendingWrites && !!userId && data.senderId === userId ? { pending: 'sending' } : {}),
+  } as ChatMessage;
+};
+
+/**
+ * Follow a chat's messages, oldest first. The newest page is loaded first and
+ * everything from it onwards stays live; older pages are fetched on demand
+ * with `loadOlder`. Messages still being sent from this device are included.
+ */
+export const createMessageFeed = (
+  chatId: string,
+  userId: string | null,
+  onChange: (messages: ChatMessage[]) => void,
+  pageSize: number = MESSAGE_PAGE_SIZE
+): MessageFeed => {
+  const messagesRef = db.collection('chats').doc(chatId).collection('messages');
+  let older: ChatMessage[] = [];
+  let live: ChatMessage[] = [];
+  let cursor: firebase.firestore.QueryDocumentSnapshot | null = null;
+  let hasOlder = false;
+  let loadingOlder: Promise<void> | null = null;
+  let unsubscribeLive: () => void = () => {};
+  let stopped = false;
+
+  const emit = () => {
+    if (stopped) return;
+    const loaded = [...older, ...live];
+    const ids = new Set(loaded.map((message) => message.id));
+    const pending = [...(pendingMessages.get(chatId)?.values() || [])]
+      .map((entry) => entry.message)
+      .filter((message) => !ids.has(message.id));
+    onChange([...loaded, ...pending]);
+  };
+
+  if (!pendingListeners.has(chatId)) pendingListeners.set(chatId, new Set());
+  pendingListeners.get(chatId)!.add(emit);
+
+  messagesRef.orderBy('timestamp', 'desc').limit(pageSize).get()
+    .then((latest) => {
+      if (stopped) return;
+      cursor = latest.docs[latest.docs.length - 1] || null;
+      hasOlder = latest.size === pageSize;
+      const query = cursor ? messagesRef.orderBy('timestamp').startAt(cursor) : messagesRef.orderBy('timestamp');
+      unsubscribeLive = query.onSnapshot({ includeMetadataChanges: true }, (snapshot) => {
+        live = snapshot.docs.map((doc) => toChatMessage(doc, userId));
+        emit();
+      }, (error) => {
+        console.error('Error in message listener:', error);
       });
-      
-      callback(messages);
-    }, (error) => {
-      console.error('Error in message listener:', error);
+    })
+    .catch((error) => {
+      console.error('Error loading messages:', error);
     });
+
+  return {
+    loadOlder: () => {
+      if (!hasOlder || !cursor) return Promise.resolve();
+      if (!loadingOlder) {
+        loadingOlder = messagesRef.orderBy('timestamp', 'desc').startAfter(cursor).limit(pageSize).get()
+          .then((page) => {
+            hasOlder = page.size === pageSize;
+            cursor = page.docs[page.docs.length - 1] || cursor;
+            older = [...page.docs.map((doc) => toChatMessage(doc, userId)).reverse(), ...older];
+            emit();
+          })
+          .finally(() => {
+            loadingOlder = null;
+          });
+      }
+      return loadingOlder;
+    },
+    hasOlder: () => hasOlder,
+    stop: () => {
+      stopped = true;
+      unsubscribeLive();
+      pendingListeners.get(chatId)?.delete(emit);
+    },
+  };
 };
 
-// Mark messages as read
+type BatchWrite = [firebase.firestore.DocumentReference, firebase.firestore.UpdateData];
+
+const commitInBatches = async (writes: BatchWrite[]) => {
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    writes.slice(i, i + BATCH_LIMIT).forEach(([ref, data]) => batch.update(ref, data));
+    await batch.commit();
+  }
+};
+
+/**
+ * Stamp messages sent to `userId` as delivered once their device has seen the
+ * chat, without waiting for the chat to be opened. In job chats `userId` is
+ * taken off each message's `undeliveredTo` instead.
+ */
+export const markMessagesAsDelivered = async (chatId: string, userId: string) => {
+  const chatRef = db.collection('chats').doc(chatId);
+  const [undelivered, undeliveredShared] = await Promise.all([
+    chatRef.collection('messages')
+      .where('receiverId', '==', userId)
+      .where('deliveredAt', '==', null)
+      .get(),
+    chatRef.collection('messages')
+      .where('undeliveredTo', 'array-contains', userId)
+      .get(),
+  ]);
+  if (undelivered.empty && undeliveredShared.empty) return;
+
+  const deliveredAt = firebase.firestore.FieldValue.serverTimestamp();
+  const deliveredToUser = firebase.firestore.FieldValue.arrayRemove(userId);
+  const chatUpdate: firebase.firestore.UpdateData = {};
+  if (!undelivered.empty) chatUpdate['lastMessage.deliveredAt'] = deliveredAt;
+  if (!undeliveredShared.empty) chatUpdate['lastMessage.undeliveredTo'] = deliveredToUser;
+
+  await commitInBatches([
+    ...undelivered.docs.map((doc): BatchWrite => [doc.ref, { deliveredAt }]),
+    ...undeliveredShared.docs.map((doc): BatchWrite => [doc.ref, { undeliveredTo: deliveredToUser }]),
+    [chatRef, chatUpdate],
+  ]);
+};
+
+// Mark messages as read and clear this user's unread counter
 export const markMessagesAsRead = async (chatId: string, userId: string) => {
-  const batch = db.batch();
-  
-  // Get unread messages for this user
-  const unreadMessages = await db.collection('chats').doc(chatId).collection('messages')
-    .where('receiverId', '==', userId)
-    .where('read', '==', false)
-    .get();
+  const chatRef = db.collection('chats').doc(chatId);
 
-  // Mark them as read
-  unreadMessages.docs.forEach((doc) => {
-    batch.update(doc.ref, { read: true });
-  });
+  // Get unread messages for this user, sent to them alone or to the whole job chat
+  const [unreadMessages, unreadShared, chatDoc] = await Promise.all([
+    chatRef.collection('messages')
+      .where('receiverId', '==', userId)
+      .where('read', '==', false)
+      .get(),
+    chatRef.collection('messages')
+      .where('unreadBy', 'array-contains', userId)
+      .get(),
+    chatRef.get(),
+  ]);
 
-  // Update chat unread count
-  batch.update(db.collection('chats').doc(chatId), {
-    unreadCount: firebase.firestore.FieldValue.increment(-unreadMessages.docs.length),
-  });
+  const now = firebase.firestore.FieldValue.serverTimestamp();
+  const readByUser = firebase.firestore.FieldValue.arrayRemove(userId);
+  const chatUpdate: firebase.firestore.UpdateData = { [`unreadCounts.${userId}`]: 0 };
+  const lastMessage = chatDoc.data()?.lastMessage;
+  if (lastMessage?.receiverId === userId && !lastMessage.read) {
+    Object.assign(chatUpdate, { 'lastMessage.read': true, 'lastMessage.readAt': now });
+    if (!lastMessage.deliveredAt) chatUpdate['lastMessage.deliveredAt'] = now;
+  }
+  if (lastMessage?.unreadBy?.includes(userId)) {
+    Object.assign(chatUpdate, { 'lastMessage.unreadBy': readByUser, 'lastMessage.undeliveredTo': readByUser });
+  }
 
-  await batch.commit();
+  // A message read before it was marked delivered counts as delivered at the same moment
+  await commitInBatches([
+    ...unreadMessages.docs.map((doc): BatchWrite => [
+      doc.ref,
+      doc.data().deliveredAt ? { read: true, readAt: now } : { read: true, readAt: now, deliveredAt: now },
+    ]),
+    ...unreadShared.docs.map((doc): BatchWrite => [doc.ref, { unreadBy: readByUser, undeliveredTo: readByUser }]),
+    [chatRef, chatUpdate],
+  ]);
 };
 
-// Get user's chats
-export const getUserChats = (userId: string, callback: (chats: Chat[]) => void) => {
-  const ref = db.collection('chats').where('participants', 'array-contains', userId);
-  return ref.onSnapshot(async (snapshot) => {
-    const chats = await Promise.all(
-      snapshot.docs.map(async (doc: any) => {
+/**
+ * Total unread messages across the user's chats, for tab badges. Chats with
+ * messages this device has not acknowledged yet get them marked delivered.
+ */
+export const subscribeToUnreadChatCount = (userId: string, callback: (total: number) => void) => {
+  const acknowledged = new Set<string>();
+  return db.collection('chats')
+    .where('participants', 'array-contains', userId)
+    .onSnapshot((snapshot) => {
+      let total = 0;
+      snapshot.forEach((doc) => {
         const chatData = doc.data();
-        const participants = chatData.participants || [];
-        
-        // Get participant details with online status
-        const participantDetails: { [userId: string]: { name: string; avatar?: string; role: string; isOnline: boolean; lastSeen: Date | null } } = {};
-        
-        for (const participantId of participants) {
-          try {
-            const userRef = db.collection('users').doc(participantId);
-            const userDoc = await userRef.get();
-              const userData = userDoc.data();
-            
-              participantDetails[participantId] = {
-              name: userData?.name || userData?.displayName || userData?.businessName || 'Unknown User',
-              avatar: userData?.image || userData?.photoURL || userData?.avatar || 'https://i.imgur.com/T3zF9bJ.png',
-                role: userData?.role || 'user',
-              isOnline: userData?.isOnline || false,
-              lastSeen: userData?.lastSeen?.toDate?.() || null,
-            };
-          } catch (error) {
-            console.error('Error fetching participant details:', error);
-            participantDetails[participantId] = {
-              name: 'Unknown User',
-              avatar: 'https://i.imgur.com/T3zF9bJ.png',
-              role: 'user',
-              isOnline: false,
-              lastSeen: null,
-              };
-            }
-          }
-        
-        return {
-          id: doc.id,
-          participants,
-          lastMessage: chatData.lastMessage,
-          lastMessageTime: chatData.lastMessageTime,
-          unreadCount: chatData.unreadCount || 0,
-          participantDetails,
-        };
-      })
-    );
-      
-    callback(chats);
+        total += getUnreadCount(chatData, userId);
+
+        const lastMessage = chatData.lastMessage;
+        const key = `${doc.id}:${lastMessage?.id}`;
+        const undelivered = lastMessage?.receiverId === userId
+          ? !lastMessage.deliveredAt
+          : !!lastMessage?.undeliveredTo?.includes(userId);
+        if (undelivered && !acknowledged.has(key)) {
+          acknowledged.add(key);
+          markMessagesAsDelivered(doc.id, userId).catch((error) => {
+            console.error('Error marking messages as delivered:', error);
+          });
+        }
+      });
+      callback(total);
+    }, (error) => {
+      console.error('Error in unread chat listener:', error);
     });
 };
 
-// Get user details for chat
-export const getUserDetails = async (userId: string) => {
-  const userDoc = await db.collection('users').doc(userId).get();
-  if (userDoc.exists) {
-    const userData = userDoc.data();
+const toChatSummary = async (doc: firebase.firestore.QueryDocumentSnapshot, userId: string): Promise<ChatSummary | null> => {
+  const chatData = doc.data();
+  const lastMessageTime: Date | undefined = chatData.lastMessageTime?.toDate?.();
+  const activity = {
+    lastMessage: getMessagePreview(chatData.lastMessage) || 'No messages yet',
+    timestamp: lastMessageTime?.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) || 'Now',
+    lastMessageAt: lastMessageTime?.getTime() || 0,
+    unread: getUnreadCount(chatData, userId),
+  };
+
+  if (chatData.kind === 'job') {
     return {
-      id: userId,
-      name: userData?.name || 'Unknown User',
-      avatar: userData?.avatar,
-      role: userData?.role || 'user',
+      id: doc.id,
+      kind: 'job',
+      participantId: '',
+      name: chatData.title || 'Order chat',
+      avatar: DEFAULT_AVATAR,
+      role: chatData.jobType || 'order',
+      online: false,
+      ...activity,
     };
   }
-  return null;
-};
 
-// Get user online status
-export const getUserOnlineStatus = async (userId: string): Promise<{ isOnline: boolean; lastSeen: Date | null }> => {
+  const participantId = (chatData.participants || []).find((id: string) => id !== userId);
+  if (!participantId) return null;
+
+  let userData: firebase.firestore.DocumentData | undefined;
+  const presence = getPresence(participantId);
   try {
-    const userDoc = await db.collection('users').doc(userId).get();
-    if (userDoc.exists) {
-      const userData = userDoc.data();
-      return {
-        isOnline: userData?.isOnline || false,
-        lastSeen: userData?.lastSeen?.toDate?.() || null,
-      };
-    }
-    return { isOnline: false, lastSeen: null };
+    userData = (await db.collection('users').doc(participantId).get()).data();
   } catch (error) {
-    console.error('Error getting user online status:', error);
-    return { isOnline: false, lastSeen: null };
+    console.error('Error fetching participant details:', error);
   }
-};
 
-// Subscribe to user online status changes
-export const subscribeToUserOnlineStatus = (userId: string, callback: (status: { isOnline: boolean; lastSeen: Date | null }) => void) => {
-  return db.collection('users').doc(userId).onSnapshot((doc) => {
-    if (doc.exists) {
-      const userData = doc.data();
-      callback({
-        isOnline: userData?.isOnline || false,
-        lastSeen: userData?.lastSeen?.toDate?.() || null,
-      });
-    } else {
-      callback({ isOnline: false, lastSeen: null });
-    }
-  });
+  return {
+    id: doc.id,
+    kind: 'direct',
+    participantId,
+    name: userData?.name || userData?.displayName || userData?.businessName || 'Unknown User',
+    avatar: userData?.image || userData?.photoURL || userData?.avatar || DEFAULT_AVATAR,
+    role: userData?.role || 'user',
+    online: (await presence).isOnline,
+    ...activity,
+  };
 };
 
-// Utility function to handle chat creation with user feedback - FIXED VERSION
-export const handleChatCreation = async (
-  userId1: string, 
-  userId2: string, 
-  onSuccess?: (chatId: string, isNew: boolean) => void,
-  onError?: (error: any) => void
-): Promise<{ chatId: string; isNew: boolean } | null> => {
-  try {
-    // Determine which user is the current authenticated user
-    const auth = firebase.auth();
-    const currentUser = auth.currentUser;
-    
-    if (!currentUser) {
-      throw new Error('User not authenticated');
-    }
-    
-    // Determine the other user ID (the one we want to chat with)
-    const otherUserId = currentUser.uid === userId1 ? userId2 : userId1;
-    
-    // Use the main chat creation function
-    const chatResult = await getOrCreateChat(otherUserId);
-    
-    // Provide user feedback based on whether it's a new or existing chat
-    if (chatResult.isNew) {
-      } else {
-      }
-    
-    // Call success callback if provided
-    if (onSuccess) {
-      onSuccess(chatResult.chatId, chatResult.isNew);
-    }
-    
-    return chatResult;
-  } catch (error: any) {
-    console.error('Error in handleChatCreation:', error);
-    
-    // Call error callback if provided
-    if (onError) {
-      onError(error);
-    }
-    
-    return null;
-  }
-}; 
-
-// Get chat history between two specific users
-export const getChatHistory = async (userId1: string, userId2: string): Promise<{ chatId: string; messages: ChatMessage[] } | null> => {
-  const auth = firebase.auth();
-  const currentUser = auth.currentUser;
-  
-  if (!currentUser) {
-    throw new Error('User not authenticated');
-  }
-  
-  // Sort participant IDs to ensure consistent chatKey
-  const participants = [userId1, userId2].sort();
-  const chatKey = participants.join('');
-  
-  try {
-    // Find the chat between these users
-    const chatQuery = await db.collection('chats')
-      .where('chatKey', '==', chatKey)
-      .limit(1)
-      .get();
-
-    if (chatQuery.empty) {
-      return null;
-    }
-
-    const chatDoc = chatQuery.docs[0];
-    const chatId = chatDoc.id;
-    
-    // Get messages for this chat
-    const messagesQuery = await db.collection('chats')
-      .doc(chatId)
-      .collection('messages')
-      .orderBy('timestamp', 'desc')
-      .limit(50) // Limit to last 50 messages
-      .get();
-
-    const messages: ChatMessage[] = [];
-    messagesQuery.forEach((doc) => {
-      const data = doc.data();
-      messages.push({
-        id: doc.id,
-        ...data,
-      } as ChatMessage);
-    });
-    
-    // Reverse to get chronological order
-    messages.reverse();
-    
-    return {
-      chatId,
-      messages
-    };
-  } catch (error: any) {
-    console.error('Error getting chat history:', error);
-    throw error;
-  }
-}; 
\ No newline at end of file
+// The user's chats with the other participant's details, most recent first
+export const getChatSummaries = async (userId: string): Promise<ChatSummary[]> => {
+  const snapshot = await db.collection('chats').where('participants', 'array-contains', userId).get();
+  const summaries = await Promise.all(snapshot.docs.map((doc) => toChatSummary(doc, userId)));
+  return summaries
+    .filter((summary): summary is ChatSummary => summary !== null)
+    .sort((a, b) => b.lastMessageAt - a.lastMessageAt);
+};
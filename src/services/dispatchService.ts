@@ -0,0 +1,69 @@
+import { db, functions } from '../config/firebase';
+
+// Mirrors the dispatch state written by functions/src/dispatch.ts. Offers are
+// created and expired by Cloud Functions; runners answer through a callable.
+export type DispatchStatus = 'offering' | 'assigned' | 'failed' | 'cancelled';
+
+export type DispatchOfferStatus = 'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+
+export interface DispatchOffer {
+  id: string;
+  errandId: string;
+  runnerId: string;
+  status: DispatchOfferStatus;
+  attempt: number;
+  score: number;
+  distanceKm: number;
+  expiresAt: any;
+  title: string;
+  fee: number;
+  pickupLocation: string | null;
+  dropoffLocation: string | null;
+  stopCount: number;
+  createdAt: any;
+}
+
+// Stored on the errand as `dispatch`
+export interface ErrandDispatch {
+  status: DispatchStatus;
+  attempt: number;
+  currentOfferId: string | null;
+  offeredRunnerId: string | null;
+  expiresAt: any;
+}
+
+export const DISPATCH_STATUS_LABELS: Record<DispatchStatus, string> = {
+  offering: 'Finding a runner',
+  assigned: 'Runner assigned',
+  failed: 'No runner available',
+  cancelled: 'Errand cancelled',
+};
+
+export const getOfferExpiry = (offer: Pick<DispatchOffer, 'expiresAt'>): Date =>
+  offer.expiresAt?.toDate ? offer.expiresAt.toDate() : new Date(offer.expiresAt);
+
+// Pending offers made to a runner, soonest to expire first
+export const subscribeToDispatchOffers = (runnerId: string, callback: (offers: DispatchOffer[]) => void) =>
+  db.collection('dispatchOffers')
+    .where('runnerId', '==', runnerId)
+    .where('status', '==', 'pending')
+    .onSnapshot(
+      (snapshot) => {
+        const offers = snapshot.docs
+          .map((doc) => ({ id: doc.id, ...doc.data() }) as DispatchOffer)
+          .filter((offer) => getOfferExpiry(offer).getTime() > Date.now())
+          .sort((a, b) => getOfferExpiry(a).getTime() - getOfferExpiry(b).getTime());
+        callback(offers);
+      },
+      (error) => console.error('Error subscribing to dispatch offers:', error)
+    );
+
+export const respondToDispatchOffer = async (offerId: string, accept: boolean) => {
+  const result = await functions.httpsCallable('respondToDispatchOffer')({ offerId, accept });
+  return result.data as { success: boolean; status: DispatchOfferStatus; errandId?: string };
+};
+
+// Buyer asks dispatch to try again after it gave up
+export const retryDispatch = async (errandId: string) => {
+  await functions.httpsCallable('retryDispatch')({ errandId });
+};
@@ -0,0 +1,137 @@
+import { db, functions } from '../config/firebase';
+import { uploadImageAsync } from './runnerServices';
+
+// Mirrors the dispute documents written by functions/src/disputes.ts. Clients
+// read disputes directly; every change goes through a callable.
+export type DisputeStatus = 'opened' | 'under_review' | 'resolved_buyer' | 'resolved_seller' | 'resolved_runner';
+
+export type DisputeReason =
+  | 'not_delivered'
+  | 'wrong_item'
+  | 'damaged'
+  | 'missing_items'
+  | 'not_as_described'
+  | 'other';
+
+export type DisputeRole = 'buyer' | 'seller' | 'runner';
+
+export type DisputeJobType = 'order' | 'errand';
+
+export interface DisputeEvidence {
+  url: string;
+  uploadedBy: string;
+  role: DisputeRole;
+  uploadedAt: any;
+}
+
+export interface DisputeStatement {
+  userId: string;
+  role: DisputeRole;
+  text: string;
+  evidenceUrls: string[];
+  createdAt: any;
+}
+
+export interface DisputeTimelineEntry {
+  status: DisputeStatus;
+  by: string;
+  note: string | null;
+  at: any;
+}
+
+export interface DisputeResolution {
+  outcome: DisputeRole;
+  note: string;
+  refundAmount: number;
+  refundId: string | null;
+  clawbacks: Array<{ userId: string; amount: number }>;
+  resolvedBy: string;
+  resolvedAt: any;
+}
+
+export interface Dispute {
+  id: string;
+  jobType: DisputeJobType;
+  jobId: string;
+  participants: Record<DisputeRole, string | null>;
+  participantIds: string[];
+  openedBy: string;
+  openedByRole: DisputeRole;
+  reasonCode: DisputeReason;
+  description: string;
+  status: DisputeStatus;
+  statements: DisputeStatement[];
+  evidence: DisputeEvidence[];
+  timeline: DisputeTimelineEntry[];
+  resolution: DisputeResolution | null;
+  createdAt: any;
+  updatedAt: any;
+}
+
+export const DISPUTE_REASON_LABELS: Record<DisputeReason, string> = {
+  not_delivered: 'Not delivered',
+  wrong_item: 'Wrong item',
+  damaged: 'Damaged',
+  missing_items: 'Missing items',
+  not_as_described: 'Not as described',
+  other: 'Other',
+};
+
+export const DISPUTE_STATUS_LABELS: Record<DisputeStatus, string> = {
+  opened: 'Opened',
+  under_review: 'Under review',
+  resolved_buyer: 'Resolved for buyer',
+  resolved_seller: 'Resolved for seller',
+  resolved_runner: 'Resolved for runner',
+};
+
+export const isDisputeResolved = (status: DisputeStatus) => status.startsWith('resolved_');
+
+// Photos go to storage first; the callable only receives download URLs
+const uploadEvidence = (jobId: string, uid: string, uris: string[]) =>
+  Promise.all(uris.map((uri, index) =>
+    uploadImageAsync(uri, `disputes/${jobId}/${uid}_${Date.now()}_${index}.jpg`)
+  ));
+
+export const openDispute = async (input: {
+  jobType: DisputeJobType;
+  jobId: string;
+  userId: string;
+  reasonCode: DisputeReason;
+  description: string;
+  imageUris?: string[];
+}): Promise<string> => {
+  const evidenceUrls = await uploadEvidence(input.jobId, input.userId, input.imageUris || []);
+  const result = await functions.httpsCallable('openDispute')({
+    jobType: input.jobType,
+    jobId: input.jobId,
+    reasonCode: input.reasonCode,
+    description: input.description,
+    evidenceUrls,
+  });
+  return result.data.disputeId;
+};
+
+export const addDisputeStatement = async (input: {
+  disputeId: string;
+  jobId: string;
+  userId: string;
+  text: string;
+  imageUris?: string[];
+}): Promise<void> => {
+  const evidenceUrls = await uploadEvidence(input.jobId, input.userId, input.imageUris || []);
+  await functions.httpsCallable('addDisputeStatement')({
+    disputeId: input.disputeId,
+    text: input.text,
+    evidenceUrls,
+  });
+};
+
+export const subscribeToDispute = (disputeId: string, callback: (dispute: Dispute | null) => void) =>
+  db.collection('disputes').doc(disputeId).onSnapshot(
+    (doc) => callback(doc.exists ? ({ id: doc.id, ...doc.data() } as Dispute) : null),
+    (error) => {
+      console.error('Error subscribing to dispute:', error);
+      callback(null);
+    }
+  );
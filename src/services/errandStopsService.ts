@@ -0,0 +1,152 @@
+import { db } from '../config/firebase';
+import firebase from 'firebase/compat/app';
+import { LatLng, isValidLatLng } from '../utils/geohash';
+
+// An errand is an ordered route of stops: one or more pickups followed by the
+// dropoff. Runners work through the stops in order, marking each one arrived
+// and then completed.
+export type ErrandStopType = 'pickup' | 'dropoff';
+
+export type ErrandStopStatus = 'pending' | 'arrived' | 'completed';
+
+export interface ErrandStop {
+  id: string;
+  type: ErrandStopType;
+  address: string;
+  coordinates: LatLng | null;
+  instructions: string;
+  items: string[];
+  status: ErrandStopStatus;
+  arrivedAt: any;
+  completedAt: any;
+}
+
+export interface ErrandStopDraft {
+  type: ErrandStopType;
+  address: string;
+  coordinates: LatLng | null;
+  instructions?: string;
+  items?: string[];
+}
+
+export const STOP_STATUS_LABELS: Record<ErrandStopStatus, string> = {
+  pending: 'Pending',
+  arrived: 'Arrived',
+  completed: 'Completed',
+};
+
+const STOP_TRANSITIONS: Record<ErrandStopStatus, ErrandStopStatus[]> = {
+  pending: ['arrived'],
+  arrived: ['completed'],
+  completed: [],
+};
+
+export const MAX_ERRAND_STOPS = 6;
+
+export const buildErrandStops = (drafts: ErrandStopDraft[]): ErrandStop[] =>
+  drafts.map((draft, index) => ({
+    id: `stop_${index + 1}`,
+    type: draft.type,
+    address: draft.address.trim(),
+    coordinates: draft.coordinates,
+    instructions: draft.instructions?.trim() || '',
+    items: (draft.items || []).map((item) => item.trim()).filter(Boolean),
+    status: 'pending',
+    arrivedAt: null,
+    completedAt: null,
+  }));
+
+const legacyCoordinates = (errand: any, prefix: 'pickup' | 'dropoff'): LatLng | null => {
+  const location = {
+    latitude: Number(errand[`${prefix}Coordinates`]?.latitude ?? errand[`${prefix}Latitude`]),
+    longitude: Number(errand[`${prefix}Coordinates`]?.longitude ?? errand[`${prefix}Longitude`]),
+  };
+  return isValidLatLng(location) ? location : null;
+};
+
+// Stops for an errand, deriving a pickup and dropoff for errands created before stops existed
+export const getErrandStops = (errand: any): ErrandStop[] => {
+  if (Array.isArray(errand?.stops) && errand.stops.length > 0) return errand.stops;
+  if (!errand?.pickupLocation && !errand?.dropoffLocation) return [];
+
+  const done = errand.status === 'completed';
+  const pickedUp = done || ['in_progress', 'on_the_way'].includes(errand.status);
+  const legacyStop = (type: ErrandStopType, completed: boolean): ErrandStop => ({
+    id: `stop_${type}`,
+    type,
+    address: errand[`${type}Location`] || '',
+    coordinates: legacyCoordinates(errand, type),
+    instructions: '',
+    items: [],
+    status: completed ? 'completed' : 'pending',
+    arrivedAt: null,
+    completedAt: null,
+  });
+
+  return [legacyStop('pickup', pickedUp), legacyStop('dropoff', done)];
+};
+
+// Coordinates of every stop in route order, skipping stops that could not be located
+export const getErrandRoute = (errand: any): LatLng[] =>
+  getErrandStops(errand)
+    .map((stop) => stop.coordinates)
+    .filter((point): point is LatLng => isValidLatLng(point));
+
+export const getNextStop = (stops: ErrandStop[]): ErrandStop | null =>
+  stops.find((stop) => stop.status !== 'completed') || null;
+
+export const getStopProgress = (stops: ErrandStop[]) => {
+  const completed = stops.filter((stop) => stop.status === 'completed').length;
+  return { completed, total: stops.length, progress: stops.length ? completed / stops.length : 0 };
+};
+
+export const areAllStopsCompleted = (errand: any): boolean =>
+  getErrandStops(errand).every((stop) => stop.status === 'completed');
+
+/**
+ * Move a stop to its next status. Stops must be worked in order, so only the
+ * first stop that is not yet completed can be updated.
+ */
+export const updateErrandStopStatus = async (
+  errandId: string,
+  stopId: string,
+  status: ErrandStopStatus
+): Promise<void> => {
+  const ref = db.collection('errands').doc(errandId);
+
+  await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists) throw new Error('Errand not found');
+
+    const stops: ErrandStop[] = snapshot.data()?.stops || [];
+    const index = stops.findIndex((stop) => stop.id === stopId);
+    if (index === -1) throw new Error('Stop not found');
+
+    const nextStop = getNextStop(stops);
+    if (nextStop?.id !== stopId) throw new Error('Complete the earlier stops first');
+
+    const stop = stops[index];
+    // The final dropoff is completed together with the errand, by submitProofOfDelivery
+    if (status === 'completed' && index === stops.length - 1) {
+      throw new Error('Complete the dropoff with proof of delivery');
+    }
+    if (!STOP_TRANSITIONS[stop.status].includes(status)) {
+      throw new Error(`Cannot mark a ${STOP_STATUS_LABELS[stop.status].toLowerCase()} stop as ${STOP_STATUS_LABELS[status].toLowerCase()}`);
+    }
+
+    // serverTimestamp() is not allowed inside arrays, so stamp with the client clock
+    const now = firebase.firestore.Timestamp.now();
+    const updated = stops.map((item, i) => i !== index ? item : {
+      ...item,
+      status,
+      ...(status === 'arrived' && { arrivedAt: now }),
+      ...(status === 'completed' && { completedAt: now }),
+    });
+
+    transaction.update(ref, {
+      stops: updated,
+      currentStopId: getNextStop(updated)?.id || null,
+      updatedAt: firebase.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+};
@@ -0,0 +1,68 @@
+import { db, functions } from '../config/firebase';
+
+// Mirrors the `escrow` field written on orders and errands by
+// functions/src/escrow.ts. Funds are held from payment until the buyer
+// confirms delivery or the auto-confirm window passes.
+export type EscrowStatus = 'held' | 'released' | 'refunded';
+
+export interface EscrowState {
+  status: EscrowStatus;
+  amount: number;
+  heldAt: any;
+  autoConfirmAt?: any;
+  releasedAt?: any;
+}
+
+export const ESCROW_STATUS_LABELS: Record<EscrowStatus, string> = {
+  held: 'Held until delivery is confirmed',
+  released: 'Released to seller and runner',
+  refunded: 'Returned to buyer',
+};
+
+export interface HeldFunds {
+  total: number;
+  jobCount: number;
+}
+
+// A held job is waiting on the buyer once it has been delivered, collected or done
+export const isAwaitingConfirmation = (jobType: 'order' | 'errand', job: any): boolean => {
+  if (job?.escrow?.status !== 'held' || job.disputeStatus === 'open') return false;
+  return jobType === 'errand'
+    ? job.status === 'completed' && !job.deliveryConfirmedAt
+    : job.status === 'delivered' || (job.status === 'ready' && job.deliveryOption === 'pickup');
+};
+
+export const confirmDelivery = async (jobType: 'order' | 'errand', jobId: string): Promise<void> => {
+  await functions.httpsCallable('confirmDelivery')({ jobType, jobId });
+};
+
+// What a seller or runner stands to receive from a held job, before commission
+const heldShare = (jobType: 'order' | 'errand', job: any, userId: string): number => {
+  const fees = job.fees;
+  if (jobType === 'errand') return Number(fees?.subtotal ?? job.fee ?? job.amount) || 0;
+
+  const deliveryFee = Number(fees?.deliveryFee ?? job.deliveryFee) || 0;
+  if (job.runnerId === userId) return deliveryFee;
+  return (Number(fees?.subtotal ?? job.subtotal ?? job.totalAmount) || 0) + (job.runnerId ? 0 : deliveryFee);
+};
+
+// Funds a seller or runner has earned but that are still held in escrow
+export const getHeldFunds = async (userId: string): Promise<HeldFunds> => {
+  const held = (query: any) => query.where('escrow.status', '==', 'held').get();
+  const [sellerOrders, runnerOrders, runnerErrands] = await Promise.all([
+    held(db.collection('orders').where('sellerId', '==', userId)),
+    held(db.collection('orders').where('runnerId', '==', userId)),
+    held(db.collection('errands').where('runnerId', '==', userId)),
+  ]);
+
+  const jobs = [
+    ...sellerOrders.docs.map((doc: any) => ['order', doc.data()] as const),
+    ...runnerOrders.docs.map((doc: any) => ['order', doc.data()] as const),
+    ...runnerErrands.docs.map((doc: any) => ['errand', doc.data()] as const),
+  ];
+
+  return {
+    total: jobs.reduce((sum, [jobType, job]) => sum + heldShare(jobType, job, userId), 0),
+    jobCount: jobs.length,
+  };
+};
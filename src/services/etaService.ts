@@ -0,0 +1,207 @@
+import { db } from '../config/firebase';
+import firebase from 'firebase/compat/app';
+import * as Location from 'expo-location';
+import { LatLng, distanceKm } from '../utils/geohash';
+import { SpeedSample, VehicleType, estimateEtaMinutes, recentSpeedKmh } from '../utils/eta';
+import { getTrafficInfo } from '../utils/maps';
+import { getErrandStops } from './errandStopsService';
+import { JobGeofence, getJobGeofences } from './geofenceService';
+import socketService from './socketService';
+
+// Live arrival estimate for a job. The runner's app recomputes it on every
+// location fix, keeps it in `etas/{jobType}_{jobId}` rather than on the job so
+// the job's triggers are not fired every few seconds, and shares it over the
+// tracking socket. `promisedArrivalAt` is the first estimate given to the
+// buyer; functions/src/eta.ts sends a "running late" alert when the current
+// estimate slips too far past it.
+export interface JobEta {
+  jobType: 'order' | 'errand';
+  jobId: string;
+  minutes: number;
+  arrivalAt: any;
+  promisedArrivalAt: any;
+  remainingKm: number;
+  speedKmh: number | null;
+  trafficFactor: number;
+  vehicleType: VehicleType;
+  updatedAt: any;
+}
+
+export interface EtaEstimate {
+  minutes: number;
+  arrivalAt: number; // ms
+  remainingKm: number;
+}
+
+export interface EtaTracker {
+  update: (location: Location.LocationObject, job: any) => Promise<EtaEstimate | null>;
+}
+
+// Matches ETA_LATE_THRESHOLD_MINUTES
+export const ETA_LATE_THRESHOLD_MINUTES = 10;
+
+// Matches ETAS_COLLECTION in functions/src/eta.ts
+export const ETAS_COLLECTION = 'etas';
+
+// Traffic for the next leg is looked up at most this often
+const TRAFFIC_REFRESH_MS = 5 * 60 * 1000;
+
+// The ETA is written when the estimate moves, at most this often...
+const ETA_WRITE_INTERVAL_MS = 30 * 1000;
+
+// ...and at least this often, so a runner standing still is seen to slip
+const ETA_REFRESH_MS = 2 * 60 * 1000;
+
+// Enough samples to cover the recent speed window at the tracking interval
+const MAX_SPEED_SAMPLES = 60;
+
+const DONE_STATUSES = ['delivered', 'completed', 'cancelled'];
+
+export const etaDocId = (jobType: 'order' | 'errand', jobId: string) => `${jobType}_${jobId}`;
+
+const etaRef = (jobType: 'order' | 'errand', jobId: string) =>
+  db.collection(ETAS_COLLECTION).doc(etaDocId(jobType, jobId));
+
+// The last saved estimate for a job, or null before tracking has started
+export const getJobEta = async (jobType: 'order' | 'errand', jobId: string): Promise<JobEta | null> => {
+  const snapshot = await etaRef(jobType, jobId).get();
+  return snapshot.exists ? snapshot.data() as JobEta : null;
+};
+
+// Follow a job's saved estimate; returns the unsubscribe function
+export const subscribeToJobEta = (
+  jobType: 'order' | 'errand',
+  jobId: string,
+  onEta: (eta: JobEta | null) => void
+) => etaRef(jobType, jobId).onSnapshot(
+  (snapshot) => onEta(snapshot.exists ? snapshot.data() as JobEta : null),
+  (error) => console.error('Error listening to ETA:', error)
+);
+
+// Travel time in traffic divided by free-flow time for one leg, 1 when unknown
+const fetchTrafficFactor = async (origin: LatLng, destination: LatLng): Promise<number> => {
+  const info = await getTrafficInfo(origin, destination);
+  const element = info?.rows?.[0]?.elements?.[0];
+  const base = element?.duration?.value;
+  const inTraffic = element?.duration_in_traffic?.value;
+  return base > 0 && inTraffic > 0 ? inTraffic / base : 1;
+};
+
+/**
+ * Points the runner still has to reach, in order. An order waiting for pickup
+ * goes through the store first; an errand runs through its unfinished stops.
+ */
+const remainingRoute = (jobType: 'order' | 'errand', job: any, orderFences: JobGeofence[]): LatLng[] => {
+  if (jobType === 'errand') {
+    return getErrandStops(job)
+      .filter((stop) => stop.status !== 'completed' && !!stop.coordinates)
+      .map((stop) => stop.coordinates as LatLng);
+  }
+
+  return orderFences
+    .filter((fence) => fence.kind === 'dropoff' || job.status === 'assigned')
+    .map((fence) => fence.center);
+};
+
+// Whether the runner is now expected later than first promised, by how many minutes
+export const getEtaSlipMinutes = (eta: Partial<JobEta> | null | undefined): number => {
+  const arrivalAt = eta?.arrivalAt?.toMillis ? eta.arrivalAt.toMillis() : null;
+  const promisedAt = eta?.promisedArrivalAt?.toMillis ? eta.promisedArrivalAt.toMillis() : null;
+  if (arrivalAt === null || promisedAt === null) return 0;
+  return Math.max(0, Math.round((arrivalAt - promisedAt) / 60000));
+};
+
+export const isRunningLate = (eta: Partial<JobEta> | null | undefined): boolean =>
+  getEtaSlipMinutes(eta) >= ETA_LATE_THRESHOLD_MINUTES;
+
+/**
+ * Keeps one job's ETA current while the runner tracks it. Pass each location
+ * fix along with the latest job document; the new estimate is returned for
+ * the runner's own screen.
+ */
+export const createEtaTracker = (
+  jobType: 'order' | 'errand',
+  jobId: string,
+  vehicleType: VehicleType
+): EtaTracker => {
+  let samples: SpeedSample[] = [];
+  let traffic = { factor: 1, fetchedAt: 0 };
+  let lastWrite = { minutes: -1, at: 0 };
+  let orderFences: Promise<JobGeofence[]> | null = null;
+  // The first estimate, loaded from the saved ETA so it survives the runner reopening the job
+  let promisedArrivalAt: any;
+
+  const update = async (location: Location.LocationObject, job: any): Promise<EtaEstimate | null> => {
+    if (!job || DONE_STATUSES.includes(job.status)) return null;
+
+    const position = { latitude: location.coords.latitude, longitude: location.coords.longitude };
+    const now = location.timestamp || Date.now();
+    samples = [...samples, { ...position, timestamp: now }].slice(-MAX_SPEED_SAMPLES);
+
+    if (jobType === 'order' && !orderFences) {
+      orderFences = getJobGeofences('order', job);
+    }
+    const route = remainingRoute(jobType, job, orderFences ? await orderFences : []);
+    if (route.length === 0) return null;
+
+    const remainingKm = route.reduce(
+      (sum, point, index) => sum + distanceKm(index === 0 ? position : route[index - 1], point),
+      0
+    );
+
+    if (now - traffic.fetchedAt >= TRAFFIC_REFRESH_MS) {
+      traffic = { factor: await fetchTrafficFactor(position, route[0]), fetchedAt: now };
+    }
+
+    const speedKmh = recentSpeedKmh(samples, now);
+    const minutes = estimateEtaMinutes({ remainingKm, vehicleType, recentSpeedKmh: speedKmh, trafficFactor: traffic.factor });
+    const estimate = { minutes, arrivalAt: Date.now() + minutes * 60000, remainingKm };
+
+    const sinceWrite = now - lastWrite.at;
+    if (sinceWrite < ETA_REFRESH_MS && (minutes === lastWrite.minutes || sinceWrite < ETA_WRITE_INTERVAL_MS)) {
+      return estimate;
+    }
+    lastWrite = { minutes, at: now };
+
+    const arrivalAt = firebase.firestore.Timestamp.fromMillis(estimate.arrivalAt);
+    if (promisedArrivalAt === undefined) {
+      promisedArrivalAt = (await getJobEta(jobType, jobId).catch(() => null))?.promisedArrivalAt || null;
+    }
+    promisedArrivalAt = promisedArrivalAt || arrivalAt;
+
+    const eta: JobEta = {
+      jobType,
+      jobId,
+      minutes,
+      arrivalAt,
+      promisedArrivalAt,
+      remainingKm: Math.round(remainingKm * 100) / 100,
+      speedKmh: speedKmh === null ? null : Math.round(speedKmh * 10) / 10,
+      trafficFactor: Math.round(traffic.factor * 100) / 100,
+      vehicleType,
+      updatedAt: firebase.firestore.FieldValue.serverTimestamp(),
+    };
+
+    socketService.updateEta(jobId, jobType, {
+      minutes,
+      arrivalAt: new Date(estimate.arrivalAt).toISOString(),
+      remainingKm: eta.remainingKm,
+    });
+    try {
+      // Merged, keeping the late alert functions/src/eta.ts records alongside
+      await etaRef(jobType, jobId).set(eta, { merge: true });
+    } catch (error) {
+      console.error('Error saving ETA:', error);
+    }
+
+    return estimate;
+  };
+
+  if (!socketService.getConnectionStatus()) {
+    socketService.connect().then((connected) => {
+      if (connected) socketService.joinTrackingRoom(jobId, jobType, 'runner');
+    });
+  }
+
+  return { update };
+};
@@ -0,0 +1,20 @@
+import { db } from '../config/firebase';
+import { DEFAULT_FEE_RULES, FEE_RULES_DOC, FeeRules, mergeFeeRules } from '../constants/feeRules';
+
+// Rules change rarely, so one read per app session is enough for quotes
+let rulesCache: FeeRules | null = null;
+
+// Fee rules configured in Firestore, falling back to the built-in defaults
+export const getFeeRules = async (): Promise<FeeRules> => {
+  if (rulesCache) return rulesCache;
+
+  try {
+    const doc = await db.doc(FEE_RULES_DOC).get();
+    rulesCache = mergeFeeRules(doc.exists ? (doc.data() as Partial<FeeRules>) : null);
+  } catch (error) {
+    console.error('Error loading fee rules:', error);
+    return DEFAULT_FEE_RULES;
+  }
+
+  return rulesCache;
+};
@@ -0,0 +1,115 @@
+import firebase from 'firebase/compat/app';
+import {
+  BoundingBox,
+  GEOHASH_PRECISION,
+  LatLng,
+  boundingBoxCenter,
+  boundingBoxRadiusKm,
+  distanceKm,
+  encodeGeohash,
+  geohashQueryBounds,
+  isInBoundingBox,
+  isValidLatLng,
+} from '../utils/geohash';
+
+// Documents are indexed by a top-level `geohash` field next to their coordinates
+export const GEOHASH_FIELD = 'geohash';
+
+export interface GeoResult<T = firebase.firestore.DocumentData> {
+  id: string;
+  data: T;
+  location: LatLng;
+  distanceKm: number;
+}
+
+// Fields to merge into a document whenever its location is written
+export const geohashFields = (latitude: number, longitude: number) => ({
+  [GEOHASH_FIELD]: encodeGeohash(latitude, longitude, GEOHASH_PRECISION),
+});
+
+// Users keep a live `currentLocation`; stores may only have flat coordinates
+export const getDocumentLocation = (data: firebase.firestore.DocumentData): LatLng | null => {
+  const location = {
+    latitude: Number(data.currentLocation?.latitude ?? data.latitude),
+    longitude: Number(data.currentLocation?.longitude ?? data.longitude),
+  };
+  return isValidLatLng(location) ? location : null;
+};
+
+// Matches from every geohash range inside the circle, once each, closest first
+const withinRadius = (
+  snapshots: firebase.firestore.QuerySnapshot[],
+  center: LatLng,
+  radiusKm: number
+): GeoResult[] => {
+  const results = new Map<string, GeoResult>();
+  snapshots.forEach((snapshot) => snapshot.docs.forEach((doc) => {
+    const data = doc.data();
+    const location = getDocumentLocation(data);
+    if (!location || results.has(doc.id)) return;
+
+    const distance = distanceKm(center, location);
+    if (distance <= radiusKm) {
+      results.set(doc.id, { id: doc.id, data, location, distanceKm: distance });
+    }
+  }));
+
+  return Array.from(results.values()).sort((a, b) => a.distanceKm - b.distanceKm);
+};
+
+const geohashRangeQueries = (baseQuery: firebase.firestore.Query, center: LatLng, radiusKm: number) =>
+  geohashQueryBounds(center, radiusKm).map(([start, end]) =>
+    baseQuery.orderBy(GEOHASH_FIELD).startAt(start).endAt(end)
+  );
+
+/**
+ * Documents from `baseQuery` within `radiusKm` of `center`, closest first.
+ * Runs one range query per geohash cell covering the circle, then drops the
+ * matches that fall in the corners of those cells.
+ */
+export const queryWithinRadius = async (
+  baseQuery: firebase.firestore.Query,
+  center: LatLng,
+  radiusKm: number
+): Promise<GeoResult[]> => {
+  const snapshots = await Promise.all(
+    geohashRangeQueries(baseQuery, center, radiusKm).map((query) => query.get())
+  );
+  return withinRadius(snapshots, center, radiusKm);
+};
+
+/**
+ * Live version of queryWithinRadius: listens to each geohash range and calls
+ * `onResults` with the merged matches once every range has reported, then on
+ * every change. Returns a function that stops all the listeners.
+ */
+export const subscribeWithinRadius = (
+  baseQuery: firebase.firestore.Query,
+  center: LatLng,
+  radiusKm: number,
+  onResults: (results: GeoResult[]) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  const queries = geohashRangeQueries(baseQuery, center, radiusKm);
+  const snapshots: (firebase.firestore.QuerySnapshot | undefined)[] = queries.map(() => undefined);
+
+  const unsubscribes = queries.map((query, index) =>
+    query.onSnapshot((snapshot) => {
+      snapshots[index] = snapshot;
+      if (snapshots.every(Boolean)) {
+        onResults(withinRadius(snapshots as firebase.firestore.QuerySnapshot[], center, radiusKm));
+      }
+    }, onError)
+  );
+
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+};
+
+// Documents inside a map viewport, closest to the viewport's centre first
+export const queryWithinBoundingBox = async (
+  baseQuery: firebase.firestore.Query,
+  box: BoundingBox
+): Promise<GeoResult[]> => {
+  const results = await queryWithinRadius(baseQuery, boundingBoxCenter(box), boundingBoxRadiusKm(box));
+  return results.filter((result) => isInBoundingBox(result.location, box));
+};
@@ -0,0 +1,212 @@
+import { db } from '../config/firebase';
+import firebase from 'firebase/compat/app';
+import { LatLng, isValidLatLng } from '../utils/geohash';
+import { DEFAULT_GEOFENCE_CONFIG, Geofence, GeofenceConfig, GeofenceCrossing } from '../utils/geofence';
+import { getDocumentLocation } from './geoQueryService';
+import { updateOrderStatus } from './buyerServices';
+import { updateErrandStatus } from './runnerServices';
+import { ErrandStop, getErrandStops, getNextStop, updateErrandStopStatus } from './errandStopsService';
+
+// Geofences around a job's pickup and dropoff points. Crossing one records an
+// arrival or departure on the job (`geofenceEvents`) for the buyer to follow,
+// and can move the job along: leaving the store marks an order on the way,
+// reaching an errand stop marks it arrived. Delivery itself still needs proof.
+export type GeofenceMode = 'auto' | 'suggest' | 'off';
+
+export type GeofenceKind = 'pickup' | 'dropoff';
+
+export type GeofenceEventType = 'arrived' | 'departed';
+
+export interface GeofenceSettings {
+  mode: GeofenceMode;
+  radiusMeters: number;
+}
+
+export interface JobGeofence extends Geofence {
+  kind: GeofenceKind;
+  label: string; // e.g. 'the store', 'pickup 2'
+  stopId: string | null;
+}
+
+// Stored on the order or errand in `geofenceEvents`
+export interface GeofenceEvent {
+  type: GeofenceEventType;
+  kind: GeofenceKind;
+  fenceId: string;
+  label: string;
+  at: any;
+}
+
+export interface GeofenceTransition {
+  label: string;
+  apply: () => Promise<void>;
+}
+
+export const GEOFENCE_MODE_LABELS: Record<GeofenceMode, string> = {
+  auto: 'Update automatically',
+  suggest: 'Ask me first',
+  off: 'Off',
+};
+
+export const GEOFENCE_RADIUS_OPTIONS = [50, 75, 150];
+
+export const DEFAULT_GEOFENCE_SETTINGS: GeofenceSettings = {
+  mode: 'suggest',
+  radiusMeters: DEFAULT_GEOFENCE_CONFIG.radiusMeters,
+};
+
+export const toGeofenceConfig = (settings: GeofenceSettings): GeofenceConfig => ({
+  ...DEFAULT_GEOFENCE_CONFIG,
+  radiusMeters: settings.radiusMeters,
+});
+
+export const getGeofenceSettings = async (runnerId: string): Promise<GeofenceSettings> => {
+  const doc = await db.collection('users').doc(runnerId).get();
+  return { ...DEFAULT_GEOFENCE_SETTINGS, ...(doc.data()?.geofenceSettings || {}) };
+};
+
+export const updateGeofenceSettings = async (runnerId: string, settings: GeofenceSettings): Promise<void> => {
+  await db.collection('users').doc(runnerId).update({
+    geofenceSettings: settings,
+    updatedAt: firebase.firestore.FieldValue.serverTimestamp(),
+  });
+};
+
+const flatLocation = (value: any): LatLng | null => {
+  const location = { latitude: Number(value?.latitude), longitude: Number(value?.longitude) };
+  return isValidLatLng(location) ? location : null;
+};
+
+const userLocation = async (userId: string | undefined): Promise<LatLng | null> => {
+  if (!userId) return null;
+  const doc = await db.collection('users').doc(userId).get();
+  return doc.exists ? getDocumentLocation(doc.data()!) : null;
+};
+
+/**
+ * Fences for a job: the store and the buyer for an order, every located stop
+ * for an errand. Orders fall back to the seller's and buyer's saved locations.
+ */
+export const getJobGeofences = async (jobType: 'order' | 'errand', job: any): Promise<JobGeofence[]> => {
+  if (jobType === 'errand') {
+    const stops = getErrandStops(job);
+    const pickups = stops.filter((stop) => stop.type === 'pickup').length;
+    // Pickups come first, so a pickup's position in the route is its number
+    return stops
+      .map((stop, index) => ({
+        id: stop.id,
+        center: stop.coordinates as LatLng,
+        kind: stop.type,
+        label: stop.type === 'dropoff' ? 'the dropoff' : pickups > 1 ? `pickup ${index + 1}` : 'the pickup',
+        stopId: stop.id,
+      }))
+      .filter((fence) => !!fence.center);
+  }
+
+  const [store, customer] = await Promise.all([
+    flatLocation(job.store) || userLocation(job.sellerId),
+    flatLocation(job.customer) || flatLocation(job.customerLocation) || userLocation(job.buyerId || job.userId),
+  ]);
+  return [
+    ...(store ? [{ id: 'store', center: store, kind: 'pickup' as const, label: 'the store', stopId: null }] : []),
+    ...(customer ? [{ id: 'customer', center: customer, kind: 'dropoff' as const, label: 'the delivery address', stopId: null }] : []),
+  ];
+};
+
+export const recordGeofenceEvent = async (
+  jobType: 'order' | 'errand',
+  jobId: string,
+  fence: JobGeofence,
+  type: GeofenceEventType
+): Promise<void> => {
+  const event: GeofenceEvent = {
+    type,
+    kind: fence.kind,
+    fenceId: fence.id,
+    label: fence.label,
+    // serverTimestamp() is not allowed inside arrays, so stamp with the client clock
+    at: firebase.firestore.Timestamp.now(),
+  };
+  await db.collection(jobType === 'order' ? 'orders' : 'errands').doc(jobId).update({
+    geofenceEvents: firebase.firestore.FieldValue.arrayUnion(event),
+  });
+};
+
+export const describeGeofenceEvent = (event: GeofenceEvent): string =>
+  `Runner ${event.type === 'arrived' ? 'arrived at' : 'left'} ${event.label}`;
+
+const orderTransition = (jobId: string, job: any, fence: JobGeofence, crossing: GeofenceCrossing): GeofenceTransition | null => {
+  // Leaving the store means the order was collected
+  if (fence.kind !== 'pickup' || crossing !== 'exit' || !['assigned', 'picked_up'].includes(job.status)) return null;
+
+  return {
+    label: 'Mark as On The Way',
+    apply: async () => {
+      if (job.status === 'assigned') {
+        await updateOrderStatus(jobId, 'picked_up', { step: 'picked_up' });
+      }
+      await updateOrderStatus(jobId, 'out_for_delivery', { step: 'out_for_delivery' });
+    },
+  };
+};
+
+const errandTransition = (
+  runnerId: string,
+  jobId: string,
+  job: any,
+  fence: JobGeofence,
+  crossing: GeofenceCrossing
+): GeofenceTransition | null => {
+  const stops: ErrandStop[] = Array.isArray(job.stops) ? job.stops : [];
+
+  // Errands created before stops existed only move between errand statuses
+  if (stops.length === 0) {
+    if (fence.kind !== 'pickup') return null;
+    if (crossing === 'enter' && job.status === 'accepted') {
+      return { label: 'Start Delivery', apply: async () => { await updateErrandStatus(runnerId, jobId, 'in_progress'); } };
+    }
+    if (crossing === 'exit' && job.status === 'in_progress') {
+      return { label: 'Mark as On The Way', apply: async () => { await updateErrandStatus(runnerId, jobId, 'on_the_way'); } };
+    }
+    return null;
+  }
+
+  const nextStop = getNextStop(stops);
+  if (!nextStop || nextStop.id !== fence.stopId) return null;
+
+  if (crossing === 'enter' && nextStop.status === 'pending') {
+    return {
+      label: `Arrived at ${fence.label}`,
+      apply: async () => {
+        if (job.status === 'accepted') await updateErrandStatus(runnerId, jobId, 'in_progress');
+        await updateErrandStopStatus(jobId, nextStop.id, 'arrived');
+      },
+    };
+  }
+
+  // The dropoff is completed with proof of delivery, so only pickups complete on departure
+  if (crossing === 'exit' && nextStop.status === 'arrived' && nextStop.type === 'pickup') {
+    const lastPickup = stops.filter((stop) => stop.type === 'pickup').pop()?.id === nextStop.id;
+    return {
+      label: `Picked up at ${fence.label}`,
+      apply: async () => {
+        await updateErrandStopStatus(jobId, nextStop.id, 'completed');
+        if (lastPickup && job.status === 'in_progress') await updateErrandStatus(runnerId, jobId, 'on_the_way');
+      },
+    };
+  }
+  return null;
+};
+
+// The status change a crossing implies for the job as it stands, if any
+export const getGeofenceTransition = (
+  jobType: 'order' | 'errand',
+  runnerId: string,
+  jobId: string,
+  job: any,
+  fence: JobGeofence,
+  crossing: GeofenceCrossing
+): GeofenceTransition | null =>
+  jobType === 'order'
+    ? orderTransition(jobId, job, fence, crossing)
+    : errandTransition(runnerId, jobId, job, fence, crossing);
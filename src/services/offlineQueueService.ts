@@ -0,0 +1,176 @@
+import { auth, functions } from '../config/firebase';
+import { getOfflineQueue, saveOfflineQueue } from '../utils/storage';
+
+// Runner updates made without signal. Location samples and status changes are
+// kept on the device in the order they happened and sent once the connection
+// returns, as reported by OfflineBanner. The syncRunnerUpdates callable
+// replays them, never letting a late sample replace a newer `currentLocation`
+// or a stale status change undo later progress.
+export interface QueuedLocation {
+  kind: 'location';
+  id: string;
+  runnerId: string;
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  recordedAt: number; // ms
+}
+
+export interface QueuedStatusChange {
+  kind: 'status';
+  id: string;
+  runnerId: string;
+  jobType: 'order' | 'errand';
+  jobId: string;
+  status: string;
+  recordedAt: number; // ms
+}
+
+export type QueuedUpdate = QueuedLocation | QueuedStatusChange;
+
+interface SyncResult {
+  id: string;
+  applied: boolean;
+  reason?: string;
+}
+
+// Matches MAX_SYNC_UPDATES
+const MAX_SYNC_UPDATES = 200;
+
+// Past this the oldest samples are dropped; status changes are always kept
+const MAX_QUEUED_LOCATIONS = 1000;
+
+let queue: QueuedUpdate[] = [];
+let loaded: Promise<void> | null = null;
+let flushing: Promise<void> | null = null;
+let online = true;
+const listeners = new Set<(pending: number) => void>();
+
+// Pick up whatever an earlier session left behind
+const load = () => {
+  if (!loaded) {
+    loaded = getOfflineQueue<QueuedUpdate>().then((saved) => {
+      queue = [...saved, ...queue];
+    });
+  }
+  return loaded;
+};
+
+const persist = async () => {
+  await saveOfflineQueue(queue);
+  listeners.forEach((listener) => listener(queue.length));
+};
+
+const queueId = () => `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const isOnline = (): boolean => online;
+
+export const hasPendingUpdates = (): boolean => queue.length > 0;
+
+export const subscribeToPendingUpdates = (listener: (pending: number) => void): (() => void) => {
+  listeners.add(listener);
+  load().then(() => listener(queue.length));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const enqueue = async (update: QueuedUpdate) => {
+  await load();
+  queue.push(update);
+  if (queue.filter((item) => item.kind === 'location').length > MAX_QUEUED_LOCATIONS) {
+    queue.splice(queue.findIndex((item) => item.kind === 'location'), 1);
+  }
+  await persist();
+
+  // Online with a backlog: send it now so this update goes out behind it
+  if (online) flushOfflineQueue();
+};
+
+export const queueLocationSample = (
+  runnerId: string,
+  latitude: number,
+  longitude: number,
+  recordedAt: number = Date.now(),
+  accuracy: number | null = null
+): Promise<void> =>
+  enqueue({ kind: 'location', id: queueId(), runnerId, latitude, longitude, accuracy, recordedAt });
+
+export const queueStatusChange = (
+  runnerId: string,
+  jobType: 'order' | 'errand',
+  jobId: string,
+  status: string
+): Promise<void> =>
+  enqueue({ kind: 'status', id: queueId(), runnerId, jobType, jobId, status, recordedAt: Date.now() });
+
+/**
+ * Send one status change straight away, through the same callable and checks
+ * as a replayed one, so online and offline changes accept the same moves.
+ */
+export const sendStatusChange = async (
+  jobType: 'order' | 'errand',
+  jobId: string,
+  status: string
+): Promise<SyncResult> => {
+  const id = queueId();
+  const result = await functions.httpsCallable('syncRunnerUpdates')({
+    updates: [{ kind: 'status', id, jobType, jobId, status, recordedAt: Date.now() }],
+  });
+  return (result.data?.results as SyncResult[] || []).find((item) => item.id === id)
+    || { id, applied: false, reason: 'invalid' };
+};
+
+/**
+ * Send the queue oldest first, a batch at a time. A failed call leaves the
+ * rest queued for the next reconnect. Updates from another account cannot be
+ * sent as the signed in user and are dropped.
+ */
+export const flushOfflineQueue = (): Promise<void> => {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    await load();
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
+
+    const foreign = queue.filter((item) => item.runnerId !== uid).length;
+    if (foreign > 0) {
+      console.warn(`Dropping ${foreign} offline updates queued by another account`);
+      queue = queue.filter((item) => item.runnerId === uid);
+      await persist();
+    }
+
+    const sync = functions.httpsCallable('syncRunnerUpdates');
+    while (online && queue.length > 0) {
+      const batch = queue.slice(0, MAX_SYNC_UPDATES);
+      try {
+        const result = await sync({ updates: batch.map(({ runnerId: _runnerId, ...update }) => update) });
+        (result.data?.results as SyncResult[] || [])
+          .filter((item) => !item.applied && item.reason !== 'superseded' && item.reason !== 'unchanged')
+          .forEach((item) => console.warn(`Offline update ${item.id} was not applied: ${item.reason}`));
+      } catch (error) {
+        console.error('Error syncing offline updates:', error);
+        return;
+      }
+
+      const sent = new Set(batch.map((item) => item.id));
+      queue = queue.filter((item) => !sent.has(item.id));
+      await persist();
+    }
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+};
+
+// Fed by OfflineBanner's connectivity listener; coming back online sends the backlog
+export const handleConnectivityChange = (isConnected: boolean): void => {
+  online = isConnected;
+  if (isConnected) {
+    load().then(() => {
+      if (online && queue.length > 0) flushOfflineQueue();
+    });
+  }
+};
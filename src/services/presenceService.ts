@@ -0,0 +1,144 @@
+import { AppState, AppStateStatus } from 'react-native';
+import firebase from 'firebase/compat/app';
+import { db } from '../config/firebase';
+import socketService from './socketService';
+
+// Whether a user has the app open. Heartbeats go over the socket so chat
+// partners see changes live, and a slower one is recorded in
+// `presence/{userId}` so the expirePresence function can mark users who
+// vanish without signing off (app killed, signal lost) as offline and write
+// their `lastSeen` back. This is separate from `isOnline` on the user
+// document, which is a runner's or seller's availability for work.
+export interface PresenceStatus {
+  isOnline: boolean;
+  lastSeen: Date | null;
+}
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const PERSIST_INTERVAL_MS = 60 * 1000;
+
+// Matches PRESENCE_TIMEOUT_MS
+export const PRESENCE_TIMEOUT_MS = 2 * 60 * 1000;
+
+const writePresence = (userId: string, online: boolean) => {
+  const now = firebase.firestore.FieldValue.serverTimestamp();
+  const writes = [
+    db.collection('presence').doc(userId).set(
+      online ? { online: true, lastHeartbeatAt: now } : { online: false, lastSeen: now },
+      { merge: true }
+    ),
+  ];
+  if (!online) writes.push(db.collection('users').doc(userId).update({ lastSeen: now }));
+  return Promise.all(writes).catch((error) => {
+    console.error('Error recording presence:', error);
+  });
+};
+
+/**
+ * Keep the signed in user's presence up to date while the app is in the
+ * foreground. Returns a function that marks them offline and stops.
+ */
+export const startPresence = (userId: string): (() => void) => {
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let lastPersistedAt = 0;
+
+  const beat = () => {
+    socketService.sendPresence(userId, true);
+    if (Date.now() - lastPersistedAt >= PERSIST_INTERVAL_MS) {
+      lastPersistedAt = Date.now();
+      writePresence(userId, true);
+    }
+  };
+
+  const goOnline = () => {
+    if (heartbeat) return;
+    socketService.ensureConnected().then(() => socketService.sendPresence(userId, true));
+    lastPersistedAt = 0;
+    beat();
+    heartbeat = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+  };
+
+  const goOffline = () => {
+    if (!heartbeat) return;
+    clearInterval(heartbeat);
+    heartbeat = null;
+    socketService.sendPresence(userId, false);
+    writePresence(userId, false);
+  };
+
+  const handleAppState = (state: AppStateStatus) => {
+    if (state === 'active') goOnline();
+    else if (state === 'background') goOffline();
+  };
+
+  const subscription = AppState.addEventListener('change', handleAppState);
+  if (AppState.currentState !== 'background') goOnline();
+
+  return () => {
+    subscription.remove();
+    goOffline();
+  };
+};
+
+const fromRecord = (data: firebase.firestore.DocumentData | undefined): PresenceStatus => {
+  const lastHeartbeatAt: Date | null = data?.lastHeartbeatAt?.toDate?.() || null;
+  const fresh = !!lastHeartbeatAt && Date.now() - lastHeartbeatAt.getTime() < PRESENCE_TIMEOUT_MS;
+  return {
+    isOnline: !!data?.online && fresh,
+    lastSeen: data?.online ? lastHeartbeatAt : data?.lastSeen?.toDate?.() || lastHeartbeatAt,
+  };
+};
+
+export const getPresence = async (userId: string): Promise<PresenceStatus> => {
+  try {
+    return fromRecord((await db.collection('presence').doc(userId).get()).data());
+  } catch (error) {
+    console.error('Error getting presence:', error);
+    return { isOnline: false, lastSeen: null };
+  }
+};
+
+/**
+ * Follow another user's presence: socket events when they arrive, the stored
+ * record otherwise. Without a heartbeat for PRESENCE_TIMEOUT_MS the user is
+ * shown offline even before the server catches up.
+ */
+export const subscribeToPresence = (userId: string, callback: (status: PresenceStatus) => void): (() => void) => {
+  let status: PresenceStatus = { isOnline: false, lastSeen: null };
+  let lastHeartbeatAt = 0;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const update = (next: PresenceStatus, heartbeatAt: number) => {
+    status = next;
+    lastHeartbeatAt = heartbeatAt;
+    if (timeout) clearTimeout(timeout);
+    if (next.isOnline) {
+      timeout = setTimeout(() => {
+        update({ isOnline: false, lastSeen: new Date(lastHeartbeatAt) }, lastHeartbeatAt);
+      }, Math.max(0, heartbeatAt + PRESENCE_TIMEOUT_MS - Date.now()));
+    }
+    callback(status);
+  };
+
+  const unsubscribeRecord = db.collection('presence').doc(userId).onSnapshot((doc) => {
+    const data = doc.data();
+    const heartbeatAt = data?.lastHeartbeatAt?.toMillis?.() || 0;
+    // A socket heartbeat may already be newer than the stored one
+    if (status.isOnline && heartbeatAt < lastHeartbeatAt) return;
+    update(fromRecord(data), heartbeatAt);
+  }, (error) => {
+    console.error('Error in presence listener:', error);
+  });
+
+  const unsubscribeSocket = socketService.onPresence((event) => {
+    if (event.userId !== userId) return;
+    const at = new Date(event.timestamp).getTime() || Date.now();
+    update({ isOnline: event.online, lastSeen: new Date(at) }, at);
+  });
+
+  return () => {
+    if (timeout) clearTimeout(timeout);
+    unsubscribeRecord();
+    unsubscribeSocket();
+  };
+};
@@ -0,0 +1,85 @@
+import { functions } from '../config/firebase';
+import { createOrderReviewPrompt } from './buyerServices';
+import { createErrandReviewPrompt, uploadImageAsync } from './runnerServices';
+
+// Mirrors the `proofOfDelivery` field written on orders and errands by
+// functions/src/proofOfDelivery.ts. The buyer gets a 4-digit handoff code
+// once the runner is on the way; the runner completes the job with that code,
+// or with a photo for a no-contact drop.
+export type HandoffJobType = 'order' | 'errand';
+
+export type ProofMethod = 'code' | 'no_contact';
+
+export interface SignatureData {
+  path: string; // SVG path in pad coordinates
+  width: number;
+  height: number;
+}
+
+export interface ProofOfDelivery {
+  method: ProofMethod;
+  photoUrl: string | null;
+  signature: SignatureData | null;
+  recipientName: string | null;
+  submittedBy: string;
+  submittedAt: any;
+}
+
+export interface ProofOfDeliverySubmission {
+  code?: string;
+  noContact?: boolean;
+  photoUri?: string | null; // local file, uploaded before submitting
+  signature?: SignatureData | null;
+  recipientName?: string;
+}
+
+// Matches HANDOFF_CODE_LENGTH
+export const HANDOFF_CODE_LENGTH = 4;
+
+export const PROOF_METHOD_LABELS: Record<ProofMethod, string> = {
+  code: 'Handed over with code',
+  no_contact: 'No-contact drop',
+};
+
+// Statuses in which the buyer has a code to give the runner
+export const hasHandoffCode = (jobType: HandoffJobType, status: string): boolean =>
+  jobType === 'order'
+    ? status === 'picked_up' || status === 'out_for_delivery'
+    : status === 'in_progress' || status === 'on_the_way';
+
+export const getHandoffCode = async (jobType: HandoffJobType, jobId: string): Promise<string> => {
+  const result = await functions.httpsCallable('getHandoffCode')({ jobType, jobId });
+  return result.data.code;
+};
+
+/**
+ * Complete an order (`delivered`) or errand (`completed`). The photo is
+ * uploaded first; a wrong code is rejected by the server and counts against
+ * the runner's attempts.
+ */
+export const submitProofOfDelivery = async (
+  jobType: HandoffJobType,
+  jobId: string,
+  runnerId: string,
+  submission: ProofOfDeliverySubmission
+): Promise<void> => {
+  const photoUrl = submission.photoUri
+    ? await uploadImageAsync(submission.photoUri, `proofOfDelivery/${jobType}s/${jobId}/${Date.now()}.jpg`)
+    : null;
+
+  await functions.httpsCallable('submitProofOfDelivery')({
+    jobType,
+    jobId,
+    code: submission.noContact ? undefined : submission.code,
+    noContact: !!submission.noContact,
+    photoUrl,
+    signature: submission.signature || null,
+    recipientName: submission.recipientName || undefined,
+  });
+
+  if (jobType === 'order') {
+    await createOrderReviewPrompt(jobId);
+  } else {
+    await createErrandReviewPrompt(runnerId, jobId);
+  }
+};
@@ -1,6 +1,16 @@
-import { db } from '../config/firebase';
+import { db, functions } from '../config/firebase';
 import firebase from 'firebase/compat/app';
 import * as Location from 'expo-location';
+import {
+  EarningsSummary,
+  getLedgerEntries,
+  getWallet,
+  subscribeToLedgerEntries,
+  summariseEarnings,
+} from './walletService';
+import { geohashFields } from './geoQueryService';
+import { hasPendingUpdates, isOnline, queueLocationSample, queueStatusChange, sendStatusChange } from './offlineQueueService';
+import { AdaptiveLocationSubscription, watchAdaptiveLocation } from '../utils/locationSampling';
 
 // Get runner profile - FIXED VERSION
 export const getProfile = async (runnerId: string) => {
@@ -132,73 +142,92 @@ export const updateAvailability = async (runnerId: string, isAvailable: boolean)
   const ref = db.collection('users').doc(runnerId);
   await ref.update({
     status: isAvailable ? 'available' : 'offline',
+    // Read by automatic dispatch when choosing runners to offer jobs to
+    availabilityStatus: isAvailable ? 'available' : 'offline',
     updatedAt: new Date().toISOString()
   });
 };
 
-export const updateErrandStatus = async (runnerId: string, errandId: string, status: string) => {
+// Prompt the buyer to review the runner once an errand is done
+export const createErrandReviewPrompt = async (runnerId: string, errandId: string) => {
   try {
-    // Update the errand status in the errands collection
-    await db.collection('errands').doc(errandId).update({
-      status,
-      updatedAt: firebase.firestore.FieldValue.serverTimestamp(),
-      ...(status === 'completed' && {
-        completedAt: firebase.firestore.FieldValue.serverTimestamp(),
-      }),
-    });
-
-    // Update runner's current status
-    const ref = db.collection('users').doc(runnerId);
-    await ref.update({
-      currentErrand: status === 'completed' ? null : errandId,
-      status: status === 'completed' ? 'available' : 'busy',
-      updatedAt: firebase.firestore.FieldValue.serverTimestamp(),
-    });
-
-    // If errand is completed, trigger review prompt
-    if (status === 'completed' || status === 'delivered') {
-      try {
-        const errandDoc = await db.collection('errands').doc(errandId).get();
-        if (errandDoc.exists) {
-          const errandData = errandDoc.data();
-          const buyerId = errandData?.buyerId;
-          let runnerNameToUse = errandData?.runnerName;
-          let runnerImageToUse = errandData?.runnerImage;
-          
-          if (buyerId && runnerId) {
-            if (!runnerNameToUse) {
-              const runnerDoc = await db.collection('users').doc(runnerId).get();
-              if (runnerDoc.exists) {
-                const runnerData = runnerDoc.data();
-                runnerNameToUse = runnerData?.name || runnerData?.displayName || 'Unknown Runner';
-                runnerImageToUse = runnerData?.image || runnerData?.avatar;
-              }
-            }
-            
-            const { reviewService } = await import('./reviewService');
-            await reviewService.createErrandReviewTrigger(
-              buyerId,
-              errandId,
-              runnerId,
-              runnerNameToUse,
-              runnerImageToUse
-            );
+    const errandDoc = await db.collection('errands').doc(errandId).get();
+    if (errandDoc.exists) {
+      const errandData = errandDoc.data();
+      const buyerId = errandData?.buyerId;
+      let runnerNameToUse = errandData?.runnerName;
+      let runnerImageToUse = errandData?.runnerImage;
+      
+      if (buyerId && runnerId) {
+        if (!runnerNameToUse) {
+          const runnerDoc = await db.collection('users').doc(runnerId).get();
+          if (runnerDoc.exists) {
+            const runnerData = runnerDoc.data();
+            runnerNameToUse = runnerData?.name || runnerData?.displayName || 'Unknown Runner';
+            runnerImageToUse = runnerData?.image || runnerData?.avatar;
           }
         }
-      } catch (error) {
-        console.error('Error creating review trigger for completed errand:', error);
+        
+        const { reviewService } = await import('./reviewService');
+        await reviewService.createErrandReviewTrigger(
+          buyerId,
+          errandId,
+          runnerId,
+          runnerNameToUse,
+          runnerImageToUse
+        );
       }
     }
+  } catch (error) {
+    console.error('Error creating review trigger for completed errand:', error);
+  }
+};
 
+// Taking an errand assigns the runner, so it goes straight to the server in a
+// transaction instead of waiting in the offline queue
+export const acceptErrand = async (errandId: string) => {
+  await functions.httpsCallable('acceptErrand')({ errandId });
+  return true;
+};
+
+export const updateErrandStatus = async (runnerId: string, errandId: string, status: string) => {
+  if (status === 'accepted') {
+    throw new Error('Errands are accepted with acceptErrand');
+  }
+  // Completion needs the buyer's handoff code or a no-contact photo, and goes
+  // through submitProofOfDelivery in proofOfDeliveryService
+  if (status === 'completed') {
+    throw new Error('Errands are completed with proof of delivery');
+  }
+
+  // Without signal the change waits in the offline queue, behind anything already there
+  if (!isOnline() || hasPendingUpdates()) {
+    await queueStatusChange(runnerId, 'errand', errandId, status);
     return true;
-  } catch (error) {
-    console.error('Error updating errand status:', error);
-    return false;
   }
+
+  // The server checks the move against the errand as it stands and marks the runner busy
+  const { applied, reason } = await sendStatusChange('errand', errandId, status);
+  if (!applied && reason !== 'unchanged') {
+    throw new Error(`Errand cannot move to '${status}' (${reason})`);
+  }
+  return true;
 };
 
-// Update runner's current location
-export const updateRunnerLocation = async (runnerId: string, latitude: number, longitude: number) => {
+// Update runner's current location. Fixes taken without signal, or while
+// older ones are still queued, go to the offline queue instead of being lost.
+export const updateRunnerLocation = async (
+  runnerId: string,
+  latitude: number,
+  longitude: number,
+  recordedAt: number = Date.now(),
+  accuracy: number | null = null
+) => {
+  if (!isOnline() || hasPendingUpdates()) {
+    await queueLocationSample(runnerId, latitude, longitude, recordedAt, accuracy);
+    return;
+  }
+
   try {
     await db.collection('users').doc(runnerId).update({
       currentLocation: {
@@ -206,17 +235,24 @@ export const updateRunnerLocation = async (runnerId: string, latitude: number, l
         longitude,
         timestamp: firebase.firestore.FieldValue.serverTimestamp(),
       },
+      ...geohashFields(latitude, longitude),
       lastSeen: firebase.firestore.FieldValue.serverTimestamp(),
       isOnline: true,
     });
     } catch (error) {
     console.error('Error updating runner location:', error);
-    throw error;
+    await queueLocationSample(runnerId, latitude, longitude, recordedAt, accuracy);
   }
 };
 
-// Start real-time location tracking for runner
-export const startRunnerLocationTracking = async (runnerId: string) => {
+// Start real-time location tracking for runner. `onLocation` also receives
+// every fix, e.g. to check geofences. Sampling adapts to movement, battery and
+// `isOnActiveJob`; call `refresh` on the subscription when the job changes.
+export const startRunnerLocationTracking = async (
+  runnerId: string,
+  onLocation?: (location: Location.LocationObject) => void,
+  isOnActiveJob: () => boolean = () => true
+): Promise<AdaptiveLocationSubscription> => {
   try {
     // Request location permissions
     let { status } = await Location.requestForegroundPermissionsAsync();
@@ -226,18 +262,16 @@ export const startRunnerLocationTracking = async (runnerId: string) => {
 
     // Get initial location
     let location = await Location.getCurrentPositionAsync({});
-    await updateRunnerLocation(runnerId, location.coords.latitude, location.coords.longitude);
+    await updateRunnerLocation(runnerId, location.coords.latitude, location.coords.longitude, location.timestamp, location.coords.accuracy);
+    onLocation?.(location);
 
     // Set up location watching
-    const locationSubscription = await Location.watchPositionAsync(
-      {
-        accuracy: Location.Accuracy.High,
-        timeInterval: 15000, // Update every 15 seconds for runners (more frequent)
-        distanceInterval: 5, // Update every 5 meters
-      },
+    const locationSubscription = await watchAdaptiveLocation(
       async (location) => {
-        await updateRunnerLocation(runnerId, location.coords.latitude, location.coords.longitude);
-      }
+        onLocation?.(location);
+        await updateRunnerLocation(runnerId, location.coords.latitude, location.coords.longitude, location.timestamp, location.coords.accuracy);
+      },
+      { isOnActiveJob }
     );
 
     return locationSubscription;
@@ -260,243 +294,31 @@ export const stopRunnerLocationTracking = async (runnerId: string) => {
   }
 };
 
-// Get chats for a runner
-export const getChats = async (runnerId: string) => {
-  try {
-    // Get chats where the runner is a participant
-    const chatsRef = db.collection('chats').where('participants', 'array-contains', runnerId);
-    const chatsSnap = await chatsRef.get();
-    
-    if (chatsSnap.empty) {
-      return [];
-    }
-    
-    const chats = await Promise.all(chatsSnap.docs.map(async (doc: any) => {
-        const chatData = doc.data();
-        const participants = chatData.participants || [];
-        
-        // Find the other participant (not the runner)
-        const otherParticipantId = participants.find((p: string) => p !== runnerId);
-        
-        if (!otherParticipantId) {
-          return null;
-        }
-        
-        // Get the other participant's details
-        let participantDetails = null;
-        try {
-          const userRef = db.collection('users').doc(otherParticipantId);
-          const userDoc = await userRef.get();
-          if (userDoc.exists) {
-            const userData = userDoc.data();
-            participantDetails = {
-              name: userData?.name || userData?.displayName || userData?.businessName || 'Unknown User',
-              avatar: userData?.image || userData?.photoURL || userData?.avatar || 'https://i.imgur.com/T3zF9bJ.png',
-              role: userData?.role || 'user',
-            };
-          }
-        } catch (error) {
-          console.error('Error fetching participant details:', error);
-          participantDetails = {
-            name: 'Unknown User',
-            avatar: 'https://i.imgur.com/T3zF9bJ.png',
-            role: 'user',
-          };
-        }
-        
-        const unreadCount = chatData.lastMessage?.senderId === runnerId ? 0 : (chatData.unreadCount || 0);
-          
-          return {
-            id: doc.id,
-            name: participantDetails?.name || 'Unknown User',
-            avatar: participantDetails?.avatar || 'https://i.imgur.com/T3zF9bJ.png',
-            role: participantDetails?.role || 'user',
-            lastMessage: chatData.lastMessage?.content || 'No messages yet',
-            timestamp: chatData.lastMessageTime?.toDate?.()?.toLocaleTimeString([], { 
-              hour: '2-digit', 
-              minute: '2-digit' 
-            }) || 'Now',
-            unread: unreadCount,
-            online: false, 
-            participantId: otherParticipantId, // Add the other participant's ID
-          };
-      })
-    );
-    
-    // Filter out null chats and sort by last message time
-    const validChats = chats.filter(chat => chat !== null).sort((a, b) => {
-      const timeA = new Date(a.timestamp).getTime();
-      const timeB = new Date(b.timestamp).getTime();
-      return timeB - timeA;
-    });
-    
-    return validChats;
-    
-  } catch (error) {
-    console.error('Error fetching runner chats:', error);
-    return [];
-  }
-}; 
-
-// Get comprehensive earnings data for a runner
+// Get earnings for a runner from their wallet ledger
 export const getRunnerEarnings = async (runnerId: string) => {
   try {
-    // Get all completed errands for the runner
-    const errandsRef = db.collection('errands');
-    const errandsQuery = errandsRef.where('runnerId', '==', runnerId).where('status', '==', 'completed');
-    const errandsSnap = await errandsQuery.get();
-    
-    if (errandsSnap.empty) {
-      return {
-        totalEarnings: 0,
-        todayEarnings: 0,
-        weeklyEarnings: 0,
-        monthlyEarnings: 0,
-        completedErrands: [],
-        earningsBreakdown: {
-          food: 0,
-          grocery: 0,
-          express: 0,
-          package: 0,
-          errand: 0,
-        }
-      };
-    }
-    
-    const errands = errandsSnap.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    })) as any[];
-    
-    // Calculate total earnings
-    const totalEarnings = errands.reduce((sum, errand) => sum + (errand.fee || errand.amount || 0), 0);
-    
-    // Calculate today's earnings
-    const today = new Date();
-    const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-    const todayEarnings = errands.filter(errand => {
-      if (!errand.completedAt || !errand.completedAt.toDate) return false;
-      const completedAt = errand.completedAt.toDate();
-      return completedAt >= startOfDay;
-    }).reduce((sum, errand) => sum + (errand.fee || errand.amount || 0), 0);
-    
-    // Calculate weekly earnings
-    const startOfWeek = new Date(today.getTime() - (today.getDay() * 24 * 60 * 60 * 1000));
-    const weeklyEarnings = errands.filter(errand => {
-      if (!errand.completedAt || !errand.completedAt.toDate) return false;
-      const completedAt = errand.completedAt.toDate();
-      return completedAt >= startOfWeek;
-    }).reduce((sum, errand) => sum + (errand.fee || errand.amount || 0), 0);
-    
-    // Calculate monthly earnings
-    const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-    const monthlyEarnings = errands.filter(errand => {
-      if (!errand.completedAt || !errand.completedAt.toDate) return false;
-      const completedAt = errand.completedAt.toDate();
-      return completedAt >= startOfMonth;
-    }).reduce((sum, errand) => sum + (errand.fee || errand.amount || 0), 0);
-    
-    // Calculate earnings breakdown by category
-    const earningsBreakdown = {
-      food: 0,
-      grocery: 0,
-      express: 0,
-      package: 0,
-      errand: 0,
-    };
-    
-    errands.forEach(errand => {
-      const category = errand.category?.toLowerCase() || 'errand';
-      const amount = errand.fee || errand.amount || 0;
-      
-      if (category.includes('food')) earningsBreakdown.food += amount;
-      else if (category.includes('grocery')) earningsBreakdown.grocery += amount;
-      else if (category.includes('express')) earningsBreakdown.express += amount;
-      else if (category.includes('package')) earningsBreakdown.package += amount;
-      else earningsBreakdown.errand += amount;
-    });
-    
-    return {
-      totalEarnings,
-      todayEarnings,
-      weeklyEarnings,
-      monthlyEarnings,
-      completedErrands: errands,
-      earningsBreakdown
-    };
-    
+    const [entries, wallet] = await Promise.all([
+      getLedgerEntries(runnerId),
+      getWallet(runnerId),
+    ]);
+    return { ...summariseEarnings(entries), availableBalance: wallet.balance };
   } catch (error) {
     console.error('Error fetching runner earnings:', error);
-    return {
-      totalEarnings: 0,
-      todayEarnings: 0,
-      weeklyEarnings: 0,
-      monthlyEarnings: 0,
-      completedErrands: [],
-      earningsBreakdown: {
-        food: 0,
-        grocery: 0,
-        express: 0,
-        package: 0,
-        errand: 0,
-      }
-    };
+    return { ...summariseEarnings([]), availableBalance: 0 };
   }
 };
 
-// Update runner's total earnings in their profile
-export const updateRunnerEarnings = async (runnerId: string, newEarnings: number) => {
+// Get real-time earnings updates as ledger entries are posted
+export const subscribeToRunnerEarnings = (runnerId: string, callback: (earnings: EarningsSummary) => void) => {
   try {
-    const userRef = db.collection('users').doc(runnerId);
-    await userRef.update({
-      totalEarnings: firebase.firestore.FieldValue.increment(newEarnings),
-      updatedAt: firebase.firestore.FieldValue.serverTimestamp(),
+    return subscribeToLedgerEntries(runnerId, (entries) => {
+      callback(summariseEarnings(entries));
     });
-    
-    } catch (error) {
-    console.error('Error updating runner earnings:', error);
-    throw error;
-  }
-};
-
-// Get real-time earnings updates
-export const subscribeToRunnerEarnings = (runnerId: string, callback: (earnings: any) => void) => {
-  try {
-    const errandsRef = db.collection('errands');
-    const errandsQuery = errandsRef.where('runnerId', '==', runnerId).where('status', '==', 'completed');
-    
-    return errandsQuery.onSnapshot(async (snapshot) => {
-      const errands = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as any[];
-      
-      // Calculate earnings in real-time
-      const totalEarnings = errands.reduce((sum, errand) => sum + (errand.fee || errand.amount || 0), 0);
-      
-      const today = new Date();
-      const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-      const todayEarnings = errands.filter(errand => {
-        if (!errand.completedAt || !errand.completedAt.toDate) return false;
-        const completedAt = errand.completedAt.toDate();
-        return completedAt >= startOfDay;
-      }).reduce((sum, errand) => sum + (errand.fee || errand.amount || 0), 0);
-      
-      const earningsData = {
-        totalEarnings,
-        todayEarnings,
-        completedErrands: errands,
-        lastUpdated: new Date()
-      };
-      
-      callback(earningsData);
-    });
-    
   } catch (error) {
     console.error('Error subscribing to runner earnings:', error);
     return null;
   }
-}; 
+};
 
 // Upload an image to Firebase Storage and return the download URL
 export const uploadImageAsync = async (uri: string, path: string): Promise<string> => {
@@ -0,0 +1,86 @@
+import { db, functions } from '../config/firebase';
+import { RecurrenceRule, toLocalDateKey, upcomingOccurrences } from '../utils/recurrence';
+
+// Mirrors the schedules written by functions/src/schedules.ts. A scheduler
+// books each occurrence as an errand a day ahead (status `scheduled`) and
+// releases it to dispatch shortly before its time. All changes go through
+// callables.
+export type ScheduleStatus = 'active' | 'paused' | 'cancelled' | 'completed';
+
+export type ScheduleAction = 'pause' | 'resume' | 'cancel';
+
+export interface ErrandSchedule {
+  id: string;
+  buyerId: string;
+  buyerName: string | null;
+  template: Record<string, any>;
+  recurrence: RecurrenceRule;
+  status: ScheduleStatus;
+  nextRunAt: any;
+  skippedDates: string[];
+  occurrenceCount: number;
+  lastBookedKey: string | null;
+  createdAt: any;
+  updatedAt: any;
+}
+
+export interface ScheduledOccurrence {
+  dateKey: string;
+  at: Date;
+}
+
+export const SCHEDULE_STATUS_LABELS: Record<ScheduleStatus, string> = {
+  active: 'Active',
+  paused: 'Paused',
+  cancelled: 'Cancelled',
+  completed: 'Finished',
+};
+
+export const createErrandSchedule = async (
+  template: Record<string, any>,
+  recurrence: RecurrenceRule
+): Promise<string> => {
+  const result = await functions.httpsCallable('createErrandSchedule')({ template, recurrence });
+  return result.data.scheduleId;
+};
+
+export const manageErrandSchedule = async (scheduleId: string, action: ScheduleAction): Promise<void> => {
+  await functions.httpsCallable('manageErrandSchedule')({ scheduleId, action });
+};
+
+// Skip one date; its errand is cancelled if it has already been booked
+export const skipErrandOccurrence = async (scheduleId: string, occurrenceKey: string): Promise<void> => {
+  await functions.httpsCallable('skipErrandOccurrence')({ scheduleId, occurrenceKey });
+};
+
+export const subscribeToSchedules = (
+  buyerId: string,
+  callback: (schedules: ErrandSchedule[]) => void
+) => db.collection('errandSchedules')
+  .where('buyerId', '==', buyerId)
+  .orderBy('createdAt', 'desc')
+  .onSnapshot(
+    (snapshot) => callback(snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as ErrandSchedule))),
+    (error) => console.error('Error listening to errand schedules:', error)
+  );
+
+// Dates still to come, starting with the next one the scheduler will book
+export const getUpcomingOccurrences = (schedule: ErrandSchedule, count: number = 4): ScheduledOccurrence[] => {
+  if (schedule.status !== 'active' || !schedule.nextRunAt) return [];
+
+  const next: Date = schedule.nextRunAt.toDate ? schedule.nextRunAt.toDate() : new Date(schedule.nextRunAt);
+  const later = upcomingOccurrences(schedule.recurrence, next, count - 1, schedule.skippedDates);
+  return [next, ...later].map((at) => ({ dateKey: toLocalDateKey(at), at }));
+};
+
+// Occurrences already booked as errands that have not been released to dispatch
+export const subscribeToBookedOccurrences = (
+  buyerId: string,
+  callback: (errands: any[]) => void
+) => db.collection('errands')
+  .where('buyerId', '==', buyerId)
+  .where('status', '==', 'scheduled')
+  .onSnapshot(
+    (snapshot) => callback(snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }))),
+    (error) => console.error('Error listening to booked errands:', error)
+  );
@@ -1,7 +1,9 @@
-import { db, storage } from '../config/firebase';
+import { db, functions, storage } from '../config/firebase';
 import * as Location from 'expo-location';
 import firebase from 'firebase/compat/app';
 import 'firebase/compat/firestore';
+import { OrderStatus } from '../constants/orderLifecycle';
+import { geohashFields } from './geoQueryService';
 
 // Enhanced product management with better error handling and real-time updates
 export const addProduct = async (sellerId: string, product: any) => {
@@ -388,16 +390,11 @@ export const getOrders = async (sellerId: string) => {
   }
 };
 
-// Enhanced order status update
-export const updateOrderStatus = async (sellerId: string, orderId: string, status: string) => {
+// Enhanced order status update; the updateOrderStatus function checks the
+// order is this seller's and that the move is allowed
+export const updateOrderStatus = async (orderId: string, status: OrderStatus) => {
   try {
-    const ref = db.collection('orders').doc(orderId);
-    await ref.update({
-      status,
-      updatedAt: firebase.firestore.FieldValue.serverTimestamp(),
-      updatedBy: sellerId,
-    });
-    
+    await functions.httpsCallable('updateOrderStatus')({ orderId, status });
     return true;
   } catch (error) {
     console.error('Error updating order status:', error);
@@ -406,85 +403,6 @@ export const updateOrderStatus = async (sellerId: string, orderId: string, statu
   }
 };
 
-// Enhanced chat management
-export const getChats = async (sellerId: string) => {
-  try {
-    // Get chats where the seller is a participant
-    const chatsRef = db.collection('chats').where('participants', 'array-contains', sellerId);
-    const chatsSnap = await chatsRef.get();
-    
-    if (chatsSnap.empty) {
-      return [];
-    }
-    
-    const chats = await Promise.all(
-      chatsSnap.docs.map(async (doc: any) => {
-        const chatData = doc.data();
-        const participants = chatData.participants || [];
-        
-        // Find the other participant (not the seller)
-        const otherParticipantId = participants.find((p: string) => p !== sellerId);
-        
-        if (!otherParticipantId) {
-          return null;
-        }
-        
-        // Get the other participant's details
-        let participantDetails = null;
-        try {
-          const userRef = db.collection('users').doc(otherParticipantId);
-          const userDoc = await userRef.get();
-          if (userDoc.exists) {
-            const userData = userDoc.data();
-            participantDetails = {
-              name: userData?.name || userData?.displayName || userData?.businessName || 'Unknown User',
-              avatar: userData?.image || userData?.photoURL || userData?.avatar || 'https://i.imgur.com/T3zF9bJ.png',
-              role: userData?.role || 'user',
-            };
-          }
-        } catch (error) {
-          console.error('Error fetching participant details:', error);
-          participantDetails = {
-            name: 'Unknown User',
-            avatar: 'https://i.imgur.com/T3zF9bJ.png',
-            role: 'user',
-          };
-        }
-        
-        const unreadCount = chatData.lastMessage?.senderId === sellerId ? 0 : (chatData.unreadCount || 0);
-        
-        return {
-          id: doc.id,
-          name: participantDetails?.name || 'Unknown User',
-          avatar: participantDetails?.avatar || 'https://i.imgur.com/T3zF9bJ.png',
-          role: participantDetails?.role || 'user',
-          lastMessage: chatData.lastMessage?.content || 'No messages yet',
-          timestamp: chatData.lastMessageTime?.toDate?.()?.toLocaleTimeString([], { 
-            hour: '2-digit', 
-            minute: '2-digit' 
-          }) || 'Now',
-          unread: unreadCount,
-          online: false, 
-          participantId: otherParticipantId, // Add the other participant's ID
-        };
-      })
-    );
-    
-    // Filter out null chats and sort by last message time
-    const validChats = chats.filter(chat => chat !== null).sort((a, b) => {
-      const timeA = new Date(a.timestamp).getTime();
-      const timeB = new Date(b.timestamp).getTime();
-      return timeB - timeA;
-    });
-    
-    return validChats;
-    
-  } catch (error) {
-    console.error('Error fetching seller chats:', error);
-    return [];
-  }
-};
-
 // Enhanced location tracking
 export const updateSellerLocation = async (sellerId: string, latitude: number, longitude: number) => {
   try {
@@ -494,6 +412,7 @@ export const updateSellerLocation = async (sellerId: string, latitude: number, l
         longitude,
         timestamp: firebase.firestore.FieldValue.serverTimestamp(),
       },
+      ...geohashFields(latitude, longitude),
       lastSeen: firebase.firestore.FieldValue.serverTimestamp(),
       isOnline: true,
     });
@@ -505,6 +424,7 @@ export const updateSellerLocation = async (sellerId: string, latitude: number, l
         longitude,
         timestamp: firebase.firestore.FieldValue.serverTimestamp(),
       },
+      ...geohashFields(latitude, longitude),
       lastSeen: firebase.firestore.FieldValue.serverTimestamp(),
       isOnline: true,
     }, { merge: true });
@@ -604,52 +524,3 @@ export const subscribeToOrderUpdates = (sellerId: string, callback: (orders: any
     callback(orders);
   });
 };
-
-// New: Real-time chat updates listener
-export const subscribeToChatUpdates = (sellerId: string, callback: (chats: any[]) => void) => {
-  const ref = db.collection('chats').where('participants', 'array-contains', sellerId);
-  return ref.onSnapshot(async (snapshot) => {
-    const chats = await Promise.all(
-      snapshot.docs.map(async (doc: any) => {
-        const chatData = doc.data();
-        const participants = chatData.participants || [];
-        const otherParticipantId = participants.find((p: string) => p !== sellerId);
-        
-        if (!otherParticipantId) return null;
-        
-        try {
-          const userRef = db.collection('users').doc(otherParticipantId);
-          const userDoc = await userRef.get();
-          const userData = userDoc.data();
-          
-          return {
-            id: doc.id,
-            name: userData?.name || userData?.displayName || userData?.businessName || 'Unknown User',
-            avatar: userData?.image || userData?.photoURL || userData?.avatar || 'https://i.imgur.com/T3zF9bJ.png',
-            role: userData?.role || 'user',
-            lastMessage: chatData.lastMessage?.content || 'No messages yet',
-            timestamp: chatData.lastMessageTime?.toDate?.()?.toLocaleTimeString([], { 
-              hour: '2-digit', 
-              minute: '2-digit' 
-            }) || 'Now',
-            unread: chatData.lastMessage?.senderId === sellerId ? 0 : (chatData.unreadCount || 0),
-            online: false,
-            isOnline: userData?.isOnline || false,
-            participantId: otherParticipantId, // Add the other participant's ID
-          };
-        } catch (error) {
-          console.error('Error fetching participant details:', error);
-          return null;
-        }
-      })
-    );
-    
-    const validChats = chats.filter(chat => chat !== null).sort((a, b) => {
-      const timeA = new Date(a.timestamp).getTime();
-      const timeB = new Date(b.timestamp).getTime();
-      return timeB - timeA;
-    });
-    
-    callback(validChats);
-  });
-}; 
\ No newline at end of file
@@ -1,10 +1,34 @@
 import io, { Socket } from 'socket.io-client';
 import { PRODUCTION_CONFIG } from '../config/production';
 
+export interface TypingEvent {
+  chatId: string;
+  userId: string;
+  typing: boolean;
+}
+
+export interface PresenceEvent {
+  userId: string;
+  online: boolean;
+  timestamp: string;
+}
+
 class SocketService {
   private socket: Socket | null = null;
   private isConnected: boolean = false;
 
+  // Emits made while disconnected, sent on reconnect. Status changes go out in
+  // order; for locations only the latest per job is worth sending.
+  private pendingStatusUpdates: Record<string, any>[] = [];
+  private pendingLocations: Map<string, Record<string, any>> = new Map();
+  private static readonly MAX_PENDING_STATUS_UPDATES = 50;
+
+  // Chat rooms are rejoined after a reconnect; listeners outlive the socket itself
+  private joinedChats: Set<string> = new Set();
+  private typingListeners: Set<(event: TypingEvent) => void> = new Set();
+  private presenceListeners: Set<(event: PresenceEvent) => void> = new Set();
+  private connecting: Promise<boolean> | null = null;
+
   // Singleton instance
   private static instance: SocketService;
   
@@ -29,9 +53,23 @@ class SocketService {
         this.socket.on('connect', () => {
           console.log('Socket.io connected successfully');
           this.isConnected = true;
+          this.flushPending();
+          this.joinedChats.forEach((chatId) => this.socket?.emit('joinChat', { chatId }));
           resolve(true);
         });
 
+        this.socket.on('typingStarted', (data: Omit<TypingEvent, 'typing'>) => {
+          this.typingListeners.forEach((listener) => listener({ ...data, typing: true }));
+        });
+
+        this.socket.on('typingStopped', (data: Omit<TypingEvent, 'typing'>) => {
+          this.typingListeners.forEach((listener) => listener({ ...data, typing: false }));
+        });
+
+        this.socket.on('presence', (data: PresenceEvent) => {
+          this.presenceListeners.forEach((listener) => listener(data));
+        });
+
         this.socket.on('disconnect', () => {
           console.log('Socket.io disconnected');
           this.isConnected = false;
@@ -51,6 +89,17 @@ class SocketService {
     });
   }
 
+  // Connect unless already connected or connecting
+  public ensureConnected(): Promise<boolean> {
+    if (this.isConnected) return Promise.resolve(true);
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
   // Join tracking room
   public joinTrackingRoom(jobId: string, jobType: 'order' | 'errand', role: 'buyer' | 'seller' | 'runner'): void {
     if (this.socket && this.isConnected) {
@@ -74,28 +123,107 @@ class SocketService {
 
   // Update status
   public updateStatus(jobId: string, jobType: 'order' | 'errand', status: string): void {
+    const update = {
+      id: jobId,
+      type: jobType,
+      status,
+      timestamp: new Date().toISOString(),
+    };
     if (this.socket && this.isConnected) {
-      this.socket.emit('statusUpdate', {
-        id: jobId,
-        type: jobType,
-        status,
-        timestamp: new Date().toISOString(),
-      });
+      this.socket.emit('statusUpdate', update);
+    } else {
+      this.pendingStatusUpdates = [...this.pendingStatusUpdates, update].slice(-SocketService.MAX_PENDING_STATUS_UPDATES);
     }
   }
 
   // Update runner location
   public updateRunnerLocation(jobId: string, jobType: 'order' | 'errand', location: { latitude: number; longitude: number }): void {
+    const update = {
+      id: jobId,
+      type: jobType,
+      location,
+      timestamp: new Date().toISOString(),
+    };
+    if (this.socket && this.isConnected) {
+      this.socket.emit('locationUpdate', update);
+    } else {
+      this.pendingLocations.set(`${jobType}:${jobId}`, update);
+    }
+  }
+
+  // Send what was held back while disconnected
+  private flushPending(): void {
+    if (!this.socket) return;
+    const statusUpdates = this.pendingStatusUpdates;
+    const locations = Array.from(this.pendingLocations.values());
+    this.pendingStatusUpdates = [];
+    this.pendingLocations.clear();
+    statusUpdates.forEach((update) => this.socket?.emit('statusUpdate', update));
+    locations.forEach((update) => this.socket?.emit('locationUpdate', update));
+  }
+
+  // Listen for ETA updates
+  public onEtaUpdate(callback: (data: any) => void): void {
+    if (this.socket) {
+      this.socket.on('etaUpdate', callback);
+    }
+  }
+
+  // Share the runner's latest ETA with everyone following the job
+  public updateEta(jobId: string, jobType: 'order' | 'errand', eta: { minutes: number; arrivalAt: string; remainingKm: number }): void {
     if (this.socket && this.isConnected) {
-      this.socket.emit('locationUpdate', {
+      this.socket.emit('etaUpdate', {
         id: jobId,
         type: jobType,
-        location,
+        ...eta,
         timestamp: new Date().toISOString(),
       });
     }
   }
 
+  // Join a chat's room to exchange typing events with the other participants
+  public joinChat(chatId: string): void {
+    this.joinedChats.add(chatId);
+    if (this.socket && this.isConnected) {
+      this.socket.emit('joinChat', { chatId });
+    }
+  }
+
+  public leaveChat(chatId: string): void {
+    this.joinedChats.delete(chatId);
+    if (this.socket && this.isConnected) {
+      this.socket.emit('leaveChat', { chatId });
+    }
+  }
+
+  // Typing state is only worth sending live, so nothing is held back while disconnected
+  public sendTyping(chatId: string, userId: string, typing: boolean): void {
+    if (this.socket && this.isConnected) {
+      this.socket.emit(typing ? 'typingStarted' : 'typingStopped', { chatId, userId });
+    }
+  }
+
+  public onTyping(callback: (event: TypingEvent) => void): () => void {
+    this.typingListeners.add(callback);
+    return () => {
+      this.typingListeners.delete(callback);
+    };
+  }
+
+  // Presence heartbeat, relayed by the server to the user's chat rooms
+  public sendPresence(userId: string, online: boolean): void {
+    if (this.socket && this.isConnected) {
+      this.socket.emit('presence', { userId, online, timestamp: new Date().toISOString() });
+    }
+  }
+
+  public onPresence(callback: (event: PresenceEvent) => void): () => void {
+    this.presenceListeners.add(callback);
+    return () => {
+      this.presenceListeners.delete(callback);
+    };
+  }
+
   // Check connection status
   public getConnectionStatus(): boolean {
     return this.isConnected;
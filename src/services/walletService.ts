@@ -0,0 +1,154 @@
+import { db } from '../config/firebase';
+
+// Mirrors the ledger written by functions/src/ledger.ts. Clients only read it;
+// entries and wallet balances are written by Cloud Functions.
+export type LedgerEntryType =
+  | 'order_settlement'
+  | 'errand_fee'
+  | 'platform_commission'
+  | 'payout'
+  | 'refund'
+  | 'escrow_hold'
+  | 'cash_collection' // an errand fare the runner was paid in cash
+  | 'adjustment';
+
+export interface LedgerEntry {
+  id: string;
+  postingId: string;
+  type: LedgerEntryType;
+  sourceType: 'order' | 'errand' | 'payout' | 'refund' | 'dispute' | 'manual';
+  sourceId: string;
+  description: string;
+  account: string;
+  userId: string | null;
+  direction: 'credit' | 'debit';
+  amount: number;
+  metadata?: Record<string, any> | null;
+  createdAt: any;
+}
+
+// Refund state kept on orders and payments (see functions/src/refunds.ts)
+export type RefundState = 'pending' | 'partially_refunded' | 'refunded' | 'failed';
+
+export const REFUND_STATE_LABELS: Record<RefundState, string> = {
+  pending: 'Refund in progress',
+  partially_refunded: 'Partially refunded',
+  refunded: 'Refunded',
+  failed: 'Refund failed - support will follow up',
+};
+
+export interface Wallet {
+  userId: string;
+  balance: number;
+  totalEarnings: number;
+  totalPayouts: number;
+  totalDeductions: number;
+  entryCount: number;
+}
+
+export interface EarningsBreakdown {
+  food: number;
+  grocery: number;
+  express: number;
+  package: number;
+  errand: number;
+}
+
+export interface EarningsSummary {
+  totalEarnings: number;
+  todayEarnings: number;
+  weeklyEarnings: number;
+  monthlyEarnings: number;
+  earningEntries: LedgerEntry[];
+  earningsBreakdown: EarningsBreakdown;
+}
+
+// Net earnings: settlements less commission and refund clawbacks
+const EARNING_TYPES: LedgerEntryType[] = ['order_settlement', 'errand_fee', 'platform_commission', 'refund'];
+
+export const EMPTY_WALLET = (userId: string): Wallet => ({
+  userId,
+  balance: 0,
+  totalEarnings: 0,
+  totalPayouts: 0,
+  totalDeductions: 0,
+  entryCount: 0,
+});
+
+// Signed effect of an entry on the account's balance
+export const getSignedAmount = (entry: Pick<LedgerEntry, 'direction' | 'amount'>) =>
+  entry.direction === 'credit' ? entry.amount : -entry.amount;
+
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  if (value.toDate) return value.toDate();
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const ledgerQuery = (userId: string) =>
+  db.collection('ledgerEntries')
+    .where('userId', '==', userId)
+    .orderBy('createdAt', 'desc');
+
+const mapEntries = (snapshot: any): LedgerEntry[] =>
+  snapshot.docs.map((doc: any) => ({ id: doc.id, ...doc.data() }) as LedgerEntry);
+
+export const getWallet = async (userId: string): Promise<Wallet> => {
+  const doc = await db.collection('wallets').doc(userId).get();
+  return doc.exists ? { ...EMPTY_WALLET(userId), ...doc.data() } as Wallet : EMPTY_WALLET(userId);
+};
+
+export const subscribeToWallet = (userId: string, callback: (wallet: Wallet) => void) =>
+  db.collection('wallets').doc(userId).onSnapshot((doc) => {
+    callback(doc.exists ? { ...EMPTY_WALLET(userId), ...doc.data() } as Wallet : EMPTY_WALLET(userId));
+  });
+
+export const getLedgerEntries = async (userId: string, limit: number = 200): Promise<LedgerEntry[]> => {
+  const snapshot = await ledgerQuery(userId).limit(limit).get();
+  return mapEntries(snapshot);
+};
+
+export const subscribeToLedgerEntries = (
+  userId: string,
+  callback: (entries: LedgerEntry[]) => void,
+  limit: number = 200
+) => ledgerQuery(userId).limit(limit).onSnapshot((snapshot) => callback(mapEntries(snapshot)));
+
+// Earnings by period and category, net of any reversals of the same type
+export const summariseEarnings = (entries: LedgerEntry[], now: Date = new Date()): EarningsSummary => {
+  const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const startOfWeek = new Date(startOfDay.getTime() - (startOfDay.getDay() * 24 * 60 * 60 * 1000));
+  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+
+  const summary: EarningsSummary = {
+    totalEarnings: 0,
+    todayEarnings: 0,
+    weeklyEarnings: 0,
+    monthlyEarnings: 0,
+    earningEntries: [],
+    earningsBreakdown: { food: 0, grocery: 0, express: 0, package: 0, errand: 0 },
+  };
+
+  entries.forEach((entry) => {
+    if (!EARNING_TYPES.includes(entry.type)) return;
+
+    const amount = getSignedAmount(entry);
+    const createdAt = toDate(entry.createdAt);
+    summary.totalEarnings += amount;
+    if (createdAt && createdAt >= startOfDay) summary.todayEarnings += amount;
+    if (createdAt && createdAt >= startOfWeek) summary.weeklyEarnings += amount;
+    if (createdAt && createdAt >= startOfMonth) summary.monthlyEarnings += amount;
+    if (entry.direction === 'credit') summary.earningEntries.push(entry);
+
+    const category = String(entry.metadata?.category || 'errand').toLowerCase();
+    const breakdown = summary.earningsBreakdown;
+    if (category.includes('food')) breakdown.food += amount;
+    else if (category.includes('grocery')) breakdown.grocery += amount;
+    else if (category.includes('express')) breakdown.express += amount;
+    else if (category.includes('package')) breakdown.package += amount;
+    else breakdown.errand += amount;
+  });
+
+  return summary;
+};
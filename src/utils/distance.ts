@@ -1,3 +1,5 @@
+import { DEFAULT_FEE_RULES, FeeBreakdown, FeeRules, calculateErrandFees } from '../constants/feeRules';
+
 // Enhanced Haversine formula to calculate the distance between two coordinates in kilometers
 export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
   // Enhanced input validation
@@ -147,19 +149,27 @@ async function geocodeWithGoogle(address: string): Promise<{latitude: number, lo
   }
 }
 
-// Calculate distance and price with enhanced validation
+// Total length of a route through each point in order, in kilometers
+export function calculateRouteDistance(route: Array<{ latitude: number; longitude: number }>): number {
+  let total = 0;
+  for (let i = 1; i < route.length; i++) {
+    total += haversineDistance(route[i - 1].latitude, route[i - 1].longitude, route[i].latitude, route[i].longitude);
+  }
+  return Math.round(total * 100) / 100;
+}
+
+// Calculate the route distance and the itemised errand price from the fee rules.
+// The route runs from the first pickup through every stop to the dropoff.
 export function calculateDistanceAndPrice(
-  pickupLat: number, 
-  pickupLon: number, 
-  dropoffLat: number, 
-  dropoffLon: number,
-  pricePerKm: number = 1000
-): { distance: number; price: number; isValid: boolean } {
-  const distance = haversineDistance(pickupLat, pickupLon, dropoffLat, dropoffLon);
-  const price = Math.round(distance * pricePerKm);
-  const isValid = distance > 0 && distance <= 50; // Max 50km for errands
+  route: Array<{ latitude: number; longitude: number }>,
+  rules: FeeRules = DEFAULT_FEE_RULES,
+  errandType?: string | null
+): { distance: number; price: number; isValid: boolean; fees: FeeBreakdown } {
+  const distance = calculateRouteDistance(route);
+  const fees = calculateErrandFees(rules, { distanceKm: distance, errandType });
+  const isValid = route.length >= 2 && distance > 0 && distance <= 50; // Max 50km for errands
   
-  return { distance, price, isValid };
+  return { distance, price: fees.total, isValid, fees };
 }
 
 // Get location display name from coordinates (reverse geocoding)
@@ -0,0 +1,88 @@
+// Arrival estimates from remaining distance, vehicle, recent speed and traffic
+import { LatLng, distanceKm } from './geohash';
+
+export type VehicleType = 'walking' | 'bicycle' | 'motorcycle' | 'car';
+
+// Typical door-to-door speeds in city traffic
+export const VEHICLE_SPEED_KMH: Record<VehicleType, number> = {
+  walking: 4.5,
+  bicycle: 12,
+  motorcycle: 22,
+  car: 18,
+};
+
+export const DEFAULT_VEHICLE_TYPE: VehicleType = 'motorcycle';
+
+// Roads are longer than the straight line between two points
+export const ROUTE_DETOUR_FACTOR = 1.3;
+
+// Only fixes this recent count towards the runner's current speed
+const RECENT_SPEED_WINDOW_MS = 5 * 60 * 1000;
+
+// Below this the runner is treated as stopped (waiting at a store, at lights)
+const MIN_MOVING_SPEED_KMH = 3;
+
+// How far recent speed may pull the estimate away from the vehicle's typical speed
+const MIN_SPEED_RATIO = 0.5;
+const MAX_SPEED_RATIO = 1.5;
+
+export interface SpeedSample extends LatLng {
+  timestamp: number; // ms
+}
+
+export interface EtaInput {
+  remainingKm: number; // straight-line distance along the remaining stops
+  vehicleType?: VehicleType;
+  recentSpeedKmh?: number | null;
+  trafficFactor?: number; // travel time in traffic divided by free-flow time
+}
+
+// Profiles store free text such as 'Motorcycle' or 'bike'
+export const normalizeVehicleType = (value: string | null | undefined): VehicleType => {
+  const vehicle = (value || '').toLowerCase();
+  if (vehicle.includes('car') || vehicle.includes('van')) return 'car';
+  if (vehicle.includes('bicycle') || (vehicle.includes('cycle') && !vehicle.includes('motor'))) return 'bicycle';
+  if (vehicle.includes('walk') || vehicle.includes('foot')) return 'walking';
+  return DEFAULT_VEHICLE_TYPE;
+};
+
+// Average speed over the recent samples, or null when there is too little to go on
+export const recentSpeedKmh = (samples: SpeedSample[], now: number = Date.now()): number | null => {
+  const recent = samples.filter((sample) => now - sample.timestamp <= RECENT_SPEED_WINDOW_MS);
+  if (recent.length < 2) return null;
+
+  const hours = (recent[recent.length - 1].timestamp - recent[0].timestamp) / (60 * 60 * 1000);
+  if (hours <= 0) return null;
+
+  const travelled = recent.slice(1).reduce((sum, sample, index) => sum + distanceKm(recent[index], sample), 0);
+  return travelled / hours;
+};
+
+/**
+ * Minutes to cover the remaining route. Starts from the vehicle's typical
+ * speed slowed by traffic, then leans towards the runner's recent speed while
+ * they are moving.
+ */
+export const estimateEtaMinutes = ({
+  remainingKm,
+  vehicleType = DEFAULT_VEHICLE_TYPE,
+  recentSpeedKmh: recent = null,
+  trafficFactor = 1,
+}: EtaInput): number => {
+  if (remainingKm <= 0) return 0;
+
+  const typical = VEHICLE_SPEED_KMH[vehicleType] / Math.max(trafficFactor, 0.5);
+  const speed = recent !== null && recent >= MIN_MOVING_SPEED_KMH
+    ? Math.min(Math.max(0.6 * recent + 0.4 * typical, typical * MIN_SPEED_RATIO), typical * MAX_SPEED_RATIO)
+    : typical;
+
+  return Math.max(1, Math.ceil((remainingKm * ROUTE_DETOUR_FACTOR / speed) * 60));
+};
+
+export const formatEta = (minutes: number): string => {
+  if (minutes < 60) {
+    return `${minutes} minutes`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+};
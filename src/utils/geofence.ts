@@ -0,0 +1,96 @@
+// Circular geofences with jitter protection, fed by the runner's location stream
+import { LatLng, distanceKm } from './geohash';
+
+export interface GeofenceConfig {
+  radiusMeters: number;
+  // Extra distance before an inside runner counts as outside, so hovering at the edge does not flap
+  exitBufferMeters: number;
+  // Fixes less accurate than this are ignored
+  maxAccuracyMeters: number;
+  // How long the runner must stay on the new side before the crossing counts
+  dwellSeconds: number;
+}
+
+export const DEFAULT_GEOFENCE_CONFIG: GeofenceConfig = {
+  radiusMeters: 75,
+  exitBufferMeters: 40,
+  maxAccuracyMeters: 50,
+  dwellSeconds: 20,
+};
+
+export interface Geofence {
+  id: string;
+  center: LatLng;
+}
+
+export interface GeofenceSample extends LatLng {
+  accuracy: number | null; // metres
+  timestamp: number; // ms
+}
+
+export interface GeofenceState {
+  inside: boolean;
+  candidateInside: boolean | null;
+  candidateSince: number | null;
+}
+
+export type GeofenceCrossing = 'enter' | 'exit';
+
+export const initialGeofenceState = (): GeofenceState => ({
+  inside: false,
+  candidateInside: null,
+  candidateSince: null,
+});
+
+/**
+ * Advance one fence with a new fix. A crossing is reported only once the
+ * runner has stayed on the other side for `dwellSeconds`; a fix that swings
+ * back first cancels it.
+ */
+export const evaluateGeofence = (
+  fence: Geofence,
+  state: GeofenceState,
+  sample: GeofenceSample,
+  config: GeofenceConfig = DEFAULT_GEOFENCE_CONFIG
+): { state: GeofenceState; crossing: GeofenceCrossing | null } => {
+  if (sample.accuracy !== null && sample.accuracy > config.maxAccuracyMeters) {
+    return { state, crossing: null };
+  }
+
+  const meters = distanceKm(fence.center, sample) * 1000;
+  const observedInside = meters <= config.radiusMeters + (state.inside ? config.exitBufferMeters : 0);
+
+  if (observedInside === state.inside) {
+    return { state: { ...state, candidateInside: null, candidateSince: null }, crossing: null };
+  }
+  if (state.candidateInside !== observedInside || state.candidateSince === null) {
+    return { state: { ...state, candidateInside: observedInside, candidateSince: sample.timestamp }, crossing: null };
+  }
+  if (sample.timestamp - state.candidateSince < config.dwellSeconds * 1000) {
+    return { state, crossing: null };
+  }
+
+  return {
+    state: { inside: observedInside, candidateInside: null, candidateSince: null },
+    crossing: observedInside ? 'enter' : 'exit',
+  };
+};
+
+// Advance every fence, returning the new states and any crossings in fence order
+export const evaluateGeofences = (
+  fences: Geofence[],
+  states: Record<string, GeofenceState>,
+  sample: GeofenceSample,
+  config: GeofenceConfig = DEFAULT_GEOFENCE_CONFIG
+) => {
+  const nextStates: Record<string, GeofenceState> = {};
+  const crossings: { fenceId: string; crossing: GeofenceCrossing }[] = [];
+
+  fences.forEach((fence) => {
+    const result = evaluateGeofence(fence, states[fence.id] || initialGeofenceState(), sample, config);
+    nextStates[fence.id] = result.state;
+    if (result.crossing) crossings.push({ fenceId: fence.id, crossing: result.crossing });
+  });
+
+  return { states: nextStates, crossings };
+};
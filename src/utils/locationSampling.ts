@@ -0,0 +1,176 @@
+// Adaptive location sampling shared by the runner tracking paths
+import * as Location from 'expo-location';
+import * as Battery from 'expo-battery';
+import { LatLng, distanceKm } from './geohash';
+
+// en_route: moving on an active job; idle: available with no job;
+// stationary: standing still (at a store, waiting), when timed fixes pause
+export type SamplingMode = 'en_route' | 'idle' | 'stationary';
+
+export interface SamplingContext {
+  onActiveJob: boolean;
+  stationaryForMs: number;
+  batteryLevel: number | null; // 0-1, null when unknown
+  charging: boolean;
+  lowPowerMode: boolean;
+}
+
+export interface SamplingProfile {
+  mode: SamplingMode;
+  accuracy: Location.Accuracy;
+  timeInterval: number; // ms
+  distanceInterval: number; // metres
+}
+
+type SamplingSettings = Omit<SamplingProfile, 'mode'>;
+
+export const SAMPLING_PROFILES: Record<SamplingMode, SamplingSettings> = {
+  en_route: { accuracy: Location.Accuracy.High, timeInterval: 10 * 1000, distanceInterval: 10 },
+  idle: { accuracy: Location.Accuracy.Balanced, timeInterval: 2 * 60 * 1000, distanceInterval: 100 },
+  // Moving off wakes sampling up again through the distance interval
+  stationary: { accuracy: Location.Accuracy.Balanced, timeInterval: 10 * 60 * 1000, distanceInterval: 40 },
+};
+
+// Used instead below LOW_BATTERY_LEVEL or in low power mode, unless charging
+export const BATTERY_SAVER_PROFILES: Record<SamplingMode, SamplingSettings> = {
+  en_route: { accuracy: Location.Accuracy.Balanced, timeInterval: 20 * 1000, distanceInterval: 25 },
+  idle: { accuracy: Location.Accuracy.Low, timeInterval: 5 * 60 * 1000, distanceInterval: 250 },
+  stationary: { accuracy: Location.Accuracy.Low, timeInterval: 15 * 60 * 1000, distanceInterval: 80 },
+};
+
+export const LOW_BATTERY_LEVEL = 0.2;
+
+// Staying within this radius for this long counts as stationary
+const STATIONARY_RADIUS_METERS = 30;
+const STATIONARY_AFTER_MS = 2 * 60 * 1000;
+
+// A fix reporting at least this speed ends a stationary spell straight away
+const MOVING_SPEED_MPS = 1;
+
+export const isBatterySaving = ({ batteryLevel, charging, lowPowerMode }: SamplingContext): boolean =>
+  !charging && (lowPowerMode || (batteryLevel !== null && batteryLevel < LOW_BATTERY_LEVEL));
+
+export const getSamplingMode = (context: SamplingContext): SamplingMode => {
+  if (context.stationaryForMs >= STATIONARY_AFTER_MS) return 'stationary';
+  return context.onActiveJob ? 'en_route' : 'idle';
+};
+
+/**
+ * How to sample for the runner's current situation. `enRouteIntervalMs`
+ * lets a caller sample less often than the default while en route.
+ */
+export const getSamplingProfile = (context: SamplingContext, enRouteIntervalMs?: number): SamplingProfile => {
+  const mode = getSamplingMode(context);
+  const settings = (isBatterySaving(context) ? BATTERY_SAVER_PROFILES : SAMPLING_PROFILES)[mode];
+  const timeInterval = mode === 'en_route' && enRouteIntervalMs
+    ? Math.max(enRouteIntervalMs, settings.timeInterval)
+    : settings.timeInterval;
+  return { ...settings, mode, timeInterval };
+};
+
+const sameProfile = (a: SamplingProfile | null, b: SamplingProfile) =>
+  !!a && a.accuracy === b.accuracy && a.timeInterval === b.timeInterval && a.distanceInterval === b.distanceInterval;
+
+export interface AdaptiveWatchOptions {
+  isOnActiveJob?: () => boolean;
+  enRouteIntervalMs?: number;
+  onProfileChange?: (profile: SamplingProfile) => void;
+}
+
+export interface AdaptiveLocationSubscription extends Location.LocationSubscription {
+  // Re-evaluate now, e.g. after the job changes status
+  refresh: () => void;
+}
+
+/**
+ * Watch the device location, re-subscribing with a new profile whenever
+ * speed, job state or battery call for one. Permission must already be
+ * granted.
+ */
+export const watchAdaptiveLocation = async (
+  onLocation: (location: Location.LocationObject) => void,
+  { isOnActiveJob = () => true, enRouteIntervalMs, onProfileChange }: AdaptiveWatchOptions = {}
+): Promise<AdaptiveLocationSubscription> => {
+  let watch: Location.LocationSubscription | null = null;
+  let profile: SamplingProfile | null = null;
+  let anchor: { point: LatLng; since: number } | null = null;
+  let power = { batteryLevel: null as number | null, charging: false, lowPowerMode: false };
+  let removed = false;
+  let applying: Promise<void> = Promise.resolve();
+  // Standing still may produce no fixes at all, so check back once the spell would count
+  let stillTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const context = (now: number): SamplingContext => ({
+    onActiveJob: isOnActiveJob(),
+    stationaryForMs: anchor ? now - anchor.since : 0,
+    ...power,
+  });
+
+  const handleLocation = (location: Location.LocationObject) => {
+    const point = { latitude: location.coords.latitude, longitude: location.coords.longitude };
+    const moving = (location.coords.speed ?? 0) >= MOVING_SPEED_MPS;
+    if (!anchor || moving || distanceKm(anchor.point, point) * 1000 > STATIONARY_RADIUS_METERS) {
+      anchor = { point, since: location.timestamp };
+      if (stillTimer) clearTimeout(stillTimer);
+      stillTimer = setTimeout(() => refresh(), STATIONARY_AFTER_MS);
+    }
+    onLocation(location);
+    refresh(location.timestamp);
+  };
+
+  // Swaps are chained so an older watch is always removed before the next starts
+  const refresh = (now: number = Date.now()) => {
+    applying = applying.then(async () => {
+      const next = getSamplingProfile(context(now), enRouteIntervalMs);
+      if (removed || sameProfile(profile, next)) return;
+
+      watch?.remove();
+      profile = next;
+      watch = await Location.watchPositionAsync(
+        { accuracy: next.accuracy, timeInterval: next.timeInterval, distanceInterval: next.distanceInterval },
+        handleLocation
+      );
+      if (removed) watch.remove();
+      onProfileChange?.(next);
+    }).catch((error) => console.error('Error updating location sampling:', error));
+  };
+
+  try {
+    const state = await Battery.getPowerStateAsync();
+    power = {
+      batteryLevel: state.batteryLevel >= 0 ? state.batteryLevel : null,
+      charging: state.batteryState === Battery.BatteryState.CHARGING || state.batteryState === Battery.BatteryState.FULL,
+      lowPowerMode: state.lowPowerMode,
+    };
+  } catch (error) {
+    console.warn('Battery state unavailable, sampling without it:', error);
+  }
+
+  const batterySubscriptions = [
+    Battery.addBatteryLevelListener(({ batteryLevel }) => {
+      power = { ...power, batteryLevel: batteryLevel >= 0 ? batteryLevel : null };
+      refresh();
+    }),
+    Battery.addBatteryStateListener(({ batteryState }) => {
+      power = { ...power, charging: batteryState === Battery.BatteryState.CHARGING || batteryState === Battery.BatteryState.FULL };
+      refresh();
+    }),
+    Battery.addLowPowerModeListener(({ lowPowerMode }) => {
+      power = { ...power, lowPowerMode };
+      refresh();
+    }),
+  ];
+
+  refresh();
+  await applying;
+
+  return {
+    remove: () => {
+      removed = true;
+      if (stillTimer) clearTimeout(stillTimer);
+      watch?.remove();
+      batterySubscriptions.forEach((subscription) => subscription.remove());
+    },
+    refresh: () => refresh(),
+  };
+};
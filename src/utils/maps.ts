@@ -1,6 +1,8 @@
 import { PRODUCTION_CONFIG } from '../config/production';
 import * as polyline from '@mapbox/polyline';
 import * as Location from 'expo-location';
+import { formatEta } from './eta';
+import { AdaptiveLocationSubscription, watchAdaptiveLocation } from './locationSampling';
 
 interface Location {
   latitude: number;
@@ -22,9 +24,10 @@ interface MapRegion {
 
 // Enhanced real-time location tracking
 export class RealTimeLocationTracker {
-  private locationSubscription: Location.LocationSubscription | null = null;
+  private locationSubscription: AdaptiveLocationSubscription | null = null;
   private isTracking = false;
-  private updateInterval = 10000; // 10 seconds
+  private updateInterval = 10000; // 10 seconds while en route; adapts otherwise
+  private onActiveJob = true;
   private onLocationUpdate?: (location: Location) => void;
 
   constructor(onLocationUpdate?: (location: Location) => void) {
@@ -53,12 +56,7 @@ export class RealTimeLocationTracker {
       }
 
       // Start watching location
-      this.locationSubscription = await Location.watchPositionAsync(
-        {
-          accuracy: Location.Accuracy.High,
-          timeInterval: this.updateInterval,
-          distanceInterval: 5, // Update every 5 meters
-        },
+      this.locationSubscription = await watchAdaptiveLocation(
         (newLocation) => {
           const location: Location = {
             latitude: newLocation.coords.latitude,
@@ -67,7 +65,8 @@ export class RealTimeLocationTracker {
           if (this.onLocationUpdate) {
             this.onLocationUpdate(location);
           }
-        }
+        },
+        { isOnActiveJob: () => this.onActiveJob, enRouteIntervalMs: this.updateInterval }
       );
 
       this.isTracking = true;
@@ -93,6 +92,12 @@ export class RealTimeLocationTracker {
   setUpdateInterval(interval: number) {
     this.updateInterval = interval;
   }
+
+  // Without an active job the tracker samples at the idle rate
+  setOnActiveJob(active: boolean) {
+    this.onActiveJob = active;
+    this.locationSubscription?.refresh();
+  }
 }
 
 // Enhanced directions with real-time traffic
@@ -202,15 +207,7 @@ export const calculateETA = (distanceKm: number, trafficFactor: number = 1.0): s
   const averageSpeedKmh = 15; // Average delivery speed in km/h
   const adjustedSpeed = averageSpeedKmh / trafficFactor;
   const timeHours = distanceKm / adjustedSpeed;
-  const timeMinutes = Math.round(timeHours * 60);
-
-  if (timeMinutes < 60) {
-    return `${timeMinutes} minutes`;
-  } else {
-    const hours = Math.floor(timeMinutes / 60);
-    const minutes = timeMinutes % 60;
-    return `${hours}h ${minutes}m`;
-  }
+  return formatEta(Math.round(timeHours * 60));
 };
 
 // Get nearby places (stores, restaurants, etc.)
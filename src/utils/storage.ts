@@ -7,6 +7,8 @@ const STORAGE_KEYS = {
   USER_CREDENTIALS: '@airrands_user_credentials',
   ONBOARDING_VIEWED: '@viewedOnboarding',
   USER_PREFERENCES: '@airrands_user_preferences',
+  CART: '@airrands_cart',
+  OFFLINE_QUEUE: '@airrands_offline_queue',
 } as const;
 
 // Check if we are on web and localStorage exists
@@ -182,6 +184,50 @@ export const getUserPreferences = async (): Promise<UserPreferences> => {
   }
 };
 
+// Shopping cart
+export const saveCartItems = async <T>(items: T[]): Promise<void> => {
+  try {
+    await safeStorage.setItem(STORAGE_KEYS.CART, JSON.stringify(items));
+  } catch (error) {
+    console.error('Error saving cart:', error);
+  }
+};
+
+export const getCartItems = async <T>(): Promise<T[]> => {
+  try {
+    const value = await safeStorage.getItem(STORAGE_KEYS.CART);
+    return value ? JSON.parse(value) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const clearCartItems = async (): Promise<void> => {
+  try {
+    await safeStorage.removeItem(STORAGE_KEYS.CART);
+  } catch (error) {
+    console.error('Error clearing cart:', error);
+  }
+};
+
+// Runner updates waiting for a connection
+export const saveOfflineQueue = async <T>(items: T[]): Promise<void> => {
+  try {
+    await safeStorage.setItem(STORAGE_KEYS.OFFLINE_QUEUE, JSON.stringify(items));
+  } catch (error) {
+    console.error('Error saving offline queue:', error);
+  }
+};
+
+export const getOfflineQueue = async <T>(): Promise<T[]> => {
+  try {
+    const value = await safeStorage.getItem(STORAGE_KEYS.OFFLINE_QUEUE);
+    return value ? JSON.parse(value) : [];
+  } catch {
+    return [];
+  }
+};
+
 // Clear all app data
 export const clearAllAppData = async (): Promise<void> => {
   try {
@@ -0,0 +1,274 @@
+import firebase from 'firebase/compat/app';
+import {
+  ChatMessage,
+  createMessageFeed,
+  getMessageStatus,
+  markMessagesAsDelivered,
+  markMessagesAsRead,
+  retryMessage,
+  sendMessage,
+} from '../src/services/chatService';
+import { clearFirestore, closeTestDb, describeEmulator, getTestDbAs } from './emulator';
+
+// The service talks to the emulator through the app's `db`, created on first
+// use and signed in as ME, a participant in every chat below
+jest.mock('../src/config/firebase', () => ({
+  get db() {
+    return require('./emulator').getTestDbAs('me');
+  },
+}));
+jest.mock('../src/services/presenceService', () => ({ getPresence: jest.fn() }));
+
+const ME = 'me';
+const OTHER = 'other';
+const THIRD = 'third';
+
+// Seeds what the other participants and the server would have written
+const owner = () => getTestDbAs('owner');
+
+// Resolves once `check` passes on the latest value, polling every 50ms
+const waitFor = async (check: () => boolean, timeoutMs = 10000) => {
+  const startedAt = Date.now();
+  while (!check()) {
+    if (Date.now() - startedAt > timeoutMs) throw new Error('Timed out waiting for the message feed');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+};
+
+describe('getMessageStatus', () => {
+  it('follows the single receiver of a direct message', () => {
+    expect(getMessageStatus({ read: false, deliveredAt: null })).toBe('sent');
+    expect(getMessageStatus({ read: false, deliveredAt: firebase.firestore.Timestamp.now() })).toBe('delivered');
+    expect(getMessageStatus({ read: true })).toBe('read');
+  });
+
+  it('waits for every receiver of a job chat message', () => {
+    expect(getMessageStatus({ read: false, undeliveredTo: [THIRD], unreadBy: [OTHER, THIRD] })).toBe('sent');
+    expect(getMessageStatus({ read: false, undeliveredTo: [], unreadBy: [THIRD] })).toBe('delivered');
+    expect(getMessageStatus({ read: false, undeliveredTo: [], unreadBy: [] })).toBe('read');
+  });
+
+  it('shows messages still on this device as sending or failed', () => {
+    expect(getMessageStatus({ read: false, unreadBy: [], pending: 'failed' })).toBe('failed');
+  });
+});
+
+describeEmulator('createMessageFeed', () => {
+  const messages = (chatId: string) => owner().collection('chats').doc(chatId).collection('messages');
+
+  // A chat with `count` messages from the other user, one second apart, oldest first
+  const addMessages = async (chatId: string, count: number) => {
+    const base = Date.now() - count * 1000;
+    const batch = owner().batch();
+    batch.set(owner().collection('chats').doc(chatId), { participants: [ME, OTHER] });
+    for (let i = 1; i <= count; i++) {
+      batch.set(messages(chatId).doc(`m${i}`), {
+        senderId: OTHER,
+        receiverId: ME,
+        content: `Message ${i}`,
+        type: 'text',
+        read: false,
+        timestamp: firebase.firestore.Timestamp.fromMillis(base + i * 1000),
+      });
+    }
+    await batch.commit();
+  };
+
+  // Every list of messages the feed hands out, newest last
+  const follow = (chatId: string, pageSize = 3) => {
+    const seen: ChatMessage[][] = [];
+    const feed = createMessageFeed(chatId, ME, (loaded) => {
+      seen.push(loaded);
+    }, pageSize);
+    const latest = () => seen[seen.length - 1] || [];
+    return { feed, seen, latest, ids: () => latest().map((message) => message.id) };
+  };
+
+  afterEach(clearFirestore);
+  afterAll(closeTestDb);
+
+  it('loads the newest page first and older pages back to the first message', async () => {
+    await addMessages('paged', 7);
+    const { feed, ids } = follow('paged');
+
+    try {
+      await waitFor(() => ids().length === 3);
+      expect(ids()).toEqual(['m5', 'm6', 'm7']);
+
+      await feed.loadOlder();
+      expect(ids()).toEqual(['m2', 'm3', 'm4', 'm5', 'm6', 'm7']);
+      expect(feed.hasOlder()).toBe(true);
+
+      await feed.loadOlder();
+      expect(ids()).toEqual(['m1', 'm2', 'm3', 'm4', 'm5', 'm6', 'm7']);
+      expect(feed.hasOlder()).toBe(false);
+    } finally {
+      feed.stop();
+    }
+  });
+
+  it('pages back exactly to the first message when it ends a page', async () => {
+    await addMessages('exact', 6);
+    const { feed, ids } = follow('exact');
+
+    try {
+      await waitFor(() => ids().length === 3);
+      expect(ids()).toEqual(['m4', 'm5', 'm6']);
+      expect(feed.hasOlder()).toBe(true);
+
+      await feed.loadOlder();
+      expect(ids()).toEqual(['m1', 'm2', 'm3', 'm4', 'm5', 'm6']);
+      // A full page cannot tell it was the last one
+      expect(feed.hasOlder()).toBe(true);
+
+      await feed.loadOlder();
+      expect(ids()).toEqual(['m1', 'm2', 'm3', 'm4', 'm5', 'm6']);
+      expect(feed.hasOlder()).toBe(false);
+
+      await feed.loadOlder();
+      expect(ids()).toEqual(['m1', 'm2', 'm3', 'm4', 'm5', 'm6']);
+    } finally {
+      feed.stop();
+    }
+  });
+
+  it('stops paging after a short page and keeps new messages live', async () => {
+    await addMessages('short', 4);
+    const { feed, ids } = follow('short');
+
+    try {
+      await waitFor(() => ids().length === 3);
+      await feed.loadOlder();
+      expect(ids()).toEqual(['m1', 'm2', 'm3', 'm4']);
+      expect(feed.hasOlder()).toBe(false);
+
+      await messages('short').doc('m5').set({
+        senderId: OTHER,
+        receiverId: ME,
+        content: 'Message 5',
+        type: 'text',
+        read: false,
+        timestamp: firebase.firestore.Timestamp.now(),
+      });
+      await waitFor(() => ids().includes('m5'));
+      expect(ids()).toEqual(['m1', 'm2', 'm3', 'm4', 'm5']);
+    } finally {
+      feed.stop();
+    }
+  });
+
+  it('only shows this user\'s own messages as sending', async () => {
+    await addMessages('pending', 1);
+    const { feed, seen, latest } = follow('pending');
+
+    try {
+      await waitFor(() => latest().length === 1);
+
+      // Marking the other user's message read leaves a pending local write on it
+      await getTestDbAs(ME).collection('chats').doc('pending').collection('messages').doc('m1').update({ read: true });
+      await waitFor(() => latest()[0]?.read === true);
+      seen.forEach((loaded) => loaded
+        .filter((message) => message.senderId === OTHER)
+        .forEach((message) => expect(message.pending).toBeUndefined()));
+    } finally {
+      feed.stop();
+    }
+  });
+});
+
+describeEmulator('sending messages', () => {
+  afterEach(clearFirestore);
+  afterAll(closeTestDb);
+
+  it('retries a failed send twice with backoff before marking it failed', async () => {
+    const errors = jest.spyOn(console, 'error').mockImplementation(() => {});
+    let latest: ChatMessage[] = [];
+    const feed = createMessageFeed('not-created-yet', ME, (loaded) => {
+      latest = loaded;
+    });
+
+    try {
+      // The chat document does not exist, so the batch's update of it fails
+      const startedAt = Date.now();
+      const messageId = sendMessage({
+        chatId: 'not-created-yet',
+        senderId: ME,
+        senderName: 'Me',
+        receiverIds: [OTHER],
+        content: 'Hello?',
+      });
+
+      await waitFor(() => latest.find((message) => message.id === messageId)?.pending === 'failed', 15000);
+      expect(errors.mock.calls.filter(([message]) => message === 'Error sending message:')).toHaveLength(3);
+      // Retried after 2s and then 4s
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(6000);
+
+      await owner().collection('chats').doc('not-created-yet').set({ participants: [ME, OTHER] });
+      retryMessage('not-created-yet', messageId);
+      await waitFor(() => {
+        const message = latest.find((candidate) => candidate.id === messageId);
+        return !!message && !message.pending;
+      });
+    } finally {
+      feed.stop();
+      errors.mockRestore();
+    }
+  }, 30000);
+});
+
+describeEmulator('marking job chat messages', () => {
+  const chatRef = () => owner().collection('chats').doc('job_order_1');
+  const message = async (id: string) => (await chatRef().collection('messages').doc(id).get()).data()!;
+
+  afterAll(closeTestDb);
+
+  beforeEach(async () => {
+    const sent = {
+      senderId: OTHER,
+      content: 'On my way',
+      type: 'text',
+      read: false,
+      deliveredAt: null,
+      readAt: null,
+      timestamp: firebase.firestore.Timestamp.now(),
+    };
+    const shared = { ...sent, receiverId: null, undeliveredTo: [ME, THIRD], unreadBy: [ME, THIRD] };
+    const batch = owner().batch();
+    batch.set(chatRef(), {
+      kind: 'job',
+      participants: [ME, OTHER, THIRD],
+      unreadCounts: { [ME]: 2, [OTHER]: 0, [THIRD]: 1 },
+      lastMessage: { ...shared, id: 'shared' },
+    });
+    batch.set(chatRef().collection('messages').doc('shared'), shared);
+    batch.set(chatRef().collection('messages').doc('direct'), { ...sent, receiverId: ME });
+    await batch.commit();
+  });
+
+  afterEach(clearFirestore);
+
+  it('crosses the user off as the message reaches them', async () => {
+    await markMessagesAsDelivered('job_order_1', ME);
+
+    expect(await message('shared')).toMatchObject({ undeliveredTo: [THIRD], unreadBy: [ME, THIRD] });
+    expect((await message('direct')).deliveredAt).not.toBeNull();
+    expect((await chatRef().get()).data()!.lastMessage.undeliveredTo).toEqual([THIRD]);
+  });
+
+  it('only shows a message as read once everyone has read it', async () => {
+    await markMessagesAsRead('job_order_1', ME);
+
+    const afterMe = await message('shared');
+    expect(afterMe).toMatchObject({ undeliveredTo: [THIRD], unreadBy: [THIRD] });
+    expect(getMessageStatus(afterMe as ChatMessage)).toBe('sent');
+    expect((await message('direct')).read).toBe(true);
+    expect((await chatRef().get()).data()!).toMatchObject({
+      unreadCounts: { [ME]: 0, [THIRD]: 1 },
+      lastMessage: { unreadBy: [THIRD] },
+    });
+
+    await markMessagesAsRead('job_order_1', THIRD);
+
+    expect(getMessageStatus((await message('shared')) as ChatMessage)).toBe('read');
+  });
+});
@@ -0,0 +1,63 @@
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/auth';
+import 'firebase/compat/firestore';
+
+// Matches the project passed to the emulator in `npm run test:emulator`
+export const PROJECT_ID = 'demo-airrands';
+
+export const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+const authEmulatorHost = process.env.FIREBASE_AUTH_EMULATOR_HOST || 'localhost:9099';
+
+// Suites that read and write Firestore are skipped outside the emulator
+export const describeEmulator = emulatorHost ? describe : describe.skip;
+
+let testDb: firebase.firestore.Firestore | null = null;
+
+// A client SDK connection to the emulator, like the one the app makes
+export const getTestDb = () => {
+  if (!testDb) {
+    const [host, port] = (emulatorHost || 'localhost:8080').split(':');
+    const app = firebase.initializeApp({ projectId: PROJECT_ID, apiKey: 'test' }, 'test');
+    app.auth().useEmulator(`http://${authEmulatorHost}`);
+    testDb = app.firestore();
+    testDb.useEmulator(host, Number(port));
+  }
+  return testDb;
+};
+
+// Connections acting as one user without signing in, or as 'owner' to seed
+// data that firestore.rules would turn away
+const userDbs = new Map<string, firebase.firestore.Firestore>();
+
+export const getTestDbAs = (uid: string) => {
+  let userDb = userDbs.get(uid);
+  if (!userDb) {
+    const [host, port] = (emulatorHost || 'localhost:8080').split(':');
+    userDb = firebase.initializeApp({ projectId: PROJECT_ID, apiKey: 'test' }, `test-${uid}`).firestore();
+    userDb.useEmulator(host, Number(port), { mockUserToken: uid === 'owner' ? 'owner' : { user_id: uid } });
+    userDbs.set(uid, userDb);
+  }
+  return userDb;
+};
+
+// firestore.rules only let signed in users in, so suites sign in before touching data
+export const signInTestUser = async () => {
+  await getTestDb().app.auth().signInAnonymously();
+};
+
+export const clearFirestore = async () => {
+  if (!emulatorHost) return;
+  await fetch(`http://${emulatorHost}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`, { method: 'DELETE' });
+};
+
+// Stop listeners and the connection so jest can exit
+export const closeTestDb = async () => {
+  const open = [...(testDb ? [testDb] : []), ...userDbs.values()];
+  testDb = null;
+  userDbs.clear();
+  await Promise.all(open.map(async (openDb) => {
+    await openDb.terminate();
+    await openDb.app.delete();
+  }));
+};
@@ -0,0 +1,153 @@
+import { clearFirestore, closeTestDb, describeEmulator, getTestDbAs } from './emulator';
+
+// What a client gets back when firestore.rules turn a request away
+const denied = { code: 'permission-denied' };
+
+describeEmulator('firestore.rules', () => {
+  const owner = () => getTestDbAs('owner');
+  const as = (uid: string) => getTestDbAs(uid);
+
+  afterEach(clearFirestore);
+  afterAll(closeTestDb);
+
+  describe('admins', () => {
+    it('cannot be granted from a client', async () => {
+      await expect(as('user-1').collection('admins').doc('user-1').set({ role: 'admin' })).rejects.toMatchObject(denied);
+    });
+
+    it('lets each admin see only their own record', async () => {
+      await owner().collection('admins').doc('admin-1').set({ role: 'admin' });
+
+      await expect(as('admin-1').collection('admins').doc('admin-1').get()).resolves.toBeDefined();
+      await expect(as('user-1').collection('admins').doc('admin-1').get()).rejects.toMatchObject(denied);
+      await expect(as('admin-1').collection('admins').doc('admin-1').delete()).rejects.toMatchObject(denied);
+    });
+  });
+
+  describe('handoffCodes', () => {
+    it('keeps the code and its attempts counter away from every client', async () => {
+      const codeId = 'errand_errand-1';
+      await owner().collection('handoffCodes').doc(codeId).set({ code: '1234', buyerId: 'buyer-1', attempts: 5 });
+
+      await expect(as('runner-1').collection('handoffCodes').doc(codeId).get()).rejects.toMatchObject(denied);
+      await expect(as('buyer-1').collection('handoffCodes').doc(codeId).get()).rejects.toMatchObject(denied);
+      await expect(as('runner-1').collection('handoffCodes').doc(codeId).update({ attempts: 0 })).rejects.toMatchObject(denied);
+    });
+  });
+
+  describe('orders and errands', () => {
+    const order = () => as('buyer-1').collection('orders').doc('order-1');
+
+    beforeEach(() => owner().collection('orders').doc('order-1').set({
+      buyerId: 'buyer-1',
+      status: 'delivered',
+      disputeId: 'dispute-1',
+      disputeStatus: 'open',
+      escrow: { status: 'held' },
+    }));
+
+    it.each([
+      ['disputeStatus', 'resolved'],
+      ['disputeId', null],
+      ['disputeOutcome', 'buyer'],
+      ['refundedAmount', 0],
+      ['refundPendingAmount', 0],
+      ['paid', true],
+      ['paymentStatus', 'paid'],
+      ['totalAmount', 1],
+      ['fees', { subtotal: 1 }],
+    ])('keeps clients from writing %s', async (field, value) => {
+      await expect(order().update({ [field]: value })).rejects.toMatchObject(denied);
+    });
+
+    it('still lets clients write their own fields', async () => {
+      await expect(order().update({ deliveryInstructions: 'Leave at the gate' })).resolves.toBeUndefined();
+    });
+
+    it('leaves creating jobs to the callables that price them', async () => {
+      await expect(as('buyer-1').collection('errands').doc('errand-1').set({ userId: 'buyer-1', status: 'pending', title: 'Groceries' }))
+        .rejects.toMatchObject(denied);
+      await expect(as('buyer-1').collection('orders').doc('order-2').set({ buyerId: 'buyer-1', status: 'confirmed', totalAmount: 1 }))
+        .rejects.toMatchObject(denied);
+    });
+  });
+
+  describe('chats', () => {
+    const chat = (uid: string) => as(uid).collection('chats').doc('job_order_order-1');
+    const message = (uid: string) => ({ senderId: uid, receiverId: null, content: 'On my way', type: 'text', read: false });
+
+    beforeEach(() => owner().collection('chats').doc('job_order_order-1').set({
+      kind: 'job',
+      jobType: 'order',
+      jobId: 'order-1',
+      participants: ['buyer-1', 'seller-1', 'runner-1'],
+      archived: false,
+    }));
+
+    it('only lets the job\'s participants post, as themselves', async () => {
+      await expect(chat('runner-1').collection('messages').doc('m1').set(message('runner-1'))).resolves.toBeUndefined();
+      await expect(chat('runner-2').collection('messages').doc('m2').set(message('runner-2'))).rejects.toMatchObject(denied);
+      await expect(chat('runner-1').collection('messages').doc('m3').set(message('buyer-1'))).rejects.toMatchObject(denied);
+      await expect(chat('runner-2').update({ lastMessage: message('runner-2') })).rejects.toMatchObject(denied);
+    });
+
+    it('turns away new messages once the chat is archived', async () => {
+      await owner().collection('chats').doc('job_order_order-1').update({ archived: true });
+
+      await expect(chat('buyer-1').collection('messages').doc('m1').set(message('buyer-1'))).rejects.toMatchObject(denied);
+      await expect(chat('buyer-1').update({ archived: false })).rejects.toMatchObject(denied);
+    });
+
+    it('keeps participants and archiving to the server', async () => {
+      await expect(chat('buyer-1').update({ participants: ['buyer-1', 'runner-2'] })).rejects.toMatchObject(denied);
+      await expect(chat('buyer-1').delete()).rejects.toMatchObject(denied);
+      await expect(as('runner-2').collection('chats').doc('job_order_order-2').set({
+        kind: 'job',
+        participants: ['runner-2', 'buyer-1'],
+      })).rejects.toMatchObject(denied);
+    });
+
+    it('lets receivers mark messages read but not rewrite them', async () => {
+      await owner().collection('chats').doc('job_order_order-1').collection('messages').doc('m1')
+        .set({ ...message('runner-1'), unreadBy: ['buyer-1', 'seller-1'] });
+      const sent = chat('buyer-1').collection('messages').doc('m1');
+
+      await expect(sent.update({ unreadBy: ['seller-1'] })).resolves.toBeUndefined();
+      await expect(sent.update({ content: 'Never mind' })).rejects.toMatchObject(denied);
+    });
+  });
+
+  describe('ledgerEntries and wallets', () => {
+    const entry = { userId: 'runner-1', account: 'user:runner-1', direction: 'credit', amount: 5000 };
+
+    beforeEach(async () => {
+      await Promise.all([
+        owner().collection('ledgerEntries').doc('posting_0').set(entry),
+        owner().collection('wallets').doc('runner-1').set({ userId: 'runner-1', balance: 5000 }),
+        owner().collection('wallets').doc('runner-1').collection('appliedEntries').doc('posting_0').set({ amount: 5000 }),
+        owner().collection('admins').doc('admin-1').set({ role: 'admin' }),
+      ]);
+    });
+
+    it('turns away entries and balances written by clients', async () => {
+      await expect(as('runner-1').collection('ledgerEntries').doc('forged_0').set({ ...entry, amount: 1000000 }))
+        .rejects.toMatchObject(denied);
+      await expect(as('runner-1').collection('wallets').doc('runner-1').update({ balance: 1000000 }))
+        .rejects.toMatchObject(denied);
+      await expect(as('runner-1').collection('wallets').doc('runner-1').collection('appliedEntries').doc('posting_0').delete())
+        .rejects.toMatchObject(denied);
+    });
+
+    it('shows a wallet and its entries to the owner and admins only', async () => {
+      const ownEntries = (uid: string) => as(uid).collection('ledgerEntries').where('userId', '==', 'runner-1').get();
+
+      await expect(ownEntries('runner-1')).resolves.toMatchObject({ size: 1 });
+      await expect(ownEntries('admin-1')).resolves.toMatchObject({ size: 1 });
+      await expect(ownEntries('buyer-1')).rejects.toMatchObject(denied);
+      await expect(as('runner-1').collection('wallets').doc('runner-1').get()).resolves.toBeDefined();
+      await expect(as('buyer-1').collection('wallets').doc('runner-1').get()).rejects.toMatchObject(denied);
+      await expect(as('runner-1').collection('wallets').doc('runner-1').collection('appliedEntries').get())
+        .rejects.toMatchObject(denied);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  GeoResult,
+  geohashFields,
+  getDocumentLocation,
+  queryWithinBoundingBox,
+  queryWithinRadius,
+  subscribeWithinRadius,
+} from '../src/services/geoQueryService';
+import { clearFirestore, closeTestDb, describeEmulator, getTestDb, signInTestUser } from './emulator';
+
+const center = { latitude: 6.5244, longitude: 3.3792 };
+
+// 0.01° of latitude is about 1.1 km
+const near = { latitude: 6.5344, longitude: 3.3792 };
+const mid = { latitude: 6.5694, longitude: 3.3792 };
+const far = { latitude: 6.8, longitude: 3.3792 };
+
+describe('getDocumentLocation', () => {
+  it('prefers the live location over flat coordinates', () => {
+    expect(getDocumentLocation({ currentLocation: near, ...mid })).toEqual(near);
+    expect(getDocumentLocation(mid)).toEqual(mid);
+  });
+
+  it('returns null without usable coordinates', () => {
+    expect(getDocumentLocation({})).toBeNull();
+    expect(getDocumentLocation({ latitude: 'x', longitude: 3 })).toBeNull();
+  });
+});
+
+describeEmulator('geohash queries', () => {
+  const users = () => getTestDb().collection('users');
+  const sellers = () => users().where('role', '==', 'seller');
+
+  const addUser = (id: string, role: string, location: { latitude: number; longitude: number }) =>
+    users().doc(id).set({ role, currentLocation: location, ...geohashFields(location.latitude, location.longitude) });
+
+  beforeEach(async () => {
+    await clearFirestore();
+    await Promise.all([
+      addUser('seller-near', 'seller', near),
+      addUser('seller-mid', 'seller', mid),
+      addUser('seller-far', 'seller', far),
+      addUser('runner-near', 'runner', near),
+      users().doc('seller-unplaced').set({ role: 'seller' }),
+    ]);
+  });
+
+  beforeAll(signInTestUser);
+  afterAll(closeTestDb);
+
+  it('returns the matches within the radius, closest first', async () => {
+    const results = await queryWithinRadius(sellers(), center, 10);
+
+    expect(results.map((result) => result.id)).toEqual(['seller-near', 'seller-mid']);
+    expect(results[0].distanceKm).toBeLessThan(results[1].distanceKm);
+    expect(results[1].distanceKm).toBeLessThanOrEqual(10);
+  });
+
+  it('only returns the matches inside a bounding box', async () => {
+    const results = await queryWithinBoundingBox(sellers(), {
+      north: 6.55,
+      south: 6.5,
+      east: 3.4,
+      west: 3.35,
+    });
+
+    expect(results.map((result) => result.id)).toEqual(['seller-near']);
+  });
+
+  it('keeps live results up to date as documents move', async () => {
+    const updates: GeoResult[][] = [];
+    let resolveNext: (() => void) | null = null;
+    const nextUpdate = () => new Promise<void>((resolve) => { resolveNext = resolve; });
+
+    let pending = nextUpdate();
+    const unsubscribe = subscribeWithinRadius(sellers(), center, 10, (results) => {
+      updates.push(results);
+      resolveNext?.();
+    });
+
+    try {
+      await pending;
+      expect(updates[updates.length - 1].map((result) => result.id)).toEqual(['seller-near', 'seller-mid']);
+
+      pending = nextUpdate();
+      await users().doc('seller-far').update({ currentLocation: center, ...geohashFields(center.latitude, center.longitude) });
+      await pending;
+      expect(updates[updates.length - 1].map((result) => result.id)).toEqual(['seller-far', 'seller-near', 'seller-mid']);
+    } finally {
+      unsubscribe();
+    }
+  });
+});
@@ -0,0 +1,22 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+// Files the Cloud Functions package keeps its own copy of, app path first
+const MIRRORS: Array<[string, string]> = [
+  ['src/constants/feeRules.ts', 'functions/src/feeRules.ts'],
+  ['src/constants/orderLifecycle.ts', 'functions/src/orderLifecycle.ts'],
+  ['src/utils/geohash.ts', 'functions/src/geohash.ts'],
+  ['src/utils/recurrence.ts', 'functions/src/recurrence.ts'],
+];
+
+// Each copy opens with its own comment pointing at the other
+const withoutHeader = (path: string) => {
+  const lines = readFileSync(join(__dirname, '..', path), 'utf8').split('\n');
+  return lines.slice(lines.findIndex((line) => !line.startsWith('//'))).join('\n');
+};
+
+describe('mirrored source files', () => {
+  it.each(MIRRORS)('%s matches %s', (app, functions) => {
+    expect(withoutHeader(functions)).toBe(withoutHeader(app));
+  });
+});